@@ -10,6 +10,7 @@ import HomePage from "@/pages/home";
 import Calculator from "@/pages/calculator";
 import CalculatorSRL from "@/pages/calculator-srl";
 import CalculatorIndividual from "@/pages/calculator-individual";
+import Comparison from "@/pages/comparison";
 import Leads from "@/pages/leads";
 import NotFound from "@/pages/not-found";
 
@@ -22,6 +23,7 @@ function AuthenticatedApp() {
           <Route path="/calculator" component={Calculator} />
           <Route path="/calculator-srl" component={CalculatorSRL} />
           <Route path="/calculator-individual" component={CalculatorIndividual} />
+          <Route path="/comparison" component={Comparison} />
           <Route path="/leads" component={Leads} />
           <Route component={NotFound} />
         </Switch>
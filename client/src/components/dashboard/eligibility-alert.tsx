@@ -0,0 +1,53 @@
+import { useQuery } from "@tanstack/react-query";
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { MONTHS } from "@/lib/constants";
+
+export default function EligibilityAlert() {
+  const { data: stats } = useQuery<any>({
+    queryKey: ["/api/dashboard/stats"],
+  });
+
+  const warnings = stats?.eligibilityWarnings || [];
+
+  if (warnings.length === 0) {
+    return null;
+  }
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('it-IT', {
+      style: 'currency',
+      currency: 'EUR'
+    }).format(amount);
+  };
+
+  return (
+    <div className="mb-8 space-y-4">
+      {warnings.map((warning: any) => (
+        <Alert
+          key={warning.businessId}
+          variant={warning.status === 'EXIT_NEXT_YEAR' ? 'default' : 'destructive'}
+        >
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>
+            {warning.status === 'EXIT_IMMEDIATE'
+              ? `${warning.businessName}: superata la soglia di uscita immediata dal forfettario`
+              : `${warning.businessName}: requisiti del forfettario non rispettati`}
+          </AlertTitle>
+          <AlertDescription>
+            <p>
+              Fatturato dell'anno: {formatCurrency(warning.revenue)}
+              {warning.crossedInMonth && ` (soglia superata a ${MONTHS[warning.crossedInMonth - 1]})`}.
+              {warning.lostFromYear && ` Regime non applicabile dal ${warning.lostFromYear}.`}
+            </p>
+            <ul className="mt-2 list-disc pl-5">
+              {warning.reasons.map((reason: any) => (
+                <li key={reason.code}>{reason.message}</li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      ))}
+    </div>
+  );
+}
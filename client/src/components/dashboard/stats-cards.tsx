@@ -4,7 +4,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 
 export default function StatsCards() {
-  const { data: stats, isLoading } = useQuery({
+  const { data: stats, isLoading } = useQuery<any>({
     queryKey: ["/api/dashboard/stats"],
   });
 
@@ -53,6 +53,11 @@ export default function StatsCards() {
             <dd className="mt-1 text-3xl font-semibold tracking-tight text-gray-900">
               {formatCurrency(stats?.taxesDue || 0)}
             </dd>
+            {stats?.latePaymentCosts > 0 && (
+              <p className="mt-1 text-xs text-red-600">
+                Ravvedimenti per ritardi: {formatCurrency(stats.latePaymentCosts)}
+              </p>
+            )}
             <div className="absolute bottom-0 right-0 p-4">
               <Receipt className="h-6 w-6 text-amber-200" />
             </div>
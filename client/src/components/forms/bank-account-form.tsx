@@ -0,0 +1,154 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+const bankAccountSchema = z.object({
+  name: z.string().trim().min(1, "Indica il nome del conto"),
+  iban: z.string().optional(),
+  openingBalance: z.number(),
+  openingDate: z.string().optional(),
+});
+
+type BankAccountForm = z.infer<typeof bankAccountSchema>;
+
+interface BankAccountFormProps {
+  businessId: string;
+  account?: any;
+  onSuccess: () => void;
+}
+
+export default function BankAccountForm({ businessId, account, onSuccess }: BankAccountFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<BankAccountForm>({
+    resolver: zodResolver(bankAccountSchema),
+    defaultValues: {
+      name: account?.name || "",
+      iban: account?.iban || "",
+      openingBalance: account?.openingBalance ?? 0,
+      openingDate: account?.openingDate || "",
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: BankAccountForm) => {
+      const body = {
+        ...data,
+        iban: data.iban || null,
+        openingDate: data.openingDate || null,
+      };
+      const response = account
+        ? await apiRequest("PUT", `/api/bank-accounts/${account.id}`, body)
+        : await apiRequest("POST", `/api/businesses/${businessId}/bank-accounts`, body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/businesses/${businessId}/bank-accounts`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses"] });
+      toast({
+        title: account ? "Conto aggiornato" : "Conto registrato",
+        description: "Il saldo dell'attività è stato ricalcolato",
+      });
+      onSuccess();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Errore",
+        description: error.message || "Errore durante il salvataggio del conto",
+      });
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-6">
+        <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Nome del conto</FormLabel>
+                <FormControl>
+                  <Input placeholder="es: Conto aziendale" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="iban"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>IBAN (opzionale)</FormLabel>
+                <FormControl>
+                  <Input placeholder="IT60X0542811101000000123456" {...field} />
+                </FormControl>
+                <FormDescription>
+                  Se indicato, gli estratti conto di altri conti vengono rifiutati
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="openingBalance"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Saldo iniziale (€)</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    {...field}
+                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                  />
+                </FormControl>
+                <FormDescription>
+                  Con CAMT.053 e CBI lo prende il primo estratto importato
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="openingDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Data del saldo iniziale (opzionale)</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormDescription>
+                  I movimenti precedenti non contano nel saldo
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveMutation.isPending} className="w-full sm:w-auto">
+            {saveMutation.isPending ? "Salvataggio..." : account ? "Aggiorna Conto" : "Registra Conto"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -22,8 +22,29 @@ const businessSchema = z.object({
   contributionReduction: z.string().default("NONE"),
   hasOtherCoverage: z.boolean().default(false),
   currentBalance: z.number().min(0, "Il saldo deve essere positivo").default(0),
+  vatNumber: z.string().regex(/^(\d{11})?$/, "La partita IVA deve avere 11 cifre").optional(),
+  fiscalCode: z.string().optional(),
+  address: z.string().optional(),
+  postalCode: z.string().regex(/^(\d{5})?$/, "Il CAP deve avere 5 cifre").optional(),
+  city: z.string().optional(),
+  province: z.string().regex(/^([A-Z]{2})?$/, "Sigla provincia di 2 lettere maiuscole").optional(),
+  iban: z.string().optional(),
+  invoiceNumberFormat: z.string().regex(/^(.*\{n(:\d)?\}.*)?$/, "Il formato deve contenere {n}").optional(),
 });
 
+// Dati del cedente riportati nella fattura elettronica
+const INVOICING_FIELDS = [
+  { name: "vatNumber", label: "Partita IVA", placeholder: "01234567890" },
+  { name: "fiscalCode", label: "Codice Fiscale", placeholder: "RSSMRA80A01H501U" },
+  { name: "address", label: "Indirizzo", placeholder: "Via Roma 1" },
+  { name: "postalCode", label: "CAP", placeholder: "00100" },
+  { name: "city", label: "Comune", placeholder: "Roma" },
+  { name: "province", label: "Provincia", placeholder: "RM" },
+  { name: "iban", label: "IBAN", placeholder: "IT60X0542811101000000123456" },
+  // {n} progressivo ({n:3} su tre cifre), {series} sezionale, {year} anno
+  { name: "invoiceNumberFormat", label: "Formato numero fattura", placeholder: "{n}/{series}" },
+] as const;
+
 type BusinessForm = z.infer<typeof businessSchema>;
 
 interface BusinessFormProps {
@@ -58,6 +79,14 @@ export default function BusinessForm({ business, onSuccess }: BusinessFormProps)
       contributionReduction: business.contributionReduction || "NONE",
       hasOtherCoverage: business.hasOtherCoverage || false,
       currentBalance: parseFloat(business.currentBalance || "0"),
+      vatNumber: business.vatNumber || "",
+      fiscalCode: business.fiscalCode || "",
+      address: business.address || "",
+      postalCode: business.postalCode || "",
+      city: business.city || "",
+      province: business.province || "",
+      iban: business.iban || "",
+      invoiceNumberFormat: business.invoiceNumberFormat || "",
     } : {
       businessName: "",
       macroCategory: "",
@@ -68,6 +97,14 @@ export default function BusinessForm({ business, onSuccess }: BusinessFormProps)
       contributionReduction: "NONE",
       hasOtherCoverage: false,
       currentBalance: 0,
+      vatNumber: "",
+      fiscalCode: "",
+      address: "",
+      postalCode: "",
+      city: "",
+      province: "",
+      iban: "",
+      invoiceNumberFormat: "",
     },
   });
 
@@ -79,7 +116,8 @@ export default function BusinessForm({ business, onSuccess }: BusinessFormProps)
       // Convert currentBalance to string for backend
       const formattedData = {
         ...data,
-        currentBalance: data.currentBalance.toString()
+        currentBalance: data.currentBalance.toString(),
+        invoiceNumberFormat: data.invoiceNumberFormat || null,
       };
 
       const response = await apiRequest(method, url, formattedData);
@@ -285,13 +323,34 @@ export default function BusinessForm({ business, onSuccess }: BusinessFormProps)
                   />
                 </FormControl>
                 <FormDescription>
-                  L'importo attualmente accantonato per questa attività
+                  L'importo attualmente accantonato per questa attività. Con un conto corrente registrato si aggiorna da solo con i movimenti importati
                 </FormDescription>
                 <FormMessage />
               </FormItem>
             )}
           />
 
+          <div className="sm:col-span-2">
+            <h3 className="text-sm font-medium text-gray-900">Dati per la fattura elettronica</h3>
+          </div>
+
+          {INVOICING_FIELDS.map(({ name, label, placeholder }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{label}</FormLabel>
+                  <FormControl>
+                    <Input placeholder={placeholder} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+
           <div className="sm:col-span-2 space-y-4">
             <FormField
               control={form.control}
@@ -0,0 +1,286 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { EXPENSE_CATEGORIES, EXPENSE_CATEGORY_VALUES, type ExpenseCategory } from "@shared/lib/expenses";
+
+const percentage = z.number().min(0, "Minimo 0%").max(100, "Massimo 100%");
+
+const expenseSchema = z.object({
+  supplierName: z.string().trim().min(1, "Indica il fornitore"),
+  supplierVatNumber: z.string().optional(),
+  number: z.string().optional(),
+  date: z.string().min(1, "Indica la data del documento"),
+  description: z.string().optional(),
+  category: z.enum(EXPENSE_CATEGORY_VALUES),
+  amount: z.number().min(0.01, "L'imponibile deve essere superiore a zero"),
+  vatAmount: z.number().min(0, "L'IVA non può essere negativa"),
+  incomeTaxDeductibility: percentage,
+  irapDeductibility: percentage,
+  vatDeductibility: percentage,
+});
+
+type ExpenseForm = z.infer<typeof expenseSchema>;
+
+interface ExpenseFormProps {
+  businessId: string;
+  expense?: any;
+  onSuccess: () => void;
+}
+
+const PERCENTAGE_FIELDS = [
+  { name: "incomeTaxDeductibility", label: "Deducibile IRPEF/IRES (%)" },
+  { name: "irapDeductibility", label: "Deducibile IRAP (%)" },
+  { name: "vatDeductibility", label: "IVA detraibile (%)" },
+] as const;
+
+export default function ExpenseForm({ businessId, expense, onSuccess }: ExpenseFormProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const form = useForm<ExpenseForm>({
+    resolver: zodResolver(expenseSchema),
+    defaultValues: expense ? {
+      supplierName: expense.supplierName,
+      supplierVatNumber: expense.supplierVatNumber || "",
+      number: expense.number || "",
+      date: expense.date,
+      description: expense.description || "",
+      category: expense.category,
+      amount: expense.amount,
+      vatAmount: expense.vatAmount || 0,
+      incomeTaxDeductibility: expense.incomeTaxDeductibility,
+      irapDeductibility: expense.irapDeductibility,
+      vatDeductibility: expense.vatDeductibility,
+    } : {
+      supplierName: "",
+      supplierVatNumber: "",
+      number: "",
+      date: new Date().toISOString().slice(0, 10),
+      description: "",
+      category: "SERVICES",
+      amount: 0,
+      vatAmount: 0,
+      incomeTaxDeductibility: EXPENSE_CATEGORIES.SERVICES.incomeTaxDeductibility,
+      irapDeductibility: EXPENSE_CATEGORIES.SERVICES.irapDeductibility,
+      vatDeductibility: EXPENSE_CATEGORIES.SERVICES.vatDeductibility,
+    },
+  });
+
+  // La categoria propone le sue percentuali, che restano modificabili
+  const handleCategoryChange = (category: ExpenseCategory) => {
+    const defaults = EXPENSE_CATEGORIES[category];
+    form.setValue("category", category);
+    form.setValue("incomeTaxDeductibility", defaults.incomeTaxDeductibility);
+    form.setValue("irapDeductibility", defaults.irapDeductibility);
+    form.setValue("vatDeductibility", defaults.vatDeductibility);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ExpenseForm) => {
+      const body = {
+        ...data,
+        supplierVatNumber: data.supplierVatNumber || null,
+        number: data.number || null,
+        description: data.description || null,
+      };
+      const response = expense
+        ? await apiRequest("PUT", `/api/expenses/${expense.id}`, body)
+        : await apiRequest("POST", `/api/businesses/${businessId}/expenses`, body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/businesses/${businessId}/expenses`] });
+      toast({
+        title: expense ? "Spesa aggiornata" : "Spesa registrata",
+        description: expense ? "La spesa è stata aggiornata con successo" : "La spesa è stata registrata nel registro acquisti",
+      });
+      onSuccess();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Errore",
+        description: error.message || "Errore durante il salvataggio della spesa",
+      });
+    },
+  });
+
+  const amountInput = (field: any) => (
+    <Input
+      type="number"
+      step="0.01"
+      {...field}
+      onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+    />
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-6">
+        <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="supplierName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Fornitore</FormLabel>
+                <FormControl>
+                  <Input placeholder="Ragione sociale" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="supplierVatNumber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Partita IVA fornitore (opzionale)</FormLabel>
+                <FormControl>
+                  <Input placeholder="01234567890" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="number"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Numero documento (opzionale)</FormLabel>
+                <FormControl>
+                  <Input {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="date"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Data documento</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="sm:col-span-2">
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Categoria</FormLabel>
+                  <Select onValueChange={(value) => handleCategoryChange(value as ExpenseCategory)} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {EXPENSE_CATEGORY_VALUES.map((category) => (
+                        <SelectItem key={category} value={category}>
+                          {EXPENSE_CATEGORIES[category].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    La categoria imposta le percentuali di deducibilità previste dalla normativa
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <FormField
+            control={form.control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Imponibile (€)</FormLabel>
+                <FormControl>{amountInput(field)}</FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="vatAmount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>IVA (€)</FormLabel>
+                <FormControl>{amountInput(field)}</FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {PERCENTAGE_FIELDS.map(({ name, label }) => (
+            <FormField
+              key={name}
+              control={form.control}
+              name={name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{label}</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="1"
+                      {...field}
+                      onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+
+          <div className="sm:col-span-2">
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Descrizione (opzionale)</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={saveMutation.isPending} className="w-full sm:w-auto">
+            {saveMutation.isPending ? "Salvataggio..." : expense ? "Aggiorna Spesa" : "Registra Spesa"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
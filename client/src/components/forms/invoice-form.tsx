@@ -11,6 +11,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { MONTHS } from "@/lib/constants";
+import { isReverseChargeNature, VAT_NATURE_CODES, VAT_TREATMENT_LABELS, VAT_TREATMENTS } from "@shared/lib/vat-treatment";
 
 const invoiceSchema = z.object({
   businessId: z.string().min(1, "Seleziona un'attività"),
@@ -18,6 +19,15 @@ const invoiceSchema = z.object({
   month: z.number().int().min(1).max(12),
   amount: z.number().min(0.01, "L'importo deve essere superiore a zero"),
   description: z.string().optional(),
+  issueDate: z.string().optional(),
+  paymentDueDate: z.string().optional(),
+  collectedDate: z.string().optional(), // Incasso totale, rilevante per il forfettario (criterio di cassa)
+  series: z.string().regex(/^[A-Za-z0-9]{0,10}$/, "Solo lettere e numeri").optional(), // Sezionale della numerazione
+  vatTreatment: z.enum(VAT_TREATMENTS),
+  vatNature: z.string().optional(), // Natura per inversione contabile ed esenzione
+}).refine(data => data.vatTreatment !== 'EXEMPT' || !!data.vatNature, {
+  message: "Indica la natura dell'operazione esente",
+  path: ['vatNature'],
 });
 
 type InvoiceForm = z.infer<typeof invoiceSchema>;
@@ -43,15 +53,56 @@ export default function InvoiceForm({ invoice, onSuccess }: InvoiceFormProps) {
       month: invoice.month,
       amount: parseFloat(invoice.amount),
       description: invoice.description || "",
+      issueDate: invoice.issueDate || "",
+      paymentDueDate: invoice.paymentDueDate || "",
+      collectedDate: invoice.collectionStatus === 'PAID' ? invoice.payments?.at(-1)?.date || "" : "",
+      vatTreatment: invoice.vatTreatment || 'STANDARD',
+      vatNature: invoice.vatNature || "",
     } : {
       businessId: "",
       year: new Date().getFullYear(),
       month: new Date().getMonth() + 1,
       amount: 0,
       description: "",
+      issueDate: "",
+      paymentDueDate: "",
+      collectedDate: "",
+      series: "",
+      vatTreatment: 'STANDARD',
+      vatNature: "",
     },
   });
 
+  const [businessId, year, series, vatTreatment] = form.watch(["businessId", "year", "series", "vatTreatment"]);
+
+  // I forfettari fatturano solo senza IVA: il trattamento vale per ordinario e SRL
+  const selectedBusiness = (businesses as any[] | undefined)?.find((business: any) => business.id.toString() === businessId);
+  const allowsVatTreatments = !!selectedBusiness && (selectedBusiness.fiscalRegime || 'RF19') !== 'RF19';
+  const natureOptions = Object.entries(VAT_NATURE_CODES)
+    .filter(([code]) => isReverseChargeNature(code) === (vatTreatment === 'REVERSE_CHARGE'));
+
+  // Il numero viene assegnato alla registrazione: qui se ne mostra l'anteprima
+  const { data: nextNumber } = useQuery<any>({
+    queryKey: [`/api/businesses/${businessId}/invoice-numbering/next?year=${year}&series=${encodeURIComponent(series || "")}`],
+    enabled: !invoice && !!businessId,
+  });
+
+  // La data di incasso salda la fattura: gli incassi parziali già registrati restano invariati
+  const collectionFields = (data: InvoiceForm) => {
+    const partialPayments = invoice?.collectionStatus === 'PARTIAL' ? invoice.payments || [] : [];
+    const collected = partialPayments.reduce((sum: number, payment: any) => sum + payment.amount, 0);
+    const hasNature = data.vatTreatment === 'REVERSE_CHARGE' || data.vatTreatment === 'EXEMPT';
+    return {
+      issueDate: data.issueDate || null,
+      paymentDueDate: data.paymentDueDate || null,
+      vatTreatment: data.vatTreatment,
+      vatNature: hasNature ? data.vatNature || null : null,
+      ...(data.collectedDate
+        ? { payments: [...partialPayments, { date: data.collectedDate, amount: data.amount - collected }] }
+        : invoice?.collectionStatus === 'PAID' ? { payments: [] } : {}),
+    };
+  };
+
   const saveMutation = useMutation({
     mutationFn: async (data: InvoiceForm) => {
       if (invoice) {
@@ -61,15 +112,18 @@ export default function InvoiceForm({ invoice, onSuccess }: InvoiceFormProps) {
           month: data.month,
           amount: data.amount.toString(),
           description: data.description,
+          ...collectionFields(data),
         });
         return response.json();
       } else {
-        // Create new invoice
+        // Create new invoice: il numero lo assegna il server dalla numerazione dell'anno e del sezionale
         const response = await apiRequest('POST', `/api/businesses/${data.businessId}/invoices`, {
           year: data.year,
           month: data.month,
           amount: data.amount.toString(),
           description: data.description,
+          series: data.series || null,
+          ...collectionFields(data),
         });
         return response.json();
       }
@@ -80,6 +134,7 @@ export default function InvoiceForm({ invoice, onSuccess }: InvoiceFormProps) {
       // Invalidate invoices for all businesses
       businesses?.forEach((business: any) => {
         queryClient.invalidateQueries({ queryKey: [`/api/businesses/${business.id}/invoices`] });
+        queryClient.invalidateQueries({ queryKey: [`/api/businesses/${business.id}/invoice-numbering/check`] });
       });
       toast({
         title: invoice ? "Fattura aggiornata" : "Fattura registrata",
@@ -218,6 +273,142 @@ export default function InvoiceForm({ invoice, onSuccess }: InvoiceFormProps) {
             />
           </div>
 
+          {allowsVatTreatments && (
+            <>
+              <FormField
+                control={form.control}
+                name="vatTreatment"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Trattamento IVA</FormLabel>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        form.setValue("vatNature", "");
+                      }}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {VAT_TREATMENTS.map(treatment => (
+                          <SelectItem key={treatment} value={treatment}>
+                            {VAT_TREATMENT_LABELS[treatment]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      {vatTreatment === 'SPLIT_PAYMENT' && "L'IVA la versa l'ente: il cliente paga solo l'imponibile"}
+                      {vatTreatment === 'REVERSE_CHARGE' && "Fattura senza IVA, l'imposta la integra il committente"}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {(vatTreatment === 'REVERSE_CHARGE' || vatTreatment === 'EXEMPT') && (
+                <FormField
+                  control={form.control}
+                  name="vatNature"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Natura dell'operazione</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder={vatTreatment === 'REVERSE_CHARGE' ? "N6.3 - Subappalto nel settore edile" : "Seleziona la natura"} />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {natureOptions.map(([code, label]) => (
+                            <SelectItem key={code} value={code}>
+                              {code} - {label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </>
+          )}
+
+          {!invoice && (
+            <div className="sm:col-span-2">
+              <FormField
+                control={form.control}
+                name="series"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Sezionale (opzionale)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="es. A" {...field} />
+                    </FormControl>
+                    <FormDescription>
+                      {nextNumber
+                        ? `La fattura riceverà il numero ${nextNumber.number}`
+                        : "Il numero viene assegnato automaticamente alla registrazione"}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+          )}
+
+          <FormField
+            control={form.control}
+            name="issueDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Data emissione</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="paymentDueDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Scadenza pagamento</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="sm:col-span-2">
+            <FormField
+              control={form.control}
+              name="collectedDate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Data incasso</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Nel regime forfettario i ricavi si contano alla data di incasso, non di emissione
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
           <div className="sm:col-span-2">
             <FormField
               control={form.control}
@@ -0,0 +1,229 @@
+import { Fragment, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Upload } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { authManager } from "@/lib/auth";
+import { SPREADSHEET_FIELDS, type SpreadsheetColumnMapping, type SpreadsheetField } from "@shared/lib/invoice-spreadsheet";
+
+const FIELD_LABELS: Record<SpreadsheetField, string> = {
+  date: "Data",
+  number: "Numero",
+  customer: "Cliente",
+  taxableAmount: "Imponibile",
+  vatAmount: "IVA",
+  total: "Totale",
+};
+
+const MAPPING_SOURCE_LABELS = {
+  request: "Mappatura modificata",
+  saved: "Mappatura dell'ultimo import",
+  detected: "Colonne riconosciute automaticamente",
+};
+
+// Colonna non presente nel file
+const NO_COLUMN = "__none__";
+
+// Righe mostrate nell'anteprima
+const PREVIEW_ROWS = 20;
+
+interface InvoiceSpreadsheetImportProps {
+  businessId: string;
+  onSuccess: () => void;
+}
+
+// Il file viaggia come corpo della richiesta, la mappatura come parametro
+async function uploadSpreadsheet(url: string, file: File, mapping?: SpreadsheetColumnMapping) {
+  const headers: Record<string, string> = { "Content-Type": "application/octet-stream" };
+  const token = authManager.getToken();
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  const query = mapping ? `?mapping=${encodeURIComponent(JSON.stringify(mapping))}` : "";
+  const res = await fetch(`${url}${query}`, { method: "POST", headers, body: file, credentials: "include" });
+  const body = await res.json();
+  if (!res.ok) {
+    throw new Error(body.message || res.statusText);
+  }
+  return body;
+}
+
+export default function InvoiceSpreadsheetImport({ businessId, onSuccess }: InvoiceSpreadsheetImportProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<any>(null);
+  const [report, setReport] = useState<any>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const previewMutation = useMutation({
+    mutationFn: async ({ file, mapping }: { file: File; mapping?: SpreadsheetColumnMapping }) =>
+      uploadSpreadsheet(`/api/businesses/${businessId}/invoices/spreadsheet/preview`, file, mapping),
+    onSuccess: (data) => setPreview(data),
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Errore",
+        description: error.message || "Impossibile leggere il file",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () =>
+      uploadSpreadsheet(`/api/businesses/${businessId}/invoices/spreadsheet/import`, file!, preview.mapping),
+    onSuccess: (data) => {
+      setReport(data);
+      queryClient.invalidateQueries({ queryKey: [`/api/businesses/${businessId}/invoices`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Import completato",
+        description: `${data.created} fatture registrate, ${data.failed} righe con errori`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Errore",
+        description: error.message || "Errore durante l'import",
+      });
+    },
+  });
+
+  const handleFile = (selected: File | undefined) => {
+    setFile(selected || null);
+    setPreview(null);
+    setReport(null);
+    if (selected) {
+      previewMutation.mutate({ file: selected });
+    }
+  };
+
+  const handleMappingChange = (field: SpreadsheetField, column: string) => {
+    const mapping = { ...preview.mapping, [field]: column === NO_COLUMN ? undefined : column };
+    previewMutation.mutate({ file: file!, mapping });
+  };
+
+  const validRows = preview?.rows.filter((row: any) => row.errors.length === 0).length || 0;
+
+  if (report) {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm">
+          {report.created} fatture registrate, {report.failed} righe con errori.
+        </p>
+        {report.rows.filter((row: any) => row.status === "failed").map((row: any) => (
+          <p key={row.rowNumber} className="text-sm text-red-600">
+            Riga {row.rowNumber}: {row.errors.join("; ")}
+          </p>
+        ))}
+        <Button onClick={onSuccess}>Chiudi</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="spreadsheet-file">File CSV o Excel</Label>
+        <Input
+          id="spreadsheet-file"
+          type="file"
+          accept=".csv,.xlsx,.xls"
+          onChange={(event) => handleFile(event.target.files?.[0])}
+        />
+      </div>
+
+      {preview && (
+        <>
+          <div className="space-y-3">
+            <p className="text-sm text-gray-500">
+              {MAPPING_SOURCE_LABELS[preview.mappingSource as keyof typeof MAPPING_SOURCE_LABELS]}
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              {SPREADSHEET_FIELDS.map((field) => (
+                <div key={field} className="space-y-1">
+                  <Label>{FIELD_LABELS[field]}</Label>
+                  <Select
+                    value={preview.mapping[field] || NO_COLUMN}
+                    onValueChange={(column) => handleMappingChange(field, column)}
+                    disabled={previewMutation.isPending}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_COLUMN}>Non presente</SelectItem>
+                      {preview.headers.map((header: string) => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            {preview.mappingErrors.map((error: string) => (
+              <p key={error} className="text-sm text-red-600">{error}</p>
+            ))}
+          </div>
+
+          {preview.rows.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="pb-2 text-xs font-medium text-gray-500 uppercase">Riga</th>
+                    {SPREADSHEET_FIELDS.map((field) => (
+                      <th key={field} className="pb-2 text-xs font-medium text-gray-500 uppercase">{FIELD_LABELS[field]}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.slice(0, PREVIEW_ROWS).map((row: any) => (
+                    <Fragment key={row.rowNumber}>
+                      <tr className={row.errors.length > 0 ? "bg-red-50" : "border-b"}>
+                        <td className="py-2 text-gray-500">{row.rowNumber}</td>
+                        {SPREADSHEET_FIELDS.map((field) => (
+                          <td key={field} className="py-2">{row.values[field] ?? "—"}</td>
+                        ))}
+                      </tr>
+                      {row.errors.length > 0 && (
+                        <tr className="border-b bg-red-50">
+                          <td colSpan={SPREADSHEET_FIELDS.length + 1} className="pb-2 text-xs text-red-600">
+                            {row.errors.join("; ")}
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  ))}
+                </tbody>
+              </table>
+              {preview.rows.length > PREVIEW_ROWS && (
+                <p className="mt-2 text-xs text-gray-500">
+                  Anteprima delle prime {PREVIEW_ROWS} righe su {preview.rows.length}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-500">
+              {validRows} righe valide su {preview.rows.length}
+            </p>
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={validRows === 0 || preview.mappingErrors.length > 0 || importMutation.isPending || previewMutation.isPending}
+            >
+              <Upload className="mr-2 h-4 w-4" />
+              Importa {validRows} fatture
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
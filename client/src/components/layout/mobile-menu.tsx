@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { Link, useLocation } from "wouter";
-import { Menu, X, Calculator, BarChart3, Building, FileText, Calendar, PieChart, Settings, LogOut } from "lucide-react";
+import { Menu, X, Calculator, BarChart3, Building, FileText, Receipt, Landmark, Calendar, PieChart, Settings, LogOut } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
@@ -10,6 +10,8 @@ const navigation = [
   { name: "Attività", href: "/businesses", icon: Building },
   { name: "Calcolatore", href: "/calculator", icon: Calculator },
   { name: "Fatture", href: "/invoices", icon: FileText },
+  { name: "Spese", href: "/expenses", icon: Receipt },
+  { name: "Banca", href: "/bank", icon: Landmark },
   { name: "Scadenze", href: "/calendar", icon: Calendar },
   { name: "Report", href: "/reports", icon: PieChart },
 ];
@@ -1,5 +1,5 @@
 import { Link, useLocation } from "wouter";
-import { Calculator, BarChart3, Building, FileText, Calendar, PieChart, Settings, LogOut, Users } from "lucide-react";
+import { Calculator, BarChart3, Building, FileText, Receipt, Landmark, Calendar, PieChart, Settings, LogOut, Users } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 
 const navigation = [
@@ -9,6 +9,8 @@ const navigation = [
   { name: "Calcolatore SRL", href: "/calculator-srl", icon: Building },
   { name: "Leads", href: "/leads", icon: Users },
   { name: "Fatture", href: "/invoices", icon: FileText },
+  { name: "Spese", href: "/expenses", icon: Receipt },
+  { name: "Banca", href: "/bank", icon: Landmark },
   { name: "Scadenze", href: "/calendar", icon: Calendar },
   { name: "Report", href: "/reports", icon: PieChart },
 ];
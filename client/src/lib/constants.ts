@@ -91,14 +91,6 @@ export const CONTRIBUTION_REGIMES = {
   'INARCASSA': 'INARCASSA'
 } as const;
 
-// Costanti aggiornate 2025 dal manuale tecnico-operativo
-export const FORFETTARIO_LIMITS_2025 = {
-  REVENUE_LIMIT: 85000, // Limite ricavi/compensi €85.000
-  REVENUE_EXIT_IMMEDIATE: 100000, // Fuoriuscita immediata €100.000
-  EMPLOYEE_COSTS_LIMIT: 20000, // Limite spese personale €20.000
-  OTHER_INCOME_LIMIT: 35000 // Limite altri redditi aumentato a €35.000 per il 2025
-} as const;
-
 export const CONTRIBUTION_RATES_2025 = {
   GESTIONE_SEPARATA: {
     WITHOUT_OTHER_PENSION: 26.07, // Include 0,72% maternità + 0,35% ISCRO
@@ -155,35 +147,8 @@ export const PAYMENT_TYPES = {
   'INPS_Q2': 'Contributi INPS II Trimestre',
   'INPS_Q3': 'Contributi INPS III Trimestre',
   'INPS_Q4': 'Contributi INPS IV Trimestre',
-  'INPS_ANNUAL': 'Contributi INPS Annuali'
-} as const;
-
-export const TAX_CODES = {
-  '1792': 'Saldo imposta sostitutiva forfettari',
-  '1790': 'Acconto prima rata imposta sostitutiva',
-  '1791': 'Acconto seconda rata imposta sostitutiva',
-  '1668': 'Interessi pagamento dilazionato imposte erariali',
-  '8904': 'Sanzione tributo sostitutivo'
-} as const;
-
-export const INPS_CODES = {
-  GESTIONE_SEPARATA: {
-    'PXX': 'Aliquota piena (senza altra previdenza)',
-    'P10': 'Aliquota ridotta (pensionati/altra copertura)',
-    'PXXR': 'Rate aliquota piena',
-    'P10R': 'Rate aliquota ridotta',
-    'DPPI': 'Interessi sui contributi rateizzati'
-  },
-  IVS_ARTIGIANI: {
-    'AF': 'Contributi minimale artigiani',
-    'AP': 'Contributi eccedenti artigiani',
-    'APR': 'Rate contributi eccedenti artigiani'
-  },
-  IVS_COMMERCIANTI: {
-    'CF': 'Contributi minimale commercianti',
-    'CP': 'Contributi eccedenti commercianti',
-    'CPR': 'Rate contributi eccedenti commercianti'
-  }
+  'INPS_ANNUAL': 'Contributi INPS Annuali',
+  'TAX_INSTALLMENT': 'Rata Saldo e I Acconto'
 } as const;
 
 export const MONTHS = [
@@ -191,128 +156,8 @@ export const MONTHS = [
   'Luglio', 'Agosto', 'Settembre', 'Ottobre', 'Novembre', 'Dicembre'
 ] as const;
 
-// Mappatura ATECO completa con deduzione automatica categoria
-export const ATECO_MAPPING = {
-  // PROFESSIONI (78%)
-  '62': { 
-    description: 'Produzione di software e consulenza informatica',
-    category: 'PROFESSIONAL',
-    macroCategory: 'PROFESSIONAL',
-    contributionRegime: 'GESTIONE_SEPARATA'
-  },
-  '69': { 
-    description: 'Attività legali e di contabilità',
-    category: 'PROFESSIONAL', 
-    macroCategory: 'PROFESSIONAL',
-    contributionRegime: 'CASSA_FORENSE' // Default per legali
-  },
-  '70': { 
-    description: 'Attività di direzione aziendale e di consulenza gestionale',
-    category: 'PROFESSIONAL',
-    macroCategory: 'PROFESSIONAL', 
-    contributionRegime: 'GESTIONE_SEPARATA'
-  },
-  '71': { 
-    description: 'Attività degli studi di architettura e d\'ingegneria',
-    category: 'PROFESSIONAL',
-    macroCategory: 'PROFESSIONAL',
-    contributionRegime: 'INARCASSA'
-  },
-  '72': { 
-    description: 'Ricerca scientifica e sviluppo',
-    category: 'PROFESSIONAL',
-    macroCategory: 'PROFESSIONAL',
-    contributionRegime: 'GESTIONE_SEPARATA'
-  },
-  '73': { 
-    description: 'Pubblicità e ricerche di mercato',
-    category: 'PROFESSIONAL',
-    macroCategory: 'PROFESSIONAL',
-    contributionRegime: 'GESTIONE_SEPARATA'
-  },
-  '74': { 
-    description: 'Altre attività professionali, scientifiche e tecniche',
-    category: 'PROFESSIONAL',
-    macroCategory: 'PROFESSIONAL',
-    contributionRegime: 'GESTIONE_SEPARATA'
-  },
-  '86': { 
-    description: 'Assistenza sanitaria',
-    category: 'PROFESSIONAL',
-    macroCategory: 'PROFESSIONAL',
-    contributionRegime: 'GESTIONE_SEPARATA'
-  },
-  '85': { 
-    description: 'Istruzione',
-    category: 'PROFESSIONAL',
-    macroCategory: 'PROFESSIONAL',
-    contributionRegime: 'GESTIONE_SEPARATA'
-  },
-  
-  // ARTIGIANATO (86%)
-  '43': { 
-    description: 'Lavori di costruzione specializzati',
-    category: 'ARTISAN',
-    macroCategory: 'CONSTRUCTION',
-    contributionRegime: 'IVS_ARTIGIANI'
-  },
-  
-  // COMMERCIO (40-67%)
-  '47': { 
-    description: 'Commercio al dettaglio',
-    category: 'COMMERCIAL',
-    macroCategory: 'OTHER_ACTIVITIES', // 67%
-    contributionRegime: 'IVS_COMMERCIANTI'
-  },
-  '46': { 
-    description: 'Commercio all\'ingrosso', 
-    category: 'COMMERCIAL',
-    macroCategory: 'OTHER_ACTIVITIES', // 67%
-    contributionRegime: 'IVS_COMMERCIANTI'
-  },
-  '45': { 
-    description: 'Commercio e riparazione di autoveicoli',
-    category: 'COMMERCIAL',
-    macroCategory: 'OTHER_ACTIVITIES', // 67%
-    contributionRegime: 'IVS_COMMERCIANTI'
-  },
-  
-  // RISTORAZIONE (40%)
-  '56': {
-    description: 'Attività dei servizi di ristorazione',
-    category: 'COMMERCIAL',
-    macroCategory: 'FOOD_COMMERCE',
-    contributionRegime: 'IVS_COMMERCIANTI'
-  }
-} as const;
-
-// Funzione helper per dedurre categoria da ATECO
-export const deduceFromAteco = (atecoCode: string) => {
-  const mapping = ATECO_MAPPING[atecoCode as keyof typeof ATECO_MAPPING];
-  if (mapping) {
-    return {
-      macroCategory: mapping.macroCategory,
-      businessType: mapping.category,
-      contributionRegime: mapping.contributionRegime,
-      description: mapping.description
-    };
-  }
-  return null;
-};
+// Codici tributo F24 condivisi con il server
+export { TAX_CODES, INPS_CODES } from '@shared/lib/tax-codes';
 
-// Mapping from ATECO category to business type for regime ordinario
-export const mapAtecoToBusinessType = (atecoCode: string): "professional" | "business" | "artisan" | "commercial" | null => {
-  const atecoData = deduceFromAteco(atecoCode);
-  if (!atecoData) return null;
-  
-  switch (atecoData.businessType) {
-    case 'PROFESSIONAL':
-      return 'professional';
-    case 'ARTISAN':
-      return 'artisan';
-    case 'COMMERCIAL':
-      return 'commercial';
-    default:
-      return 'business';
-  }
-};
+// Mappatura ATECO condivisa con il server
+export { ATECO_MAPPING, deduceFromAteco, mapAtecoToBusinessType } from '@shared/lib/ateco';
@@ -0,0 +1,432 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Check, Landmark, Link2Off, Pencil, Plus, Trash2, Upload } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { authManager } from "@/lib/auth";
+import BankAccountForm from "@/components/forms/bank-account-form";
+import type { ReconciliationMatch } from "@shared/lib/bank-reconciliation";
+
+// Il file dell'estratto conto va nel corpo della richiesta, senza multipart
+async function uploadStatement(accountId: number, file: File) {
+  const headers: Record<string, string> = { "Content-Type": "application/octet-stream" };
+  const token = authManager.getToken();
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  const res = await fetch(`/api/bank-accounts/${accountId}/import`, { method: "POST", headers, body: file, credentials: "include" });
+  const body = await res.json();
+  if (!res.ok) {
+    throw new Error(body.message || res.statusText);
+  }
+  return body;
+}
+
+const FORMAT_LABELS: Record<string, string> = {
+  CAMT053: "CAMT.053",
+  CBI: "CBI",
+  CSV: "CSV",
+};
+
+export default function Bank() {
+  const [selectedBusinessId, setSelectedBusinessId] = useState<string>("");
+  const [selectedAccountId, setSelectedAccountId] = useState<number | null>(null);
+  const [editedAccount, setEditedAccount] = useState<any>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: businesses } = useQuery({
+    queryKey: ["/api/businesses"],
+  });
+
+  const businessId = selectedBusinessId || (businesses as any[])?.[0]?.id?.toString() || "";
+  const business = (businesses as any[])?.find((item: any) => item.id.toString() === businessId);
+
+  const { data: accounts, isLoading } = useQuery<any[]>({
+    queryKey: [`/api/businesses/${businessId}/bank-accounts`],
+    enabled: !!businessId,
+  });
+
+  const accountId = selectedAccountId ?? accounts?.[0]?.id ?? null;
+
+  const { data: transactions } = useQuery<any[]>({
+    queryKey: [`/api/bank-accounts/${accountId}/transactions`],
+    enabled: !!accountId,
+  });
+
+  const { data: suggestions } = useQuery<Array<ReconciliationMatch & { transaction: any }>>({
+    queryKey: [`/api/businesses/${businessId}/bank-reconciliation`],
+    enabled: !!businessId,
+  });
+
+  const { data: invoices } = useQuery<any[]>({
+    queryKey: [`/api/businesses/${businessId}/invoices`],
+    enabled: !!businessId,
+  });
+
+  const { data: deadlines } = useQuery<any[]>({
+    queryKey: [`/api/deadlines/${businessId}`],
+    enabled: !!businessId,
+  });
+
+  // Movimenti, saldi, fatture e scadenze cambiano insieme a ogni import o abbinamento
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/businesses/${businessId}/bank-accounts`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/bank-accounts/${accountId}/transactions`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/businesses/${businessId}/bank-reconciliation`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/businesses/${businessId}/invoices`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/deadlines/${businessId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/businesses"] });
+  };
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      variant: "destructive",
+      title: "Errore",
+      description: error.message || fallback,
+    });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async ({ accountId, file }: { accountId: number; file: File }) => uploadStatement(accountId, file),
+    onSuccess: (report) => {
+      refresh();
+      toast({
+        title: `Estratto ${FORMAT_LABELS[report.format] || report.format} importato`,
+        description: `${report.imported} movimenti nuovi, ${report.duplicates} già presenti, ${report.matched.length} riconciliati automaticamente`
+          + (report.errors.length > 0 ? `, ${report.errors.length} scartati` : ""),
+      });
+      if (report.closingBalance !== undefined && Math.abs(report.closingBalance - report.balance) >= 0.01) {
+        toast({
+          variant: "destructive",
+          title: "Saldo non allineato",
+          description: `Saldo finale dell'estratto ${formatCurrency(report.closingBalance)}, saldo calcolato ${formatCurrency(report.balance)}`,
+        });
+      }
+    },
+    onError: onError("Impossibile importare l'estratto conto"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('DELETE', `/api/bank-accounts/${id}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      setSelectedAccountId(null);
+      refresh();
+      toast({
+        title: "Conto eliminato",
+        description: "Il conto e i suoi movimenti sono stati rimossi",
+      });
+    },
+    onError: onError("Impossibile eliminare il conto"),
+  });
+
+  const matchMutation = useMutation({
+    mutationFn: async (match: ReconciliationMatch) => {
+      const response = await apiRequest('POST', `/api/bank-transactions/${match.transactionId}/match`, {
+        invoiceId: match.invoiceId,
+        paymentDeadlineIds: match.paymentDeadlineIds,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Movimento riconciliato",
+        description: "L'incasso o il pagamento è stato registrato",
+      });
+    },
+    onError: onError("Impossibile riconciliare il movimento"),
+  });
+
+  const unmatchMutation = useMutation({
+    mutationFn: async (transactionId: number) => {
+      const response = await apiRequest('DELETE', `/api/bank-transactions/${transactionId}/match`);
+      return response.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Abbinamento rimosso",
+        description: "Incasso o pagamento annullato",
+      });
+    },
+    onError: onError("Impossibile rimuovere l'abbinamento"),
+  });
+
+  const handleAdd = () => {
+    setEditedAccount(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (account: any) => {
+    setEditedAccount(account);
+    setDialogOpen(true);
+  };
+
+  const handleFile = (accountId: number, file?: File) => {
+    if (file) {
+      importMutation.mutate({ accountId, file });
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('it-IT', {
+      style: 'currency',
+      currency: 'EUR'
+    }).format(amount);
+  };
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('it-IT');
+
+  const invoiceLabel = (id: number) => {
+    const invoice = invoices?.find((item: any) => item.id === id);
+    return invoice ? `Fattura ${invoice.number || `#${invoice.id}`}` : `Fattura #${id}`;
+  };
+
+  const deadlinesLabel = (ids: number[]) => ids
+    .map((id) => deadlines?.find((item: any) => item.id === id))
+    .map((deadline: any, index) => deadline ? `${deadline.paymentType} del ${formatDate(deadline.dueDate)}` : `Scadenza #${ids[index]}`)
+    .join(", ");
+
+  const allTransactions = transactions || [];
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="md:flex md:items-center md:justify-between">
+          <div className="min-w-0 flex-1">
+            <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:truncate sm:text-3xl sm:tracking-tight">
+              Conti Correnti
+            </h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Estratti conto CAMT.053, CBI e CSV, riconciliati con fatture e scadenze F24
+            </p>
+          </div>
+          <div className="mt-4 flex gap-x-3 md:ml-4 md:mt-0">
+            <Select
+              value={businessId}
+              onValueChange={(value) => {
+                setSelectedBusinessId(value);
+                setSelectedAccountId(null);
+              }}
+            >
+              <SelectTrigger className="w-[220px]">
+                <SelectValue placeholder="Seleziona un'attività" />
+              </SelectTrigger>
+              <SelectContent>
+                {(businesses as any[])?.map((business: any) => (
+                  <SelectItem key={business.id} value={business.id.toString()}>
+                    {business.businessName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleAdd} disabled={!businessId} className="inline-flex items-center gap-x-1.5">
+              <Plus className="h-4 w-4" />
+              Nuovo Conto
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editedAccount ? "Modifica Conto" : "Nuovo Conto"}</DialogTitle>
+          </DialogHeader>
+          <BankAccountForm
+            businessId={businessId}
+            account={editedAccount}
+            onSuccess={() => setDialogOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {isLoading ? (
+        <div className="text-center py-8">Caricamento conti...</div>
+      ) : !accounts || accounts.length === 0 ? (
+        <div className="text-center py-12">
+          <Landmark className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">Nessun conto corrente</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Registra un conto per importare gli estratti e aggiornare il saldo in automatico.
+          </p>
+        </div>
+      ) : (
+        <>
+          {/* Saldi */}
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>Saldo {formatCurrency(business?.currentBalance || 0)}</CardTitle>
+              <CardDescription>
+                Somma dei conti, usata dai calcolatori per pianificare i versamenti
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                {accounts.map((account: any) => (
+                  <div
+                    key={account.id}
+                    className={`rounded-lg border p-4 cursor-pointer ${account.id === accountId ? 'border-blue-500 bg-blue-50' : 'hover:bg-gray-50'}`}
+                    onClick={() => setSelectedAccountId(account.id)}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900 truncate">{account.name}</p>
+                        <p className="text-xs text-gray-500 truncate">{account.iban || "IBAN non indicato"}</p>
+                      </div>
+                      <div className="flex">
+                        <Button variant="ghost" size="sm" title="Modifica conto" onClick={(event) => {
+                          event.stopPropagation();
+                          handleEdit(account);
+                        }}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" title="Elimina conto" disabled={deleteMutation.isPending} onClick={(event) => {
+                          event.stopPropagation();
+                          deleteMutation.mutate(account.id);
+                        }}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <p className="mt-2 text-lg font-semibold">{formatCurrency(account.balance)}</p>
+                    <p className="text-xs text-gray-500">
+                      {account.transactionCount} movimenti
+                      {account.lastBookingDate && ` · ultimo il ${formatDate(account.lastBookingDate)}`}
+                    </p>
+                    <label className="mt-3 inline-flex items-center gap-x-1.5 text-sm text-blue-600 cursor-pointer" onClick={(event) => event.stopPropagation()}>
+                      <Upload className="h-4 w-4" />
+                      {importMutation.isPending ? "Importazione..." : "Importa estratto conto"}
+                      <input
+                        type="file"
+                        className="hidden"
+                        accept=".xml,.txt,.cbi,.csv,.xlsx,.xls"
+                        disabled={importMutation.isPending}
+                        onChange={(event) => {
+                          handleFile(account.id, event.target.files?.[0]);
+                          event.target.value = "";
+                        }}
+                      />
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Abbinamenti da confermare */}
+          {suggestions && suggestions.length > 0 && (
+            <Card className="mb-6">
+              <CardHeader>
+                <CardTitle>Abbinamenti proposti ({suggestions.length})</CardTitle>
+                <CardDescription>
+                  Movimenti che corrispondono a fatture da incassare o a scadenze da versare
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {suggestions.map(({ transaction, ...match }) => (
+                    <div key={match.transactionId} className="flex items-center justify-between gap-4 border-b pb-3">
+                      <div className="min-w-0">
+                        <p className="text-sm text-gray-900">
+                          {formatDate(transaction.bookingDate)} · {formatCurrency(transaction.amount)}
+                          {transaction.description && ` · ${transaction.description}`}
+                        </p>
+                        <p className="text-sm text-gray-500">
+                          {match.invoiceId ? invoiceLabel(match.invoiceId) : deadlinesLabel(match.paymentDeadlineIds || [])}
+                          {" · "}{match.reasons.join(", ")}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant={match.confidence === "HIGH" ? "default" : "secondary"}>
+                          {match.confidence === "HIGH" ? "Certo" : "Probabile"}
+                        </Badge>
+                        <Button size="sm" variant="outline" disabled={matchMutation.isPending} onClick={() => matchMutation.mutate(match)}>
+                          <Check className="h-4 w-4 mr-1" />
+                          Conferma
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Movimenti del conto */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Movimenti ({allTransactions.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {allTransactions.length === 0 ? (
+                <div className="text-center py-8 text-sm text-gray-500">
+                  Importa un estratto conto per vedere i movimenti.
+                </div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b text-left">
+                        <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Data</th>
+                        <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Descrizione</th>
+                        <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Importo</th>
+                        <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Riconciliazione</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {allTransactions.map((transaction: any) => {
+                        const isReconciled = !!transaction.invoiceId || transaction.paymentDeadlineIds?.length > 0;
+                        return (
+                          <tr key={transaction.id} className="border-b">
+                            <td className="py-3 text-sm text-gray-500">{formatDate(transaction.bookingDate)}</td>
+                            <td className="py-3 text-sm text-gray-900">
+                              {transaction.description || "—"}
+                              {transaction.counterparty && <span className="text-gray-500"> · {transaction.counterparty}</span>}
+                            </td>
+                            <td className={`py-3 text-sm ${transaction.amount < 0 ? 'text-red-700' : 'text-green-700'}`}>
+                              {formatCurrency(transaction.amount)}
+                            </td>
+                            <td className="py-3 text-sm text-gray-500">
+                              {isReconciled ? (
+                                <span className="inline-flex items-center gap-x-2">
+                                  {transaction.invoiceId ? invoiceLabel(transaction.invoiceId) : deadlinesLabel(transaction.paymentDeadlineIds)}
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    title="Rimuovi abbinamento"
+                                    disabled={unmatchMutation.isPending}
+                                    onClick={() => unmatchMutation.mutate(transaction.id)}
+                                  >
+                                    <Link2Off className="h-4 w-4" />
+                                  </Button>
+                                </span>
+                              ) : "Da riconciliare"}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
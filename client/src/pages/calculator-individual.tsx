@@ -8,7 +8,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Separator } from "@/components/ui/separator";
 import { Progress } from "@/components/ui/progress";
@@ -18,7 +18,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Calendar, TrendingUp, Euro, FileText, HelpCircle, Building, Users, Calculator, DollarSign, PiggyBank, Clock } from "lucide-react";
 
 import { Link } from "wouter";
-import { calculateIndividualTaxes, IndividualTaxCalculationResult, CONTRIBUTION_RATES } from "@/lib/individual-tax-calculator";
+import { calculateIndividualTaxes, IndividualTaxCalculationResult, CONTRIBUTION_RATES } from "@shared/lib/individual-tax-calculator";
 import { apiRequest } from "@/lib/queryClient";
 import { deduceFromAteco, mapAtecoToBusinessType } from "@/lib/constants";
 
@@ -149,7 +149,7 @@ export default function CalculatorIndividualPage() {
       revenue2024: 0,
       documentedExpenses2024: 0,
       otherIncome2024: 0,
-      taxWithholdings2024: 0,
+      taxWithholdings2024: undefined,
       // Dati 2025
       revenue: 0,
       documentedExpenses: 0,
@@ -240,8 +240,8 @@ export default function CalculatorIndividualPage() {
         previousYearTaxableIncome: startYear <= 2024 ? data.previousYearTaxableIncome : undefined,
         previousYearIrpef: startYear <= 2024 ? data.previousYearIrpef : undefined,
         vatRegime: data.vatRegime,
-        vatOnSales: data.vatOnSales,
-        vatOnPurchases: data.vatOnPurchases,
+        vatOnSales: data.vatOnSales || undefined,
+        vatOnPurchases: data.vatOnPurchases || undefined, // Senza importo, stima sulle spese
         hasVatDebt: data.hasVatDebt,
         vatDebt: data.vatDebt || 0,
         currentBalance: data.currentBalance || 0,
@@ -686,6 +686,9 @@ export default function CalculatorIndividualPage() {
                               value={field.value || ""}
                             />
                           </FormControl>
+                          <FormDescription>
+                            Se vuoto, si usano le ritenute delle fatture incassate
+                          </FormDescription>
                         </FormItem>
                       )}
                     />
@@ -18,7 +18,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import * as XLSX from 'xlsx';
 
 import { Link } from "wouter";
-import { calculateSRLTaxes, IRAP_RATES, VAT_REGIMES, SRLTaxCalculationResult } from "@/lib/srl-tax-calculator";
+import { calculateSRLTaxes, IRAP_RATES, VAT_REGIMES, SRLTaxCalculationResult } from "@shared/lib/srl-tax-calculator";
 
 const calculationSchema = z.object({
   // Data inizio attività
@@ -242,8 +242,8 @@ export default function CalculatorSRLPage() {
         vatRegime: data.vatRegime,
         hasVatDebt: data.hasVatDebt,
         vatDebt: data.vatDebt || 0,
-        vatOnSales: data.vatOnSales,
-        vatOnPurchases: data.vatOnPurchases,
+        vatOnSales: data.vatOnSales || undefined,
+        vatOnPurchases: data.vatOnPurchases || undefined, // Senza importo, stima sui costi
         currentBalance: data.currentBalance || 0,
         fiscalYear: 2025,
         startDate: data.startDate,
@@ -471,6 +471,7 @@ export default function CalculatorSRLPage() {
     const formData = form.getValues();
     const currentBalance = formData.currentBalance || 0;
     const safeMonthlyAccrual = calculateSafetyMargin(results.monthlyAccrual);
+    const { june: juneDueDate, november: novemberDueDate } = results.taxDueDates;
     
     const worksheetData = [
       ['PIANIFICATORE IMPOSTE SRL - REPORT AVANZATO'],
@@ -524,12 +525,12 @@ export default function CalculatorSRLPage() {
       
       // Scadenze fiscali con urgenza
       ['SCADENZE FISCALI CON INDICATORI URGENZA'],
-      ['30 Giugno 2025 - IRES Saldo:', results.iresAmount, getUrgencyLevel('30/06/2025').text],
-      ['30 Giugno 2025 - IRES 1° Acconto:', results.iresFirstAcconto, getUrgencyLevel('30/06/2025').text],
-      ['30 Novembre 2025 - IRES 2° Acconto:', results.iresSecondAcconto, getUrgencyLevel('30/11/2025').text],
-      ['30 Giugno 2025 - IRAP Saldo:', results.irapAmount, getUrgencyLevel('30/06/2025').text],
-      ['30 Giugno 2025 - IRAP 1° Acconto:', results.irapFirstAcconto, getUrgencyLevel('30/06/2025').text],
-      ['30 Novembre 2025 - IRAP 2° Acconto:', results.irapSecondAcconto, getUrgencyLevel('30/11/2025').text],
+      [`${juneDueDate} - IRES Saldo:`, results.iresAmount, getUrgencyLevel(juneDueDate).text],
+      [`${juneDueDate} - IRES 1° Acconto:`, results.iresFirstAcconto, getUrgencyLevel(juneDueDate).text],
+      [`${novemberDueDate} - IRES 2° Acconto:`, results.iresSecondAcconto, getUrgencyLevel(novemberDueDate).text],
+      [`${juneDueDate} - IRAP Saldo:`, results.irapAmount, getUrgencyLevel(juneDueDate).text],
+      [`${juneDueDate} - IRAP 1° Acconto:`, results.irapFirstAcconto, getUrgencyLevel(juneDueDate).text],
+      [`${novemberDueDate} - IRAP 2° Acconto:`, results.irapSecondAcconto, getUrgencyLevel(novemberDueDate).text],
       [''],
       
       // Piano accantonamento con margine
@@ -2533,11 +2534,11 @@ export default function CalculatorSRLPage() {
                 </p>
               </div>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div className={`p-4 rounded-lg border-2 ${getUrgencyLevel('30/06/2025').class}`}>
+                <div className={`p-4 rounded-lg border-2 ${getUrgencyLevel(results.taxDueDates.june).class}`}>
                   <div className="flex items-center justify-between mb-2">
-                    <h4 className="font-semibold">30 Giugno 2025</h4>
+                    <h4 className="font-semibold">{results.taxDueDates.june}</h4>
                     <span className="text-sm font-medium px-2 py-1 rounded">
-                      {getUrgencyLevel('30/06/2025').text}
+                      {getUrgencyLevel(results.taxDueDates.june).text}
                     </span>
                   </div>
                   <div className="space-y-2 text-sm">
@@ -2564,11 +2565,11 @@ export default function CalculatorSRLPage() {
                   </div>
                 </div>
 
-                <div className={`p-4 rounded-lg border-2 ${getUrgencyLevel('30/11/2025').class}`}>
+                <div className={`p-4 rounded-lg border-2 ${getUrgencyLevel(results.taxDueDates.november).class}`}>
                   <div className="flex items-center justify-between mb-2">
-                    <h4 className="font-semibold">30 Novembre 2025</h4>
+                    <h4 className="font-semibold">{results.taxDueDates.november}</h4>
                     <span className="text-sm font-medium px-2 py-1 rounded">
-                      {getUrgencyLevel('30/11/2025').text}
+                      {getUrgencyLevel(results.taxDueDates.november).text}
                     </span>
                   </div>
                   <div className="space-y-2 text-sm">
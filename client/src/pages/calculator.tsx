@@ -16,6 +16,8 @@ import { Calculator, Building, Euro, Calendar, Download, Lock, Mail, User, Brief
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import * as XLSX from 'xlsx';
 import { Link } from "wouter";
+import { TaxCalculator, type ContributionReduction, type ContributionRegime, type MacroCategory } from "@shared/lib/tax-calculator";
+import { fiscalDueDate, toItalianDate } from "@shared/lib/fiscal-calendar";
 
 
 const calculationSchema = z.object({
@@ -55,7 +57,7 @@ interface CalculationResult {
 }
 
 // Importiamo le categorie dal file constants
-import { TAX_COEFFICIENTS, SECTORS, CONTRIBUTION_REGIMES, FORFETTARIO_LIMITS_2025 } from "@/lib/constants";
+import { TAX_COEFFICIENTS, SECTORS, CONTRIBUTION_REGIMES } from "@/lib/constants";
 
 const BUSINESS_SECTORS = {
   RETAIL: "Commercio al dettaglio",
@@ -270,21 +272,8 @@ export default function CalculatorPage() {
       const revenue2025 = form.watch('revenue2025') || form.watch('revenue') || 0;
       const formData = form.getValues();
     
-    // Calcolo scadenze 2025
-    const giugno2025 = results.taxAmount + (results.taxAmount * 0.40);
-    const novembre2025 = results.taxAmount * 0.60;
-    
-    // Calcolo tasse 2026 (se c'è fatturato 2025)
-    let taxAmount2026 = 0;
-    if (revenue2025 > 0) {
-      const selectedCategory = TAX_COEFFICIENTS[formData.category as keyof typeof TAX_COEFFICIENTS];
-      const coefficient = selectedCategory?.value || 0.78;
-      const taxableIncome2025 = revenue2025 * coefficient;
-      const taxRate = formData.isStartup ? 0.05 : 0.15;
-      taxAmount2026 = taxableIncome2025 * taxRate;
-    }
-    
-    const giugno2026 = taxAmount2026 + (taxAmount2026 * 0.40);
+    // Scadenze 2025 e 2026 (se c'è fatturato 2025)
+    const { tax2025, deadlines2025, deadlines2026 } = getPaymentSchedule(results, revenue2025);
 
     // Creazione dei dati per Excel
     const worksheetData = [
@@ -315,20 +304,20 @@ export default function CalculatorPage() {
       
       // Scadenze
       ['SCADENZE FISCALI'],
-      ['30 Giugno 2025 - Saldo 2024:', results.taxAmount],
-      ['30 Giugno 2025 - 1° Acconto 2025:', results.taxAmount * 0.40],
-      ['30 Giugno 2025 - TOTALE:', giugno2025],
-      ['30 Novembre 2025 - 2° Acconto:', novembre2025],
+      [`${deadlines2025.tax.june.date} - Saldo 2024:`, deadlines2025.acconti.previousYearBalance],
+      [`${deadlines2025.tax.june.date} - 1° Acconto 2025:`, deadlines2025.acconti.firstInstallment],
+      [`${deadlines2025.tax.june.date} - TOTALE:`, deadlines2025.tax.june.amount],
+      [`${deadlines2025.tax.november.date} - 2° Acconto:`, deadlines2025.tax.november.amount],
       [''],
       
       // Scadenze 2026 (se applicabile)
       ...(revenue2025 > 0 ? [
         ['SCADENZE 2026'],
         ['Reddito Imponibile 2025:', revenue2025 * (TAX_COEFFICIENTS[formData.category as keyof typeof TAX_COEFFICIENTS]?.value || 0.78)],
-        ['Imposta Sostitutiva 2025:', taxAmount2026],
-        ['30 Giugno 2026 - Saldo 2025:', taxAmount2026],
-        ['30 Giugno 2026 - 1° Acconto 2026:', taxAmount2026 * 0.40],
-        ['30 Giugno 2026 - TOTALE:', giugno2026],
+        ['Imposta Sostitutiva 2025:', tax2025],
+        [`${deadlines2026.tax.june.date} - Saldo 2025:`, deadlines2026.acconti.previousYearBalance],
+        [`${deadlines2026.tax.june.date} - 1° Acconto 2026:`, deadlines2026.acconti.firstInstallment],
+        [`${deadlines2026.tax.june.date} - TOTALE:`, deadlines2026.tax.june.amount],
         ['']
       ] : []),
       
@@ -379,6 +368,37 @@ export default function CalculatorPage() {
     }
   };
 
+  // Scadenze 2025 sull'imposta 2024 e scadenze 2026 sull'imposta stimata 2025, dal calendario fiscale
+  const getPaymentSchedule = (calculation: CalculationResult, revenue2025: number) => {
+    const formData = form.getValues();
+    const calculation2025 = TaxCalculator.calculate({
+      revenue: revenue2025,
+      macroCategory: formData.category as MacroCategory,
+      isStartup: formData.isStartup,
+      startDate: formData.startDate,
+      contributionRegime: formData.contributionRegime as ContributionRegime,
+      contributionReduction: formData.contributionReduction as ContributionReduction,
+      hasOtherCoverage: false,
+      year: 2025,
+    });
+    const deadlines2025 = TaxCalculator.calculatePaymentDeadlines(calculation2025, 2025, {
+      previousYearTax: calculation.taxAmount,
+    });
+    const deadlines2026 = TaxCalculator.calculatePaymentDeadlines(calculation2025, 2026, {
+      previousYearTax: calculation2025.taxAmount,
+      previousYearAccontiPaid: deadlines2025.acconti.total,
+    });
+
+    return {
+      tax2025: calculation2025.taxAmount,
+      deadlines2025,
+      deadlines2026,
+      // Contributi INPS dell'anno precedente, con la proroga di agosto
+      inpsDate2025: toItalianDate(fiscalDueDate(2025, 8, 16)),
+      inpsDate2026: toItalianDate(fiscalDueDate(2026, 8, 16)),
+    };
+  };
+
   // Funzione per generare il cronoprogramma di liquidità progressiva
   const generateProgressiveLiquidity = () => {
     if (!results) return [];
@@ -390,20 +410,20 @@ export default function CalculatorPage() {
     const currentDate = new Date();
     
     // Genera versamenti mensili fino alle scadenze principali (2025 e 2026)
-    const tax2025 = (form.watch('revenue2025') || 0) * (TAX_COEFFICIENTS[form.watch('category') as keyof typeof TAX_COEFFICIENTS]?.value || 0.67) * (form.watch('isStartup') ? 0.05 : 0.15);
+    const { deadlines2025, deadlines2026, inpsDate2025, inpsDate2026 } = getPaymentSchedule(results, form.watch('revenue2025') || 0);
     
     const deadlines = [
       // Scadenze 2025 (basate su dati 2024)
-      { date: '30/06/2025', amount: -Math.round(results.taxAmount), description: 'Saldo Imposta Sostitutiva 2024', color: 'bg-green-500' },
-      { date: '30/06/2025', amount: -Math.round(results.taxAmount * 0.40), description: 'Primo Acconto 2025 (40%)', color: 'bg-green-500' },
-      { date: '16/08/2025', amount: -results.inpsAmount, description: 'Contributi INPS 2024', color: 'bg-orange-500' },
-      { date: '30/11/2025', amount: -Math.round(results.taxAmount * 0.60), description: 'Secondo Acconto 2025 (60%)', color: 'bg-green-500' },
+      { date: deadlines2025.tax.june.date, amount: -Math.round(deadlines2025.acconti.previousYearBalance), description: 'Saldo Imposta Sostitutiva 2024', color: 'bg-green-500' },
+      { date: deadlines2025.tax.june.date, amount: -Math.round(deadlines2025.acconti.firstInstallment), description: 'Primo Acconto 2025', color: 'bg-green-500' },
+      { date: inpsDate2025, amount: -results.inpsAmount, description: 'Contributi INPS 2024', color: 'bg-orange-500' },
+      { date: deadlines2025.tax.november.date, amount: -Math.round(deadlines2025.acconti.secondInstallment), description: 'Secondo Acconto 2025', color: 'bg-green-500' },
       
       // Scadenze 2026 (basate su dati 2025)
-      { date: '30/06/2026', amount: -Math.round(tax2025), description: 'Saldo Imposta Sostitutiva 2025', color: 'bg-green-500' },
-      { date: '30/06/2026', amount: -Math.round(tax2025 * 0.40), description: 'Primo Acconto 2026 (40%)', color: 'bg-green-500' },
-      { date: '16/08/2026', amount: -Math.round(results.inpsAmount), description: 'Contributi INPS 2025', color: 'bg-orange-500' },
-      { date: '30/11/2026', amount: -Math.round(tax2025 * 0.60), description: 'Secondo Acconto 2026 (60%)', color: 'bg-green-500' }
+      { date: deadlines2026.tax.june.date, amount: -Math.round(deadlines2026.acconti.previousYearBalance), description: 'Saldo Imposta Sostitutiva 2025', color: 'bg-green-500' },
+      { date: deadlines2026.tax.june.date, amount: -Math.round(deadlines2026.acconti.firstInstallment), description: 'Primo Acconto 2026', color: 'bg-green-500' },
+      { date: inpsDate2026, amount: -Math.round(results.inpsAmount), description: 'Contributi INPS 2025', color: 'bg-orange-500' },
+      { date: deadlines2026.tax.november.date, amount: -Math.round(deadlines2026.acconti.secondInstallment), description: 'Secondo Acconto 2026', color: 'bg-green-500' }
     ];
     
     // Genera 24 mesi di versamenti per coprire anche le scadenze 2026
@@ -454,6 +474,8 @@ export default function CalculatorPage() {
     });
   };
 
+  const schedule = results ? getPaymentSchedule(results, form.watch('revenue2025') || 0) : null;
+
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Navigation Header */}
@@ -1000,7 +1022,7 @@ export default function CalculatorPage() {
       )}
 
       {/* Full Results (Always Unlocked) */}
-      {results && (
+      {results && schedule && (
         <div className="space-y-6">
 
 
@@ -1086,9 +1108,9 @@ export default function CalculatorPage() {
                   <tbody>
                     {/* Saldo 2024 */}
                     <tr className="border-b bg-green-50">
-                      <td className="p-3 font-medium">30 Giugno 2025</td>
+                      <td className="p-3 font-medium">{schedule.deadlines2025.tax.june.date}</td>
                       <td className="p-3 text-right font-bold text-green-600">
-                        {formatCurrency(results.taxAmount)}
+                        {formatCurrency(schedule.deadlines2025.acconti.previousYearBalance)}
                       </td>
                       <td className="p-3">Saldo Imposta Sostitutiva 2024</td>
                       <td className="p-3 font-mono text-xs">1792</td>
@@ -1096,27 +1118,27 @@ export default function CalculatorPage() {
                     
                     {/* Primo Acconto 2025 */}
                     <tr className="border-b bg-blue-50">
-                      <td className="p-3 font-medium">30 Giugno 2025</td>
+                      <td className="p-3 font-medium">{schedule.deadlines2025.tax.june.date}</td>
                       <td className="p-3 text-right font-bold text-blue-600">
-                        {formatCurrency(Math.round(results.taxAmount * 0.40))}
+                        {formatCurrency(schedule.deadlines2025.acconti.firstInstallment)}
                       </td>
-                      <td className="p-3">Primo Acconto 2025 (40%)</td>
+                      <td className="p-3">Primo Acconto 2025</td>
                       <td className="p-3 font-mono text-xs">1790</td>
                     </tr>
                     
                     {/* Secondo Acconto 2025 */}
                     <tr className="border-b bg-purple-50">
-                      <td className="p-3 font-medium">30 Novembre 2025</td>
+                      <td className="p-3 font-medium">{schedule.deadlines2025.tax.november.date}</td>
                       <td className="p-3 text-right font-bold text-purple-600">
-                        {formatCurrency(Math.round(results.taxAmount * 0.60))}
+                        {formatCurrency(schedule.deadlines2025.acconti.secondInstallment)}
                       </td>
-                      <td className="p-3">Secondo Acconto 2025 (60%)</td>
+                      <td className="p-3">Secondo Acconto 2025</td>
                       <td className="p-3 font-mono text-xs">1791</td>
                     </tr>
                     
                     {/* Contributi INPS */}
                     <tr className="border-b bg-orange-50">
-                      <td className="p-3 font-medium">16 Agosto 2025</td>
+                      <td className="p-3 font-medium">{schedule.inpsDate2025}</td>
                       <td className="p-3 text-right font-bold text-orange-600">
                         {formatCurrency(results.inpsAmount)}
                       </td>
@@ -1155,12 +1177,12 @@ export default function CalculatorPage() {
                   </div>
                   <div className="flex justify-between">
                     <span>Imposta sostitutiva:</span>
-                    <span className="font-medium">{formatCurrency((form.watch('revenue2025') || 0) * (TAX_COEFFICIENTS[form.watch('category') as keyof typeof TAX_COEFFICIENTS]?.value || 0.67) * (form.watch('isStartup') ? 0.05 : 0.15))}</span>
+                    <span className="font-medium">{formatCurrency(schedule.tax2025)}</span>
                   </div>
                   <div className="border-t pt-2">
                     <div className="flex justify-between font-semibold">
                       <span>Totale Imposte:</span>
-                      <span>{formatCurrency((form.watch('revenue2025') || 0) * (TAX_COEFFICIENTS[form.watch('category') as keyof typeof TAX_COEFFICIENTS]?.value || 0.67) * (form.watch('isStartup') ? 0.05 : 0.15))}</span>
+                      <span>{formatCurrency(schedule.tax2025)}</span>
                     </div>
                   </div>
                 </div>
@@ -1188,7 +1210,7 @@ export default function CalculatorPage() {
               <div className="mt-6 p-4 bg-blue-50 rounded-lg border-2 border-blue-200">
                 <div className="flex justify-between items-center">
                   <span className="text-lg font-bold text-blue-900">Totale Dovuto Anno 2025:</span>
-                  <span className="text-2xl font-bold text-blue-600">{formatCurrency(((form.watch('revenue2025') || 0) * (TAX_COEFFICIENTS[form.watch('category') as keyof typeof TAX_COEFFICIENTS]?.value || 0.67) * (form.watch('isStartup') ? 0.05 : 0.15)) + results.inpsAmount)}</span>
+                  <span className="text-2xl font-bold text-blue-600">{formatCurrency(schedule.tax2025 + results.inpsAmount)}</span>
                 </div>
               </div>
             </CardContent>
@@ -1220,9 +1242,9 @@ export default function CalculatorPage() {
                   <tbody>
                     {/* Saldo 2025 */}
                     <tr className="border-b bg-green-50">
-                      <td className="p-3 font-medium">30 Giugno 2026</td>
+                      <td className="p-3 font-medium">{schedule.deadlines2026.tax.june.date}</td>
                       <td className="p-3 text-right font-bold text-green-600">
-                        {formatCurrency((form.watch('revenue2025') || 0) * (TAX_COEFFICIENTS[form.watch('category') as keyof typeof TAX_COEFFICIENTS]?.value || 0.67) * (form.watch('isStartup') ? 0.05 : 0.15))}
+                        {formatCurrency(schedule.deadlines2026.acconti.previousYearBalance)}
                       </td>
                       <td className="p-3">Saldo Imposta Sostitutiva 2025</td>
                       <td className="p-3 font-mono text-xs">1792</td>
@@ -1230,27 +1252,27 @@ export default function CalculatorPage() {
                     
                     {/* Primo Acconto 2026 */}
                     <tr className="border-b bg-blue-50">
-                      <td className="p-3 font-medium">30 Giugno 2026</td>
+                      <td className="p-3 font-medium">{schedule.deadlines2026.tax.june.date}</td>
                       <td className="p-3 text-right font-bold text-blue-600">
-                        {formatCurrency(Math.round(((form.watch('revenue2025') || 0) * (TAX_COEFFICIENTS[form.watch('category') as keyof typeof TAX_COEFFICIENTS]?.value || 0.67) * (form.watch('isStartup') ? 0.05 : 0.15)) * 0.40))}
+                        {formatCurrency(schedule.deadlines2026.acconti.firstInstallment)}
                       </td>
-                      <td className="p-3">Primo Acconto 2026 (40%)</td>
+                      <td className="p-3">Primo Acconto 2026</td>
                       <td className="p-3 font-mono text-xs">1790</td>
                     </tr>
                     
                     {/* Secondo Acconto 2026 */}
                     <tr className="border-b bg-purple-50">
-                      <td className="p-3 font-medium">30 Novembre 2026</td>
+                      <td className="p-3 font-medium">{schedule.deadlines2026.tax.november.date}</td>
                       <td className="p-3 text-right font-bold text-purple-600">
-                        {formatCurrency(Math.round(((form.watch('revenue2025') || 0) * (TAX_COEFFICIENTS[form.watch('category') as keyof typeof TAX_COEFFICIENTS]?.value || 0.67) * (form.watch('isStartup') ? 0.05 : 0.15)) * 0.60))}
+                        {formatCurrency(schedule.deadlines2026.acconti.secondInstallment)}
                       </td>
-                      <td className="p-3">Secondo Acconto 2026 (60%)</td>
+                      <td className="p-3">Secondo Acconto 2026</td>
                       <td className="p-3 font-mono text-xs">1791</td>
                     </tr>
                     
                     {/* Contributi INPS */}
                     <tr className="border-b bg-orange-50">
-                      <td className="p-3 font-medium">16 Agosto 2026</td>
+                      <td className="p-3 font-medium">{schedule.inpsDate2026}</td>
                       <td className="p-3 text-right font-bold text-orange-600">
                         {formatCurrency(results.inpsAmount)}
                       </td>
@@ -0,0 +1,304 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { ArrowLeft, Scale, Trophy, AlertTriangle } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { ATECO_MAPPING } from "@/lib/constants";
+import { REGIME_LABELS, type RegimeComparisonResult } from "@shared/lib/regime-comparison";
+
+const comparisonSchema = z.object({
+  revenue: z.number().min(0, "Il fatturato deve essere positivo"),
+  costs: z.number().min(0, "I costi devono essere positivi").default(0),
+  atecoCode: z.string().optional(),
+  contributionRegime: z.enum(['GESTIONE_SEPARATA', 'IVS_ARTIGIANI', 'IVS_COMMERCIANTI']),
+  employees: z.number().int().min(0).default(0),
+  employeeCosts: z.number().min(0).default(0),
+  isStartup: z.boolean().default(false),
+  region: z.string().optional(),
+});
+
+type ComparisonForm = z.infer<typeof comparisonSchema>;
+
+const CONTRIBUTION_OPTIONS = {
+  'GESTIONE_SEPARATA': 'Gestione Separata',
+  'IVS_ARTIGIANI': 'IVS Artigiani',
+  'IVS_COMMERCIANTI': 'IVS Commercianti',
+} as const;
+
+const REGIME_COLORS = {
+  FORFETTARIO: 'border-blue-300 bg-blue-50 text-blue-700',
+  ORDINARIO: 'border-green-300 bg-green-50 text-green-700',
+  SRL: 'border-purple-300 bg-purple-50 text-purple-700',
+} as const;
+
+const formatCurrency = (amount: number) => new Intl.NumberFormat('it-IT', {
+  style: 'currency',
+  currency: 'EUR',
+  maximumFractionDigits: 0,
+}).format(amount);
+
+export default function Comparison() {
+  const { toast } = useToast();
+
+  const form = useForm<ComparisonForm>({
+    resolver: zodResolver(comparisonSchema),
+    defaultValues: {
+      revenue: 50000,
+      costs: 5000,
+      atecoCode: "",
+      contributionRegime: "GESTIONE_SEPARATA",
+      employees: 0,
+      employeeCosts: 0,
+      isStartup: false,
+      region: "LOMBARDIA",
+    },
+  });
+
+  const compareMutation = useMutation({
+    mutationFn: async (data: ComparisonForm): Promise<RegimeComparisonResult> => {
+      const response = await apiRequest('POST', '/api/calculations/compare', data);
+      return response.json();
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Errore",
+        description: error.message || "Errore durante il confronto",
+      });
+    },
+  });
+
+  const onSubmit = (data: ComparisonForm) => {
+    compareMutation.mutate(data);
+  };
+
+  const result = compareMutation.data;
+
+  const numberField = (name: 'revenue' | 'costs' | 'employees' | 'employeeCosts', label: string, description?: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{label}</FormLabel>
+          <FormControl>
+            <Input
+              type="number"
+              min={0}
+              value={field.value}
+              onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+            />
+          </FormControl>
+          {description && <FormDescription>{description}</FormDescription>}
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50">
+      <div className="container mx-auto px-4 py-6 max-w-6xl">
+        <div className="flex items-center justify-between mb-8">
+          <Link href="/">
+            <Button variant="ghost">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Torna alla home
+            </Button>
+          </Link>
+          <div className="text-3xl font-bold text-blue-600">SmartRate</div>
+        </div>
+
+        <div className="text-center mb-10">
+          <h1 className="text-3xl md:text-4xl font-bold text-gray-900 mb-3">
+            Confronta i Regimi Fiscali
+          </h1>
+          <p className="text-gray-600 max-w-2xl mx-auto">
+            Inserisci i dati della tua attività: calcoliamo tasse, contributi e netto
+            in regime forfettario, ordinario e come SRL.
+          </p>
+        </div>
+
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Scale className="mr-2 h-5 w-5 text-blue-600" />
+              Profilo dell'attività
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
+                  {numberField('revenue', 'Fatturato annuo (€)')}
+                  {numberField('costs', 'Costi operativi annui (€)', 'Esclusi i costi del personale')}
+
+                  <FormField
+                    control={form.control}
+                    name="atecoCode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Codice ATECO</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Seleziona il tuo settore" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(ATECO_MAPPING).map(([code, data]) => (
+                              <SelectItem key={code} value={code}>
+                                {code} - {data.description}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="contributionRegime"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Regime Contributivo</FormLabel>
+                        <Select onValueChange={field.onChange} defaultValue={field.value}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Seleziona regime" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {Object.entries(CONTRIBUTION_OPTIONS).map(([key, value]) => (
+                              <SelectItem key={key} value={key}>
+                                {value}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {numberField('employees', 'Dipendenti')}
+                  {numberField('employeeCosts', 'Costo del personale annuo (€)')}
+
+                  <FormField
+                    control={form.control}
+                    name="isStartup"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                        <div className="space-y-0.5">
+                          <FormLabel>Nuova attività</FormLabel>
+                          <FormDescription>Aliquota forfettaria agevolata al 5%</FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <Button type="submit" className="w-full" disabled={compareMutation.isPending}>
+                  {compareMutation.isPending ? "Calcolo in corso..." : "Confronta i regimi"}
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        {result && (
+          <div className="space-y-8">
+            <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+              {result.outcomes.map((outcome) => (
+                <Card
+                  key={outcome.regime}
+                  className={`border-2 ${outcome.regime === result.bestRegime ? REGIME_COLORS[outcome.regime] : ''}`}
+                >
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between text-lg">
+                      {outcome.label}
+                      {outcome.regime === result.bestRegime && <Trophy className="h-5 w-5" />}
+                    </CardTitle>
+                    {!outcome.eligible && (
+                      <CardDescription className="flex items-start text-red-600">
+                        <AlertTriangle className="mr-1 h-4 w-4 flex-shrink-0" />
+                        {outcome.ineligibilityReasons.join(', ')}
+                      </CardDescription>
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    <div className="space-y-2 text-sm">
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Imposte:</span>
+                        <span className="font-medium">{formatCurrency(outcome.totalTax)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Contributi:</span>
+                        <span className="font-medium">{formatCurrency(outcome.contributions)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span className="text-gray-500">Carico effettivo:</span>
+                        <span className="font-medium">{outcome.effectiveRate}%</span>
+                      </div>
+                      <div className="flex justify-between border-t pt-2 text-base">
+                        <span className="font-semibold text-gray-900">Netto:</span>
+                        <span className="font-bold text-emerald-600">{formatCurrency(outcome.netTakeHome)}</span>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Soglie di convenienza</CardTitle>
+                <CardDescription>
+                  Regime più conveniente al variare del fatturato, a parità di incidenza dei costi
+                  (regole fiscali {result.rulesYear})
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {result.winningRanges.map((range) => (
+                    <div
+                      key={`${range.regime}-${range.fromRevenue}`}
+                      className={`flex justify-between rounded-lg border p-3 text-sm ${REGIME_COLORS[range.regime]}`}
+                    >
+                      <span>{formatCurrency(range.fromRevenue)} – {formatCurrency(range.toRevenue)}</span>
+                      <span className="font-semibold">{REGIME_LABELS[range.regime]}</span>
+                    </div>
+                  ))}
+                </div>
+                {result.breakEvenPoints.length > 0 && (
+                  <ul className="mt-4 space-y-1 text-sm text-gray-600">
+                    {result.breakEvenPoints.map((point) => (
+                      <li key={point.revenue}>
+                        • Oltre {formatCurrency(point.revenue)} conviene passare da {REGIME_LABELS[point.from]} a {REGIME_LABELS[point.to]}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { Plus } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import StatsCards from "@/components/dashboard/stats-cards";
+import EligibilityAlert from "@/components/dashboard/eligibility-alert";
 import RevenueChart from "@/components/dashboard/revenue-chart";
 import QuickCalculator from "@/components/dashboard/quick-calculator";
 import RecentActivity from "@/components/dashboard/recent-activity";
@@ -30,6 +31,9 @@ export default function Dashboard() {
           </div>
         </div>
 
+        {/* Forfettario eligibility warnings */}
+        <EligibilityAlert />
+
         {/* Stats Overview */}
         <StatsCards />
 
@@ -0,0 +1,257 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Plus, Receipt, Trash2 } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import ExpenseForm from "@/components/forms/expense-form";
+import { EXPENSE_CATEGORIES, type ExpenseCategory } from "@shared/lib/expenses";
+
+export default function Expenses() {
+  const [selectedBusinessId, setSelectedBusinessId] = useState<string>("");
+  const [selectedExpense, setSelectedExpense] = useState<any>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [year, setYear] = useState(new Date().getFullYear());
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: businesses } = useQuery({
+    queryKey: ["/api/businesses"],
+  });
+
+  const businessId = selectedBusinessId || (businesses as any[])?.[0]?.id?.toString() || "";
+
+  const { data: expenses, isLoading } = useQuery({
+    queryKey: [`/api/businesses/${businessId}/expenses`],
+    enabled: !!businessId,
+  });
+
+  const { data: summary } = useQuery<any>({
+    queryKey: [`/api/businesses/${businessId}/expenses/summary?year=${year}`],
+    enabled: !!businessId,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (expenseId: number) => {
+      const response = await apiRequest('DELETE', `/api/expenses/${expenseId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/businesses/${businessId}/expenses`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/businesses/${businessId}/expenses/summary?year=${year}`] });
+      toast({
+        title: "Spesa eliminata",
+        description: "La spesa è stata rimossa dal registro",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Errore",
+        description: error.message || "Impossibile eliminare la spesa",
+      });
+    },
+  });
+
+  const handleAdd = () => {
+    setSelectedExpense(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (expense: any) => {
+    setSelectedExpense(expense);
+    setDialogOpen(true);
+  };
+
+  const handleSaved = () => {
+    setDialogOpen(false);
+    queryClient.invalidateQueries({ queryKey: [`/api/businesses/${businessId}/expenses/summary?year=${year}`] });
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('it-IT', {
+      style: 'currency',
+      currency: 'EUR'
+    }).format(amount);
+  };
+
+  const yearExpenses = ((expenses as any[]) || []).filter((expense: any) => expense.date.startsWith(year.toString()));
+
+  return (
+    <div className="max-w-7xl mx-auto">
+      {/* Header */}
+      <div className="mb-8">
+        <div className="md:flex md:items-center md:justify-between">
+          <div className="min-w-0 flex-1">
+            <h2 className="text-2xl font-bold leading-7 text-gray-900 sm:truncate sm:text-3xl sm:tracking-tight">
+              Registro Acquisti
+            </h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Fatture di acquisto e spese deducibili usate nel calcolo delle imposte
+            </p>
+          </div>
+          <div className="mt-4 flex gap-x-3 md:ml-4 md:mt-0">
+            <Select value={businessId} onValueChange={setSelectedBusinessId}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue placeholder="Seleziona un'attività" />
+              </SelectTrigger>
+              <SelectContent>
+                {(businesses as any[])?.map((business: any) => (
+                  <SelectItem key={business.id} value={business.id.toString()}>
+                    {business.businessName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={year.toString()} onValueChange={(value) => setYear(parseInt(value))}>
+              <SelectTrigger className="w-[110px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: 6 }, (_, i) => new Date().getFullYear() - i).map((option) => (
+                  <SelectItem key={option} value={option.toString()}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+              <DialogTrigger asChild>
+                <Button onClick={handleAdd} disabled={!businessId} className="inline-flex items-center gap-x-1.5">
+                  <Plus className="h-4 w-4" />
+                  Nuova Spesa
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>
+                    {selectedExpense ? "Modifica Spesa" : "Nuova Spesa"}
+                  </DialogTitle>
+                </DialogHeader>
+                <ExpenseForm
+                  businessId={businessId}
+                  expense={selectedExpense}
+                  onSuccess={handleSaved}
+                />
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+      </div>
+
+      {/* Yearly totals */}
+      {summary && summary.count > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle>Totali {year}</CardTitle>
+            <CardDescription>
+              Importi usati dai calcolatori IRPEF/IRES, IRAP e IVA
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+              <div>
+                <p className="text-sm text-gray-500">Imponibile registrato</p>
+                <p className="text-lg font-semibold">{formatCurrency(summary.amount)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Deducibile IRPEF/IRES</p>
+                <p className="text-lg font-semibold">{formatCurrency(summary.incomeTaxCosts)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">Deducibile IRAP</p>
+                <p className="text-lg font-semibold">{formatCurrency(summary.irapCosts)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-gray-500">IVA detraibile</p>
+                <p className="text-lg font-semibold">{formatCurrency(summary.deductibleVat)}</p>
+              </div>
+            </div>
+            {summary.representationExcess > 0 && (
+              <p className="mt-4 text-sm text-yellow-700">
+                Spese di rappresentanza oltre il plafond di {formatCurrency(summary.representationCap)}:
+                {" "}{formatCurrency(summary.representationExcess)} non deducibili
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Expenses */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Spese {year} ({yearExpenses.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">Caricamento spese...</div>
+          ) : yearExpenses.length === 0 ? (
+            <div className="text-center py-12">
+              <Receipt className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">Nessuna spesa</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Registra le fatture di acquisto dell'anno.
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Data</th>
+                    <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Fornitore</th>
+                    <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Categoria</th>
+                    <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Imponibile</th>
+                    <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">IVA</th>
+                    <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Deducibilità</th>
+                    <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Azioni</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {yearExpenses.map((expense: any) => (
+                    <tr
+                      key={expense.id}
+                      className="border-b hover:bg-gray-50 cursor-pointer"
+                      onClick={() => handleEdit(expense)}
+                    >
+                      <td className="py-4 text-sm text-gray-500">{new Date(expense.date).toLocaleDateString('it-IT')}</td>
+                      <td className="py-4 text-sm text-gray-900">
+                        {expense.supplierName}
+                        {expense.number && <span className="text-gray-500"> · n. {expense.number}</span>}
+                      </td>
+                      <td className="py-4">
+                        <Badge variant="secondary">{EXPENSE_CATEGORIES[expense.category as ExpenseCategory]?.label || expense.category}</Badge>
+                      </td>
+                      <td className="py-4 text-sm text-gray-900">{formatCurrency(expense.amount)}</td>
+                      <td className="py-4 text-sm text-gray-900">{formatCurrency(expense.vatAmount || 0)}</td>
+                      <td className="py-4 text-xs text-gray-500">
+                        Redditi {expense.incomeTaxDeductibility}% · IRAP {expense.irapDeductibility}% · IVA {expense.vatDeductibility}%
+                      </td>
+                      <td className="py-4">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Elimina spesa"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            deleteMutation.mutate(expense.id);
+                          }}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -248,6 +248,16 @@ export default function HomePage() {
                   </ul>
                 </div>
               </div>
+
+              <div className="text-center mt-8">
+                <Link href="/comparison">
+                  <Button variant="outline" className="py-3 text-lg">
+                    <TrendingUp className="mr-2 h-5 w-5" />
+                    Confronta i regimi con i tuoi numeri
+                    <ArrowRight className="ml-2 h-4 w-4" />
+                  </Button>
+                </Link>
+              </div>
             </CardContent>
           </Card>
         </div>
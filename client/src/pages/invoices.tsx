@@ -1,7 +1,150 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { AlertTriangle, FileMinus, FileSpreadsheet, FileText, Plus, Repeat, SkipForward } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { FileText } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import InvoiceForm from "@/components/forms/invoice-form";
+import InvoiceSpreadsheetImport from "@/components/forms/invoice-spreadsheet-import";
+
+const COLLECTION_LABELS = {
+  UNPAID: "Da incassare",
+  PARTIAL: "Incassata in parte",
+  PAID: "Incassata",
+};
+
+const COLLECTION_COLORS = {
+  UNPAID: "bg-yellow-100 text-yellow-800",
+  PARTIAL: "bg-blue-100 text-blue-800",
+  PAID: "bg-green-100 text-green-800",
+};
 
 export default function Invoices() {
+  const [selectedBusinessId, setSelectedBusinessId] = useState<string>("");
+  const [selectedInvoice, setSelectedInvoice] = useState<any>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: businesses } = useQuery({
+    queryKey: ["/api/businesses"],
+  });
+
+  const businessId = selectedBusinessId || (businesses as any[])?.[0]?.id?.toString() || "";
+
+  const { data: invoices, isLoading } = useQuery({
+    queryKey: [`/api/businesses/${businessId}/invoices`],
+    enabled: !!businessId,
+  });
+
+  const { data: numbering } = useQuery<any>({
+    queryKey: [`/api/businesses/${businessId}/invoice-numbering/check`],
+    enabled: !!businessId,
+  });
+
+  // Numerazioni con progressivi mancanti o ripetuti
+  const numberingIssues = (numbering?.sequences || []).filter((sequence: any) =>
+    sequence.gaps.length > 0 || sequence.duplicates.length > 0
+  );
+
+  const { data: upcoming } = useQuery({
+    queryKey: [`/api/businesses/${businessId}/recurring-invoices/upcoming`],
+    enabled: !!businessId,
+  });
+
+  const skipMutation = useMutation({
+    mutationFn: async ({ recurringInvoiceId, date }: { recurringInvoiceId: number; date: string }) => {
+      await apiRequest('POST', `/api/recurring-invoices/${recurringInvoiceId}/skip`, { date });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/businesses/${businessId}/recurring-invoices/upcoming`] });
+      toast({
+        title: "Emissione saltata",
+        description: "La fattura non verrà generata in questa data",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Errore",
+        description: error.message || "Errore durante l'operazione",
+      });
+    },
+  });
+
+  const creditNoteMutation = useMutation({
+    mutationFn: async ({ invoiceId, amount }: { invoiceId: number; amount: number }) => {
+      const today = new Date().toISOString().slice(0, 10);
+      await apiRequest('POST', `/api/invoices/${invoiceId}/credit-notes`, { issueDate: today, amount });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/businesses/${businessId}/invoices`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/businesses/${businessId}/invoice-numbering/check`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+      toast({
+        title: "Nota di credito emessa",
+        description: "La nota di credito riduce i ricavi del periodo di emissione",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        variant: "destructive",
+        title: "Errore",
+        description: error.message || "Errore durante l'emissione",
+      });
+    },
+  });
+
+  const handleAdd = () => {
+    setSelectedInvoice(null);
+    setDialogOpen(true);
+  };
+
+  const handleEdit = (invoice: any) => {
+    setSelectedInvoice(invoice);
+    setDialogOpen(true);
+  };
+
+  const handleSkip = (recurringInvoiceId: number, date: string) => {
+    if (confirm(`Saltare l'emissione del ${formatDate(date)}?`)) {
+      skipMutation.mutate({ recurringInvoiceId, date });
+    }
+  };
+
+  // Imponibile ancora da stornare, proposto come importo della nota di credito
+  const handleCreditNote = (invoice: any) => {
+    const credited = ((invoices as any[]) || [])
+      .filter((item: any) => item.originalInvoiceId === invoice.id)
+      .reduce((sum: number, item: any) => sum + Math.abs(item.amount), 0);
+    const remaining = Math.round((invoice.amount - credited) * 100) / 100;
+    const value = prompt("Imponibile da stornare", remaining.toFixed(2).replace('.', ','));
+    const amount = value ? parseFloat(value.replace(',', '.')) : NaN;
+    if (amount > 0) {
+      creditNoteMutation.mutate({ invoiceId: invoice.id, amount });
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('it-IT');
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('it-IT', {
+      style: 'currency',
+      currency: 'EUR'
+    }).format(amount);
+  };
+
+  const sortedInvoices = [...((invoices as any[]) || [])].sort((a, b) =>
+    (b.issueDate || `${b.year}-${String(b.month).padStart(2, '0')}`).localeCompare(a.issueDate || `${a.year}-${String(a.month).padStart(2, '0')}`)
+  );
+
   return (
     <div className="max-w-7xl mx-auto">
       {/* Header */}
@@ -15,17 +158,216 @@ export default function Invoices() {
               Registra e gestisci le tue fatture
             </p>
           </div>
+          <div className="mt-4 flex gap-x-3 md:ml-4 md:mt-0">
+            <Select value={businessId} onValueChange={setSelectedBusinessId}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue placeholder="Seleziona un'attività" />
+              </SelectTrigger>
+              <SelectContent>
+                {(businesses as any[])?.map((business: any) => (
+                  <SelectItem key={business.id} value={business.id.toString()}>
+                    {business.businessName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Dialog open={importOpen} onOpenChange={setImportOpen}>
+              <DialogTrigger asChild>
+                <Button variant="outline" disabled={!businessId} className="inline-flex items-center gap-x-1.5">
+                  <FileSpreadsheet className="h-4 w-4" />
+                  Importa CSV/Excel
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Importa fatture da CSV/Excel</DialogTitle>
+                </DialogHeader>
+                <InvoiceSpreadsheetImport
+                  businessId={businessId}
+                  onSuccess={() => setImportOpen(false)}
+                />
+              </DialogContent>
+            </Dialog>
+            <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+              <DialogTrigger asChild>
+                <Button onClick={handleAdd} className="inline-flex items-center gap-x-1.5">
+                  <Plus className="h-4 w-4" />
+                  Nuova Fattura
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>
+                    {selectedInvoice ? "Modifica Fattura" : "Nuova Fattura"}
+                  </DialogTitle>
+                </DialogHeader>
+                <InvoiceForm
+                  invoice={selectedInvoice}
+                  onSuccess={() => setDialogOpen(false)}
+                />
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
       </div>
 
-      {/* Content */}
-      <div className="text-center py-12">
-        <FileText className="mx-auto h-12 w-12 text-gray-400" />
-        <h3 className="mt-2 text-sm font-medium text-gray-900">Gestione Fatture</h3>
-        <p className="mt-1 text-sm text-gray-500">
-          Questa funzionalità sarà disponibile a breve.
-        </p>
-      </div>
+      {/* Invoice numbering check */}
+      {numberingIssues.length > 0 && (
+        <Card className="mb-6 border-yellow-300">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-x-2">
+              <AlertTriangle className="h-5 w-5 text-yellow-600" />
+              Numerazione da verificare
+            </CardTitle>
+            <CardDescription>
+              La numerazione delle fatture deve essere progressiva, senza numeri mancanti o ripetuti
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {numberingIssues.map((sequence: any) => (
+                <div key={`${sequence.year}-${sequence.series}`} className="py-3 text-sm">
+                  <p className="font-medium">
+                    {sequence.year}{sequence.series ? ` · sezionale ${sequence.series}` : ""}
+                  </p>
+                  {sequence.gaps.length > 0 && (
+                    <p className="text-gray-500">
+                      Numeri mancanti: {sequence.gaps.map((gap: any) => gap.from === gap.to ? gap.from : `${gap.from}-${gap.to}`).join(", ")}
+                    </p>
+                  )}
+                  {sequence.duplicates.length > 0 && (
+                    <p className="text-gray-500">
+                      Numeri ripetuti: {sequence.duplicates.map((duplicate: any) => duplicate.sequenceNumber).join(", ")}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Upcoming recurring invoices */}
+      {(upcoming as any[])?.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-x-2">
+              <Repeat className="h-5 w-5" />
+              Prossime fatture ricorrenti
+            </CardTitle>
+            <CardDescription>
+              Le fatture vengono generate automaticamente alla data indicata
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {(upcoming as any[]).map((occurrence: any) => (
+                <div
+                  key={`${occurrence.recurringInvoiceId}-${occurrence.date}`}
+                  className="flex items-center justify-between py-3"
+                >
+                  <div className={occurrence.skipped ? "text-gray-400 line-through" : ""}>
+                    <p className="font-medium">{occurrence.description}</p>
+                    <p className="text-sm text-gray-500">
+                      {formatDate(occurrence.date)} · {formatCurrency(occurrence.amount)}
+                    </p>
+                  </div>
+                  {occurrence.skipped ? (
+                    <Badge variant="secondary">Saltata</Badge>
+                  ) : (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleSkip(occurrence.recurringInvoiceId, occurrence.date)}
+                      disabled={skipMutation.isPending}
+                    >
+                      <SkipForward className="mr-1 h-4 w-4" />
+                      Salta
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Invoices */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Fatture ({sortedInvoices.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">Caricamento fatture...</div>
+          ) : sortedInvoices.length === 0 ? (
+            <div className="text-center py-12">
+              <FileText className="mx-auto h-12 w-12 text-gray-400" />
+              <h3 className="mt-2 text-sm font-medium text-gray-900">Nessuna fattura</h3>
+              <p className="mt-1 text-sm text-gray-500">
+                Registra la prima fattura dell'attività.
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b text-left">
+                    <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Numero</th>
+                    <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Data</th>
+                    <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Descrizione</th>
+                    <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Imponibile</th>
+                    <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Incasso</th>
+                    <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Azioni</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedInvoices.map((invoice: any) => (
+                    <tr
+                      key={invoice.id}
+                      className="border-b hover:bg-gray-50 cursor-pointer"
+                      onClick={() => handleEdit(invoice)}
+                    >
+                      <td className="py-4 text-sm font-medium text-gray-900">
+                        {invoice.number || "—"}
+                        {invoice.documentType === "TD04" && (
+                          <Badge variant="secondary" className="ml-2">Nota di credito</Badge>
+                        )}
+                      </td>
+                      <td className="py-4 text-sm text-gray-500">
+                        {invoice.issueDate ? formatDate(invoice.issueDate) : `${String(invoice.month).padStart(2, '0')}/${invoice.year}`}
+                      </td>
+                      <td className="py-4 text-sm text-gray-900">{invoice.description || "—"}</td>
+                      <td className="py-4 text-sm text-gray-900">{formatCurrency(invoice.amount)}</td>
+                      <td className="py-4">
+                        <Badge className={COLLECTION_COLORS[invoice.collectionStatus as keyof typeof COLLECTION_COLORS]}>
+                          {COLLECTION_LABELS[invoice.collectionStatus as keyof typeof COLLECTION_LABELS]}
+                        </Badge>
+                      </td>
+                      <td className="py-4">
+                        {invoice.amount > 0 && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Emetti nota di credito"
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              handleCreditNote(invoice);
+                            }}
+                            disabled={creditNoteMutation.isPending}
+                          >
+                            <FileMinus className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 }
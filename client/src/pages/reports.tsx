@@ -1,7 +1,77 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Download, FileCode, PieChart } from "lucide-react";
+
+import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { PieChart } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { getLipeDueDate } from "@shared/lib/lipe";
+import type { VatAccontoMethod, VatFrequency, VatSettlementResult } from "@shared/lib/vat-settlement";
+
+const ACCONTO_METHODS: Record<VatAccontoMethod, string> = {
+  HISTORICAL: "Storico",
+  FORECAST: "Previsionale",
+  OPERATIONS: "Operazioni effettuate",
+};
 
 export default function Reports() {
+  const [selectedBusinessId, setSelectedBusinessId] = useState<string>("");
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [frequency, setFrequency] = useState<VatFrequency>("TRIMESTRALE");
+  const [accontoMethod, setAccontoMethod] = useState<VatAccontoMethod>("HISTORICAL");
+  const { toast } = useToast();
+
+  const { data: businesses } = useQuery({
+    queryKey: ["/api/businesses"],
+  });
+
+  const businessId = selectedBusinessId || (businesses as any[])?.[0]?.id?.toString() || "";
+  const params = `year=${year}&frequency=${frequency}&accontoMethod=${accontoMethod}`;
+
+  const { data: settlement, isLoading, error } = useQuery<VatSettlementResult>({
+    queryKey: [`/api/businesses/${businessId}/vat-settlement?${params}`],
+    enabled: !!businessId,
+  });
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('it-IT', {
+      style: 'currency',
+      currency: 'EUR'
+    }).format(amount);
+  };
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('it-IT');
+
+  const download = async (path: string, fileName: string) => {
+    try {
+      const response = await apiRequest('GET', `/api/businesses/${businessId}/vat-settlement/${path}`);
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = fileName;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Errore",
+        description: error.message || "Impossibile scaricare il file",
+      });
+    }
+  };
+
+  const quarters = [1, 2, 3, 4].map(quarter => ({
+    quarter,
+    periods: settlement?.periods.filter(period =>
+      frequency === "MENSILE" ? Math.ceil(period.period / 3) === quarter : period.period === quarter
+    ) || [],
+  }));
+
   return (
     <div className="max-w-7xl mx-auto">
       {/* Header */}
@@ -12,20 +82,185 @@ export default function Reports() {
               Report e Analytics
             </h2>
             <p className="mt-1 text-sm text-gray-500">
-              Visualizza report dettagliati delle tue attività
+              Liquidazioni IVA, comunicazioni LIPE e dati per la dichiarazione annuale
             </p>
           </div>
+          <div className="mt-4 flex flex-wrap gap-3 md:ml-4 md:mt-0">
+            <Select value={businessId} onValueChange={setSelectedBusinessId}>
+              <SelectTrigger className="w-[220px]">
+                <SelectValue placeholder="Seleziona un'attività" />
+              </SelectTrigger>
+              <SelectContent>
+                {(businesses as any[])?.map((business: any) => (
+                  <SelectItem key={business.id} value={business.id.toString()}>
+                    {business.businessName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={year.toString()} onValueChange={(value) => setYear(parseInt(value))}>
+              <SelectTrigger className="w-[110px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Array.from({ length: 6 }, (_, i) => new Date().getFullYear() - i).map((option) => (
+                  <SelectItem key={option} value={option.toString()}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={frequency} onValueChange={(value) => setFrequency(value as VatFrequency)}>
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="TRIMESTRALE">Trimestrale</SelectItem>
+                <SelectItem value="MENSILE">Mensile</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={accontoMethod} onValueChange={(value) => setAccontoMethod(value as VatAccontoMethod)}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {/* Il metodo previsionale richiede una stima, disponibile solo nei calcolatori */}
+                {(["HISTORICAL", "OPERATIONS"] as const).map((method) => (
+                  <SelectItem key={method} value={method}>Acconto: {ACCONTO_METHODS[method]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
         </div>
       </div>
 
-      {/* Content */}
-      <div className="text-center py-12">
-        <PieChart className="mx-auto h-12 w-12 text-gray-400" />
-        <h3 className="mt-2 text-sm font-medium text-gray-900">Report e Analytics</h3>
-        <p className="mt-1 text-sm text-gray-500">
-          Questa funzionalità sarà disponibile a breve.
-        </p>
-      </div>
+      {!businessId ? (
+        <div className="text-center py-12">
+          <PieChart className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">Nessuna attività</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            Crea un'attività per vedere le liquidazioni IVA.
+          </p>
+        </div>
+      ) : isLoading ? (
+        <div className="text-center py-8">Caricamento liquidazioni...</div>
+      ) : error || !settlement ? (
+        <div className="text-center py-8 text-sm text-red-600">Impossibile calcolare le liquidazioni IVA</div>
+      ) : (
+        <>
+          {/* Riepilogo annuale */}
+          <Card className="mb-6">
+            <CardHeader>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <CardTitle>IVA {year}</CardTitle>
+                  <CardDescription>
+                    Saldo della dichiarazione annuale in scadenza il {formatDate(settlement.annual.dueDate)}
+                  </CardDescription>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => download(`summary?${params}`, `Liquidazioni_IVA_${year}.xlsx`)}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Riepilogo annuale
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+                <div>
+                  <p className="text-sm text-gray-500">IVA a debito</p>
+                  <p className="text-lg font-semibold">{formatCurrency(settlement.annual.vatOnSales)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">IVA detraibile</p>
+                  <p className="text-lg font-semibold">{formatCurrency(settlement.annual.vatOnPurchases)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Acconto ({ACCONTO_METHODS[settlement.acconto.method].toLowerCase()})</p>
+                  <p className="text-lg font-semibold">{formatCurrency(settlement.acconto.amount)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">
+                    {settlement.annual.credit > 0 ? "Credito da riportare" : "Saldo da versare"}
+                  </p>
+                  <p className="text-lg font-semibold">
+                    {formatCurrency(settlement.annual.credit > 0 ? settlement.annual.credit : settlement.annual.amountDue)}
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Comunicazioni trimestrali */}
+          {quarters.map(({ quarter, periods }) => (
+            <Card key={quarter} className="mb-6">
+              <CardHeader>
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <CardTitle>LIPE {quarter}° trimestre</CardTitle>
+                    <CardDescription>
+                      Comunicazione da inviare entro il {formatDate(getLipeDueDate(year, quarter))}
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => download(`summary?${params}&quarter=${quarter}`, `Liquidazioni_IVA_${year}_T${quarter}.xlsx`)}
+                    >
+                      <Download className="h-4 w-4 mr-2" />
+                      Riepilogo
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => download(`lipe?${params}&quarter=${quarter}`, `LIPE_${year}_T${quarter}.xml`)}
+                    >
+                      <FileCode className="h-4 w-4 mr-2" />
+                      XML
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b text-left">
+                        <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Periodo</th>
+                        <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">IVA esigibile</th>
+                        <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">IVA detratta</th>
+                        <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Saldo</th>
+                        <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Interessi</th>
+                        <th className="pb-3 text-xs font-medium text-gray-500 uppercase tracking-wider">Versamento</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {periods.map((period) => (
+                        <tr key={period.period} className="border-b">
+                          <td className="py-3 text-sm text-gray-900">{period.label}</td>
+                          <td className="py-3 text-sm text-gray-900">{formatCurrency(period.vatOnSales)}</td>
+                          <td className="py-3 text-sm text-gray-900">{formatCurrency(period.vatOnPurchases)}</td>
+                          <td className={`py-3 text-sm ${period.balance < 0 ? 'text-green-700' : 'text-gray-900'}`}>
+                            {formatCurrency(period.balance)}
+                          </td>
+                          <td className="py-3 text-sm text-gray-500">{formatCurrency(period.interest)}</td>
+                          <td className="py-3 text-sm text-gray-900">
+                            {period.amountDue > 0 && period.dueDate
+                              ? `${formatCurrency(period.amountDue)} entro il ${formatDate(period.dueDate)}`
+                              : period.dueDate ? "—" : "Con la dichiarazione annuale"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </>
+      )}
     </div>
   );
 }
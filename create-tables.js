@@ -24,19 +24,177 @@ CREATE TABLE IF NOT EXISTS businesses (
   contribution_reduction TEXT DEFAULT 'NONE',
   has_other_coverage INTEGER DEFAULT 0,
   current_balance REAL DEFAULT 0,
+  vat_number TEXT,
+  fiscal_code TEXT,
+  address TEXT,
+  postal_code TEXT,
+  city TEXT,
+  province TEXT,
+  iban TEXT,
+  fiscal_regime TEXT DEFAULT 'RF19',
+  invoice_import_mapping TEXT,
+  invoice_number_format TEXT,
+  last_sdi_progressive INTEGER NOT NULL DEFAULT 0,
+  created_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS customers (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  business_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  vat_number TEXT,
+  fiscal_code TEXT,
+  sdi_code TEXT,
+  pec TEXT,
+  address TEXT,
+  postal_code TEXT,
+  city TEXT,
+  province TEXT,
+  country_code TEXT NOT NULL DEFAULT 'IT',
+  withholding_agent INTEGER DEFAULT 0,
+  created_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS withholding_certificates (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  business_id INTEGER NOT NULL,
+  customer_id INTEGER NOT NULL,
+  year INTEGER NOT NULL,
+  gross_amount REAL NOT NULL,
+  withheld_amount REAL NOT NULL,
   created_at INTEGER NOT NULL
 );
 
 CREATE TABLE IF NOT EXISTS invoices (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   business_id INTEGER NOT NULL,
+  customer_id INTEGER,
   year INTEGER NOT NULL,
   month INTEGER NOT NULL,
   amount REAL NOT NULL,
+  vat_amount REAL DEFAULT 0,
   description TEXT,
+  number TEXT,
+  series TEXT,
+  sequence_number INTEGER,
+  issue_date TEXT,
+  document_type TEXT DEFAULT 'TD01',
+  vat_treatment TEXT DEFAULT 'STANDARD',
+  vat_nature TEXT,
+  original_invoice_id INTEGER,
+  customer TEXT,
+  lines TEXT,
+  stamp_duty INTEGER DEFAULT 0,
+  inps_rivalsa INTEGER DEFAULT 0,
+  rivalsa_amount REAL DEFAULT 0,
+  withholding_rate REAL,
+  withholding_base REAL,
+  withholding_amount REAL DEFAULT 0,
+  payment_method TEXT DEFAULT 'MP05',
+  payment_due_date TEXT,
+  payments TEXT,
+  collection_status TEXT DEFAULT 'UNPAID',
+  created_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS invoice_versions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  invoice_id INTEGER NOT NULL,
+  version INTEGER NOT NULL,
+  snapshot TEXT NOT NULL,
+  changed_fields TEXT NOT NULL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS invoice_versions_invoice_version
+  ON invoice_versions (invoice_id, version);
+
+CREATE TABLE IF NOT EXISTS invoice_number_sequences (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  business_id INTEGER NOT NULL,
+  year INTEGER NOT NULL,
+  series TEXT NOT NULL DEFAULT '',
+  last_number INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS invoice_number_sequences_business_year_series
+  ON invoice_number_sequences (business_id, year, series);
+
+CREATE TABLE IF NOT EXISTS recurring_invoices (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  business_id INTEGER NOT NULL,
+  customer_id INTEGER,
+  description TEXT NOT NULL,
+  amount REAL NOT NULL,
+  vat_rate REAL NOT NULL DEFAULT 0,
+  vat_nature TEXT,
+  vat_treatment TEXT DEFAULT 'STANDARD',
+  frequency TEXT NOT NULL,
+  start_date TEXT NOT NULL,
+  end_date TEXT,
+  is_active INTEGER DEFAULT 1,
+  created_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS recurring_invoice_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  recurring_invoice_id INTEGER NOT NULL,
+  scheduled_date TEXT NOT NULL,
+  status TEXT NOT NULL,
+  invoice_id INTEGER,
+  message TEXT,
   created_at INTEGER NOT NULL
 );
 
+CREATE UNIQUE INDEX IF NOT EXISTS recurring_invoice_runs_occurrence
+  ON recurring_invoice_runs (recurring_invoice_id, scheduled_date);
+
+CREATE TABLE IF NOT EXISTS expenses (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  business_id INTEGER NOT NULL,
+  supplier_name TEXT NOT NULL,
+  supplier_vat_number TEXT,
+  number TEXT,
+  date TEXT NOT NULL,
+  description TEXT,
+  category TEXT NOT NULL,
+  amount REAL NOT NULL,
+  vat_amount REAL DEFAULT 0,
+  income_tax_deductibility REAL NOT NULL DEFAULT 100,
+  irap_deductibility REAL NOT NULL DEFAULT 100,
+  vat_deductibility REAL NOT NULL DEFAULT 100,
+  created_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS bank_accounts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  business_id INTEGER NOT NULL,
+  name TEXT NOT NULL,
+  iban TEXT,
+  opening_balance REAL NOT NULL DEFAULT 0,
+  opening_date TEXT,
+  created_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS bank_transactions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  bank_account_id INTEGER NOT NULL,
+  business_id INTEGER NOT NULL,
+  booking_date TEXT NOT NULL,
+  value_date TEXT,
+  amount REAL NOT NULL,
+  description TEXT,
+  counterparty TEXT,
+  reference TEXT,
+  import_key TEXT NOT NULL,
+  invoice_id INTEGER,
+  payment_deadline_ids TEXT,
+  created_at INTEGER NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS bank_transactions_account_import_key
+  ON bank_transactions (bank_account_id, import_key);
+
 CREATE TABLE IF NOT EXISTS tax_calculations (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   business_id INTEGER NOT NULL,
@@ -47,6 +205,39 @@ CREATE TABLE IF NOT EXISTS tax_calculations (
   tax_amount REAL NOT NULL,
   inps_amount REAL NOT NULL,
   total_due REAL NOT NULL,
+  acconti_amount REAL,
+  created_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS srl_tax_calculations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  business_id INTEGER NOT NULL,
+  year INTEGER NOT NULL,
+  revenue REAL NOT NULL,
+  taxable_income REAL NOT NULL,
+  ires_amount REAL NOT NULL,
+  irap_amount REAL NOT NULL,
+  vat_amount REAL NOT NULL,
+  inps_amount REAL NOT NULL,
+  total_due REAL NOT NULL,
+  input TEXT,
+  result TEXT,
+  created_at INTEGER NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS individual_tax_calculations (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  business_id INTEGER NOT NULL,
+  year INTEGER NOT NULL,
+  revenue REAL NOT NULL,
+  taxable_income REAL NOT NULL,
+  irpef_amount REAL NOT NULL,
+  surcharges_amount REAL NOT NULL,
+  contributions_amount REAL NOT NULL,
+  vat_amount REAL NOT NULL,
+  total_due REAL NOT NULL,
+  input TEXT,
+  result TEXT,
   created_at INTEGER NOT NULL
 );
 
@@ -56,7 +247,15 @@ CREATE TABLE IF NOT EXISTS payment_deadlines (
   due_date TEXT NOT NULL,
   payment_type TEXT NOT NULL,
   amount REAL NOT NULL,
+  interest_amount REAL DEFAULT 0,
+  tax_code TEXT,
+  installment_number INTEGER,
+  installment_count INTEGER,
+  fiscal_year INTEGER,
+  source TEXT,
   is_paid INTEGER DEFAULT 0,
+  late_sanction_amount REAL DEFAULT 0,
+  late_interest_amount REAL DEFAULT 0,
   paid_date TEXT,
   created_at INTEGER NOT NULL
 );
@@ -80,5 +279,72 @@ CREATE TABLE IF NOT EXISTS leads (
 );
 `);
 
+// Add columns introduced after a table was first created, returning whether the column was added
+const addColumn = (table, column, definition) => {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all();
+  if (columns.some(existing => existing.name === column)) {
+    return false;
+  }
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+};
+
+addColumn('tax_calculations', 'acconti_amount', 'REAL');
+addColumn('payment_deadlines', 'interest_amount', 'REAL DEFAULT 0');
+addColumn('payment_deadlines', 'tax_code', 'TEXT');
+addColumn('payment_deadlines', 'installment_number', 'INTEGER');
+addColumn('payment_deadlines', 'installment_count', 'INTEGER');
+addColumn('payment_deadlines', 'late_sanction_amount', 'REAL DEFAULT 0');
+addColumn('payment_deadlines', 'late_interest_amount', 'REAL DEFAULT 0');
+addColumn('payment_deadlines', 'fiscal_year', 'INTEGER');
+addColumn('payment_deadlines', 'source', 'TEXT');
+addColumn('businesses', 'vat_number', 'TEXT');
+addColumn('businesses', 'fiscal_code', 'TEXT');
+addColumn('businesses', 'address', 'TEXT');
+addColumn('businesses', 'postal_code', 'TEXT');
+addColumn('businesses', 'city', 'TEXT');
+addColumn('businesses', 'province', 'TEXT');
+addColumn('businesses', 'iban', 'TEXT');
+addColumn('businesses', 'fiscal_regime', "TEXT DEFAULT 'RF19'");
+addColumn('invoices', 'number', 'TEXT');
+addColumn('invoices', 'issue_date', 'TEXT');
+addColumn('invoices', 'document_type', "TEXT DEFAULT 'TD01'");
+addColumn('invoices', 'customer', 'TEXT');
+addColumn('invoices', 'lines', 'TEXT');
+addColumn('invoices', 'stamp_duty', 'INTEGER DEFAULT 0');
+addColumn('invoices', 'payment_method', "TEXT DEFAULT 'MP05'");
+addColumn('invoices', 'payment_due_date', 'TEXT');
+addColumn('invoices', 'vat_amount', 'REAL DEFAULT 0');
+const addedPayments = addColumn('invoices', 'payments', 'TEXT');
+addColumn('invoices', 'collection_status', "TEXT DEFAULT 'UNPAID'");
+if (addedPayments) {
+  // Invoices recorded before payment tracking count as fully collected in their issue period
+  db.exec(`
+    UPDATE invoices
+    SET payments = json_array(json_object(
+          'date', COALESCE(issue_date, printf('%04d-%02d-01', year, month)),
+          'amount', ROUND(ABS(amount + COALESCE(vat_amount, 0)), 2)
+        )),
+        collection_status = 'PAID'
+    WHERE ROUND(ABS(amount + COALESCE(vat_amount, 0)), 2) > 0
+  `);
+}
+addColumn('invoices', 'customer_id', 'INTEGER');
+addColumn('invoices', 'inps_rivalsa', 'INTEGER DEFAULT 0');
+addColumn('invoices', 'rivalsa_amount', 'REAL DEFAULT 0');
+addColumn('customers', 'withholding_agent', 'INTEGER DEFAULT 0');
+addColumn('invoices', 'withholding_rate', 'REAL');
+addColumn('invoices', 'withholding_base', 'REAL');
+addColumn('invoices', 'withholding_amount', 'REAL DEFAULT 0');
+addColumn('businesses', 'invoice_import_mapping', 'TEXT');
+addColumn('invoices', 'original_invoice_id', 'INTEGER');
+addColumn('businesses', 'invoice_number_format', 'TEXT');
+addColumn('invoices', 'series', 'TEXT');
+addColumn('invoices', 'sequence_number', 'INTEGER');
+addColumn('invoices', 'vat_treatment', "TEXT DEFAULT 'STANDARD'");
+addColumn('invoices', 'vat_nature', 'TEXT');
+addColumn('recurring_invoices', 'vat_treatment', "TEXT DEFAULT 'STANDARD'");
+addColumn('businesses', 'last_sdi_progressive', 'INTEGER NOT NULL DEFAULT 0');
+
 console.log('Database tables created successfully');
 db.close();
\ No newline at end of file
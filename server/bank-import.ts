@@ -0,0 +1,248 @@
+import { storage } from './storage';
+import type { BankAccount, BankTransaction, Business, Invoice } from '@shared/schema';
+import {
+  detectStatementFormat,
+  getTransactionKeys,
+  parseBankCsv,
+  parseCamt053,
+  parseCbiStatement,
+  type BankStatement,
+  type BankStatementFormat,
+} from '@shared/lib/bank-statements';
+import { suggestMatches, type ReconciliationInvoice, type ReconciliationMatch } from '@shared/lib/bank-reconciliation';
+import { collectedAmount, getCreditedAmounts, invoiceCollectableAmount } from '@shared/lib/revenue';
+import { decodeCsv, readSpreadsheet } from './invoice-spreadsheet-import';
+import { getCreditedAmount, withCollectionStatus } from './invoice-documents';
+import { cancelDeadlinePayment, payDeadline } from './deadline-payments';
+
+export interface BankImportReport {
+  format: BankStatementFormat;
+  imported: number;
+  duplicates: number; // Movimenti già presenti nel conto
+  errors: string[];
+  matched: ReconciliationMatch[]; // Abbinamenti applicati automaticamente
+  balance: number; // Saldo del conto dopo l'import
+  closingBalance?: number; // Saldo finale indicato nell'estratto, per il confronto
+}
+
+export type BankAccountWithBalance = BankAccount & { balance: number; transactionCount: number; lastBookingDate: string | null };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Il saldo iniziale è quello all'inizio della giornata: contano i movimenti dalla stessa data
+export const getAccountBalance = (account: BankAccount, transactions: BankTransaction[]) =>
+  round(transactions
+    .filter(transaction => !account.openingDate || transaction.bookingDate >= account.openingDate)
+    .reduce((sum, transaction) => sum + transaction.amount, account.openingBalance));
+
+export async function getBankAccountsWithBalance(businessId: number): Promise<BankAccountWithBalance[]> {
+  const accounts = await storage.getBankAccountsByBusinessId(businessId);
+  return await Promise.all(accounts.map(async account => {
+    const transactions = await storage.getBankTransactionsByAccountId(account.id);
+    return {
+      ...account,
+      balance: getAccountBalance(account, transactions),
+      transactionCount: transactions.length,
+      lastBookingDate: transactions[0]?.bookingDate ?? null,
+    };
+  }));
+}
+
+/**
+ * Con almeno un conto, il saldo dell'attività usato dai calcolatori è la somma dei saldi dei conti
+ */
+export async function refreshBusinessBalance(businessId: number): Promise<number | undefined> {
+  const accounts = await getBankAccountsWithBalance(businessId);
+  if (accounts.length === 0) {
+    return undefined;
+  }
+  const currentBalance = round(accounts.reduce((sum, account) => sum + account.balance, 0));
+  await storage.updateBusiness(businessId, { currentBalance });
+  return currentBalance;
+}
+
+function readStatement(file: Buffer): BankStatement {
+  const isZip = file[0] === 0x50 && file[1] === 0x4b;
+  const isOle = file[0] === 0xd0 && file[1] === 0xcf && file[2] === 0x11 && file[3] === 0xe0;
+  if (isZip || isOle) {
+    const { headers, rows } = readSpreadsheet(file);
+    return parseBankCsv(headers, rows);
+  }
+
+  const text = decodeCsv(file);
+  switch (detectStatementFormat(text)) {
+    case 'CAMT053':
+      return parseCamt053(text);
+    case 'CBI':
+      return parseCbiStatement(text);
+    default: {
+      const { headers, rows } = readSpreadsheet(file);
+      return parseBankCsv(headers, rows);
+    }
+  }
+}
+
+const customerName = (invoice: Invoice) =>
+  invoice.customer?.denomination || [invoice.customer?.firstName, invoice.customer?.lastName].filter(Boolean).join(' ') || undefined;
+
+// Fatture emesse con un residuo da incassare, al netto di incassi e note di credito
+async function getOpenInvoices(businessId: number): Promise<ReconciliationInvoice[]> {
+  const invoices = await storage.getInvoicesByBusinessId(businessId);
+  const credited = getCreditedAmounts(invoices);
+  return invoices
+    .filter(invoice => !invoice.originalInvoiceId && invoice.amount > 0 && invoice.collectionStatus !== 'PAID')
+    .map(invoice => ({
+      id: invoice.id,
+      number: invoice.number || '',
+      date: invoice.issueDate || `${invoice.year}-${invoice.month.toString().padStart(2, '0')}-01`,
+      customerName: customerName(invoice),
+      outstanding: round(invoiceCollectableAmount({ ...invoice, creditedAmount: credited.get(invoice.id) || 0 }) - collectedAmount(invoice.payments)),
+    }))
+    .filter(invoice => invoice.outstanding > 0);
+}
+
+const isReconciled = (transaction: BankTransaction) =>
+  !!transaction.invoiceId || (transaction.paymentDeadlineIds?.length ?? 0) > 0;
+
+/**
+ * Abbinamenti proposti per i movimenti dell'attività non ancora riconciliati
+ */
+export async function getReconciliationSuggestions(
+  businessId: number,
+  transactions?: BankTransaction[]
+): Promise<Array<ReconciliationMatch & { transaction: BankTransaction }>> {
+  const candidates = (transactions ?? await storage.getBankTransactionsByBusinessId(businessId)).filter(transaction => !isReconciled(transaction));
+  const deadlines = (await storage.getPaymentDeadlinesByBusinessId(businessId)).filter(deadline => !deadline.isPaid);
+  return suggestMatches(candidates, await getOpenInvoices(businessId), deadlines).map(match => ({
+    ...match,
+    transaction: candidates.find(transaction => transaction.id === match.transactionId)!,
+  }));
+}
+
+/**
+ * Registra l'accredito come incasso della fattura o l'addebito come pagamento delle scadenze
+ */
+export async function matchTransaction(
+  transaction: BankTransaction,
+  match: { invoiceId?: number; paymentDeadlineIds?: number[] }
+): Promise<BankTransaction | undefined> {
+  if (isReconciled(transaction)) {
+    throw new Error("Transaction is already reconciled");
+  }
+
+  if (match.invoiceId) {
+    if (transaction.amount <= 0) {
+      throw new Error("Only credits can be matched to invoices");
+    }
+    const invoice = await storage.getInvoice(match.invoiceId);
+    if (!invoice || invoice.businessId !== transaction.businessId) {
+      throw new Error("Invoice not found");
+    }
+    const payments = [...(invoice.payments || []), { date: transaction.bookingDate, amount: transaction.amount }];
+    await storage.updateInvoice(invoice.id, withCollectionStatus({ payments }, invoice, await getCreditedAmount(invoice)));
+    return await storage.updateBankTransaction(transaction.id, { invoiceId: invoice.id });
+  }
+
+  if (transaction.amount >= 0) {
+    throw new Error("Only debits can be matched to payment deadlines");
+  }
+  const deadlineIds = match.paymentDeadlineIds || [];
+  const deadlines = await Promise.all(deadlineIds.map(id => storage.getPaymentDeadline(id)));
+  for (const deadline of deadlines) {
+    if (!deadline || deadline.businessId !== transaction.businessId) {
+      throw new Error("Deadline not found");
+    }
+    if (deadline.isPaid) {
+      throw new Error("Deadline is already paid");
+    }
+  }
+  for (const deadline of deadlines) {
+    await payDeadline(deadline!, transaction.bookingDate);
+  }
+  return await storage.updateBankTransaction(transaction.id, { paymentDeadlineIds: deadlineIds });
+}
+
+/**
+ * Scollega il movimento, togliendo l'incasso dalla fattura o riaprendo le scadenze pagate
+ */
+export async function unmatchTransaction(transaction: BankTransaction): Promise<BankTransaction | undefined> {
+  if (transaction.invoiceId) {
+    const invoice = await storage.getInvoice(transaction.invoiceId);
+    if (invoice) {
+      const payments = [...(invoice.payments || [])];
+      const index = payments.findIndex(payment =>
+        payment.date === transaction.bookingDate && round(payment.amount) === round(transaction.amount)
+      );
+      if (index >= 0) {
+        payments.splice(index, 1);
+        await storage.updateInvoice(invoice.id, withCollectionStatus({ payments }, invoice, await getCreditedAmount(invoice)));
+      }
+    }
+  }
+
+  for (const id of transaction.paymentDeadlineIds || []) {
+    const deadline = await storage.getPaymentDeadline(id);
+    if (deadline && deadline.isPaid) {
+      await cancelDeadlinePayment(deadline);
+    }
+  }
+
+  return await storage.updateBankTransaction(transaction.id, { invoiceId: null, paymentDeadlineIds: null });
+}
+
+/**
+ * Importa l'estratto conto nel conto: salta i movimenti già presenti, applica gli abbinamenti
+ * certi e aggiorna il saldo dell'attività. Il saldo iniziale dell'estratto inizializza un conto vuoto.
+ */
+export async function importBankStatement(business: Business, account: BankAccount, file: Buffer): Promise<BankImportReport> {
+  const statement = readStatement(file);
+
+  if (account.iban && statement.iban && account.iban !== statement.iban) {
+    throw new Error(`Statement IBAN ${statement.iban} does not match the bank account`);
+  }
+
+  const existing = await storage.getBankTransactionsByAccountId(account.id);
+  if (existing.length === 0 && statement.openingBalance !== undefined) {
+    account = (await storage.updateBankAccount(account.id, {
+      openingBalance: statement.openingBalance,
+      openingDate: statement.openingDate ?? null,
+      iban: account.iban || statement.iban || null,
+    }))!;
+  }
+
+  const keys = getTransactionKeys(statement.transactions);
+  const inserted = await storage.createBankTransactions(statement.transactions.map((transaction, index) => ({
+    bankAccountId: account.id,
+    businessId: business.id,
+    bookingDate: transaction.bookingDate,
+    valueDate: transaction.valueDate ?? null,
+    amount: transaction.amount,
+    description: transaction.description ?? null,
+    counterparty: transaction.counterparty ?? null,
+    reference: transaction.reference ?? null,
+    importKey: keys[index],
+  })));
+
+  // Solo gli abbinamenti certi si applicano senza conferma
+  const matched: ReconciliationMatch[] = [];
+  for (const { transaction, ...match } of await getReconciliationSuggestions(business.id, inserted)) {
+    if (match.confidence !== 'HIGH') {
+      continue;
+    }
+    await matchTransaction(transaction, match);
+    matched.push(match);
+  }
+
+  const transactions = await storage.getBankTransactionsByAccountId(account.id);
+  await refreshBusinessBalance(business.id);
+
+  return {
+    format: statement.format,
+    imported: inserted.length,
+    duplicates: statement.transactions.length - inserted.length,
+    errors: statement.errors,
+    matched,
+    balance: getAccountBalance(account, transactions),
+    closingBalance: statement.closingBalance,
+  };
+}
@@ -0,0 +1,42 @@
+import { storage } from "./storage";
+import type { PaymentDeadline } from "@shared/schema";
+import { getDeadlineTaxCode } from '@shared/lib/f24';
+import { calculateRavvedimento, supportsRavvedimento } from '@shared/lib/ravvedimento';
+
+/**
+ * Segna la scadenza come pagata alla data indicata, con il ravvedimento operoso
+ * per le imposte versate dopo la scadenza. Per contributi e altri versamenti tardivi
+ * il costo del ritardo non è calcolato e ravvedimentoComputed è false.
+ */
+export async function payDeadline(deadline: PaymentDeadline, paidDate: string) {
+  const taxCode = getDeadlineTaxCode(deadline.paymentType, parseInt(deadline.dueDate.slice(0, 4)));
+  const isLate = paidDate > deadline.dueDate;
+  const ravvedimentoComputed = !isLate || (!!taxCode && supportsRavvedimento(taxCode.taxCode));
+  const ravvedimento = isLate && ravvedimentoComputed
+    ? calculateRavvedimento({
+        amount: deadline.amount - (deadline.interestAmount || 0),
+        dueDate: deadline.dueDate,
+        paymentDate: paidDate,
+        ...taxCode
+      })
+    : null;
+
+  const updated = await storage.updatePaymentDeadline(deadline.id, {
+    isPaid: true,
+    paidDate,
+    lateSanctionAmount: ravvedimento?.sanctionAmount || 0,
+    lateInterestAmount: ravvedimento?.interestAmount || 0
+  });
+
+  return { ...updated, ravvedimento, ravvedimentoComputed };
+}
+
+// Annulla il pagamento, ad esempio quando si scollega il movimento bancario che lo registrava
+export async function cancelDeadlinePayment(deadline: PaymentDeadline) {
+  return await storage.updatePaymentDeadline(deadline.id, {
+    isPaid: false,
+    paidDate: null,
+    lateSanctionAmount: 0,
+    lateInterestAmount: 0
+  });
+}
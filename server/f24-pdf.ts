@@ -0,0 +1,128 @@
+import PDFDocument from 'pdfkit';
+import type { F24Model } from '@shared/lib/f24';
+
+const PAGE_MARGIN = 40;
+const ROW_HEIGHT = 18;
+
+const formatAmount = (amount: number) => amount > 0
+  ? amount.toLocaleString('it-IT', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+  : '';
+
+const formatDate = (isoDate: string) => isoDate.split('-').reverse().join('/');
+
+interface Column {
+  header: string;
+  width: number;
+  align?: 'left' | 'right' | 'center';
+}
+
+function drawTable(doc: PDFKit.PDFDocument, title: string, columns: Column[], rows: string[][], totals: string[]) {
+  const tableWidth = columns.reduce((sum, column) => sum + column.width, 0);
+  let y = doc.y + 8;
+
+  doc.font('Helvetica-Bold').fontSize(10).text(title, PAGE_MARGIN, y);
+  y += 16;
+
+  const drawRow = (cells: string[], bold: boolean, fill?: string) => {
+    if (fill) {
+      doc.rect(PAGE_MARGIN, y, tableWidth, ROW_HEIGHT).fill(fill).fillColor('black');
+    }
+    doc.rect(PAGE_MARGIN, y, tableWidth, ROW_HEIGHT).stroke();
+
+    let x = PAGE_MARGIN;
+    doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(8);
+    columns.forEach((column, index) => {
+      doc.text(cells[index] || '', x + 3, y + 5, { width: column.width - 6, align: column.align || 'left' });
+      x += column.width;
+    });
+    y += ROW_HEIGHT;
+  };
+
+  drawRow(columns.map(column => column.header), true, '#e5e7eb');
+  rows.forEach(row => drawRow(row, false));
+  drawRow(totals, true);
+
+  doc.y = y + 6;
+}
+
+/**
+ * Genera il PDF stampabile del modello F24
+ */
+export function renderF24Pdf(model: F24Model): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN });
+    const chunks: Buffer[] = [];
+
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    // Intestazione
+    doc.font('Helvetica-Bold').fontSize(16).text(`Modello F24 ${model.type === 'SEMPLIFICATO' ? 'Semplificato' : 'Ordinario'}`);
+    doc.font('Helvetica').fontSize(10).text(`Scadenza: ${formatDate(model.dueDate)}`);
+    doc.moveDown(0.5);
+
+    doc.font('Helvetica-Bold').fontSize(10).text('Contribuente');
+    doc.font('Helvetica').text(`Denominazione: ${model.taxpayer.name}`);
+    doc.text(`Codice fiscale: ${model.taxpayer.fiscalCode || '________________'}`);
+    doc.moveDown(0.5);
+
+    if (model.taxSection.rows.length > 0) {
+      drawTable(
+        doc,
+        'Sezione Erario',
+        [
+          { header: 'Codice tributo', width: 70 },
+          { header: 'Descrizione', width: 185 },
+          { header: 'Rateazione', width: 60, align: 'center' },
+          { header: 'Anno rif.', width: 50, align: 'center' },
+          { header: 'Importi a debito', width: 75, align: 'right' },
+          { header: 'Importi a credito', width: 75, align: 'right' },
+        ],
+        model.taxSection.rows.map(row => [
+          row.taxCode,
+          row.description,
+          row.installment || '',
+          row.referenceYear.toString(),
+          formatAmount(row.debit),
+          formatAmount(row.credit),
+        ]),
+        ['', 'Totale', '', '', formatAmount(model.taxSection.totalDebit), formatAmount(model.taxSection.totalCredit)]
+      );
+    }
+
+    if (model.inpsSection.rows.length > 0) {
+      drawTable(
+        doc,
+        'Sezione INPS',
+        [
+          { header: 'Codice sede', width: 50 },
+          { header: 'Causale', width: 45 },
+          { header: 'Matricola INPS', width: 90 },
+          { header: 'Da mm/aaaa', width: 60, align: 'center' },
+          { header: 'A mm/aaaa', width: 60, align: 'center' },
+          { header: 'Importi a debito', width: 105, align: 'right' },
+          { header: 'Importi a credito', width: 105, align: 'right' },
+        ],
+        model.inpsSection.rows.map(row => [
+          row.officeCode || '',
+          row.contributionCode,
+          row.inpsNumber || '',
+          row.periodFrom,
+          row.periodTo,
+          formatAmount(row.debit),
+          formatAmount(row.credit),
+        ]),
+        ['', '', '', '', 'Totale', formatAmount(model.inpsSection.totalDebit), formatAmount(model.inpsSection.totalCredit)]
+      );
+    }
+
+    doc.moveDown();
+    doc.font('Helvetica-Bold').fontSize(12).text(
+      `Saldo finale: € ${model.totalBalance.toLocaleString('it-IT', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
+      PAGE_MARGIN
+    );
+
+    doc.end();
+  });
+}
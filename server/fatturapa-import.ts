@@ -0,0 +1,286 @@
+import { unzipSync } from 'fflate';
+import { storage } from './storage';
+import { documentSign, parseFatturaPAXml } from '@shared/lib/fatturapa';
+import type { Business, Customer, Invoice, InvoiceCustomer } from '@shared/schema';
+
+export type ImportFileStatus = 'created' | 'skipped' | 'failed';
+
+export interface ImportFileReport {
+  fileName: string;
+  status: ImportFileStatus;
+  invoiceIds: number[];
+  message?: string;
+}
+
+export interface ImportReport {
+  created: number;
+  skipped: number;
+  failed: number;
+  files: ImportFileReport[];
+}
+
+interface BerNode {
+  tag: number;
+  constructed: boolean;
+  contentStart: number;
+  contentEnd: number;
+  end: number;
+}
+
+// Lettura minimale di un elemento BER/DER (tag a un byte, lunghezza definita o indefinita)
+function readBerNode(data: Uint8Array, offset: number): BerNode {
+  const tag = data[offset];
+  const constructed = (tag & 0x20) !== 0;
+  let position = offset + 1;
+  let length = data[position++];
+
+  if (length === undefined) {
+    throw new Error('Busta p7m troncata');
+  }
+
+  if (length === 0x80) {
+    // Lunghezza indefinita: il contenuto termina con due byte a zero
+    let cursor = position;
+    while (!(data[cursor] === 0 && data[cursor + 1] === 0)) {
+      if (cursor >= data.length) {
+        throw new Error('Busta p7m troncata');
+      }
+      cursor = readBerNode(data, cursor).end;
+    }
+    return { tag, constructed, contentStart: position, contentEnd: cursor, end: cursor + 2 };
+  }
+
+  if (length & 0x80) {
+    const bytes = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < bytes; i++) {
+      length = length * 256 + data[position++];
+    }
+  }
+
+  return { tag, constructed, contentStart: position, contentEnd: position + length, end: position + length };
+}
+
+function berChildren(data: Uint8Array, node: BerNode): BerNode[] {
+  const children: BerNode[] = [];
+  let cursor = node.contentStart;
+  while (cursor < node.contentEnd) {
+    const child = readBerNode(data, cursor);
+    children.push(child);
+    cursor = child.end;
+  }
+  return children;
+}
+
+// Un OCTET STRING costruito è suddiviso in più frammenti da concatenare
+function octetStringContent(data: Uint8Array, node: BerNode): Uint8Array[] {
+  if (!node.constructed) {
+    return [data.subarray(node.contentStart, node.contentEnd)];
+  }
+  return berChildren(data, node).flatMap(child => octetStringContent(data, child));
+}
+
+/**
+ * Estrae il documento firmato da una busta CAdES (PKCS#7 SignedData), in DER o in Base64
+ */
+export function unwrapP7m(file: Uint8Array): Uint8Array {
+  let data = file;
+  if (data[0] !== 0x30) {
+    const text = Buffer.from(data).toString('latin1').replace(/-----[^-]+-----/g, '').replace(/\s+/g, '');
+    data = new Uint8Array(Buffer.from(text, 'base64'));
+  }
+
+  // ContentInfo -> [0] SignedData -> encapContentInfo -> [0] eContent
+  const contentInfo = readBerNode(data, 0);
+  const [, signedDataWrapper] = berChildren(data, contentInfo);
+  const [signedData] = signedDataWrapper ? berChildren(data, signedDataWrapper) : [];
+  const encapContentInfo = signedData && berChildren(data, signedData).find(node => node.tag === 0x30);
+  const eContentWrapper = encapContentInfo && berChildren(data, encapContentInfo).find(node => node.tag === 0xa0);
+  const [eContent] = eContentWrapper ? berChildren(data, eContentWrapper) : [];
+
+  if (!eContent) {
+    throw new Error('Busta p7m senza documento firmato');
+  }
+
+  return new Uint8Array(Buffer.concat(octetStringContent(data, eContent)));
+}
+
+// Le fatture possono dichiarare una codifica diversa da UTF-8
+function decodeXml(data: Uint8Array): string {
+  const head = Buffer.from(data.subarray(0, 200)).toString('latin1');
+  const encoding = head.match(/encoding=["']([^"']+)["']/i)?.[1]?.toLowerCase() || 'utf-8';
+  const text = new TextDecoder(encoding === 'utf-8' || encoding === 'utf8' ? 'utf-8' : 'windows-1252').decode(data);
+  return text.replace(/^\uFEFF/, '');
+}
+
+// Cliente in anagrafica con la stessa P.IVA o codice fiscale, creato se assente
+async function resolveCustomer(businessId: number, party: InvoiceCustomer, customers: Customer[]): Promise<Customer> {
+  const existing = customers.find(customer =>
+    (party.vatNumber && customer.vatNumber === party.vatNumber) ||
+    (!party.vatNumber && party.fiscalCode && customer.fiscalCode === party.fiscalCode)
+  );
+  if (existing) {
+    return existing;
+  }
+
+  const customer = await storage.createCustomer({
+    businessId,
+    name: party.denomination || [party.firstName, party.lastName].filter(Boolean).join(' '),
+    vatNumber: party.vatNumber,
+    fiscalCode: party.fiscalCode,
+    sdiCode: party.sdiCode,
+    pec: party.pec,
+    address: party.address,
+    postalCode: party.postalCode,
+    city: party.city,
+    province: party.province,
+    countryCode: party.countryCode,
+  });
+  customers.push(customer);
+  return customer;
+}
+
+const invoiceKey = (number: string, year: number) => `${number.trim().toUpperCase()}#${year}`;
+
+// Limiti dell'archivio sulle dimensioni dichiarate dalle voci, che fflate usa anche per l'estrazione
+const MAX_ARCHIVE_ENTRIES = 1000;
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+const MAX_ARCHIVE_SIZE = 200 * 1024 * 1024;
+
+/**
+ * Estrae solo le fatture (.xml e .p7m) entro i limiti, dopo aver letto l'indice dell'archivio
+ * senza decomprimere nulla. Le altre voci sono riportate come scartate.
+ */
+function extractInvoiceFiles(archive: Uint8Array): { entries: Record<string, Uint8Array>; rejected: ImportFileReport[] } {
+  const rejected: ImportFileReport[] = [];
+  const accepted = new Set<string>();
+  let entryCount = 0;
+  let totalSize = 0;
+
+  unzipSync(archive, {
+    filter: file => {
+      const lowerName = file.name.toLowerCase();
+      if (file.name.endsWith('/') || lowerName.startsWith('__macosx/')) {
+        return false;
+      }
+
+      entryCount++;
+      if (!lowerName.endsWith('.xml') && !lowerName.endsWith('.p7m')) {
+        rejected.push({ fileName: file.name, status: 'skipped', invoiceIds: [], message: 'Formato non supportato' });
+      } else if (file.originalSize > MAX_FILE_SIZE) {
+        rejected.push({ fileName: file.name, status: 'failed', invoiceIds: [], message: 'File troppo grande per una fattura elettronica' });
+      } else {
+        accepted.add(file.name);
+        totalSize += file.originalSize;
+      }
+      return false;
+    },
+  });
+
+  if (entryCount > MAX_ARCHIVE_ENTRIES) {
+    throw new Error(`L'archivio contiene più di ${MAX_ARCHIVE_ENTRIES} file`);
+  }
+  if (totalSize > MAX_ARCHIVE_SIZE) {
+    throw new Error(`L'archivio decompresso supera i ${MAX_ARCHIVE_SIZE / 1024 / 1024} MB`);
+  }
+
+  return { entries: unzipSync(archive, { filter: file => accepted.has(file.name) }), rejected };
+}
+
+/**
+ * Importa un archivio zip di fatture elettroniche (.xml e .xml.p7m) emesse dall'attività
+ */
+export async function importFatturaPAArchive(archive: Uint8Array, business: Business, existing: Invoice[]): Promise<ImportReport> {
+  const { entries, rejected } = extractInvoiceFiles(archive);
+  const knownInvoices = new Set(
+    existing.filter(invoice => invoice.number).map(invoice => invoiceKey(invoice.number!, invoice.year))
+  );
+  // Fatture rettificabili per numero, per collegare le note di credito
+  const invoicesByNumber = new Map(
+    existing.filter(invoice => invoice.number && invoice.amount > 0).map(invoice => [invoice.number!.trim().toUpperCase(), invoice.id])
+  );
+  const customers = await storage.getCustomersByBusinessId(business.id);
+  const files: ImportFileReport[] = [...rejected];
+
+  for (const [fileName, content] of Object.entries(entries)) {
+    const lowerName = fileName.toLowerCase();
+    try {
+      const xml = decodeXml(lowerName.endsWith('.p7m') ? unwrapP7m(content) : content);
+
+      // I file metadati dello SDI (_MT_) accompagnano le fatture ma non sono documenti
+      if (!/<([\w]+:)?FatturaElettronica[\s>]/.test(xml)) {
+        files.push({ fileName, status: 'skipped', invoiceIds: [], message: 'Il file non è una fattura elettronica' });
+        continue;
+      }
+
+      const parsed = parseFatturaPAXml(xml);
+      if (business.vatNumber && parsed.sellerVatNumber && parsed.sellerVatNumber !== business.vatNumber) {
+        files.push({ fileName, status: 'skipped', invoiceIds: [], message: `Fattura emessa da ${parsed.sellerName || parsed.sellerVatNumber}, non dall'attività` });
+        continue;
+      }
+
+      const invoiceIds: number[] = [];
+      const duplicates: string[] = [];
+
+      for (const document of parsed.documents) {
+        const [year, month] = document.issueDate.split('-').map(Number);
+        if (!document.number || !year || !month) {
+          throw new Error('Numero o data della fattura mancanti');
+        }
+
+        const key = invoiceKey(document.number, year);
+        if (knownInvoices.has(key)) {
+          duplicates.push(document.number);
+          continue;
+        }
+
+        const sign = documentSign(document.documentType);
+        const customer = await resolveCustomer(business.id, document.customer, customers);
+        const invoice = await storage.createInvoice({
+          businessId: business.id,
+          customerId: customer.id,
+          year,
+          month,
+          amount: sign * document.taxableAmount,
+          vatAmount: sign * document.vatAmount,
+          description: document.description,
+          number: document.number,
+          issueDate: document.issueDate,
+          documentType: document.documentType,
+          vatTreatment: document.vatTreatment,
+          vatNature: document.vatNature,
+          originalInvoiceId: sign < 0 && document.relatedInvoiceNumber
+            ? invoicesByNumber.get(document.relatedInvoiceNumber.trim().toUpperCase())
+            : undefined,
+          customer: document.customer,
+          lines: document.lines,
+          stampDuty: document.stampDuty,
+          inpsRivalsa: document.inpsRivalsa,
+          rivalsaAmount: sign * document.rivalsaAmount,
+          withholdingRate: document.withholdingRate,
+          withholdingAmount: sign * document.withholdingAmount,
+          paymentMethod: document.paymentMethod,
+          paymentDueDate: document.paymentDueDate,
+        });
+        knownInvoices.add(key);
+        if (sign > 0) {
+          invoicesByNumber.set(document.number.trim().toUpperCase(), invoice.id);
+        }
+        invoiceIds.push(invoice.id);
+      }
+
+      files.push(invoiceIds.length > 0
+        ? { fileName, status: 'created', invoiceIds, message: duplicates.length > 0 ? `Già presenti: ${duplicates.join(', ')}` : undefined }
+        : { fileName, status: 'skipped', invoiceIds, message: `Fattura già presente: ${duplicates.join(', ')}` });
+    } catch (error: any) {
+      files.push({ fileName, status: 'failed', invoiceIds: [], message: error.message || 'Errore di lettura' });
+    }
+  }
+
+  return {
+    created: files.filter(file => file.status === 'created').length,
+    skipped: files.filter(file => file.status === 'skipped').length,
+    failed: files.filter(file => file.status === 'failed').length,
+    files,
+  };
+}
@@ -0,0 +1,35 @@
+import fs from 'fs';
+import path from 'path';
+import { validateXML } from 'xmllint-wasm';
+
+// Schema XSD ufficiale FatturaPA con la firma XMLDSig importata
+const SCHEMA_DIR = path.resolve('server', 'schemas');
+const SCHEMA_FILE = 'Schema_del_file_xml_FatturaPA_v1.2.2.xsd';
+const XMLDSIG_FILE = 'xmldsig-core-schema.xsd';
+
+let schemaCache: { schema: string; xmldsig: string } | undefined;
+
+const loadSchemas = () => {
+  if (!schemaCache) {
+    schemaCache = {
+      schema: fs.readFileSync(path.join(SCHEMA_DIR, SCHEMA_FILE), 'utf-8'),
+      xmldsig: fs.readFileSync(path.join(SCHEMA_DIR, XMLDSIG_FILE), 'utf-8'),
+    };
+  }
+  return schemaCache;
+};
+
+/**
+ * Valida l'XML della fattura contro lo schema XSD locale
+ */
+export async function validateFatturaPA(xml: string, fileName = 'fattura.xml'): Promise<{ valid: boolean; errors: string[] }> {
+  const { schema, xmldsig } = loadSchemas();
+
+  const result = await validateXML({
+    xml: [{ fileName, contents: xml }],
+    schema: [{ fileName: SCHEMA_FILE, contents: schema }],
+    preload: [{ fileName: XMLDSIG_FILE, contents: xmldsig }],
+  });
+
+  return { valid: result.valid, errors: result.errors.map(error => error.message) };
+}
@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startRecurringInvoiceScheduler } from "./recurring-invoices";
 
 const app = express();
 app.use(express.json());
@@ -65,6 +66,7 @@ app.use((req, res, next) => {
       reusePort: true,
     }, () => {
       log(`serving on port ${port}`);
+      startRecurringInvoiceScheduler();
     });
   } catch (error) {
     console.error("Failed to start server:", error);
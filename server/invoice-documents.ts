@@ -0,0 +1,246 @@
+import { z } from "zod";
+import { storage } from "./storage";
+import { invoiceLineSchema, type Business, type InsertInvoice, type Invoice, type InvoiceLine } from "@shared/schema";
+import { calculateInvoiceTotals, documentSign, STAMP_DUTY_THRESHOLD, toInvoiceCustomer, VAT_NATURE_CODES } from '@shared/lib/fatturapa';
+import {
+  applyVatTreatment,
+  CONSTRUCTION_REVERSE_CHARGE_NATURE,
+  getVatTreatment,
+  isReverseChargeNature,
+} from '@shared/lib/vat-treatment';
+import { calculateWithholding, WITHHOLDING_RATE } from '@shared/lib/withholding';
+import { getCollectionStatus, getCreditedAmounts } from '@shared/lib/revenue';
+import { getChangedFields } from '@shared/lib/invoice-versions';
+import { createNumberedInvoice } from './invoice-numbering';
+
+// Dati della fattura dalla richiesta o dal documento di origine, completati da prepareInvoice
+export type InvoiceInput = Partial<InsertInvoice>;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Trattamento IVA nuovo o già salvato; l'inversione contabile senza natura è il subappalto edile
+const resolveVatTreatment = (body: InvoiceInput, business: Business, current?: Invoice) => {
+  const vatTreatment = getVatTreatment({ vatTreatment: body.vatTreatment !== undefined ? body.vatTreatment : current?.vatTreatment });
+  let vatNature: string | null = (body.vatNature !== undefined ? body.vatNature : current?.vatNature) || null;
+
+  if (vatTreatment !== 'STANDARD' && (business.fiscalRegime || 'RF19') === 'RF19') {
+    throw new Error("Forfettario invoices can only use the standard VAT treatment");
+  }
+  if (vatTreatment === 'REVERSE_CHARGE') {
+    vatNature = vatNature || CONSTRUCTION_REVERSE_CHARGE_NATURE;
+    if (!isReverseChargeNature(vatNature) || !VAT_NATURE_CODES[vatNature]) {
+      throw new Error("Reverse charge invoices require an N6 VAT nature");
+    }
+  } else if (vatTreatment === 'EXEMPT') {
+    if (!vatNature || !VAT_NATURE_CODES[vatNature]) {
+      throw new Error("Exempt invoices require a VAT nature code");
+    }
+    if (isReverseChargeNature(vatNature)) {
+      throw new Error("N6 VAT natures require the reverse charge treatment");
+    }
+  } else {
+    vatNature = null;
+  }
+  return { vatTreatment, vatNature };
+};
+
+// Per le fatture con righe, imponibile, anno e mese si ricavano dal documento insieme a rivalsa INPS e bollo
+const withDocumentTotals = (body: InvoiceInput, business: Business, current?: Invoice) => {
+  const inpsRivalsa: boolean = body.inpsRivalsa ?? current?.inpsRivalsa ?? false;
+  if (inpsRivalsa && business.contributionRegime !== 'GESTIONE_SEPARATA') {
+    throw new Error("INPS rivalsa is only available to Gestione Separata professionals");
+  }
+
+  const treatment = resolveVatTreatment(body, business, current);
+  const treatmentChanged = !!current
+    && (treatment.vatTreatment !== getVatTreatment(current) || treatment.vatNature !== (current.vatNature || null));
+  // Senza imposta per inversione contabile o esenzione
+  const untaxed = treatment.vatTreatment === 'REVERSE_CHARGE' || treatment.vatTreatment === 'EXEMPT';
+
+  // Cambiando la rivalsa o il trattamento IVA si ricalcolano le righe già salvate
+  const lineData = body.lines ?? (body.inpsRivalsa !== undefined || treatmentChanged ? current?.lines : undefined);
+  if (!Array.isArray(lineData) || lineData.length === 0) {
+    const document = { ...body, ...treatment, ...(untaxed ? { vatAmount: 0 } : {}) };
+    // Senza righe, per il forfettario il bollo dipende dall'importo registrato
+    if (body.amount !== undefined && (business.fiscalRegime || 'RF19') === 'RF19') {
+      return { ...document, stampDuty: Math.abs(Number(body.amount)) > STAMP_DUTY_THRESHOLD };
+    }
+    return document;
+  }
+
+  const lines = applyVatTreatment(z.array(invoiceLineSchema).parse(lineData), treatment.vatTreatment, treatment.vatNature);
+  const date = body.issueDate || current?.issueDate;
+  const [year, month] = date ? date.split('-').map(Number) : [body.year, body.month];
+  const totals = calculateInvoiceTotals(lines, { inpsRivalsa });
+  const sign = documentSign(body.documentType || current?.documentType);
+  return {
+    ...body,
+    ...treatment,
+    lines,
+    year,
+    month,
+    amount: sign * totals.taxableAmount,
+    vatAmount: sign * totals.vatAmount,
+    inpsRivalsa,
+    rivalsaAmount: sign * (totals.rivalsa?.amount || 0),
+    stampDuty: totals.stampDuty,
+  };
+};
+
+// Ritenuta d'acconto ricalcolata su imponibile, aliquota e base, nuovi o già salvati
+const withWithholding = (body: InvoiceInput, business: Business, current?: Invoice) => {
+  const rate = body.withholdingRate !== undefined ? body.withholdingRate : current?.withholdingRate;
+  const base = body.withholdingBase !== undefined ? body.withholdingBase : current?.withholdingBase;
+  const amount = body.amount !== undefined ? Number(body.amount) : current?.amount ?? 0;
+
+  if (!rate) {
+    return body.withholdingRate !== undefined ? { ...body, withholdingAmount: 0 } : body;
+  }
+  // I compensi dei forfettari non sono soggetti a ritenuta (art. 1, comma 67, L. 190/2014)
+  if ((business.fiscalRegime || 'RF19') === 'RF19') {
+    throw new Error("Forfettario invoices are not subject to ritenuta d'acconto");
+  }
+  return { ...body, withholdingAmount: calculateWithholding(amount, rate, base) };
+};
+
+// Il cliente in anagrafica deve appartenere all'attività; i suoi dati vengono copiati nella fattura.
+// Sulle nuove fatture ai sostituti d'imposta si applica la ritenuta ordinaria, salvo diversa indicazione.
+const withCustomer = async (body: InvoiceInput, business: Business, current?: Invoice) => {
+  if (!body.customerId) {
+    return body;
+  }
+
+  const customer = await storage.getCustomer(Number(body.customerId));
+  if (!customer || customer.businessId !== business.id) {
+    throw new Error("Customer not found");
+  }
+
+  const appliesWithholding = !current && body.withholdingRate === undefined
+    && customer.withholdingAgent && (business.fiscalRegime || 'RF19') !== 'RF19';
+  return {
+    ...body,
+    customerId: customer.id,
+    customer: body.customer || toInvoiceCustomer(customer),
+    ...(appliesWithholding ? { withholdingRate: WITHHOLDING_RATE } : {}),
+  };
+};
+
+// Stato di incasso ricalcolato da importi, incassi e storni, nuovi o già salvati
+export const withCollectionStatus = (body: InvoiceInput, current?: Invoice, creditedAmount = 0) => {
+  const payments = body.payments !== undefined ? body.payments : current?.payments;
+  const amounts = {
+    amount: body.amount !== undefined ? Number(body.amount) : current?.amount ?? 0,
+    vatAmount: body.vatAmount !== undefined ? Number(body.vatAmount) : current?.vatAmount ?? 0,
+    vatTreatment: body.vatTreatment !== undefined ? body.vatTreatment : current?.vatTreatment,
+    withholdingAmount: body.withholdingAmount !== undefined ? Number(body.withholdingAmount) : current?.withholdingAmount ?? 0,
+    creditedAmount,
+  };
+  return { ...body, collectionStatus: getCollectionStatus(amounts, payments) };
+};
+
+// Note di credito registrate a storno della fattura
+const getCreditNotes = async (invoice: Invoice) =>
+  (await storage.getInvoicesByBusinessId(invoice.businessId)).filter(item => item.originalInvoiceId === invoice.id);
+
+export const getCreditedAmount = async (invoice: Invoice) =>
+  getCreditedAmounts(await getCreditNotes(invoice)).get(invoice.id) || 0;
+
+/**
+ * Completa i dati della fattura da salvare: cliente, totali del documento, ritenuta e stato di incasso.
+ * Con current si applicano le modifiche a una fattura esistente.
+ */
+export async function prepareInvoice(body: InvoiceInput, business: Business, current?: Invoice) {
+  const withTotals = withDocumentTotals(await withCustomer(body, business, current), business, current);
+  const creditedAmount = current ? await getCreditedAmount(current) : 0;
+  return withCollectionStatus(withWithholding(withTotals, business, current), current, creditedAmount);
+}
+
+/**
+ * Applica le modifiche alla fattura conservandone lo stato precedente come nuova versione
+ */
+export async function updateInvoiceWithVersion(current: Invoice, updates: Partial<Invoice>) {
+  const changedFields = getChangedFields(current, updates);
+  if (changedFields.length === 0) {
+    return current;
+  }
+
+  const versions = await storage.getInvoiceVersions([current.id]);
+  await storage.createInvoiceVersion({
+    invoiceId: current.id,
+    version: versions.length + 1,
+    snapshot: current,
+    changedFields,
+  });
+  return storage.updateInvoice(current.id, updates);
+}
+
+/**
+ * Emette una nota di credito (TD04) a storno totale o parziale della fattura.
+ * Lo storno totale riprende le righe della fattura, quello parziale usa una riga con l'aliquota della prima.
+ */
+export async function createCreditNote(
+  original: Invoice,
+  business: Business,
+  request: { issueDate: string; series?: string; amount?: number; description?: string }
+) {
+  if (original.amount <= 0) {
+    throw new Error("Credit notes can only reference an invoice");
+  }
+
+  const credited = round((await getCreditNotes(original)).reduce((sum, note) => sum + Math.abs(note.amount), 0));
+  const remaining = round(original.amount - credited);
+  if (remaining <= 0) {
+    throw new Error("Invoice has already been fully credited");
+  }
+
+  const amount = request.amount ?? remaining;
+  if (amount > remaining + 0.005) {
+    throw new Error(`Credit note exceeds the amount still to be credited (${remaining.toFixed(2)})`);
+  }
+
+  const reference = `fattura n. ${original.number || original.id}${original.issueDate ? ` del ${original.issueDate.split('-').reverse().join('/')}` : ''}`;
+  const isFullCredit = credited === 0 && amount === original.amount;
+  const originalLines = (original.lines || []) as InvoiceLine[];
+  const [firstLine] = originalLines;
+
+  let document: Record<string, unknown>;
+  if (isFullCredit && originalLines.length > 0) {
+    document = { lines: originalLines, inpsRivalsa: original.inpsRivalsa };
+  } else if (firstLine) {
+    document = {
+      lines: [{
+        description: `Storno parziale ${reference}`,
+        quantity: 1,
+        unitPrice: amount,
+        vatRate: firstLine.vatRate,
+        vatNature: firstLine.vatNature,
+      }],
+      inpsRivalsa: false,
+    };
+  } else {
+    // Fattura registrata senza righe: IVA in proporzione all'imponibile stornato
+    const [year, month] = request.issueDate.split('-').map(Number);
+    document = { year, month, amount: -amount, vatAmount: -round((original.vatAmount || 0) * amount / original.amount) };
+  }
+
+  const body = await prepareInvoice({
+    businessId: original.businessId,
+    customerId: original.customerId,
+    customer: original.customer,
+    documentType: 'TD04',
+    originalInvoiceId: original.id,
+    series: request.series ?? original.series,
+    issueDate: request.issueDate,
+    description: request.description || `Nota di credito a storno della ${reference}`,
+    paymentMethod: original.paymentMethod,
+    withholdingRate: original.withholdingRate,
+    vatTreatment: getVatTreatment(original),
+    vatNature: original.vatNature,
+    ...document,
+  }, business);
+  const creditNote = await createNumberedInvoice(body, business);
+
+  // L'importo stornato non è più da incassare sulla fattura originale
+  await storage.updateInvoice(original.id, withCollectionStatus({}, original, await getCreditedAmount(original)));
+  return creditNote;
+}
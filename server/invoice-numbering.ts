@@ -0,0 +1,80 @@
+import { storage } from "./storage";
+import { insertInvoiceSchema, type Business, type Invoice } from "@shared/schema";
+import {
+  checkInvoiceNumbering,
+  formatInvoiceNumber,
+  getLastInvoiceNumber,
+  type NumberingReport,
+} from '@shared/lib/invoice-numbering';
+
+// Campi che su una fattura numerata non si possono modificare
+const NUMBERING_FIELDS = ['number', 'series', 'sequenceNumber', 'year'] as const;
+
+const normalizeSeries = (series?: string | null) => series?.trim().toUpperCase() || '';
+
+/**
+ * Registra la fattura col prossimo progressivo dell'anno e del sezionale; il numero indicato nel corpo viene ignorato.
+ * La numerazione riparte dopo l'ultimo numero già presente, anche tra le fatture importate.
+ * Con un'emissione ricorrente, questa è segnata come creata nella stessa transazione.
+ */
+export async function createNumberedInvoice(body: any, business: Business, recurringRunId?: number): Promise<Invoice> {
+  const invoice = insertInvoiceSchema.parse({ ...body, series: normalizeSeries(body.series) || null });
+  const series = invoice.series || '';
+  const existing = await storage.getInvoicesByBusinessId(business.id);
+  const startAfter = getLastInvoiceNumber(existing, invoice.year, series, business.invoiceNumberFormat);
+
+  const formatNumber = (sequenceNumber: number) =>
+    formatInvoiceNumber(business.invoiceNumberFormat, { sequenceNumber, year: invoice.year, series });
+
+  return storage.createNumberedInvoice(invoice, startAfter, formatNumber, recurringRunId);
+}
+
+/**
+ * Numero che riceverà la prossima fattura dell'anno e del sezionale
+ */
+export async function getNextInvoiceNumber(business: Business, year: number, requestedSeries?: string) {
+  const series = normalizeSeries(requestedSeries);
+  const sequence = await storage.getInvoiceNumberSequence(business.id, year, series);
+  const existing = await storage.getInvoicesByBusinessId(business.id);
+  const sequenceNumber = Math.max(
+    sequence?.lastNumber ?? 0,
+    getLastInvoiceNumber(existing, year, series, business.invoiceNumberFormat)
+  ) + 1;
+
+  return {
+    year,
+    series,
+    sequenceNumber,
+    number: formatInvoiceNumber(business.invoiceNumberFormat, { sequenceNumber, year, series }),
+  };
+}
+
+/**
+ * Buchi e doppioni nelle numerazioni delle fatture registrate, eventualmente di un solo anno
+ */
+export async function checkNumbering(business: Business, year?: number): Promise<NumberingReport> {
+  const invoices = await storage.getInvoicesByBusinessId(business.id);
+  return checkInvoiceNumbering(
+    invoices.filter(invoice => year === undefined || invoice.year === year),
+    business.invoiceNumberFormat
+  );
+}
+
+/**
+ * Su una fattura numerata numero, sezionale e anno di emissione restano quelli assegnati
+ */
+export function assertNumberingUnchanged(current: Invoice, updates: Partial<Invoice>) {
+  if (current.sequenceNumber === null) {
+    return;
+  }
+  const changed = NUMBERING_FIELDS.filter(field =>
+    updates[field] !== undefined && (updates[field] ?? null) !== (current[field] ?? null)
+  );
+  if (changed.length > 0) {
+    throw new Error(`Numbered invoices cannot change ${changed.join(', ')}`);
+  }
+}
+
+// Le fatture numerate si eliminano dalla fine della numerazione, per non lasciare buchi
+export const deleteInvoice = (invoice: Invoice) =>
+  invoice.sequenceNumber !== null ? storage.deleteNumberedInvoice(invoice) : storage.deleteInvoice(invoice.id);
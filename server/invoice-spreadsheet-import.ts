@@ -0,0 +1,211 @@
+import * as XLSX from 'xlsx';
+import { storage } from './storage';
+import { prepareInvoice } from './invoice-documents';
+import { insertInvoiceSchema, type Business, type Customer, type Invoice } from '@shared/schema';
+import {
+  detectColumnMapping,
+  readSpreadsheetRow,
+  validateColumnMapping,
+  type SpreadsheetCell,
+  type SpreadsheetColumnMapping,
+  type SpreadsheetRow,
+} from '@shared/lib/invoice-spreadsheet';
+
+export type MappingSource = 'request' | 'saved' | 'detected';
+
+export interface SpreadsheetPreview {
+  headers: string[];
+  mapping: SpreadsheetColumnMapping;
+  mappingSource: MappingSource;
+  mappingErrors: string[];
+  rows: SpreadsheetRow[];
+}
+
+export interface SpreadsheetImportRow {
+  rowNumber: number;
+  status: 'created' | 'failed';
+  invoiceId?: number;
+  errors: string[];
+}
+
+export interface SpreadsheetImportReport {
+  created: number;
+  failed: number;
+  rows: SpreadsheetImportRow[];
+}
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: Array<{ rowNumber: number; cells: Record<string, SpreadsheetCell> }>;
+}
+
+// I CSV esportati da Excel in italiano sono spesso in Windows-1252 anziché UTF-8
+export function decodeCsv(file: Uint8Array): string {
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(file);
+  } catch {
+    text = new TextDecoder('windows-1252').decode(file);
+  }
+  return text.replace(/^\uFEFF/, '');
+}
+
+// Righe iniziali in cui cercare l'intestazione
+const HEADER_SEARCH_ROWS = 10;
+
+const isEmptyCell = (value: unknown) => value === null || value === undefined || String(value).trim() === '';
+
+/**
+ * Legge il primo foglio di un file XLSX/XLS o CSV. L'intestazione è la prima delle righe iniziali
+ * con più celle compilate, così da saltare titoli e righe descrittive sopra la tabella.
+ */
+export function readSpreadsheet(file: Uint8Array): SpreadsheetData {
+  const isZip = file[0] === 0x50 && file[1] === 0x4b;
+  const isOle = file[0] === 0xd0 && file[1] === 0xcf && file[2] === 0x11 && file[3] === 0xe0;
+  // Nei CSV le celle restano testo: date e importi si interpretano con le regole italiane
+  const workbook = isZip || isOle
+    ? XLSX.read(file, { type: 'array' })
+    : XLSX.read(decodeCsv(file), { type: 'string', raw: true });
+
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) {
+    throw new Error('Il file non contiene fogli');
+  }
+
+  const table = XLSX.utils.sheet_to_json<SpreadsheetCell[]>(sheet, { header: 1, raw: true, defval: null, blankrows: true });
+  const filledCells = table.slice(0, HEADER_SEARCH_ROWS).map(row => row.filter(cell => !isEmptyCell(cell)).length);
+  const maxFilled = Math.max(0, ...filledCells);
+  if (maxFilled === 0) {
+    throw new Error('Il file è vuoto');
+  }
+  const headerIndex = filledCells.indexOf(maxFilled);
+
+  const headers = table[headerIndex].map((cell, index) => isEmptyCell(cell) ? `Colonna ${index + 1}` : String(cell).trim());
+  const rows = table.slice(headerIndex + 1)
+    .map((row, index) => ({
+      rowNumber: headerIndex + index + 2,
+      cells: Object.fromEntries(headers.map((header, column) => [header, row[column] ?? null])),
+    }))
+    .filter(row => Object.values(row.cells).some(cell => !isEmptyCell(cell)));
+
+  return { headers, rows };
+}
+
+// Mappatura indicata dall'utente, altrimenti quella salvata se ancora applicabile, altrimenti riconosciuta dalle intestazioni
+function resolveMapping(headers: string[], business: Business, requested?: SpreadsheetColumnMapping) {
+  if (requested) {
+    return { mapping: requested, mappingSource: 'request' as MappingSource };
+  }
+  const saved = business.invoiceImportMapping;
+  if (saved && validateColumnMapping(saved, headers).length === 0) {
+    return { mapping: saved, mappingSource: 'saved' as MappingSource };
+  }
+  return { mapping: detectColumnMapping(headers), mappingSource: 'detected' as MappingSource };
+}
+
+const invoiceKey = (number: string, year: number) => `${number.trim().toUpperCase()}#${year}`;
+
+// Righe lette secondo la mappatura, con errore per i numeri già registrati o ripetuti nel file
+function readRows(data: SpreadsheetData, mapping: SpreadsheetColumnMapping, existing: Invoice[]): SpreadsheetRow[] {
+  const knownInvoices = new Set(
+    existing.filter(invoice => invoice.number).map(invoice => invoiceKey(invoice.number!, invoice.year))
+  );
+
+  return data.rows.map(row => {
+    const result = readSpreadsheetRow(row.cells, mapping, row.rowNumber);
+    const { number, date } = result.values;
+    if (number && date) {
+      const key = invoiceKey(number, Number(date.slice(0, 4)));
+      if (knownInvoices.has(key)) {
+        result.errors.push(`Fattura ${number} del ${date.slice(0, 4)} già presente`);
+      }
+      knownInvoices.add(key);
+    }
+    return result;
+  });
+}
+
+/**
+ * Anteprima dell'import: colonne del file, mappatura proposta e righe lette con gli errori di ciascuna
+ */
+export function previewSpreadsheet(
+  file: Uint8Array,
+  business: Business,
+  existing: Invoice[],
+  requested?: SpreadsheetColumnMapping
+): SpreadsheetPreview {
+  const data = readSpreadsheet(file);
+  const { mapping, mappingSource } = resolveMapping(data.headers, business, requested);
+  const mappingErrors = validateColumnMapping(mapping, data.headers);
+
+  return {
+    headers: data.headers,
+    mapping,
+    mappingSource,
+    mappingErrors,
+    rows: mappingErrors.length > 0 ? [] : readRows(data, mapping, existing),
+  };
+}
+
+// Cliente in anagrafica con lo stesso nome, creato se assente
+async function resolveCustomer(businessId: number, name: string, customers: Customer[]): Promise<Customer> {
+  const existing = customers.find(customer => customer.name.trim().toLowerCase() === name.toLowerCase());
+  if (existing) {
+    return existing;
+  }
+  const customer = await storage.createCustomer({ businessId, name, countryCode: 'IT' });
+  customers.push(customer);
+  return customer;
+}
+
+/**
+ * Registra le righe valide come fatture e riporta gli errori delle altre; la mappatura viene salvata per il prossimo import
+ */
+export async function importSpreadsheetInvoices(
+  file: Uint8Array,
+  mapping: SpreadsheetColumnMapping,
+  business: Business,
+  existing: Invoice[]
+): Promise<SpreadsheetImportReport> {
+  const data = readSpreadsheet(file);
+  const mappingErrors = validateColumnMapping(mapping, data.headers);
+  if (mappingErrors.length > 0) {
+    throw new Error(mappingErrors.join('; '));
+  }
+
+  const customers = await storage.getCustomersByBusinessId(business.id);
+  const report: SpreadsheetImportRow[] = [];
+
+  for (const { rowNumber, values, errors } of readRows(data, mapping, existing)) {
+    if (errors.length > 0) {
+      report.push({ rowNumber, status: 'failed', errors });
+      continue;
+    }
+
+    try {
+      const [year, month] = values.date!.split('-').map(Number);
+      const customer = values.customer ? await resolveCustomer(business.id, values.customer, customers) : undefined;
+      const body = await prepareInvoice({
+        businessId: business.id,
+        year,
+        month,
+        issueDate: values.date,
+        number: values.number,
+        amount: values.taxableAmount,
+        vatAmount: values.vatAmount || 0,
+      }, business);
+      const invoice = await storage.createInvoice(insertInvoiceSchema.parse({ ...body, customerId: customer?.id }));
+      report.push({ rowNumber, status: 'created', invoiceId: invoice.id, errors: [] });
+    } catch (error: any) {
+      report.push({ rowNumber, status: 'failed', errors: [error.message || 'Errore di registrazione'] });
+    }
+  }
+
+  await storage.updateBusiness(business.id, { invoiceImportMapping: mapping });
+
+  return {
+    created: report.filter(row => row.status === 'created').length,
+    failed: report.filter(row => row.status === 'failed').length,
+    rows: report,
+  };
+}
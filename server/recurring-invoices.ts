@@ -0,0 +1,110 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+import { prepareInvoice } from "./invoice-documents";
+import { createNumberedInvoice } from "./invoice-numbering";
+import { type Business, type RecurringInvoice, type RecurringInvoiceRun } from "@shared/schema";
+import { FORFETTARIO_VAT_NATURE } from '@shared/lib/fatturapa';
+import { getVatTreatment } from '@shared/lib/vat-treatment';
+import { formatISODate, getDueOccurrences } from '@shared/lib/recurring-schedule';
+
+export interface RecurringRunReport {
+  created: number;
+  failed: number;
+}
+
+// Controllo delle emissioni maturate ogni ora
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+
+let running = false;
+
+// Fattura con un'unica riga dal modello, emessa nella data programmata e registrata insieme all'emissione
+async function createOccurrenceInvoice(template: RecurringInvoice, business: Business, date: string, runId: number) {
+  const isForfettario = (business.fiscalRegime || 'RF19') === 'RF19';
+  const body = await prepareInvoice({
+    businessId: business.id,
+    customerId: template.customerId,
+    issueDate: date,
+    description: template.description,
+    vatTreatment: getVatTreatment(template),
+    vatNature: template.vatNature,
+    lines: [{
+      description: template.description,
+      quantity: 1,
+      unitPrice: template.amount,
+      vatRate: template.vatRate,
+      vatNature: template.vatRate > 0 ? undefined : template.vatNature || (isForfettario ? FORFETTARIO_VAT_NATURE : undefined),
+    }],
+  }, business);
+  return createNumberedInvoice(body, business, runId);
+}
+
+/**
+ * Emette la fattura di un'emissione già presa in carico (PENDING). In caso di errore l'emissione
+ * resta FAILED e sarà ripetuta dalla prossima esecuzione o dalla richiesta di ripetizione.
+ */
+export async function issueRun(template: RecurringInvoice, business: Business, run: RecurringInvoiceRun, report: RecurringRunReport) {
+  try {
+    const invoice = await createOccurrenceInvoice(template, business, run.scheduledDate, run.id);
+    report.created++;
+    log(`template ${template.id}: created invoice ${invoice.id} for ${run.scheduledDate}`, 'recurring');
+    return invoice;
+  } catch (error: any) {
+    await storage.updateRecurringInvoiceRun(run.id, { status: 'FAILED', message: error.message || 'Errore di emissione' });
+    report.failed++;
+    log(`template ${template.id}: failed for ${run.scheduledDate}: ${error.message}`, 'recurring');
+    return undefined;
+  }
+}
+
+async function runTemplate(template: RecurringInvoice, today: string, report: RecurringRunReport) {
+  const business = await storage.getBusiness(template.businessId);
+  if (!business) {
+    log(`template ${template.id}: business ${template.businessId} not found`, 'recurring');
+    return;
+  }
+
+  const runs = await storage.getRecurringInvoiceRuns(template.id);
+  for (const date of getDueOccurrences(template, runs, today)) {
+    // La registrazione precede la fattura: se un'altra esecuzione l'ha già presa, l'emissione è saltata.
+    // Le emissioni fallite o interrotte si riprendono al posto della registrazione esistente.
+    const previous = runs.find(item => item.scheduledDate === date);
+    const run = previous
+      ? await storage.reclaimRecurringInvoiceRun(previous)
+      : await storage.claimRecurringInvoiceRun({ recurringInvoiceId: template.id, scheduledDate: date, status: 'PENDING' });
+    if (!run) {
+      continue;
+    }
+
+    await issueRun(template, business, run, report);
+  }
+}
+
+/**
+ * Emette le fatture ricorrenti maturate entro oggi. Ogni data viene emessa una sola volta,
+ * anche ripetendo l'esecuzione: le date create o saltate non si ripetono, quelle fallite
+ * o interrotte da oltre STALE_RUN_MINUTES vengono riprese.
+ */
+export async function runRecurringInvoices(today = formatISODate(new Date())): Promise<RecurringRunReport> {
+  const report: RecurringRunReport = { created: 0, failed: 0 };
+  if (running) {
+    return report;
+  }
+
+  running = true;
+  try {
+    const templates = await storage.getActiveRecurringInvoices();
+    for (const template of templates) {
+      await runTemplate(template, today, report);
+    }
+    log(`run for ${today}: ${report.created} created, ${report.failed} failed`, 'recurring');
+  } finally {
+    running = false;
+  }
+  return report;
+}
+
+export function startRecurringInvoiceScheduler() {
+  const run = () => runRecurringInvoices().catch(error => log(`run failed: ${error.message}`, 'recurring'));
+  run();
+  return setInterval(run, SCHEDULER_INTERVAL_MS);
+}
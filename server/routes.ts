@@ -1,13 +1,43 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertUserSchema, insertBusinessSchema, insertInvoiceSchema, insertTaxCalculationSchema } from "@shared/schema";
+import { insertUserSchema, insertBusinessSchema, insertCustomerSchema, insertWithholdingCertificateSchema, createCreditNoteSchema, insertRecurringInvoiceSchema, skipRecurringInvoiceSchema, insertExpenseSchema, insertBankAccountSchema, bankTransactionMatchSchema, spreadsheetColumnMappingSchema, insertTaxCalculationSchema, srlCalculationRequestSchema, individualCalculationRequestSchema, regimeComparisonRequestSchema, forfettarioEligibilityRequestSchema, f24RequestSchema, payDeadlineSchema, invoicePaymentSchema, updateInvoiceSchema, type InsertPaymentDeadline } from "@shared/schema";
 import bcrypt from "bcrypt";
 import jwt from "jsonwebtoken";
 import { sendEmail, generateReportEmailHTML } from './email';
 import * as XLSX from 'xlsx';
 
 import { TaxCalculator, validateTaxInput, type TaxCalculationInput } from '@shared/lib/tax-calculator';
+import { getTaxRules } from '@shared/lib/tax-rules';
+import { calculateSRLTaxes, type SRLTaxCalculationResult } from '@shared/lib/srl-tax-calculator';
+import { calculateIndividualTaxes, DEFAULT_FISCAL_YEAR, type IndividualTaxCalculationResult } from '@shared/lib/individual-tax-calculator';
+import { compareRegimes } from '@shared/lib/regime-comparison';
+import { checkForfettarioEligibility, findThresholdCrossingMonth } from '@shared/lib/forfettario-eligibility';
+import { calculateInstallmentPlan, type InstallmentComponent, type InstallmentPlanOptions } from '@shared/lib/installment-plan';
+import { diffDeadlines, generateForfettarioDeadlines, generateSRLDeadlines, generateIndividualDeadlines, forfettarioJunePayment, srlJunePayment, individualJunePayment, type DeadlineSource, type DeadlineSyncReport } from '@shared/lib/deadline-generator';
+import { buildF24Model } from '@shared/lib/f24';
+import { renderF24Pdf } from './f24-pdf';
+import { calculateStampDutySummary } from '@shared/lib/stamp-duty';
+import { getWithheldTotal, reconcileWithholdings } from '@shared/lib/withholding';
+import { buildFatturaPAXml, getSdiFileName, toSdiProgressive } from '@shared/lib/fatturapa';
+import { validateFatturaPA } from './fatturapa-validator';
+import { importFatturaPAArchive } from './fatturapa-import';
+import { importSpreadsheetInvoices, previewSpreadsheet } from './invoice-spreadsheet-import';
+import { createCreditNote, getCreditedAmount, prepareInvoice, updateInvoiceWithVersion, withCollectionStatus } from './invoice-documents';
+import { getInvoicesAt } from '@shared/lib/invoice-versions';
+import { assertNumberingUnchanged, checkNumbering, createNumberedInvoice, deleteInvoice, getNextInvoiceNumber } from './invoice-numbering';
+import { log } from './vite';
+import { formatISODate, getOccurrences, getUpcomingOccurrences, isRetryableRun } from '@shared/lib/recurring-schedule';
+import { getExpenseTotals, withCategoryDefaults } from '@shared/lib/expenses';
+import { getMonthlyRevenue, getRevenueBasis, getRevenueByCustomer, getRevenueEntries, getYearRevenue } from '@shared/lib/revenue';
+import { getVatSettlement, hasVatDocuments } from '@shared/lib/vat-settlement';
+import { getVatTreatmentRevenue } from '@shared/lib/vat-treatment';
+import { buildLipeXml, getLipeFileName } from '@shared/lib/lipe';
+import { validateLipe } from './lipe-validator';
+import { buildVatSummaryWorkbook, getBusinessVatSettlement } from './vat-reports';
+import { payDeadline } from './deadline-payments';
+import { issueRun } from './recurring-invoices';
+import { getBankAccountsWithBalance, getReconciliationSuggestions, importBankStatement, matchTransaction, refreshBusinessBalance, unmatchTransaction } from './bank-import';
 
 
 const JWT_SECRET = process.env.JWT_SECRET || "my-development-secret-key-change-in-production-2024";
@@ -30,6 +60,70 @@ const authenticateToken = (req: any, res: any, next: any) => {
   });
 };
 
+// Like authenticateToken, but requests without a valid token continue as anonymous
+const optionalAuthentication = (req: any, res: any, next: any) => {
+  const authHeader = req.headers.authorization;
+  const token = authHeader && authHeader.split(' ')[1];
+
+  if (!token) {
+    return next();
+  }
+
+  jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
+    if (!err) {
+      req.user = user;
+    }
+    next();
+  });
+};
+
+// Rateizza il versamento di giugno se richieste più rate
+const buildInstallmentPlan = (components: InstallmentComponent[], options: InstallmentPlanOptions) => {
+  if (options.installments <= 1 || !components.some(component => component.amount > 0)) {
+    return undefined;
+  }
+  return calculateInstallmentPlan(components, options);
+};
+
+// Risultato dell'ultimo calcolo salvato per l'anno indicato
+const latestResult = <T>(calculations: Array<{ id: number; year: number; result: unknown }>, year: number) =>
+  calculations
+    .filter(calc => calc.year === year)
+    .sort((a, b) => b.id - a.id)[0]?.result as T | undefined;
+
+// Rigenera le scadenze dell'anno per l'origine indicata lasciando invariate quelle già pagate
+const syncDeadlines = async (
+  businessId: number,
+  fiscalYear: number,
+  source: DeadlineSource,
+  generated: InsertPaymentDeadline[]
+): Promise<DeadlineSyncReport> => {
+  const existing = (await storage.getPaymentDeadlinesByBusinessId(businessId))
+    .filter(deadline => deadline.fiscalYear === fiscalYear && deadline.source === source);
+  const diff = diffDeadlines(existing, generated);
+
+  const added = [];
+  for (const deadline of diff.toCreate) {
+    added.push(await storage.createPaymentDeadline(deadline));
+  }
+  for (const { id, updates } of diff.toUpdate) {
+    await storage.updatePaymentDeadline(id, updates);
+  }
+  for (const deadline of diff.toDelete) {
+    await storage.deletePaymentDeadline(deadline.id);
+  }
+
+  return {
+    fiscalYear,
+    source,
+    added,
+    changed: diff.changes,
+    dropped: diff.toDelete,
+    unchanged: diff.unchanged,
+    paid: diff.paid,
+  };
+};
+
 export async function registerRoutes(app: Express): Promise<Server> {
   
   // Auth routes
@@ -43,197 +137,1208 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "User already exists" });
       }
 
-      // Hash password
-      const hashedPassword = await bcrypt.hash(userData.password, 10);
-      
-      const user = await storage.createUser({
-        ...userData,
-        password: hashedPassword
-      });
+      // Hash password
+      const hashedPassword = await bcrypt.hash(userData.password, 10);
+      
+      const user = await storage.createUser({
+        ...userData,
+        password: hashedPassword
+      });
+
+      // Generate token
+      const token = jwt.sign({ userId: user.id, email: user.email }, JWT_SECRET);
+
+      res.json({ user: { id: user.id, email: user.email, name: user.name }, token });
+    } catch (error) {
+      res.status(400).json({ message: "Registration failed", error });
+    }
+  });
+
+  app.post("/api/auth/login", async (req, res) => {
+    try {
+      const { email, password } = req.body;
+      
+      const user = await storage.getUserByEmail(email);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      const validPassword = await bcrypt.compare(password, user.password);
+      if (!validPassword) {
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      const token = jwt.sign({ userId: user.id, email: user.email }, JWT_SECRET);
+
+      res.json({ user: { id: user.id, email: user.email, name: user.name }, token });
+    } catch (error) {
+      res.status(400).json({ message: "Login failed", error });
+    }
+  });
+
+  app.get("/api/auth/profile", authenticateToken, async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json({ id: user.id, email: user.email, name: user.name });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get profile", error });
+    }
+  });
+
+  // Business routes
+  app.get("/api/businesses", async (req: any, res) => {
+    try {
+      const businesses = await storage.getBusinessesByUserId(1); // Demo user ID
+      res.json(businesses);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get businesses", error });
+    }
+  });
+
+  app.post("/api/businesses", async (req: any, res) => {
+    try {
+      const businessData = insertBusinessSchema.parse({
+        ...req.body,
+        userId: 1, // Demo user ID
+        currentBalance: req.body.currentBalance?.toString() || "0"
+      });
+      
+      const business = await storage.createBusiness(businessData);
+      res.json(business);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to create business", error });
+    }
+  });
+
+  app.put("/api/businesses/:id", authenticateToken, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const business = await storage.getBusiness(id);
+      
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const updated = await storage.updateBusiness(id, req.body);
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update business", error });
+    }
+  });
+
+  app.delete("/api/businesses/:id", authenticateToken, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const business = await storage.getBusiness(id);
+      
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      await storage.deleteBusiness(id);
+      res.json({ message: "Business deleted successfully" });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to delete business", error });
+    }
+  });
+
+  // Invoice routes
+  // Anagrafica clienti
+  app.get("/api/businesses/:businessId/customers", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const customers = await storage.getCustomersByBusinessId(businessId);
+      res.json(customers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get customers", error });
+    }
+  });
+
+  app.post("/api/businesses/:businessId/customers", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const customerData = insertCustomerSchema.parse({ ...req.body, businessId });
+      const customer = await storage.createCustomer(customerData);
+      res.json(customer);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to create customer", error });
+    }
+  });
+
+  app.put("/api/customers/:id", authenticateToken, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const customer = await storage.getCustomer(id);
+
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const business = await storage.getBusiness(customer.businessId);
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      // La validazione di P.IVA e codice fiscale riguarda il cliente risultante
+      const { id: _id, createdAt, ...current } = customer;
+      const customerData = insertCustomerSchema.parse({ ...current, ...req.body, businessId: customer.businessId });
+      const updated = await storage.updateCustomer(id, customerData);
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update customer", error });
+    }
+  });
+
+  app.delete("/api/customers/:id", authenticateToken, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const customer = await storage.getCustomer(id);
+
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const business = await storage.getBusiness(customer.businessId);
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const invoices = await storage.getInvoicesByBusinessId(customer.businessId);
+      if (invoices.some(invoice => invoice.customerId === id)) {
+        return res.status(400).json({ message: "Customer has invoices and cannot be deleted" });
+      }
+
+      await storage.deleteCustomer(id);
+      res.json({ message: "Customer deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete customer", error });
+    }
+  });
+
+  // Certificazioni Uniche ricevute dai clienti
+  app.get("/api/businesses/:businessId/withholding-certificates", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const certificates = await storage.getWithholdingCertificatesByBusinessId(businessId);
+      res.json(certificates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get withholding certificates", error });
+    }
+  });
+
+  app.post("/api/businesses/:businessId/withholding-certificates", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const certificateData = insertWithholdingCertificateSchema.parse({ ...req.body, businessId });
+      const customer = await storage.getCustomer(certificateData.customerId);
+      if (!customer || customer.businessId !== businessId) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+
+      const certificate = await storage.createWithholdingCertificate(certificateData);
+      res.json(certificate);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to create withholding certificate", error });
+    }
+  });
+
+  app.delete("/api/withholding-certificates/:id", authenticateToken, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const certificate = await storage.getWithholdingCertificate(id);
+
+      if (!certificate) {
+        return res.status(404).json({ message: "Withholding certificate not found" });
+      }
+
+      const business = await storage.getBusiness(certificate.businessId);
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      await storage.deleteWithholdingCertificate(id);
+      res.json({ message: "Withholding certificate deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete withholding certificate", error });
+    }
+  });
+
+  // Ritenute attese dalle fatture incassate a confronto con quelle certificate nelle CU
+  app.get("/api/businesses/:businessId/withholdings/reconciliation", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const year = req.query.year ? parseInt(req.query.year) : new Date().getFullYear() - 1;
+      const [invoices, certificates, customers] = await Promise.all([
+        storage.getInvoicesByBusinessId(businessId),
+        storage.getWithholdingCertificatesByBusinessId(businessId),
+        storage.getCustomersByBusinessId(businessId),
+      ]);
+      const customersById = new Map(customers.map(customer => [customer.id, customer]));
+      const reconciliation = reconcileWithholdings(invoices, certificates, year);
+
+      res.json({
+        ...reconciliation,
+        rows: reconciliation.rows.map(row => ({
+          ...row,
+          name: (row.customerId !== null && customersById.get(row.customerId)?.name) || 'Senza cliente',
+        })),
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reconcile withholdings", error });
+    }
+  });
+
+  // Ricavi dell'anno per cliente, con lo stesso criterio (cassa o competenza) delle statistiche
+  app.get("/api/businesses/:businessId/reports/customers", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const year = req.query.year ? parseInt(req.query.year) : new Date().getFullYear();
+      const basis = getRevenueBasis(business);
+      const [invoices, customers] = await Promise.all([
+        storage.getInvoicesByBusinessId(businessId),
+        storage.getCustomersByBusinessId(businessId),
+      ]);
+      const customersById = new Map(customers.map(customer => [customer.id, customer]));
+
+      const rows = getRevenueByCustomer(invoices, basis, year).map(row => {
+        const customer = row.customerId !== null ? customersById.get(row.customerId) : undefined;
+        return {
+          ...row,
+          name: customer?.name || 'Senza cliente',
+          vatNumber: customer?.vatNumber || null,
+          fiscalCode: customer?.fiscalCode || null,
+        };
+      });
+
+      res.json({
+        year,
+        basis,
+        totalRevenue: getYearRevenue(getRevenueEntries(invoices, basis), year),
+        customers: rows,
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get revenue by customer", error });
+    }
+  });
+
+  app.get("/api/businesses/:businessId/invoices", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+      
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const invoices = await storage.getInvoicesByBusinessId(businessId);
+
+      // Con asOf le fatture tornano com'erano in quel momento, per spiegare i calcoli già salvati
+      if (req.query.asOf) {
+        const asOf = new Date(req.query.asOf as string);
+        if (isNaN(asOf.getTime())) {
+          return res.status(400).json({ message: "Invalid asOf date" });
+        }
+        const versions = await storage.getInvoiceVersions(invoices.map(invoice => invoice.id));
+        return res.json(getInvoicesAt(invoices, versions, asOf));
+      }
+
+      res.json(invoices);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get invoices", error });
+    }
+  });
+
+  app.post("/api/businesses/:businessId/invoices", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+      
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      // Il numero viene dalla numerazione dell'anno e del sezionale
+      const invoice = await createNumberedInvoice(await prepareInvoice({
+        ...req.body,
+        businessId
+      }, business), business);
+      res.json(invoice);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to create invoice", error });
+    }
+  });
+
+  // Importa un archivio zip di fatture elettroniche (.xml e .xml.p7m)
+  app.post("/api/businesses/:businessId/invoices/import", authenticateToken, express.raw({ type: ['application/zip', 'application/x-zip-compressed', 'application/octet-stream'], limit: '50mb' }), async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: "A zip archive is required" });
+      }
+
+      const existing = await storage.getInvoicesByBusinessId(businessId);
+      const report = await importFatturaPAArchive(new Uint8Array(req.body), business, existing);
+      res.json(report);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to import invoices", error });
+    }
+  });
+
+  // Import da CSV/XLSX: il file è nel corpo della richiesta, la mappatura delle colonne nel parametro mapping (JSON)
+  const spreadsheetUpload = express.raw({
+    type: ['text/csv', 'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/octet-stream'],
+    limit: '10mb',
+  });
+
+  app.post("/api/businesses/:businessId/invoices/spreadsheet/preview", authenticateToken, spreadsheetUpload, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: "A CSV or XLSX file is required" });
+      }
+
+      const mapping = req.query.mapping ? spreadsheetColumnMappingSchema.parse(JSON.parse(req.query.mapping as string)) : undefined;
+      const existing = await storage.getInvoicesByBusinessId(businessId);
+      res.json(previewSpreadsheet(new Uint8Array(req.body), business, existing, mapping));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to read spreadsheet", error });
+    }
+  });
+
+  app.post("/api/businesses/:businessId/invoices/spreadsheet/import", authenticateToken, spreadsheetUpload, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: "A CSV or XLSX file is required" });
+      }
+
+      const mapping = spreadsheetColumnMappingSchema.parse(JSON.parse((req.query.mapping as string) || '{}'));
+      const existing = await storage.getInvoicesByBusinessId(businessId);
+      const report = await importSpreadsheetInvoices(new Uint8Array(req.body), mapping, business, existing);
+      res.json(report);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to import invoices", error });
+    }
+  });
+
+  app.put("/api/invoices/:id", authenticateToken, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const invoice = await storage.getInvoice(id);
+      
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      const business = await storage.getBusiness(invoice.businessId);
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const updates = await prepareInvoice(updateInvoiceSchema.parse(req.body), business, invoice);
+      assertNumberingUnchanged(invoice, updates);
+      const updated = await updateInvoiceWithVersion(invoice, updates);
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to update invoice", error });
+    }
+  });
+
+  // Registra un incasso, anche parziale, della fattura
+  app.post("/api/invoices/:id/payments", authenticateToken, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const invoice = await storage.getInvoice(id);
+
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      const business = await storage.getBusiness(invoice.businessId);
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const payment = invoicePaymentSchema.parse(req.body);
+      const payments = [...(invoice.payments || []), payment];
+      const updated = await storage.updateInvoice(id, withCollectionStatus({ payments }, invoice, await getCreditedAmount(invoice)));
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to register invoice payment", error });
+    }
+  });
+
+  // Nota di credito a storno totale o parziale della fattura
+  app.post("/api/invoices/:id/credit-notes", authenticateToken, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const invoice = await storage.getInvoice(id);
+
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      const business = await storage.getBusiness(invoice.businessId);
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const creditNote = await createCreditNote(invoice, business, createCreditNoteSchema.parse(req.body));
+      res.json(creditNote);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to create credit note", error });
+    }
+  });
+
+  // Versioni precedenti della fattura, dalla più recente
+  app.get("/api/invoices/:id/versions", authenticateToken, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const invoice = await storage.getInvoice(id);
+
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      const business = await storage.getBusiness(invoice.businessId);
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const versions = await storage.getInvoiceVersions([id]);
+      res.json(versions.reverse());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get invoice versions", error });
+    }
+  });
+
+  // Esporta la fattura in formato FatturaPA validato contro lo schema XSD
+  app.get("/api/invoices/:id/fatturapa", authenticateToken, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const invoice = await storage.getInvoice(id);
+
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      const business = await storage.getBusiness(invoice.businessId);
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      if (!business.vatNumber) {
+        return res.status(400).json({ message: "Business VAT number is required to export FatturaPA" });
+      }
+
+      const progressive = toSdiProgressive(await storage.nextSdiProgressive(business.id));
+      const originalInvoice = invoice.originalInvoiceId ? await storage.getInvoice(invoice.originalInvoiceId) : undefined;
+      const xml = buildFatturaPAXml(invoice, business, { progressive, originalInvoice });
+      const fileName = getSdiFileName(business.vatNumber, progressive);
+
+      const validation = await validateFatturaPA(xml, fileName);
+      if (!validation.valid) {
+        return res.status(422).json({ message: "FatturaPA XML does not match the schema", errors: validation.errors });
+      }
+
+      res.setHeader('Content-Type', 'application/xml');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(xml);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to export invoice", error });
+    }
+  });
+
+  app.delete("/api/invoices/:id", authenticateToken, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const invoice = await storage.getInvoice(id);
+      
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      const business = await storage.getBusiness(invoice.businessId);
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const invoices = await storage.getInvoicesByBusinessId(invoice.businessId);
+      if (invoices.some(item => item.originalInvoiceId === id)) {
+        return res.status(400).json({ message: "Invoice has credit notes and cannot be deleted" });
+      }
+
+      await deleteInvoice(invoice);
+
+      // Eliminando una nota di credito l'importo torna da incassare sulla fattura originale
+      const original = invoices.find(item => item.id === invoice.originalInvoiceId);
+      if (original) {
+        await storage.updateInvoice(original.id, withCollectionStatus({}, original, await getCreditedAmount(original)));
+      }
+      res.json({ message: "Invoice deleted successfully" });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to delete invoice", error });
+    }
+  });
+
+  // Prossimo numero di fattura per anno e sezionale
+  app.get("/api/businesses/:businessId/invoice-numbering/next", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const year = req.query.year ? parseInt(req.query.year) : new Date().getFullYear();
+      res.json(await getNextInvoiceNumber(business, year, req.query.series as string | undefined));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to get next invoice number", error });
+    }
+  });
+
+  // Buchi e doppioni nella numerazione delle fatture registrate
+  app.get("/api/businesses/:businessId/invoice-numbering/check", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const year = req.query.year ? parseInt(req.query.year) : undefined;
+      res.json(await checkNumbering(business, year));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to check invoice numbering", error });
+    }
+  });
+
+  // Modelli di fatture ricorrenti, emesse dallo scheduler
+  app.get("/api/businesses/:businessId/recurring-invoices", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const recurringInvoices = await storage.getRecurringInvoicesByBusinessId(businessId);
+      res.json(recurringInvoices);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get recurring invoices", error });
+    }
+  });
+
+  app.post("/api/businesses/:businessId/recurring-invoices", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const recurringData = insertRecurringInvoiceSchema.parse({ ...req.body, businessId });
+      if (recurringData.customerId) {
+        const customer = await storage.getCustomer(recurringData.customerId);
+        if (!customer || customer.businessId !== businessId) {
+          return res.status(404).json({ message: "Customer not found" });
+        }
+      }
+
+      const recurringInvoice = await storage.createRecurringInvoice(recurringData);
+      res.json(recurringInvoice);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to create recurring invoice", error });
+    }
+  });
+
+  // Prossime emissioni dei modelli attivi, comprese quelle saltate
+  app.get("/api/businesses/:businessId/recurring-invoices/upcoming", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const months = req.query.months ? parseInt(req.query.months as string) : 3;
+      const recurringInvoices = await storage.getRecurringInvoicesByBusinessId(businessId);
+      const runsByTemplate = new Map(await Promise.all(
+        recurringInvoices.map(async template => [template.id, await storage.getRecurringInvoiceRuns(template.id)] as const)
+      ));
+
+      res.json(getUpcomingOccurrences(recurringInvoices, runsByTemplate, formatISODate(new Date()), months));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get upcoming recurring invoices", error });
+    }
+  });
+
+  app.put("/api/recurring-invoices/:id", authenticateToken, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const recurringInvoice = await storage.getRecurringInvoice(id);
+
+      if (!recurringInvoice) {
+        return res.status(404).json({ message: "Recurring invoice not found" });
+      }
+
+      const business = await storage.getBusiness(recurringInvoice.businessId);
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const { id: _id, createdAt, ...current } = recurringInvoice;
+      const recurringData = insertRecurringInvoiceSchema.parse({ ...current, ...req.body, businessId: recurringInvoice.businessId });
+      if (recurringData.customerId) {
+        const customer = await storage.getCustomer(recurringData.customerId);
+        if (!customer || customer.businessId !== business.id) {
+          return res.status(404).json({ message: "Customer not found" });
+        }
+      }
+
+      const updated = await storage.updateRecurringInvoice(id, recurringData);
+      res.json(updated);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to update recurring invoice", error });
+    }
+  });
+
+  app.delete("/api/recurring-invoices/:id", authenticateToken, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const recurringInvoice = await storage.getRecurringInvoice(id);
+
+      if (!recurringInvoice) {
+        return res.status(404).json({ message: "Recurring invoice not found" });
+      }
+
+      const business = await storage.getBusiness(recurringInvoice.businessId);
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      // Le fatture già emesse restano
+      await storage.deleteRecurringInvoice(id);
+      res.json({ message: "Recurring invoice deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete recurring invoice", error });
+    }
+  });
+
+  // Registro delle emissioni del modello
+  app.get("/api/recurring-invoices/:id/runs", authenticateToken, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const recurringInvoice = await storage.getRecurringInvoice(id);
+
+      if (!recurringInvoice) {
+        return res.status(404).json({ message: "Recurring invoice not found" });
+      }
+
+      const business = await storage.getBusiness(recurringInvoice.businessId);
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const runs = await storage.getRecurringInvoiceRuns(id);
+      res.json(runs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get recurring invoice runs", error });
+    }
+  });
+
+  // Salta una singola emissione futura: lo scheduler non la genererà
+  app.post("/api/recurring-invoices/:id/skip", authenticateToken, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const recurringInvoice = await storage.getRecurringInvoice(id);
+
+      if (!recurringInvoice) {
+        return res.status(404).json({ message: "Recurring invoice not found" });
+      }
+
+      const business = await storage.getBusiness(recurringInvoice.businessId);
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const { date } = skipRecurringInvoiceSchema.parse(req.body);
+      if (!getOccurrences(recurringInvoice, date).includes(date)) {
+        return res.status(400).json({ message: "Date is not a scheduled occurrence" });
+      }
+
+      const run = await storage.claimRecurringInvoiceRun({ recurringInvoiceId: id, scheduledDate: date, status: 'SKIPPED' });
+      if (!run) {
+        return res.status(400).json({ message: "Occurrence has already been processed" });
+      }
+
+      log(`template ${id}: skipped ${date}`, 'recurring');
+      res.json(run);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to skip recurring invoice", error });
+    }
+  });
+
+  // Ripete un'emissione fallita o interrotta
+  app.post("/api/recurring-invoices/:id/runs/:runId/retry", authenticateToken, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const recurringInvoice = await storage.getRecurringInvoice(id);
+
+      if (!recurringInvoice) {
+        return res.status(404).json({ message: "Recurring invoice not found" });
+      }
+
+      const business = await storage.getBusiness(recurringInvoice.businessId);
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const runId = parseInt(req.params.runId);
+      const existing = (await storage.getRecurringInvoiceRuns(id)).find(run => run.id === runId);
+      if (!existing) {
+        return res.status(404).json({ message: "Recurring invoice run not found" });
+      }
+      if (!isRetryableRun(existing)) {
+        return res.status(400).json({ message: "Only failed or interrupted runs can be retried" });
+      }
+
+      const run = await storage.reclaimRecurringInvoiceRun(existing);
+      if (!run) {
+        return res.status(409).json({ message: "Run is already being retried" });
+      }
+
+      const invoice = await issueRun(recurringInvoice, business, run, { created: 0, failed: 0 });
+      const updated = (await storage.getRecurringInvoiceRuns(id)).find(item => item.id === runId);
+      if (!invoice) {
+        return res.status(422).json({ message: updated?.message || "Failed to issue recurring invoice", run: updated });
+      }
+
+      res.json({ run: updated, invoice });
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to retry recurring invoice", error });
+    }
+  });
+
+  // Registro acquisti e spese deducibili
+  app.get("/api/businesses/:businessId/expenses", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const expenses = await storage.getExpensesByBusinessId(businessId);
+      res.json(expenses);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get expenses", error });
+    }
+  });
+
+  app.post("/api/businesses/:businessId/expenses", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const expenseData = withCategoryDefaults(insertExpenseSchema.parse({ ...req.body, businessId }));
+      const expense = await storage.createExpense(expenseData);
+      res.json(expense);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to create expense", error });
+    }
+  });
+
+  // Costi deducibili, IRAP e IVA detraibile dell'anno, con il plafond di rappresentanza sui ricavi
+  app.get("/api/businesses/:businessId/expenses/summary", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const year = req.query.year ? parseInt(req.query.year) : new Date().getFullYear();
+      const [expenses, invoices] = await Promise.all([
+        storage.getExpensesByBusinessId(businessId),
+        storage.getInvoicesByBusinessId(businessId),
+      ]);
+      const revenue = getYearRevenue(getRevenueEntries(invoices, getRevenueBasis(business)), year);
+      res.json(getExpenseTotals(expenses, year, { revenue, isProfessional: business.macroCategory === 'PROFESSIONAL' }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get expense summary", error });
+    }
+  });
+
+  // Liquidazioni IVA dell'anno dai documenti: versamenti periodici, acconto di dicembre e saldo annuale
+  app.get("/api/businesses/:businessId/vat-settlement", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      res.json(await getBusinessVatSettlement(business, req.query));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to calculate VAT settlement" });
+    }
+  });
+
+  // Comunicazione delle liquidazioni periodiche del trimestre, validata contro lo schema XSD
+  app.get("/api/businesses/:businessId/vat-settlement/lipe", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const settlement = await getBusinessVatSettlement(business, req.query);
+      const quarter = parseInt(req.query.quarter);
+      const xml = buildLipeXml(settlement, business, quarter);
+      const fileName = getLipeFileName(business.fiscalCode || business.vatNumber!, settlement.year, quarter);
+
+      const validation = await validateLipe(xml, fileName);
+      if (!validation.valid) {
+        return res.status(422).json({ message: "LIPE XML does not match the schema", errors: validation.errors });
+      }
+
+      res.setHeader('Content-Type', 'application/xml');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.send(xml);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to export LIPE", error });
+    }
+  });
 
-      // Generate token
-      const token = jwt.sign({ userId: user.id, email: user.email }, JWT_SECRET);
+  // Riepilogo Excel delle liquidazioni di un trimestre o dell'anno, con i quadri della dichiarazione
+  app.get("/api/businesses/:businessId/vat-settlement/summary", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
 
-      res.json({ user: { id: user.id, email: user.email, name: user.name }, token });
-    } catch (error) {
-      res.status(400).json({ message: "Registration failed", error });
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const settlement = await getBusinessVatSettlement(business, req.query);
+      const quarter = req.query.quarter ? parseInt(req.query.quarter) : undefined;
+      const fileName = quarter
+        ? `Liquidazioni_IVA_${settlement.year}_T${quarter}.xlsx`
+        : `Liquidazioni_IVA_${settlement.year}.xlsx`;
+
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.setHeader('Content-Disposition', `attachment; filename=${fileName}`);
+      res.send(buildVatSummaryWorkbook(settlement, quarter));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to export VAT summary", error });
     }
   });
 
-  app.post("/api/auth/login", async (req, res) => {
+  app.put("/api/expenses/:id", authenticateToken, async (req: any, res) => {
     try {
-      const { email, password } = req.body;
-      
-      const user = await storage.getUserByEmail(email);
-      if (!user) {
-        return res.status(401).json({ message: "Invalid credentials" });
-      }
+      const id = parseInt(req.params.id);
+      const expense = await storage.getExpense(id);
 
-      const validPassword = await bcrypt.compare(password, user.password);
-      if (!validPassword) {
-        return res.status(401).json({ message: "Invalid credentials" });
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
       }
 
-      const token = jwt.sign({ userId: user.id, email: user.email }, JWT_SECRET);
+      const business = await storage.getBusiness(expense.businessId);
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
 
-      res.json({ user: { id: user.id, email: user.email, name: user.name }, token });
+      // Cambiando categoria, le percentuali non indicate tornano quelle della nuova categoria
+      const { id: _id, createdAt, incomeTaxDeductibility, irapDeductibility, vatDeductibility, ...current } = expense;
+      const percentages = req.body.category && req.body.category !== expense.category
+        ? {}
+        : { incomeTaxDeductibility, irapDeductibility, vatDeductibility };
+      const expenseData = withCategoryDefaults(insertExpenseSchema.parse({ ...current, ...percentages, ...req.body, businessId: expense.businessId }));
+      const updated = await storage.updateExpense(id, expenseData);
+      res.json(updated);
     } catch (error) {
-      res.status(400).json({ message: "Login failed", error });
+      res.status(400).json({ message: "Failed to update expense", error });
     }
   });
 
-  app.get("/api/auth/profile", authenticateToken, async (req: any, res) => {
+  app.delete("/api/expenses/:id", authenticateToken, async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.userId);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
+      const id = parseInt(req.params.id);
+      const expense = await storage.getExpense(id);
+
+      if (!expense) {
+        return res.status(404).json({ message: "Expense not found" });
       }
 
-      res.json({ id: user.id, email: user.email, name: user.name });
+      const business = await storage.getBusiness(expense.businessId);
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      await storage.deleteExpense(id);
+      res.json({ message: "Expense deleted successfully" });
     } catch (error) {
-      res.status(500).json({ message: "Failed to get profile", error });
+      res.status(500).json({ message: "Failed to delete expense", error });
     }
   });
 
-  // Business routes
-  app.get("/api/businesses", async (req: any, res) => {
+  // Conti correnti: il saldo dell'attività è la somma dei saldi dei conti
+  app.get("/api/businesses/:businessId/bank-accounts", authenticateToken, async (req: any, res) => {
     try {
-      const businesses = await storage.getBusinessesByUserId(1); // Demo user ID
-      res.json(businesses);
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      res.json(await getBankAccountsWithBalance(businessId));
     } catch (error) {
-      res.status(500).json({ message: "Failed to get businesses", error });
+      res.status(500).json({ message: "Failed to get bank accounts", error });
     }
   });
 
-  app.post("/api/businesses", async (req: any, res) => {
+  app.post("/api/businesses/:businessId/bank-accounts", authenticateToken, async (req: any, res) => {
     try {
-      const businessData = insertBusinessSchema.parse({
-        ...req.body,
-        userId: 1, // Demo user ID
-        currentBalance: req.body.currentBalance?.toString() || "0"
-      });
-      
-      const business = await storage.createBusiness(businessData);
-      res.json(business);
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const account = await storage.createBankAccount(insertBankAccountSchema.parse({ ...req.body, businessId }));
+      await refreshBusinessBalance(businessId);
+      res.json(account);
     } catch (error) {
-      res.status(400).json({ message: "Failed to create business", error });
+      res.status(400).json({ message: "Failed to create bank account", error });
     }
   });
 
-  app.put("/api/businesses/:id", authenticateToken, async (req: any, res) => {
+  app.put("/api/bank-accounts/:id", authenticateToken, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const business = await storage.getBusiness(id);
-      
+      const account = await storage.getBankAccount(id);
+
+      if (!account) {
+        return res.status(404).json({ message: "Bank account not found" });
+      }
+
+      const business = await storage.getBusiness(account.businessId);
       if (!business || business.userId !== req.user.userId) {
         return res.status(404).json({ message: "Business not found" });
       }
 
-      const updated = await storage.updateBusiness(id, req.body);
+      const { id: _id, createdAt, ...current } = account;
+      const updated = await storage.updateBankAccount(id, insertBankAccountSchema.parse({ ...current, ...req.body, businessId: account.businessId }));
+      await refreshBusinessBalance(account.businessId);
       res.json(updated);
     } catch (error) {
-      res.status(400).json({ message: "Failed to update business", error });
+      res.status(400).json({ message: "Failed to update bank account", error });
     }
   });
 
-  app.delete("/api/businesses/:id", authenticateToken, async (req: any, res) => {
+  app.delete("/api/bank-accounts/:id", authenticateToken, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const business = await storage.getBusiness(id);
-      
+      const account = await storage.getBankAccount(id);
+
+      if (!account) {
+        return res.status(404).json({ message: "Bank account not found" });
+      }
+
+      const business = await storage.getBusiness(account.businessId);
       if (!business || business.userId !== req.user.userId) {
         return res.status(404).json({ message: "Business not found" });
       }
 
-      await storage.deleteBusiness(id);
-      res.json({ message: "Business deleted successfully" });
+      await storage.deleteBankAccount(id);
+      await refreshBusinessBalance(account.businessId);
+      res.json({ message: "Bank account deleted successfully" });
     } catch (error) {
-      res.status(400).json({ message: "Failed to delete business", error });
+      res.status(500).json({ message: "Failed to delete bank account", error });
     }
   });
 
-  // Invoice routes
-  app.get("/api/businesses/:businessId/invoices", authenticateToken, async (req: any, res) => {
+  // Import dell'estratto conto (CAMT.053, CBI o CSV/XLSX): il file è nel corpo della richiesta
+  app.post("/api/bank-accounts/:id/import", authenticateToken, express.raw({
+    type: ['application/xml', 'text/xml', 'text/plain', 'text/csv', 'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/octet-stream'],
+    limit: '20mb',
+  }), async (req: any, res) => {
     try {
-      const businessId = parseInt(req.params.businessId);
-      const business = await storage.getBusiness(businessId);
-      
+      const id = parseInt(req.params.id);
+      const account = await storage.getBankAccount(id);
+
+      if (!account) {
+        return res.status(404).json({ message: "Bank account not found" });
+      }
+
+      const business = await storage.getBusiness(account.businessId);
       if (!business || business.userId !== req.user.userId) {
         return res.status(404).json({ message: "Business not found" });
       }
 
-      const invoices = await storage.getInvoicesByBusinessId(businessId);
-      res.json(invoices);
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: "A bank statement file is required" });
+      }
+
+      res.json(await importBankStatement(business, account, req.body));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to import bank statement", error });
+    }
+  });
+
+  app.get("/api/bank-accounts/:id/transactions", authenticateToken, async (req: any, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const account = await storage.getBankAccount(id);
+
+      if (!account) {
+        return res.status(404).json({ message: "Bank account not found" });
+      }
+
+      const business = await storage.getBusiness(account.businessId);
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      res.json(await storage.getBankTransactionsByAccountId(id));
     } catch (error) {
-      res.status(500).json({ message: "Failed to get invoices", error });
+      res.status(500).json({ message: "Failed to get bank transactions", error });
     }
   });
 
-  app.post("/api/businesses/:businessId/invoices", authenticateToken, async (req: any, res) => {
+  // Abbinamenti proposti per i movimenti non riconciliati
+  app.get("/api/businesses/:businessId/bank-reconciliation", authenticateToken, async (req: any, res) => {
     try {
       const businessId = parseInt(req.params.businessId);
       const business = await storage.getBusiness(businessId);
-      
+
       if (!business || business.userId !== req.user.userId) {
         return res.status(404).json({ message: "Business not found" });
       }
 
-      const invoiceData = insertInvoiceSchema.parse({
-        ...req.body,
-        businessId
-      });
-      
-      const invoice = await storage.createInvoice(invoiceData);
-      res.json(invoice);
+      res.json(await getReconciliationSuggestions(businessId));
     } catch (error) {
-      res.status(400).json({ message: "Failed to create invoice", error });
+      res.status(500).json({ message: "Failed to get reconciliation suggestions", error });
     }
   });
 
-  app.put("/api/invoices/:id", authenticateToken, async (req: any, res) => {
+  app.post("/api/bank-transactions/:id/match", authenticateToken, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const invoice = await storage.getInvoice(id);
-      
-      if (!invoice) {
-        return res.status(404).json({ message: "Invoice not found" });
+      const transaction = await storage.getBankTransaction(id);
+
+      if (!transaction) {
+        return res.status(404).json({ message: "Bank transaction not found" });
       }
 
-      const business = await storage.getBusiness(invoice.businessId);
+      const business = await storage.getBusiness(transaction.businessId);
       if (!business || business.userId !== req.user.userId) {
         return res.status(404).json({ message: "Business not found" });
       }
 
-      const updated = await storage.updateInvoice(id, req.body);
-      res.json(updated);
-    } catch (error) {
-      res.status(400).json({ message: "Failed to update invoice", error });
+      res.json(await matchTransaction(transaction, bankTransactionMatchSchema.parse(req.body)));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to match bank transaction", error });
     }
   });
 
-  app.delete("/api/invoices/:id", authenticateToken, async (req: any, res) => {
+  app.delete("/api/bank-transactions/:id/match", authenticateToken, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const invoice = await storage.getInvoice(id);
-      
-      if (!invoice) {
-        return res.status(404).json({ message: "Invoice not found" });
+      const transaction = await storage.getBankTransaction(id);
+
+      if (!transaction) {
+        return res.status(404).json({ message: "Bank transaction not found" });
       }
 
-      const business = await storage.getBusiness(invoice.businessId);
+      const business = await storage.getBusiness(transaction.businessId);
       if (!business || business.userId !== req.user.userId) {
         return res.status(404).json({ message: "Business not found" });
       }
 
-      await storage.deleteInvoice(id);
-      res.json({ message: "Invoice deleted successfully" });
-    } catch (error) {
-      res.status(400).json({ message: "Failed to delete invoice", error });
+      res.json(await unmatchTransaction(transaction));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to unmatch bank transaction", error });
     }
   });
 
   // Tax calculation routes
-  app.post("/api/calculations/tax", async (req: any, res) => {
+  app.post("/api/calculations/tax", optionalAuthentication, async (req: any, res) => {
     try {
       const { businessId, revenue, year, ...taxParams } = req.body;
       
@@ -257,19 +1362,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Calcola usando la libreria
       const calculation = TaxCalculator.calculate(calculationInput);
+
+      // Salvataggio, storico e scadenze solo per il titolare autenticato dell'attività
+      const business = businessId && req.user ? await storage.getBusiness(businessId) : undefined;
+      const ownsBusiness = !!business && business.userId === req.user.userId;
+
+      // Imposta e acconti dell'anno precedente dal calcolo salvato
+      const previousCalculation = year && ownsBusiness
+        ? (await storage.getTaxCalculationsByBusinessId(businessId))
+            .filter(calc => calc.year === year - 1)
+            .sort((a, b) => b.id - a.id)[0]
+        : undefined;
+
+      const fiscalYear = year || calculation.rulesYear;
+      const paymentDeadlines = TaxCalculator.calculatePaymentDeadlines(calculation, fiscalYear, {
+        method: taxParams.accontiMethod,
+        previousYearTax: previousCalculation?.taxAmount,
+        previousYearAccontiPaid: previousCalculation?.accontiAmount ?? undefined,
+        expectedIncome: taxParams.expectedIncome,
+        deferJunePayment: taxParams.deferJunePayment
+      });
       
-      // Salva nel database
-      const savedCalculation = await storage.createTaxCalculation({
-        businessId,
-        year,
-        revenue: calculation.revenue.toString(),
-        taxableIncome: calculation.taxableIncome.toString(),
-        taxRate: calculation.taxRate.toString(),
-        taxAmount: calculation.taxAmount.toString(),
-        inpsAmount: calculation.inpsAmount.toString(),
-        totalDue: calculation.totalDue.toString()
+      // Salva nel database, base degli acconti dell'anno successivo
+      const savedCalculation = ownsBusiness
+        ? await storage.createTaxCalculation({
+            businessId,
+            year,
+            revenue: calculation.revenue.toString(),
+            taxableIncome: calculation.taxableIncome.toString(),
+            taxRate: calculation.taxRate.toString(),
+            taxAmount: calculation.taxAmount.toString(),
+            inpsAmount: calculation.inpsAmount.toString(),
+            totalDue: calculation.totalDue.toString(),
+            accontiAmount: paymentDeadlines.acconti.total
+          })
+        : undefined;
+
+      const juneInput = {
+        acconti: paymentDeadlines.acconti,
+        deferJunePayment: taxParams.deferJunePayment,
+        deferralSurchargeRate: getTaxRules(calculation.rulesYear).forfettario.acconti.deferralSurchargeRate
+      };
+      const installmentPlan = buildInstallmentPlan(forfettarioJunePayment(juneInput), {
+        year: fiscalYear,
+        installments: taxParams.installments || 1,
+        deferred: taxParams.deferJunePayment
       });
 
+      const deadlineSync = ownsBusiness
+        ? await syncDeadlines(businessId, fiscalYear, 'FORFETTARIO', generateForfettarioDeadlines(businessId, {
+            ...juneInput,
+            year: fiscalYear,
+            inpsAmount: calculation.inpsAmount,
+            contributionRegime: calculationInput.contributionRegime,
+            installmentPlan
+          }))
+        : undefined;
+
       // Rispondi con i calcoli
       res.json({
         ...savedCalculation,
@@ -278,13 +1427,206 @@ export async function registerRoutes(app: Express): Promise<Server> {
         taxRate: calculation.taxRate,
         taxAmount: calculation.taxAmount,
         inpsAmount: calculation.inpsAmount,
-        totalDue: calculation.totalDue
+        totalDue: calculation.totalDue,
+        rulesYear: calculation.rulesYear,
+        paymentDeadlines,
+        installmentPlan,
+        deadlineSync
       });
     } catch (error) {
       res.status(400).json({ message: "Failed to calculate taxes", error });
     }
   });
 
+  app.post("/api/calculations/srl", authenticateToken, async (req: any, res) => {
+    try {
+      const { businessId, installments, ...request } = srlCalculationRequestSchema.parse(req.body);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const fiscalYear = request.fiscalYear || DEFAULT_FISCAL_YEAR;
+      const [expenses, invoices, previousCalculations] = await Promise.all([
+        storage.getExpensesByBusinessId(businessId),
+        storage.getInvoicesByBusinessId(businessId),
+        storage.getSRLTaxCalculationsByBusinessId(businessId),
+      ]);
+
+      // Costi e IVA sugli acquisti dal registro delle spese dell'anno, se ci sono spese registrate
+      const expenseTotals = getExpenseTotals(expenses, fiscalYear, { revenue: request.revenue });
+
+      // Liquidazioni IVA dalle fatture emesse e dagli acquisti, se registrati nell'anno
+      const vatSettlement = hasVatDocuments({ invoices, expenses }, fiscalYear)
+        ? getVatSettlement({ invoices, expenses }, {
+          year: fiscalYear,
+          frequency: request.vatRegime,
+          accontoMethod: request.vatAccontoMethod,
+          accontoForecast: request.vatAccontoForecast,
+        })
+        : null;
+
+      // Ricavi in split payment, reverse charge ed esenti dalle fatture dell'anno, salvo importi indicati
+      const input = {
+        ...getVatTreatmentRevenue(invoices, fiscalYear),
+        ...request,
+        currentBalance: request.currentBalance ?? business.currentBalance ?? 0,
+        ...(expenseTotals.count > 0 && {
+          costs: expenseTotals.incomeTaxCosts,
+          irapCosts: expenseTotals.irapCosts,
+          vatOnPurchases: expenseTotals.deductibleVat,
+        }),
+        ...(vatSettlement && { vatOnSales: vatSettlement.annual.vatOnSales, vatDeadlines: vatSettlement.deadlines }),
+      };
+
+      const calculation = calculateSRLTaxes(input);
+
+      const savedCalculation = await storage.createSRLTaxCalculation({
+        businessId,
+        year: calculation.fiscalYear,
+        revenue: input.revenue,
+        taxableIncome: calculation.taxableIncomeAfterLosses,
+        iresAmount: calculation.iresAmount,
+        irapAmount: calculation.irapAmount,
+        vatAmount: calculation.vatAmount,
+        inpsAmount: calculation.inpsTotalAmount,
+        totalDue: calculation.totalDue,
+        input,
+        result: calculation
+      });
+
+      // Saldo dell'anno precedente dall'ultimo calcolo salvato
+      const junePayment = srlJunePayment(
+        calculation,
+        latestResult<SRLTaxCalculationResult>(previousCalculations, calculation.fiscalYear - 1)
+      );
+      const installmentPlan = buildInstallmentPlan(
+        junePayment,
+        { year: calculation.fiscalYear, installments: installments || 1 }
+      );
+
+      const deadlineSync = await syncDeadlines(
+        businessId,
+        calculation.fiscalYear,
+        'SRL',
+        generateSRLDeadlines(businessId, calculation, junePayment, installmentPlan)
+      );
+
+      res.json({ id: savedCalculation.id, businessId, createdAt: savedCalculation.createdAt, ...calculation, expenseTotals, vatSettlement, installmentPlan, deadlineSync });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to calculate SRL taxes", error });
+    }
+  });
+
+  app.post("/api/calculations/individual", authenticateToken, async (req: any, res) => {
+    try {
+      const { businessId, installments, ...request } = individualCalculationRequestSchema.parse(req.body);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const fiscalYear = request.fiscalYear || DEFAULT_FISCAL_YEAR;
+      const [expenses, invoices, previousCalculations] = await Promise.all([
+        storage.getExpensesByBusinessId(businessId),
+        storage.getInvoicesByBusinessId(businessId),
+        storage.getIndividualTaxCalculationsByBusinessId(businessId),
+      ]);
+
+      // Spese documentate e IVA sugli acquisti dal registro delle spese dell'anno, se ci sono spese registrate
+      const expenseTotals = getExpenseTotals(expenses, fiscalYear, {
+        revenue: request.revenue,
+        isProfessional: request.businessType === 'professional',
+      });
+
+      // Liquidazioni IVA dalle fatture emesse e dagli acquisti, se registrati nell'anno
+      const vatSettlement = hasVatDocuments({ invoices, expenses }, fiscalYear)
+        ? getVatSettlement({ invoices, expenses }, {
+          year: fiscalYear,
+          frequency: request.vatRegime === 'MENSILE' ? 'MENSILE' : 'TRIMESTRALE',
+          accontoMethod: request.vatAccontoMethod,
+          accontoForecast: request.vatAccontoForecast,
+        })
+        : null;
+
+      // Ricavi in split payment, reverse charge ed esenti dalle fatture dell'anno, salvo importi indicati
+      const input = {
+        ...getVatTreatmentRevenue(invoices, fiscalYear),
+        ...request,
+        currentBalance: request.currentBalance ?? business.currentBalance ?? 0,
+        ...(expenseTotals.count > 0 && {
+          documentedExpenses: expenseTotals.incomeTaxCosts,
+          vatOnPurchases: expenseTotals.deductibleVat,
+        }),
+        ...(vatSettlement && { vatOnSales: vatSettlement.annual.vatOnSales, vatDeadlines: vatSettlement.deadlines }),
+      };
+
+      // Senza un importo indicato, le ritenute sono quelle operate sulle fatture incassate nell'anno
+      if (input.taxWithholdings === undefined) {
+        input.taxWithholdings = getWithheldTotal(invoices, fiscalYear);
+      }
+
+      const calculation = calculateIndividualTaxes(input);
+
+      const savedCalculation = await storage.createIndividualTaxCalculation({
+        businessId,
+        year: calculation.fiscalYear,
+        revenue: calculation.businessRevenue,
+        taxableIncome: calculation.totalTaxableIncome,
+        irpefAmount: calculation.irpefNetAmount,
+        surchargesAmount: calculation.regionalSurcharge + calculation.municipalSurcharge,
+        contributionsAmount: calculation.totalContributions,
+        vatAmount: calculation.vatAmount,
+        totalDue: calculation.totalDue,
+        input,
+        result: calculation
+      });
+
+      // Saldo dell'anno precedente dall'ultimo calcolo salvato
+      const junePayment = individualJunePayment(
+        calculation,
+        latestResult<IndividualTaxCalculationResult>(previousCalculations, calculation.fiscalYear - 1)
+      );
+      const installmentPlan = buildInstallmentPlan(
+        junePayment,
+        { year: calculation.fiscalYear, installments: installments || 1 }
+      );
+
+      const deadlineSync = await syncDeadlines(
+        businessId,
+        calculation.fiscalYear,
+        'INDIVIDUAL',
+        generateIndividualDeadlines(businessId, calculation, input.contributionType, junePayment, installmentPlan)
+      );
+
+      res.json({ id: savedCalculation.id, businessId, createdAt: savedCalculation.createdAt, ...calculation, expenseTotals, vatSettlement, installmentPlan, deadlineSync });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to calculate individual taxes", error });
+    }
+  });
+
+  // Confronto forfettario / ordinario / SRL sullo stesso profilo
+  app.post("/api/calculations/compare", async (req, res) => {
+    try {
+      const profile = regimeComparisonRequestSchema.parse(req.body);
+      res.json(compareRegimes(profile));
+    } catch (error) {
+      res.status(400).json({ message: "Failed to compare tax regimes", error });
+    }
+  });
+
+  // Verifica requisiti di accesso e permanenza nel regime forfettario
+  app.post("/api/calculations/eligibility", async (req, res) => {
+    try {
+      const input = forfettarioEligibilityRequestSchema.parse(req.body);
+      res.json(checkForfettarioEligibility(input));
+    } catch (error) {
+      res.status(400).json({ message: "Failed to check forfettario eligibility", error });
+    }
+  });
+
   app.get("/api/calculations/history/:businessId", authenticateToken, async (req: any, res) => {
     try {
       const businessId = parseInt(req.params.businessId);
@@ -318,6 +1660,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Modello F24 con le scadenze non pagate alla data indicata
+  app.post("/api/businesses/:businessId/f24", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const { format, fiscalCode, ...options } = f24RequestSchema.parse(req.body);
+      const deadlines = await storage.getPaymentDeadlinesByBusinessId(businessId);
+
+      const model = buildF24Model(deadlines, {
+        ...options,
+        taxpayer: { name: business.businessName, fiscalCode },
+        contributionRegime: business.contributionRegime as any,
+        contributionReduction: business.contributionReduction as any || 'NONE',
+        hasOtherCoverage: business.hasOtherCoverage || false
+      });
+
+      if (format === 'pdf') {
+        const pdf = await renderF24Pdf(model);
+        res.setHeader('Content-Type', 'application/pdf');
+        res.setHeader('Content-Disposition', `attachment; filename=F24_${options.dueDate}.pdf`);
+        return res.send(pdf);
+      }
+
+      res.json(model);
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to generate F24", error });
+    }
+  });
+
+  // Bollo sulle fatture elettroniche per trimestre, con i versamenti F24 (codici 2521-2524)
+  app.get("/api/businesses/:businessId/stamp-duty", authenticateToken, async (req: any, res) => {
+    try {
+      const businessId = parseInt(req.params.businessId);
+      const business = await storage.getBusiness(businessId);
+
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Business not found" });
+      }
+
+      const year = req.query.year ? parseInt(req.query.year) : new Date().getFullYear();
+      const invoices = await storage.getInvoicesByBusinessId(businessId);
+      res.json(calculateStampDutySummary(invoices, year));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get stamp duty summary", error });
+    }
+  });
+
   app.get("/api/deadlines/upcoming", async (req: any, res) => {
     try {
       const deadlines = await storage.getUpcomingDeadlines(1); // Demo user ID
@@ -330,18 +1724,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put("/api/deadlines/:id/pay", authenticateToken, async (req: any, res) => {
     try {
       const id = parseInt(req.params.id);
-      const deadline = await storage.updatePaymentDeadline(id, {
-        isPaid: true,
-        paidDate: new Date().toISOString().split('T')[0]
-      });
-      
-      if (!deadline) {
+      const existing = await storage.getPaymentDeadline(id);
+
+      if (!existing) {
         return res.status(404).json({ message: "Deadline not found" });
       }
 
-      res.json(deadline);
-    } catch (error) {
-      res.status(400).json({ message: "Failed to mark deadline as paid", error });
+      const business = await storage.getBusiness(existing.businessId);
+      if (!business || business.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Deadline not found" });
+      }
+
+      const { paidDate } = payDeadlineSchema.parse(req.body || {});
+      res.json(await payDeadline(existing, paidDate || new Date().toISOString().split('T')[0]));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message || "Failed to mark deadline as paid", error });
     }
   });
 
@@ -537,22 +1934,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Dashboard stats
-  app.get("/api/dashboard/stats", async (req: any, res) => {
+  app.get("/api/dashboard/stats", authenticateToken, async (req: any, res) => {
     try {
-      const businesses = await storage.getBusinessesByUserId(1); // Demo user ID
+      const businesses = await storage.getBusinessesByUserId(req.user.userId);
       const currentYear = new Date().getFullYear();
       
       let totalRevenue = 0;
       let totalTaxesDue = 0;
       let totalBalance = 0;
+      const eligibilityWarnings: any[] = [];
+      let latePaymentCosts = 0;
 
 for (const business of businesses) {
+  // Forfettario per cassa, ordinario e SRL per data di emissione
   const invoices = await storage.getInvoicesByBusinessId(business.id);
-  const yearlyInvoices = invoices.filter(inv => inv.year === currentYear);
-  const businessRevenue = yearlyInvoices.reduce((sum, inv) => sum + parseFloat(inv.amount), 0);
+  const revenueEntries = getRevenueEntries(invoices, getRevenueBasis(business));
+  const businessRevenue = getYearRevenue(revenueEntries, currentYear);
   totalRevenue += businessRevenue;
   totalBalance += parseFloat(business.currentBalance || "0");
 
+  // Superamento delle soglie del forfettario in corso d'anno
+  const previousYearRevenue = getYearRevenue(revenueEntries, currentYear - 1);
+  const eligibility = checkForfettarioEligibility({
+    year: currentYear,
+    currentYearRevenue: businessRevenue,
+    previousYearRevenue
+  });
+
+  // Costo dei ravvedimenti sui versamenti tardivi dell'anno
+  const deadlines = await storage.getPaymentDeadlinesByBusinessId(business.id);
+  latePaymentCosts += deadlines
+    .filter(deadline => deadline.isPaid && deadline.paidDate?.startsWith(currentYear.toString()))
+    .reduce((sum, deadline) => sum + (deadline.lateSanctionAmount || 0) + (deadline.lateInterestAmount || 0), 0);
+
+  if (eligibility.status !== 'ELIGIBLE') {
+    eligibilityWarnings.push({
+      businessId: business.id,
+      businessName: business.businessName,
+      revenue: businessRevenue,
+      status: eligibility.status,
+      lostFromYear: eligibility.lostFromYear,
+      crossedInMonth: eligibility.status === 'EXIT_IMMEDIATE'
+        ? findThresholdCrossingMonth(
+            getMonthlyRevenue(revenueEntries, currentYear),
+            eligibility.limits.revenueExitImmediate
+          )
+        : null,
+      reasons: eligibility.reasons
+    });
+  }
+
   // Calculate taxes using the library
   if (businessRevenue > 0) {
     const calculation = TaxCalculator.calculate({
@@ -577,6 +2008,8 @@ for (const business of businesses) {
         currentRevenue: totalRevenue,
         taxesDue: totalTaxesDue,
         availableBalance: totalBalance,
+        eligibilityWarnings,
+        latePaymentCosts: Math.round(latePaymentCosts * 100) / 100,
         nextDeadline: nextDeadline ? new Date(nextDeadline.dueDate).toLocaleDateString('it-IT', { day: 'numeric', month: 'short' }) : null
       });
     } catch (error) {
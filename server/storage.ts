@@ -1,14 +1,25 @@
 import { 
-  users, businesses, invoices, taxCalculations, paymentDeadlines, leads,
+  users, businesses, customers, withholdingCertificates, invoices, invoiceVersions, invoiceNumberSequences, recurringInvoices, recurringInvoiceRuns, expenses, bankAccounts, bankTransactions, taxCalculations, srlTaxCalculations, individualTaxCalculations, paymentDeadlines, leads,
   type User, type InsertUser,
   type Business, type InsertBusiness,
+  type Customer, type InsertCustomer,
+  type WithholdingCertificate, type InsertWithholdingCertificate,
   type Invoice, type InsertInvoice,
+  type InvoiceVersion, type InsertInvoiceVersion,
+  type InvoiceNumberSequence,
+  type RecurringInvoice, type InsertRecurringInvoice,
+  type RecurringInvoiceRun, type InsertRecurringInvoiceRun,
+  type Expense, type InsertExpense,
+  type BankAccount, type InsertBankAccount,
+  type BankTransaction, type InsertBankTransaction,
   type TaxCalculation, type InsertTaxCalculation,
+  type SRLTaxCalculation, type InsertSRLTaxCalculation,
+  type IndividualTaxCalculation, type InsertIndividualTaxCalculation,
   type PaymentDeadline, type InsertPaymentDeadline,
   type Lead, type InsertLead
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
+import { eq, desc, inArray, and, sql } from "drizzle-orm";
 
 export interface IStorage {
   // Users
@@ -21,24 +32,80 @@ export interface IStorage {
   getBusiness(id: number): Promise<Business | undefined>;
   createBusiness(business: InsertBusiness): Promise<Business>;
   updateBusiness(id: number, business: Partial<Business>): Promise<Business | undefined>;
+  nextSdiProgressive(businessId: number): Promise<number>;
   deleteBusiness(id: number): Promise<boolean>;
 
+  // Customers
+  getCustomersByBusinessId(businessId: number): Promise<Customer[]>;
+  getCustomer(id: number): Promise<Customer | undefined>;
+  createCustomer(customer: InsertCustomer): Promise<Customer>;
+  updateCustomer(id: number, customer: Partial<Customer>): Promise<Customer | undefined>;
+  deleteCustomer(id: number): Promise<boolean>;
+
+  // Withholding Certificates
+  getWithholdingCertificatesByBusinessId(businessId: number): Promise<WithholdingCertificate[]>;
+  getWithholdingCertificate(id: number): Promise<WithholdingCertificate | undefined>;
+  createWithholdingCertificate(certificate: InsertWithholdingCertificate): Promise<WithholdingCertificate>;
+  deleteWithholdingCertificate(id: number): Promise<boolean>;
+
   // Invoices
   getInvoicesByBusinessId(businessId: number): Promise<Invoice[]>;
   getInvoice(id: number): Promise<Invoice | undefined>;
   createInvoice(invoice: InsertInvoice): Promise<Invoice>;
   updateInvoice(id: number, invoice: Partial<Invoice>): Promise<Invoice | undefined>;
   deleteInvoice(id: number): Promise<boolean>;
+  getInvoiceNumberSequence(businessId: number, year: number, series: string): Promise<InvoiceNumberSequence | undefined>;
+  createNumberedInvoice(invoice: InsertInvoice, startAfter: number, formatNumber: (sequenceNumber: number) => string, recurringRunId?: number): Promise<Invoice>;
+  deleteNumberedInvoice(invoice: Invoice): Promise<boolean>;
+  getInvoiceVersions(invoiceIds: number[]): Promise<InvoiceVersion[]>;
+  createInvoiceVersion(version: InsertInvoiceVersion): Promise<InvoiceVersion>;
+
+  // Recurring Invoices
+  getRecurringInvoicesByBusinessId(businessId: number): Promise<RecurringInvoice[]>;
+  getActiveRecurringInvoices(): Promise<RecurringInvoice[]>;
+  getRecurringInvoice(id: number): Promise<RecurringInvoice | undefined>;
+  createRecurringInvoice(recurringInvoice: InsertRecurringInvoice): Promise<RecurringInvoice>;
+  updateRecurringInvoice(id: number, recurringInvoice: Partial<RecurringInvoice>): Promise<RecurringInvoice | undefined>;
+  deleteRecurringInvoice(id: number): Promise<boolean>;
+  getRecurringInvoiceRuns(recurringInvoiceId: number): Promise<RecurringInvoiceRun[]>;
+  claimRecurringInvoiceRun(run: InsertRecurringInvoiceRun): Promise<RecurringInvoiceRun | undefined>;
+  reclaimRecurringInvoiceRun(run: RecurringInvoiceRun): Promise<RecurringInvoiceRun | undefined>;
+  updateRecurringInvoiceRun(id: number, run: Partial<RecurringInvoiceRun>): Promise<RecurringInvoiceRun | undefined>;
+
+  // Expenses
+  getExpensesByBusinessId(businessId: number): Promise<Expense[]>;
+  getExpense(id: number): Promise<Expense | undefined>;
+  createExpense(expense: InsertExpense): Promise<Expense>;
+  updateExpense(id: number, expense: Partial<Expense>): Promise<Expense | undefined>;
+  deleteExpense(id: number): Promise<boolean>;
+
+  // Bank Accounts
+  getBankAccountsByBusinessId(businessId: number): Promise<BankAccount[]>;
+  getBankAccount(id: number): Promise<BankAccount | undefined>;
+  createBankAccount(account: InsertBankAccount): Promise<BankAccount>;
+  updateBankAccount(id: number, account: Partial<BankAccount>): Promise<BankAccount | undefined>;
+  deleteBankAccount(id: number): Promise<boolean>;
+  getBankTransactionsByAccountId(bankAccountId: number): Promise<BankTransaction[]>;
+  getBankTransactionsByBusinessId(businessId: number): Promise<BankTransaction[]>;
+  getBankTransaction(id: number): Promise<BankTransaction | undefined>;
+  createBankTransactions(transactions: InsertBankTransaction[]): Promise<BankTransaction[]>;
+  updateBankTransaction(id: number, transaction: Partial<BankTransaction>): Promise<BankTransaction | undefined>;
 
   // Tax Calculations
   getTaxCalculationsByBusinessId(businessId: number): Promise<TaxCalculation[]>;
   createTaxCalculation(calculation: InsertTaxCalculation): Promise<TaxCalculation>;
+  getSRLTaxCalculationsByBusinessId(businessId: number): Promise<SRLTaxCalculation[]>;
+  createSRLTaxCalculation(calculation: InsertSRLTaxCalculation): Promise<SRLTaxCalculation>;
+  getIndividualTaxCalculationsByBusinessId(businessId: number): Promise<IndividualTaxCalculation[]>;
+  createIndividualTaxCalculation(calculation: InsertIndividualTaxCalculation): Promise<IndividualTaxCalculation>;
 
   // Payment Deadlines
   getPaymentDeadlinesByBusinessId(businessId: number): Promise<PaymentDeadline[]>;
+  getPaymentDeadline(id: number): Promise<PaymentDeadline | undefined>;
   getUpcomingDeadlines(userId: number): Promise<PaymentDeadline[]>;
   createPaymentDeadline(deadline: InsertPaymentDeadline): Promise<PaymentDeadline>;
   updatePaymentDeadline(id: number, deadline: Partial<PaymentDeadline>): Promise<PaymentDeadline | undefined>;
+  deletePaymentDeadline(id: number): Promise<boolean>;
 
   // Leads
   getAllLeads(): Promise<Lead[]>;
@@ -93,11 +160,76 @@ export class DatabaseStorage implements IStorage {
     return business || undefined;
   }
 
+  // Ogni esportazione FatturaPA riceve un nuovo progressivo, anche se riguarda una fattura già esportata
+  async nextSdiProgressive(businessId: number): Promise<number> {
+    const [business] = await db
+      .update(businesses)
+      .set({ lastSdiProgressive: sql`${businesses.lastSdiProgressive} + 1` })
+      .where(eq(businesses.id, businessId))
+      .returning({ lastSdiProgressive: businesses.lastSdiProgressive });
+    return business.lastSdiProgressive;
+  }
+
   async deleteBusiness(id: number): Promise<boolean> {
     const result = await db.delete(businesses).where(eq(businesses.id, id));
     return result.rowCount !== null && result.rowCount > 0;
   }
 
+  // Customers
+  async getCustomersByBusinessId(businessId: number): Promise<Customer[]> {
+    return await db.select().from(customers).where(eq(customers.businessId, businessId));
+  }
+
+  async getCustomer(id: number): Promise<Customer | undefined> {
+    const [customer] = await db.select().from(customers).where(eq(customers.id, id));
+    return customer || undefined;
+  }
+
+  async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
+    const [customer] = await db
+      .insert(customers)
+      .values(insertCustomer)
+      .returning();
+    return customer;
+  }
+
+  async updateCustomer(id: number, updates: Partial<Customer>): Promise<Customer | undefined> {
+    const [customer] = await db
+      .update(customers)
+      .set(updates)
+      .where(eq(customers.id, id))
+      .returning();
+    return customer || undefined;
+  }
+
+  async deleteCustomer(id: number): Promise<boolean> {
+    const result = await db.delete(customers).where(eq(customers.id, id));
+    return result.changes > 0;
+  }
+
+  // Withholding Certificates
+  async getWithholdingCertificatesByBusinessId(businessId: number): Promise<WithholdingCertificate[]> {
+    return await db.select().from(withholdingCertificates).where(eq(withholdingCertificates.businessId, businessId));
+  }
+
+  async getWithholdingCertificate(id: number): Promise<WithholdingCertificate | undefined> {
+    const [certificate] = await db.select().from(withholdingCertificates).where(eq(withholdingCertificates.id, id));
+    return certificate || undefined;
+  }
+
+  async createWithholdingCertificate(insertCertificate: InsertWithholdingCertificate): Promise<WithholdingCertificate> {
+    const [certificate] = await db
+      .insert(withholdingCertificates)
+      .values(insertCertificate)
+      .returning();
+    return certificate;
+  }
+
+  async deleteWithholdingCertificate(id: number): Promise<boolean> {
+    const result = await db.delete(withholdingCertificates).where(eq(withholdingCertificates.id, id));
+    return result.changes > 0;
+  }
+
   // Invoices
   async getInvoicesByBusinessId(businessId: number): Promise<Invoice[]> {
     return await db.select().from(invoices).where(eq(invoices.businessId, businessId));
@@ -130,6 +262,296 @@ export class DatabaseStorage implements IStorage {
     return result.rowCount !== null && result.rowCount > 0;
   }
 
+  // Invoice Numbering
+  async getInvoiceNumberSequence(businessId: number, year: number, series: string): Promise<InvoiceNumberSequence | undefined> {
+    const [sequence] = await db
+      .select()
+      .from(invoiceNumberSequences)
+      .where(and(
+        eq(invoiceNumberSequences.businessId, businessId),
+        eq(invoiceNumberSequences.year, year),
+        eq(invoiceNumberSequences.series, series)
+      ));
+    return sequence || undefined;
+  }
+
+  // Progressivo e fattura nella stessa transazione: se l'inserimento fallisce il numero non viene consumato.
+  // L'emissione ricorrente indicata risulta creata solo insieme alla fattura.
+  async createNumberedInvoice(
+    insertInvoice: InsertInvoice,
+    startAfter: number,
+    formatNumber: (sequenceNumber: number) => string,
+    recurringRunId?: number
+  ): Promise<Invoice> {
+    const series = insertInvoice.series || '';
+    return db.transaction((tx) => {
+      const sequence = tx
+        .select()
+        .from(invoiceNumberSequences)
+        .where(and(
+          eq(invoiceNumberSequences.businessId, insertInvoice.businessId),
+          eq(invoiceNumberSequences.year, insertInvoice.year),
+          eq(invoiceNumberSequences.series, series)
+        ))
+        .get();
+      const sequenceNumber = Math.max(sequence?.lastNumber ?? 0, startAfter) + 1;
+
+      if (sequence) {
+        tx.update(invoiceNumberSequences).set({ lastNumber: sequenceNumber }).where(eq(invoiceNumberSequences.id, sequence.id)).run();
+      } else {
+        tx.insert(invoiceNumberSequences).values({
+          businessId: insertInvoice.businessId,
+          year: insertInvoice.year,
+          series,
+          lastNumber: sequenceNumber,
+        }).run();
+      }
+
+      const invoice = tx
+        .insert(invoices)
+        .values({ ...insertInvoice, series: series || null, sequenceNumber, number: formatNumber(sequenceNumber) })
+        .returning()
+        .get();
+
+      if (recurringRunId !== undefined) {
+        tx.update(recurringInvoiceRuns)
+          .set({ status: 'CREATED', invoiceId: invoice.id, message: null })
+          .where(eq(recurringInvoiceRuns.id, recurringRunId))
+          .run();
+      }
+
+      return invoice;
+    }, { behavior: 'immediate' });
+  }
+
+  // Solo l'ultima fattura della numerazione si può eliminare, restituendone il progressivo
+  async deleteNumberedInvoice(invoice: Invoice): Promise<boolean> {
+    return db.transaction((tx) => {
+      const sequence = tx
+        .select()
+        .from(invoiceNumberSequences)
+        .where(and(
+          eq(invoiceNumberSequences.businessId, invoice.businessId),
+          eq(invoiceNumberSequences.year, invoice.year),
+          eq(invoiceNumberSequences.series, invoice.series || '')
+        ))
+        .get();
+
+      if (sequence) {
+        if (sequence.lastNumber !== invoice.sequenceNumber) {
+          throw new Error("Only the last invoice of a numbering sequence can be deleted; issue a credit note instead");
+        }
+        tx.update(invoiceNumberSequences).set({ lastNumber: sequence.lastNumber - 1 }).where(eq(invoiceNumberSequences.id, sequence.id)).run();
+      }
+
+      return tx.delete(invoices).where(eq(invoices.id, invoice.id)).run().changes > 0;
+    }, { behavior: 'immediate' });
+  }
+
+  async getInvoiceVersions(invoiceIds: number[]): Promise<InvoiceVersion[]> {
+    if (invoiceIds.length === 0) {
+      return [];
+    }
+    return await db
+      .select()
+      .from(invoiceVersions)
+      .where(inArray(invoiceVersions.invoiceId, invoiceIds))
+      .orderBy(invoiceVersions.invoiceId, invoiceVersions.version);
+  }
+
+  async createInvoiceVersion(insertVersion: InsertInvoiceVersion): Promise<InvoiceVersion> {
+    const [version] = await db
+      .insert(invoiceVersions)
+      .values(insertVersion)
+      .returning();
+    return version;
+  }
+
+  // Recurring Invoices
+  async getRecurringInvoicesByBusinessId(businessId: number): Promise<RecurringInvoice[]> {
+    return await db.select().from(recurringInvoices).where(eq(recurringInvoices.businessId, businessId));
+  }
+
+  async getActiveRecurringInvoices(): Promise<RecurringInvoice[]> {
+    return await db.select().from(recurringInvoices).where(eq(recurringInvoices.isActive, true));
+  }
+
+  async getRecurringInvoice(id: number): Promise<RecurringInvoice | undefined> {
+    const [recurringInvoice] = await db.select().from(recurringInvoices).where(eq(recurringInvoices.id, id));
+    return recurringInvoice || undefined;
+  }
+
+  async createRecurringInvoice(insertRecurringInvoice: InsertRecurringInvoice): Promise<RecurringInvoice> {
+    const [recurringInvoice] = await db
+      .insert(recurringInvoices)
+      .values(insertRecurringInvoice)
+      .returning();
+    return recurringInvoice;
+  }
+
+  async updateRecurringInvoice(id: number, updates: Partial<RecurringInvoice>): Promise<RecurringInvoice | undefined> {
+    const [recurringInvoice] = await db
+      .update(recurringInvoices)
+      .set(updates)
+      .where(eq(recurringInvoices.id, id))
+      .returning();
+    return recurringInvoice || undefined;
+  }
+
+  async deleteRecurringInvoice(id: number): Promise<boolean> {
+    await db.delete(recurringInvoiceRuns).where(eq(recurringInvoiceRuns.recurringInvoiceId, id));
+    const result = await db.delete(recurringInvoices).where(eq(recurringInvoices.id, id));
+    return result.changes > 0;
+  }
+
+  async getRecurringInvoiceRuns(recurringInvoiceId: number): Promise<RecurringInvoiceRun[]> {
+    return await db
+      .select()
+      .from(recurringInvoiceRuns)
+      .where(eq(recurringInvoiceRuns.recurringInvoiceId, recurringInvoiceId))
+      .orderBy(desc(recurringInvoiceRuns.scheduledDate));
+  }
+
+  // Registra l'emissione solo se non esiste già per la stessa data (indice univoco)
+  async claimRecurringInvoiceRun(insertRun: InsertRecurringInvoiceRun): Promise<RecurringInvoiceRun | undefined> {
+    const [run] = await db
+      .insert(recurringInvoiceRuns)
+      .values(insertRun)
+      .onConflictDoNothing()
+      .returning();
+    return run || undefined;
+  }
+
+  // Riprende un'emissione fallita o interrotta solo se nessun'altra esecuzione l'ha già ripresa
+  async reclaimRecurringInvoiceRun(run: RecurringInvoiceRun): Promise<RecurringInvoiceRun | undefined> {
+    const [reclaimed] = await db
+      .update(recurringInvoiceRuns)
+      .set({ status: 'PENDING', message: null, createdAt: new Date() })
+      .where(and(
+        eq(recurringInvoiceRuns.id, run.id),
+        eq(recurringInvoiceRuns.status, run.status),
+        eq(recurringInvoiceRuns.createdAt, run.createdAt)
+      ))
+      .returning();
+    return reclaimed || undefined;
+  }
+
+  async updateRecurringInvoiceRun(id: number, updates: Partial<RecurringInvoiceRun>): Promise<RecurringInvoiceRun | undefined> {
+    const [run] = await db
+      .update(recurringInvoiceRuns)
+      .set(updates)
+      .where(eq(recurringInvoiceRuns.id, id))
+      .returning();
+    return run || undefined;
+  }
+
+  // Expenses
+  async getExpensesByBusinessId(businessId: number): Promise<Expense[]> {
+    return await db.select().from(expenses).where(eq(expenses.businessId, businessId)).orderBy(desc(expenses.date));
+  }
+
+  async getExpense(id: number): Promise<Expense | undefined> {
+    const [expense] = await db.select().from(expenses).where(eq(expenses.id, id));
+    return expense || undefined;
+  }
+
+  async createExpense(insertExpense: InsertExpense): Promise<Expense> {
+    const [expense] = await db
+      .insert(expenses)
+      .values(insertExpense)
+      .returning();
+    return expense;
+  }
+
+  async updateExpense(id: number, updates: Partial<Expense>): Promise<Expense | undefined> {
+    const [expense] = await db
+      .update(expenses)
+      .set(updates)
+      .where(eq(expenses.id, id))
+      .returning();
+    return expense || undefined;
+  }
+
+  async deleteExpense(id: number): Promise<boolean> {
+    const result = await db.delete(expenses).where(eq(expenses.id, id));
+    return result.changes > 0;
+  }
+
+  // Bank Accounts
+  async getBankAccountsByBusinessId(businessId: number): Promise<BankAccount[]> {
+    return await db.select().from(bankAccounts).where(eq(bankAccounts.businessId, businessId));
+  }
+
+  async getBankAccount(id: number): Promise<BankAccount | undefined> {
+    const [account] = await db.select().from(bankAccounts).where(eq(bankAccounts.id, id));
+    return account || undefined;
+  }
+
+  async createBankAccount(insertAccount: InsertBankAccount): Promise<BankAccount> {
+    const [account] = await db
+      .insert(bankAccounts)
+      .values(insertAccount)
+      .returning();
+    return account;
+  }
+
+  async updateBankAccount(id: number, updates: Partial<BankAccount>): Promise<BankAccount | undefined> {
+    const [account] = await db
+      .update(bankAccounts)
+      .set(updates)
+      .where(eq(bankAccounts.id, id))
+      .returning();
+    return account || undefined;
+  }
+
+  async deleteBankAccount(id: number): Promise<boolean> {
+    await db.delete(bankTransactions).where(eq(bankTransactions.bankAccountId, id));
+    const result = await db.delete(bankAccounts).where(eq(bankAccounts.id, id));
+    return result.changes > 0;
+  }
+
+  async getBankTransactionsByAccountId(bankAccountId: number): Promise<BankTransaction[]> {
+    return await db
+      .select()
+      .from(bankTransactions)
+      .where(eq(bankTransactions.bankAccountId, bankAccountId))
+      .orderBy(desc(bankTransactions.bookingDate));
+  }
+
+  async getBankTransactionsByBusinessId(businessId: number): Promise<BankTransaction[]> {
+    return await db
+      .select()
+      .from(bankTransactions)
+      .where(eq(bankTransactions.businessId, businessId))
+      .orderBy(desc(bankTransactions.bookingDate));
+  }
+
+  async getBankTransaction(id: number): Promise<BankTransaction | undefined> {
+    const [transaction] = await db.select().from(bankTransactions).where(eq(bankTransactions.id, id));
+    return transaction || undefined;
+  }
+
+  // I movimenti già importati nel conto (stessa chiave di import) vengono ignorati
+  async createBankTransactions(insertTransactions: InsertBankTransaction[]): Promise<BankTransaction[]> {
+    if (insertTransactions.length === 0) {
+      return [];
+    }
+    return await db
+      .insert(bankTransactions)
+      .values(insertTransactions)
+      .onConflictDoNothing()
+      .returning();
+  }
+
+  async updateBankTransaction(id: number, updates: Partial<BankTransaction>): Promise<BankTransaction | undefined> {
+    const [transaction] = await db
+      .update(bankTransactions)
+      .set(updates)
+      .where(eq(bankTransactions.id, id))
+      .returning();
+    return transaction || undefined;
+  }
+
   // Tax Calculations
   async getTaxCalculationsByBusinessId(businessId: number): Promise<TaxCalculation[]> {
     return await db.select().from(taxCalculations).where(eq(taxCalculations.businessId, businessId));
@@ -143,11 +565,40 @@ export class DatabaseStorage implements IStorage {
     return calculation;
   }
 
+  async getSRLTaxCalculationsByBusinessId(businessId: number): Promise<SRLTaxCalculation[]> {
+    return await db.select().from(srlTaxCalculations).where(eq(srlTaxCalculations.businessId, businessId));
+  }
+
+  async createSRLTaxCalculation(insertCalculation: InsertSRLTaxCalculation): Promise<SRLTaxCalculation> {
+    const [calculation] = await db
+      .insert(srlTaxCalculations)
+      .values(insertCalculation)
+      .returning();
+    return calculation;
+  }
+
+  async getIndividualTaxCalculationsByBusinessId(businessId: number): Promise<IndividualTaxCalculation[]> {
+    return await db.select().from(individualTaxCalculations).where(eq(individualTaxCalculations.businessId, businessId));
+  }
+
+  async createIndividualTaxCalculation(insertCalculation: InsertIndividualTaxCalculation): Promise<IndividualTaxCalculation> {
+    const [calculation] = await db
+      .insert(individualTaxCalculations)
+      .values(insertCalculation)
+      .returning();
+    return calculation;
+  }
+
   // Payment Deadlines
   async getPaymentDeadlinesByBusinessId(businessId: number): Promise<PaymentDeadline[]> {
     return await db.select().from(paymentDeadlines).where(eq(paymentDeadlines.businessId, businessId));
   }
 
+  async getPaymentDeadline(id: number): Promise<PaymentDeadline | undefined> {
+    const [deadline] = await db.select().from(paymentDeadlines).where(eq(paymentDeadlines.id, id));
+    return deadline || undefined;
+  }
+
   async getUpcomingDeadlines(userId: number): Promise<PaymentDeadline[]> {
     const userBusinesses = await this.getBusinessesByUserId(userId);
     const businessIds = userBusinesses.map(b => b.id);
@@ -176,6 +627,11 @@ export class DatabaseStorage implements IStorage {
     return deadline || undefined;
   }
 
+  async deletePaymentDeadline(id: number): Promise<boolean> {
+    const result = await db.delete(paymentDeadlines).where(eq(paymentDeadlines.id, id));
+    return result.changes > 0;
+  }
+
   async getRecentActivity(userId: number): Promise<any[]> {
     const activities = [];
 
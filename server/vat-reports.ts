@@ -0,0 +1,84 @@
+import * as XLSX from 'xlsx';
+import { storage } from "./storage";
+import type { Business } from "@shared/schema";
+import { getVatSettlement, VAT_ACCONTO_METHODS, type VatAccontoMethod, type VatSettlementResult } from '@shared/lib/vat-settlement';
+import { getLipeDueDate, getLipeModules, getVatReturnFrames } from '@shared/lib/lipe';
+
+/**
+ * Liquidazioni dell'anno dai documenti dell'attività, con periodicità e metodo dell'acconto indicati nella query
+ */
+export async function getBusinessVatSettlement(business: Business, query: any): Promise<VatSettlementResult> {
+  const accontoMethod = (query.accontoMethod || 'HISTORICAL') as VatAccontoMethod;
+  if (!VAT_ACCONTO_METHODS.includes(accontoMethod)) {
+    throw new Error("Invalid acconto method");
+  }
+
+  const [expenses, invoices] = await Promise.all([
+    storage.getExpensesByBusinessId(business.id),
+    storage.getInvoicesByBusinessId(business.id),
+  ]);
+  return getVatSettlement({ invoices, expenses }, {
+    year: query.year ? parseInt(query.year) : new Date().getFullYear(),
+    frequency: query.frequency === 'MENSILE' ? 'MENSILE' : 'TRIMESTRALE',
+    accontoMethod,
+    accontoForecast: query.accontoForecast ? parseFloat(query.accontoForecast) : undefined,
+    openingCredit: query.openingCredit ? parseFloat(query.openingCredit) : undefined,
+  });
+}
+
+const PERIOD_HEADER = [
+  'Periodo', 'Operazioni attive (VP2)', 'Operazioni passive (VP3)', 'IVA esigibile (VP4)', 'IVA detratta (VP5)',
+  'IVA dovuta o a credito (VP6)', 'Debito precedente (VP7)', 'Credito periodo precedente (VP8)',
+  'Credito anno precedente (VP9)', 'Interessi (VP12)', 'Acconto (VP13)', 'Da versare o a credito (VP14)',
+  'Versamento', 'Scadenza versamento', 'Scadenza comunicazione',
+];
+
+/**
+ * Riepilogo delle liquidazioni in Excel: i periodi di un trimestre o, senza trimestre,
+ * tutti i periodi dell'anno con i quadri della dichiarazione annuale
+ */
+export function buildVatSummaryWorkbook(settlement: VatSettlementResult, quarter?: number): Buffer {
+  const quarters = quarter ? [quarter] : [1, 2, 3, 4];
+  const rows = quarters.flatMap(current => getLipeModules(settlement, current).map(module => {
+    const period = settlement.periods.find(item => item.label === module.label)!;
+    return [
+      module.label, module.salesAmount, module.purchasesAmount, module.vatOnSales, module.vatOnPurchases,
+      module.vatBalance, module.previousDebit, module.previousPeriodCredit, module.previousYearCredit,
+      module.interest, module.acconto, module.amountDue,
+      period.amountDue, period.dueDate || '', getLipeDueDate(settlement.year, current),
+    ];
+  }));
+
+  const wb = XLSX.utils.book_new();
+  const periods = XLSX.utils.aoa_to_sheet([PERIOD_HEADER, ...rows]);
+  periods['!cols'] = PERIOD_HEADER.map((_, index) => ({ wch: index === 0 ? 22 : 18 }));
+  XLSX.utils.book_append_sheet(wb, periods, 'Liquidazioni');
+
+  if (!quarter) {
+    const { ve, vf, vl } = getVatReturnFrames(settlement);
+    const frames = XLSX.utils.aoa_to_sheet([
+      ['=== QUADRO VE - OPERAZIONI ATTIVE ==='],
+      ['Imponibile:', ve.taxableAmount],
+      ['Imposta:', ve.vatAmount],
+      [''],
+      ['=== QUADRO VF - OPERAZIONI PASSIVE ==='],
+      ['Imponibile:', vf.taxableAmount],
+      ['IVA ammessa in detrazione:', vf.deductibleVat],
+      [''],
+      ['=== QUADRO VL - LIQUIDAZIONE ANNUALE ==='],
+      ['IVA a debito:', vl.vatDebit],
+      ['IVA a credito:', vl.vatCredit],
+      ["Credito dell'anno precedente:", vl.previousYearCredit],
+      ['Versamenti periodici:', vl.periodicPayments],
+      ['Acconto:', vl.acconto],
+      ['Interessi trimestrali:', vl.interest],
+      ['IVA da versare:', vl.amountDue],
+      ['IVA a credito da riportare:', vl.credit],
+      ['Scadenza saldo:', settlement.annual.dueDate],
+    ]);
+    frames['!cols'] = [{ wch: 35 }, { wch: 20 }];
+    XLSX.utils.book_append_sheet(wb, frames, 'Dichiarazione IVA');
+  }
+
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' });
+}
@@ -0,0 +1,177 @@
+// shared/lib/bank-reconciliation.ts
+// Riconciliazione dei movimenti bancari: accrediti con le fatture da incassare, addebiti con le scadenze F24
+
+import type { BankTransaction, PaymentDeadline } from '../schema';
+import { normalizeHeader } from './invoice-spreadsheet';
+
+export type MatchConfidence = 'HIGH' | 'MEDIUM';
+
+export type ReconciliationTransaction = Pick<BankTransaction, 'id' | 'bookingDate' | 'amount' | 'description' | 'counterparty' | 'reference'>;
+
+export interface ReconciliationInvoice {
+  id: number;
+  number: string;
+  date: string; // YYYY-MM-DD, emissione
+  customerName?: string;
+  outstanding: number; // Ancora da incassare
+}
+
+export type ReconciliationDeadline = Pick<PaymentDeadline, 'id' | 'dueDate' | 'amount' | 'paymentType'>;
+
+export interface ReconciliationMatch {
+  transactionId: number;
+  confidence: MatchConfidence;
+  invoiceId?: number;
+  paymentDeadlineIds?: number[];
+  reasons: string[];
+}
+
+// Il versamento F24 è accettato da due settimane prima a un mese dopo la scadenza
+const DEADLINE_DAYS_BEFORE = 15;
+const DEADLINE_DAYS_AFTER = 30;
+
+const F24_KEYWORDS = ['f24', 'i24', 'delega', 'tributi', 'agenzia entrate', 'agenzia delle entrate'];
+
+// Parole troppo comuni nelle ragioni sociali per identificare il cliente
+const LEGAL_FORMS = ['srl', 'srls', 'spa', 'sas', 'snc', 'sapa', 'societa', 'studio', 'ditta'];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const sameAmount = (a: number, b: number) => Math.abs(round(a) - round(b)) < 0.01;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / 86400000);
+
+const transactionText = (transaction: ReconciliationTransaction) =>
+  ` ${normalizeHeader([transaction.description, transaction.counterparty, transaction.reference].filter(Boolean).join(' '))} `;
+
+// Numero della fattura come parola a sé nella causale, es. "fatt. 12/2024" o "FT 2024-0012"
+function mentionsInvoiceNumber(text: string, number: string): boolean {
+  const normalized = normalizeHeader(number);
+  if (normalized === '') {
+    return false;
+  }
+  if (text.includes(` ${normalized} `)) {
+    return true;
+  }
+  // Numeri puramente progressivi: confronto senza zeri iniziali
+  const progressive = normalized.match(/^0*(\d+)$/);
+  return !!progressive && new RegExp(` 0*${progressive[1]} `).test(text);
+}
+
+function mentionsCustomer(text: string, customerName?: string): boolean {
+  const words = normalizeHeader(customerName || '').split(' ')
+    .filter(word => word.length >= 4 && !LEGAL_FORMS.includes(word));
+  return words.length > 0 && words.every(word => text.includes(` ${word} `));
+}
+
+function matchInvoice(
+  transaction: ReconciliationTransaction,
+  invoices: ReconciliationInvoice[]
+): ReconciliationMatch | null {
+  const text = transactionText(transaction);
+  const candidates = invoices
+    .filter(invoice => invoice.outstanding > 0 && invoice.date <= transaction.bookingDate)
+    .map(invoice => {
+      const amount = sameAmount(transaction.amount, invoice.outstanding);
+      const number = mentionsInvoiceNumber(text, invoice.number);
+      const customer = mentionsCustomer(text, invoice.customerName);
+      // Un incasso parziale è accettato solo se la causale cita la fattura
+      const admissible = amount || (number && transaction.amount < invoice.outstanding);
+      const reasons = [
+        amount ? 'importo uguale al residuo da incassare' : '',
+        number ? `causale con il numero ${invoice.number}` : '',
+        customer ? 'ordinante uguale al cliente' : '',
+      ].filter(Boolean);
+      return { invoice, admissible, score: (amount ? 2 : 0) + (number ? 2 : 0) + (customer ? 1 : 0), reasons };
+    })
+    .filter(candidate => candidate.admissible)
+    .sort((a, b) => b.score - a.score || a.invoice.date.localeCompare(b.invoice.date));
+
+  const [best, second] = candidates;
+  // A parità di punteggio la scelta sarebbe arbitraria
+  if (!best || (second && second.score === best.score)) {
+    return null;
+  }
+  return {
+    transactionId: transaction.id,
+    confidence: best.score >= 3 ? 'HIGH' : 'MEDIUM',
+    invoiceId: best.invoice.id,
+    reasons: best.reasons,
+  };
+}
+
+function matchDeadlines(
+  transaction: ReconciliationTransaction,
+  deadlines: ReconciliationDeadline[]
+): ReconciliationMatch | null {
+  const amount = -transaction.amount;
+  const text = transactionText(transaction);
+  const isF24 = F24_KEYWORDS.some(keyword => text.includes(` ${keyword} `));
+
+  const inWindow = deadlines.filter(deadline => {
+    const days = daysBetween(deadline.dueDate, transaction.bookingDate);
+    return days >= -DEADLINE_DAYS_BEFORE && days <= DEADLINE_DAYS_AFTER;
+  });
+
+  // Le scadenze della stessa data si versano con un unico F24; in alternativa una scadenza singola
+  const byDueDate = new Map<string, ReconciliationDeadline[]>();
+  for (const deadline of inWindow) {
+    byDueDate.set(deadline.dueDate, [...(byDueDate.get(deadline.dueDate) || []), deadline]);
+  }
+  const groups = [
+    ...Array.from(byDueDate.values()),
+    ...inWindow.map(deadline => [deadline]),
+  ].filter(group => sameAmount(amount, group.reduce((sum, deadline) => sum + deadline.amount, 0)));
+
+  if (groups.length === 0) {
+    return null;
+  }
+
+  // La scadenza più vicina alla data dell'addebito
+  const distance = (group: ReconciliationDeadline[]) => Math.abs(daysBetween(group[0].dueDate, transaction.bookingDate));
+  const [group] = groups.sort((a, b) => distance(a) - distance(b) || b.length - a.length);
+  return {
+    transactionId: transaction.id,
+    confidence: isF24 ? 'HIGH' : 'MEDIUM',
+    paymentDeadlineIds: group.map(deadline => deadline.id),
+    reasons: [
+      group.length > 1 ? `totale di ${group.length} scadenze del ${group[0].dueDate}` : `importo della scadenza ${group[0].paymentType}`,
+      ...(isF24 ? ['causale di versamento F24'] : []),
+    ],
+  };
+}
+
+/**
+ * Abbinamenti proposti per i movimenti non ancora riconciliati, nell'ordine delle date contabili.
+ * Ogni fattura e ogni scadenza è proposta al più per un movimento.
+ */
+export function suggestMatches(
+  transactions: ReconciliationTransaction[],
+  invoices: ReconciliationInvoice[],
+  deadlines: ReconciliationDeadline[]
+): ReconciliationMatch[] {
+  const openInvoices = invoices.map(invoice => ({ ...invoice }));
+  let openDeadlines = [...deadlines];
+  const matches: ReconciliationMatch[] = [];
+
+  const sorted = [...transactions].sort((a, b) => a.bookingDate.localeCompare(b.bookingDate) || a.id - b.id);
+  for (const transaction of sorted) {
+    if (transaction.amount > 0) {
+      const match = matchInvoice(transaction, openInvoices);
+      if (match) {
+        const invoice = openInvoices.find(item => item.id === match.invoiceId)!;
+        invoice.outstanding = round(Math.max(0, invoice.outstanding - transaction.amount));
+        matches.push(match);
+      }
+    } else if (transaction.amount < 0) {
+      const match = matchDeadlines(transaction, openDeadlines);
+      if (match) {
+        openDeadlines = openDeadlines.filter(deadline => !match.paymentDeadlineIds!.includes(deadline.id));
+        matches.push(match);
+      }
+    }
+  }
+
+  return matches;
+}
@@ -0,0 +1,351 @@
+// shared/lib/bank-statements.ts
+// Lettura degli estratti conto: CAMT.053 (ISO 20022), rendicontazione CBI "RH" a record fissi e CSV delle banche
+
+import { XMLParser } from 'fast-xml-parser';
+import {
+  normalizeHeader,
+  parseSpreadsheetAmount,
+  parseSpreadsheetDate,
+  type SpreadsheetCell,
+} from './invoice-spreadsheet';
+
+export type BankStatementFormat = 'CAMT053' | 'CBI' | 'CSV';
+
+export interface BankStatementTransaction {
+  bookingDate: string; // YYYY-MM-DD
+  valueDate?: string;
+  amount: number; // Positivo per gli accrediti, negativo per gli addebiti
+  description?: string;
+  counterparty?: string;
+  reference?: string;
+}
+
+export interface BankStatement {
+  format: BankStatementFormat;
+  iban?: string;
+  openingBalance?: number; // Saldo contabile prima del primo movimento
+  openingDate?: string;
+  closingBalance?: number;
+  closingDate?: string;
+  transactions: BankStatementTransaction[];
+  errors: string[]; // Righe o movimenti scartati
+}
+
+export type BankCsvField = 'bookingDate' | 'valueDate' | 'amount' | 'credit' | 'debit' | 'description' | 'counterparty';
+
+export type BankCsvColumnMapping = Partial<Record<BankCsvField, string>>;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const normalizeIban = (iban: string) => iban.replace(/\s+/g, '').toUpperCase();
+
+/**
+ * Formato del file dal contenuto: XML camt.053, flusso CBI con record di testa RH, altrimenti CSV
+ */
+export function detectStatementFormat(text: string): BankStatementFormat {
+  const content = text.replace(/^\uFEFF/, '');
+  if (content.trimStart().startsWith('<')) {
+    if (!content.includes('BkToCstmrStmt')) {
+      throw new Error('Il file XML non è un estratto conto CAMT.053');
+    }
+    return 'CAMT053';
+  }
+  return /^ ?RH/.test(content) ? 'CBI' : 'CSV';
+}
+
+// Chiave stabile del movimento; l'ordinale distingue movimenti identici nello stesso file
+export function getTransactionKeys(transactions: BankStatementTransaction[]): string[] {
+  const occurrences = new Map<string, number>();
+  return transactions.map(transaction => {
+    const key = [
+      transaction.bookingDate,
+      transaction.amount.toFixed(2),
+      transaction.reference || '',
+      (transaction.description || '').replace(/\s+/g, ' ').trim().toUpperCase(),
+    ].join('|');
+    const occurrence = (occurrences.get(key) || 0) + 1;
+    occurrences.set(key, occurrence);
+    return `${key}|${occurrence}`;
+  });
+}
+
+// CAMT.053
+
+const CAMT_REPEATED_ELEMENTS = ['Stmt', 'Bal', 'Ntry', 'NtryDtls', 'TxDtls', 'Ustrd'];
+
+const camtParser = new XMLParser({
+  ignoreAttributes: true,
+  removeNSPrefix: true,
+  parseTagValue: false,
+  trimValues: true,
+  isArray: (name) => CAMT_REPEATED_ELEMENTS.includes(name),
+});
+
+const camtDate = (value: any): string | undefined => {
+  const date = value?.Dt ?? value?.DtTm;
+  return typeof date === 'string' ? date.slice(0, 10) : undefined;
+};
+
+// CRDT/DBIT in base all'indicatore; importi senza segno nel file
+const camtAmount = (amount: unknown, indicator: unknown) =>
+  round((indicator === 'DBIT' ? -1 : 1) * parseFloat(String(amount)));
+
+// Nome della controparte, con o senza il livello Pty introdotto dalla versione 08
+const partyName = (party: any): string | undefined => party?.Nm ?? party?.Pty?.Nm;
+
+const nonEmpty = (value: unknown) => typeof value === 'string' && value !== '' && value !== 'NOTPROVIDED' ? value : undefined;
+
+export function parseCamt053(xml: string): BankStatement {
+  const document = camtParser.parse(xml)?.Document?.BkToCstmrStmt;
+  if (!document) {
+    throw new Error('Il file XML non è un estratto conto CAMT.053');
+  }
+
+  const statement: BankStatement = { format: 'CAMT053', transactions: [], errors: [] };
+  const statements: any[] = document.Stmt || [];
+
+  statements.forEach((stmt, index) => {
+    statement.iban ??= nonEmpty(stmt.Acct?.Id?.IBAN);
+
+    for (const balance of stmt.Bal || []) {
+      const type = balance.Tp?.CdOrPrtry?.Cd;
+      const amount = camtAmount(balance.Amt, balance.CdtDbtInd);
+      // Il saldo iniziale è quello del primo estratto, il finale quello dell'ultimo
+      if ((type === 'OPBD' || type === 'PRCD') && index === 0 && statement.openingBalance === undefined) {
+        statement.openingBalance = amount;
+        statement.openingDate = camtDate(balance.Dt);
+      }
+      if (type === 'CLBD' && index === statements.length - 1) {
+        statement.closingBalance = amount;
+        statement.closingDate = camtDate(balance.Dt);
+      }
+    }
+
+    for (const entry of stmt.Ntry || []) {
+      const status = entry.Sts?.Cd ?? entry.Sts;
+      // Solo i movimenti contabilizzati: quelli in attesa possono cambiare o sparire
+      if (status && status !== 'BOOK') {
+        continue;
+      }
+
+      const bookingDate = camtDate(entry.BookgDt);
+      const amount = camtAmount(entry.Amt, entry.CdtDbtInd);
+      if (!bookingDate || !Number.isFinite(amount)) {
+        statement.errors.push(`Movimento ${entry.AcctSvcrRef || statement.transactions.length + 1}: data o importo mancante`);
+        continue;
+      }
+
+      const details = entry.NtryDtls?.[0]?.TxDtls?.[0] || {};
+      const isCredit = amount > 0;
+      const remittance = [
+        ...(details.RmtInf?.Ustrd || []),
+        details.RmtInf?.Strd?.CdtrRefInf?.Ref,
+      ].filter(nonEmpty).join(' ');
+
+      statement.transactions.push({
+        bookingDate,
+        valueDate: camtDate(entry.ValDt),
+        amount,
+        description: remittance || nonEmpty(details.AddtlTxInf) || nonEmpty(entry.AddtlNtryInf),
+        counterparty: partyName(isCredit ? details.RltdPties?.Dbtr : details.RltdPties?.Cdtr),
+        reference: nonEmpty(details.Refs?.EndToEndId) ?? nonEmpty(details.Refs?.AcctSvcrRef) ?? nonEmpty(entry.AcctSvcrRef),
+      });
+    }
+  });
+
+  return statement;
+}
+
+// CBI "RH": record di 120 caratteri, posizioni come nelle specifiche (a partire da 1)
+
+const CBI_RECORD_LENGTH = 120;
+
+const field = (record: string, from: number, to: number) => record.slice(from - 1, to).trim();
+
+// GGMMAA
+function cbiDate(value: string): string | undefined {
+  const match = value.match(/^(\d{2})(\d{2})(\d{2})$/);
+  return match ? parseSpreadsheetDate(`${match[1]}/${match[2]}/20${match[3]}`) || undefined : undefined;
+}
+
+// Importo con la virgola o, senza, con due decimali impliciti; segno D o C
+function cbiAmount(sign: string, value: string): number {
+  const amount = value.includes(',') ? parseSpreadsheetAmount(value) : Number(value) / 100;
+  return amount === null || !/^[\d,.]+$/.test(value) ? NaN : round((sign === 'D' ? -1 : 1) * amount);
+}
+
+function cbiRecords(text: string): string[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  // Alcune banche inviano il flusso senza separatori di riga
+  if (lines.length === 1 && lines[0].length > CBI_RECORD_LENGTH) {
+    return lines[0].match(new RegExp(`.{1,${CBI_RECORD_LENGTH}}`, 'g')) || [];
+  }
+  return lines;
+}
+
+export function parseCbiStatement(text: string): BankStatement {
+  const statement: BankStatement = { format: 'CBI', transactions: [], errors: [] };
+
+  for (const record of cbiRecords(text)) {
+    const type = record.slice(1, 3);
+
+    switch (type) {
+      case '61': {
+        // Saldo iniziale e coordinate del conto; l'IBAN si compone da paese, controllo, CIN, ABI, CAB e conto
+        const country = field(record, 100, 101);
+        const checkDigits = field(record, 102, 103);
+        if (country && checkDigits && statement.iban === undefined) {
+          statement.iban = normalizeIban(country + checkDigits + field(record, 52, 52) + field(record, 53, 57) + field(record, 58, 62) + field(record, 63, 74));
+        }
+        if (statement.openingBalance === undefined) {
+          const balance = cbiAmount(field(record, 84, 84), field(record, 85, 99));
+          if (Number.isFinite(balance)) {
+            statement.openingBalance = balance;
+            statement.openingDate = cbiDate(field(record, 78, 83));
+          }
+        }
+        break;
+      }
+      case '62': {
+        const bookingDate = cbiDate(field(record, 20, 25));
+        const amount = cbiAmount(field(record, 26, 26), field(record, 27, 41));
+        if (!bookingDate || !Number.isFinite(amount)) {
+          statement.errors.push(`Movimento ${field(record, 11, 13) || statement.transactions.length + 1}: data o importo non valido`);
+          break;
+        }
+        statement.transactions.push({
+          bookingDate,
+          valueDate: cbiDate(field(record, 14, 19)),
+          amount,
+          description: field(record, 87, 120) || undefined,
+          reference: field(record, 62, 77) || undefined,
+        });
+        break;
+      }
+      case '63': {
+        // Informazioni aggiuntive del movimento precedente
+        const last = statement.transactions[statement.transactions.length - 1];
+        const info = field(record, 14, 120);
+        if (last && info) {
+          last.description = [last.description, info].filter(Boolean).join(' ');
+        }
+        break;
+      }
+      case '64': {
+        const balance = cbiAmount(field(record, 20, 20), field(record, 21, 35));
+        if (Number.isFinite(balance)) {
+          statement.closingBalance = balance;
+          statement.closingDate = cbiDate(field(record, 14, 19));
+        }
+        break;
+      }
+    }
+  }
+
+  if (statement.transactions.length === 0 && statement.openingBalance === undefined) {
+    throw new Error('Nessun record di rendicontazione CBI (61-64) trovato nel file');
+  }
+  return statement;
+}
+
+// CSV
+
+const BANK_CSV_FIELDS: BankCsvField[] = ['bookingDate', 'valueDate', 'amount', 'credit', 'debit', 'description', 'counterparty'];
+
+// Intestazioni riconosciute per intero, poi per parola chiave nell'ordine dei campi
+const EXACT_BANK_HEADERS: Record<BankCsvField, string[]> = {
+  bookingDate: ['data', 'data contabile', 'data operazione', 'data registrazione', 'data movimento', 'booking date', 'date'],
+  valueDate: ['valuta', 'data valuta', 'value date'],
+  amount: ['importo', 'importo eur', 'importo euro', 'amount'],
+  credit: ['avere', 'entrate', 'accrediti', 'credit', 'credits'],
+  debit: ['dare', 'uscite', 'addebiti', 'debit', 'debits'],
+  description: ['descrizione', 'descrizione operazione', 'causale', 'dettagli', 'description', 'details'],
+  counterparty: ['controparte', 'beneficiario', 'ordinante', 'counterparty', 'payee'],
+};
+
+const BANK_HEADER_KEYWORDS: Array<[BankCsvField, string[]]> = [
+  ['valueDate', ['valuta']],
+  ['bookingDate', ['data', 'date']],
+  ['credit', ['avere', 'entrate', 'accrediti']],
+  ['debit', ['dare', 'uscite', 'addebiti']],
+  ['amount', ['importo', 'amount']],
+  ['description', ['descrizione', 'causale', 'description']],
+  ['counterparty', ['beneficiario', 'ordinante', 'controparte']],
+];
+
+export function detectBankCsvMapping(headers: string[]): BankCsvColumnMapping {
+  const mapping: BankCsvColumnMapping = {};
+  const used = new Set<string>();
+  const normalized = headers.map(header => ({ header, name: normalizeHeader(header) }));
+
+  for (const field of BANK_CSV_FIELDS) {
+    const match = normalized.find(({ header, name }) => !used.has(header) && EXACT_BANK_HEADERS[field].includes(name));
+    if (match) {
+      mapping[field] = match.header;
+      used.add(match.header);
+    }
+  }
+
+  for (const [field, keywords] of BANK_HEADER_KEYWORDS) {
+    if (mapping[field]) {
+      continue;
+    }
+    const match = normalized.find(({ header, name }) =>
+      !used.has(header) && name.split(' ').some(word => keywords.includes(word))
+    );
+    if (match) {
+      mapping[field] = match.header;
+      used.add(match.header);
+    }
+  }
+
+  return mapping;
+}
+
+const cellText = (value: SpreadsheetCell) =>
+  value === null || value === undefined ? '' : String(value).trim();
+
+/**
+ * Movimenti dalle righe del CSV: importo con segno oppure colonne Dare/Avere separate
+ */
+export function parseBankCsv(
+  headers: string[],
+  rows: Array<{ rowNumber: number; cells: Record<string, SpreadsheetCell> }>
+): BankStatement {
+  const mapping = detectBankCsvMapping(headers);
+  if (!mapping.bookingDate || (!mapping.amount && !mapping.credit && !mapping.debit)) {
+    throw new Error("Colonne della data e dell'importo non riconosciute nel CSV");
+  }
+
+  const statement: BankStatement = { format: 'CSV', transactions: [], errors: [] };
+  const cell = (cells: Record<string, SpreadsheetCell>, field: BankCsvField) =>
+    mapping[field] ? cells[mapping[field]!] : undefined;
+
+  for (const { rowNumber, cells } of rows) {
+    const bookingDate = parseSpreadsheetDate(cell(cells, 'bookingDate'));
+    let amount: number | null;
+    if (mapping.amount && cellText(cell(cells, 'amount')) !== '') {
+      amount = parseSpreadsheetAmount(cell(cells, 'amount'));
+    } else {
+      const credit = cellText(cell(cells, 'credit')) !== '' ? parseSpreadsheetAmount(cell(cells, 'credit')) : 0;
+      const debit = cellText(cell(cells, 'debit')) !== '' ? parseSpreadsheetAmount(cell(cells, 'debit')) : 0;
+      // Gli addebiti sono indicati con o senza il segno meno
+      amount = credit === null || debit === null ? null : Math.abs(credit) - Math.abs(debit);
+    }
+
+    if (!bookingDate || amount === null || amount === 0) {
+      statement.errors.push(`Riga ${rowNumber}: ${!bookingDate ? 'data non valida' : 'importo non valido'}`);
+      continue;
+    }
+
+    statement.transactions.push({
+      bookingDate,
+      valueDate: parseSpreadsheetDate(cell(cells, 'valueDate')) || undefined,
+      amount: round(amount),
+      description: cellText(cell(cells, 'description')) || undefined,
+      counterparty: cellText(cell(cells, 'counterparty')) || undefined,
+    });
+  }
+
+  return statement;
+}
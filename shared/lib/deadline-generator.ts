@@ -0,0 +1,335 @@
+// shared/lib/deadline-generator.ts
+// Generazione delle scadenze di pagamento dai calcoli e confronto con quelle già salvate
+
+import type { InsertPaymentDeadline, PaymentDeadline } from '../schema';
+import type { AccontiCalculation, ContributionRegime } from './tax-calculator';
+import type { SRLTaxCalculationResult } from './srl-tax-calculator';
+import type { IndividualTaxCalculationInput, IndividualTaxCalculationResult } from './individual-tax-calculator';
+import { installmentPlanToDeadlines, type InstallmentComponent, type InstallmentPlan } from './installment-plan';
+import { fiscalDueDate } from './fiscal-calendar';
+
+export type DeadlineSource = 'FORFETTARIO' | 'SRL' | 'INDIVIDUAL';
+
+export interface ForfettarioDeadlineInput {
+  year: number;
+  acconti: AccontiCalculation;
+  inpsAmount: number;
+  contributionRegime: ContributionRegime;
+  deferJunePayment?: boolean; // Versamento di giugno differito al 30 luglio
+  deferralSurchargeRate: number;
+  installmentPlan?: InstallmentPlan;
+}
+
+export interface DeadlineChange {
+  id: number;
+  paymentType: string;
+  installmentNumber: number | null;
+  before: { dueDate: string; amount: number };
+  after: { dueDate: string; amount: number };
+}
+
+export interface DeadlineDiff {
+  toCreate: InsertPaymentDeadline[];
+  toUpdate: Array<{ id: number; updates: Partial<PaymentDeadline> }>;
+  toDelete: PaymentDeadline[];
+  changes: DeadlineChange[];
+  unchanged: number;
+  paid: number; // Scadenze già pagate, lasciate invariate
+}
+
+export interface DeadlineSyncReport {
+  fiscalYear: number;
+  source: DeadlineSource;
+  added: PaymentDeadline[];
+  changed: DeadlineChange[];
+  dropped: PaymentDeadline[];
+  unchanged: number;
+  paid: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// I calcolatori SRL restituiscono le date in formato DD/MM/YYYY
+const toIsoDate = (date: string) => date.includes('/') ? date.split('/').reverse().join('-') : date;
+
+const deadline = (
+  businessId: number,
+  year: number,
+  source: DeadlineSource,
+  paymentType: string,
+  dueDate: string,
+  amount: number
+): InsertPaymentDeadline => ({
+  businessId,
+  fiscalYear: year,
+  source,
+  paymentType,
+  dueDate,
+  amount: round(amount),
+  isPaid: false,
+});
+
+// Contributi trimestrali (IVS) con il IV trimestre versato a febbraio dell'anno successivo
+function quarterlyContributions(businessId: number, year: number, source: DeadlineSource, total: number): InsertPaymentDeadline[] {
+  const dates = [5, 8, 11, 14].map(month => fiscalDueDate(year, month, 16));
+  const quarterly = round(total / 4);
+  return dates.map((dueDate, index) => deadline(
+    businessId, year, source, `INPS_Q${index + 1}`, dueDate,
+    // Gli arrotondamenti confluiscono nell'ultimo trimestre
+    index === 3 ? total - quarterly * 3 : quarterly
+  ));
+}
+
+function vatDeadlines(
+  businessId: number,
+  year: number,
+  source: DeadlineSource,
+  entries: Array<{ date: string; amount: number; paymentType?: string }>
+): InsertPaymentDeadline[] {
+  const isMonthly = entries.length > 4;
+  return entries
+    .map((entry, index) => deadline(
+      businessId, year, source,
+      // Le liquidazioni dai documenti indicano il tipo, comprese acconto e saldo annuale
+      entry.paymentType ?? (isMonthly ? `VAT_M${pad(index + 1)}` : `VAT_Q${index + 1}`),
+      toIsoDate(entry.date),
+      entry.amount
+    ))
+    .filter(item => item.amount > 0);
+}
+
+const juneDeadlines = (
+  businessId: number,
+  year: number,
+  source: DeadlineSource,
+  dueDate: string,
+  components: InstallmentComponent[]
+) => components
+  .filter(component => component.amount > 0)
+  .map(component => deadline(businessId, year, source, component.paymentType, dueDate, component.amount));
+
+/**
+ * Importi del versamento di giugno del forfettario: il credito dell'anno precedente compensa prima il saldo,
+ * poi il primo acconto. Con il differimento al 30 luglio gli importi includono la maggiorazione.
+ */
+export function forfettarioJunePayment(
+  input: Pick<ForfettarioDeadlineInput, 'acconti' | 'deferJunePayment' | 'deferralSurchargeRate'>
+): InstallmentComponent[] {
+  const { acconti } = input;
+  const surcharge = input.deferJunePayment ? 1 + input.deferralSurchargeRate : 1;
+  const balance = Math.max(0, acconti.previousYearBalance - acconti.previousYearCredit);
+  const creditLeft = Math.max(0, acconti.previousYearCredit - acconti.previousYearBalance);
+  const firstAdvance = Math.max(0, acconti.firstInstallment - creditLeft);
+
+  return [
+    { paymentType: 'TAX_BALANCE', amount: round(balance * surcharge) },
+    { paymentType: 'TAX_ADVANCE_1', amount: round(firstAdvance * surcharge) },
+  ];
+}
+
+/**
+ * Importi del versamento di giugno SRL: saldo IRES e IRAP dell'anno precedente e primi acconti
+ */
+export function srlJunePayment(
+  calculation: Pick<SRLTaxCalculationResult, 'iresFirstAcconto' | 'irapFirstAcconto'>,
+  previousYear?: Pick<SRLTaxCalculationResult, 'iresAmount' | 'irapAmount' | 'iresFirstAcconto' | 'iresSecondAcconto' | 'irapFirstAcconto' | 'irapSecondAcconto'>
+): InstallmentComponent[] {
+  return [
+    { paymentType: 'IRES_BALANCE', amount: previousYear ? round(Math.max(0, previousYear.iresAmount - previousYear.iresFirstAcconto - previousYear.iresSecondAcconto)) : 0 },
+    { paymentType: 'IRES_ADVANCE_1', amount: calculation.iresFirstAcconto },
+    { paymentType: 'IRAP_BALANCE', amount: previousYear ? round(Math.max(0, previousYear.irapAmount - previousYear.irapFirstAcconto - previousYear.irapSecondAcconto)) : 0 },
+    { paymentType: 'IRAP_ADVANCE_1', amount: calculation.irapFirstAcconto },
+  ];
+}
+
+/**
+ * Importi del versamento di giugno del regime ordinario: saldo IRPEF dell'anno precedente e primo acconto
+ */
+export function individualJunePayment(
+  calculation: Pick<IndividualTaxCalculationResult, 'irpefFirstAcconto'>,
+  previousYear?: Pick<IndividualTaxCalculationResult, 'irpefNetAmount' | 'irpefFirstAcconto' | 'irpefSecondAcconto'>
+): InstallmentComponent[] {
+  return [
+    { paymentType: 'IRPEF_BALANCE', amount: previousYear ? round(Math.max(0, previousYear.irpefNetAmount - previousYear.irpefFirstAcconto - previousYear.irpefSecondAcconto)) : 0 },
+    { paymentType: 'IRPEF_ADVANCE_1', amount: calculation.irpefFirstAcconto },
+  ];
+}
+
+/**
+ * Scadenze del forfettario: saldo dell'anno precedente e acconti dell'imposta sostitutiva,
+ * contributi INPS trimestrali (IVS) o a saldo l'anno successivo (Gestione Separata)
+ */
+export function generateForfettarioDeadlines(businessId: number, input: ForfettarioDeadlineInput): InsertPaymentDeadline[] {
+  const { year, acconti } = input;
+  const deadlines: InsertPaymentDeadline[] = [];
+
+  if (input.installmentPlan) {
+    // Le rate sostituiscono il versamento unico di giugno
+    deadlines.push(...installmentPlanToDeadlines(input.installmentPlan, businessId).map(installment => ({
+      ...installment,
+      fiscalYear: year,
+      source: 'FORFETTARIO' as const,
+    })));
+  } else {
+    const juneDate = input.deferJunePayment ? fiscalDueDate(year, 7, 30) : fiscalDueDate(year, 6, 30);
+    deadlines.push(...juneDeadlines(businessId, year, 'FORFETTARIO', juneDate, forfettarioJunePayment(input)));
+  }
+
+  const creditForNovember = Math.max(0, acconti.previousYearCredit - acconti.previousYearBalance - acconti.firstInstallment);
+  const secondAdvance = Math.max(0, acconti.secondInstallment - creditForNovember);
+  if (secondAdvance > 0) {
+    deadlines.push(deadline(businessId, year, 'FORFETTARIO', 'TAX_ADVANCE_2', fiscalDueDate(year, 11, 30), secondAdvance));
+  }
+
+  if (input.inpsAmount > 0) {
+    if (input.contributionRegime === 'GESTIONE_SEPARATA') {
+      deadlines.push(deadline(businessId, year, 'FORFETTARIO', 'INPS_ANNUAL', fiscalDueDate(year, 18, 30), input.inpsAmount));
+    } else {
+      deadlines.push(...quarterlyContributions(businessId, year, 'FORFETTARIO', input.inpsAmount));
+    }
+  }
+
+  return deadlines;
+}
+
+/**
+ * Scadenze SRL: versamento di giugno (o relative rate), secondi acconti IRES e IRAP e liquidazioni IVA
+ */
+export function generateSRLDeadlines(
+  businessId: number,
+  calculation: SRLTaxCalculationResult,
+  junePayment: InstallmentComponent[],
+  installmentPlan?: InstallmentPlan
+): InsertPaymentDeadline[] {
+  const year = calculation.fiscalYear;
+  const deadlines: InsertPaymentDeadline[] = [];
+
+  if (installmentPlan) {
+    deadlines.push(...installmentPlanToDeadlines(installmentPlan, businessId).map(installment => ({
+      ...installment,
+      fiscalYear: year,
+      source: 'SRL' as const,
+    })));
+  } else {
+    deadlines.push(...juneDeadlines(businessId, year, 'SRL', fiscalDueDate(year, 6, 30), junePayment));
+  }
+
+  if (calculation.iresSecondAcconto > 0) {
+    deadlines.push(deadline(businessId, year, 'SRL', 'IRES_ADVANCE_2', fiscalDueDate(year, 11, 30), calculation.iresSecondAcconto));
+  }
+  if (calculation.irapSecondAcconto > 0) {
+    deadlines.push(deadline(businessId, year, 'SRL', 'IRAP_ADVANCE_2', fiscalDueDate(year, 11, 30), calculation.irapSecondAcconto));
+  }
+
+  deadlines.push(...vatDeadlines(businessId, year, 'SRL', calculation.vatDeadlines));
+
+  return deadlines;
+}
+
+/**
+ * Scadenze del regime ordinario: versamento di giugno (o relative rate), secondo acconto IRPEF,
+ * contributi e IVA trimestrale
+ */
+export function generateIndividualDeadlines(
+  businessId: number,
+  calculation: IndividualTaxCalculationResult,
+  contributionType: IndividualTaxCalculationInput['contributionType'],
+  junePayment: InstallmentComponent[],
+  installmentPlan?: InstallmentPlan
+): InsertPaymentDeadline[] {
+  const year = calculation.fiscalYear;
+  const deadlines: InsertPaymentDeadline[] = [];
+
+  if (installmentPlan) {
+    deadlines.push(...installmentPlanToDeadlines(installmentPlan, businessId).map(installment => ({
+      ...installment,
+      fiscalYear: year,
+      source: 'INDIVIDUAL' as const,
+    })));
+  } else {
+    deadlines.push(...juneDeadlines(businessId, year, 'INDIVIDUAL', fiscalDueDate(year, 6, 30), junePayment));
+  }
+
+  if (calculation.irpefSecondAcconto > 0) {
+    deadlines.push(deadline(businessId, year, 'INDIVIDUAL', 'IRPEF_ADVANCE_2', fiscalDueDate(year, 11, 30), calculation.irpefSecondAcconto));
+  }
+
+  if (calculation.totalContributions > 0) {
+    if (contributionType === 'inps_artigiani' || contributionType === 'inps_commercianti') {
+      deadlines.push(...quarterlyContributions(businessId, year, 'INDIVIDUAL', calculation.totalContributions));
+    } else {
+      // Gestione Separata e casse professionali: saldo con la dichiarazione dell'anno successivo
+      const paymentType = contributionType === 'inps_gestione_separata' ? 'INPS_ANNUAL' : 'PENSION_FUND_ANNUAL';
+      deadlines.push(deadline(businessId, year, 'INDIVIDUAL', paymentType, fiscalDueDate(year, 18, 30), calculation.totalContributions));
+    }
+  }
+
+  deadlines.push(...vatDeadlines(businessId, year, 'INDIVIDUAL', calculation.vatDeadlines));
+
+  return deadlines;
+}
+
+const deadlineKey = (item: { paymentType: string; installmentNumber?: number | null }) =>
+  `${item.paymentType}#${item.installmentNumber || 0}`;
+
+/**
+ * Confronta le scadenze generate con quelle salvate per lo stesso anno e origine.
+ * Le scadenze pagate non vengono mai modificate né eliminate.
+ */
+export function diffDeadlines(existing: PaymentDeadline[], generated: InsertPaymentDeadline[]): DeadlineDiff {
+  const existingByKey = new Map(existing.map(item => [deadlineKey(item), item]));
+  const generatedKeys = new Set(generated.map(deadlineKey));
+
+  const diff: DeadlineDiff = {
+    toCreate: [],
+    toUpdate: [],
+    toDelete: [],
+    changes: [],
+    unchanged: 0,
+    paid: existing.filter(item => item.isPaid).length,
+  };
+
+  for (const item of generated) {
+    const current = existingByKey.get(deadlineKey(item));
+
+    if (!current) {
+      diff.toCreate.push(item);
+      continue;
+    }
+    if (current.isPaid) {
+      continue;
+    }
+
+    if (current.dueDate === item.dueDate && round(current.amount) === round(item.amount)
+      && (current.interestAmount || 0) === (item.interestAmount || 0)
+      && (current.taxCode || null) === (item.taxCode || null)
+      && (current.installmentCount || null) === (item.installmentCount || null)) {
+      diff.unchanged++;
+      continue;
+    }
+
+    diff.toUpdate.push({
+      id: current.id,
+      updates: {
+        dueDate: item.dueDate,
+        amount: item.amount,
+        interestAmount: item.interestAmount ?? 0,
+        taxCode: item.taxCode ?? null,
+        installmentCount: item.installmentCount ?? null,
+      },
+    });
+    diff.changes.push({
+      id: current.id,
+      paymentType: current.paymentType,
+      installmentNumber: current.installmentNumber,
+      before: { dueDate: current.dueDate, amount: current.amount },
+      after: { dueDate: item.dueDate, amount: item.amount },
+    });
+  }
+
+  diff.toDelete = existing.filter(item => !item.isPaid && !generatedKeys.has(deadlineKey(item)));
+
+  return diff;
+}
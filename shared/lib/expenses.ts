@@ -0,0 +1,118 @@
+// shared/lib/expenses.ts
+// Registro acquisti e spese: deducibilità per categoria e costi da usare nei calcoli di IRPEF/IRES, IRAP e IVA
+
+import type { Expense } from '../schema';
+
+export type ExpenseCategory = 'GOODS' | 'SERVICES' | 'VEHICLES' | 'PHONE' | 'REPRESENTATION';
+
+export interface ExpenseDeductibility {
+  incomeTaxDeductibility: number; // % deducibile ai fini IRPEF/IRES
+  irapDeductibility: number; // % deducibile ai fini IRAP
+  vatDeductibility: number; // % dell'IVA detraibile
+}
+
+export const EXPENSE_CATEGORY_VALUES = ['GOODS', 'SERVICES', 'VEHICLES', 'PHONE', 'REPRESENTATION'] as const;
+
+// Percentuali proposte per ciascuna categoria, modificabili sulla singola spesa
+export const EXPENSE_CATEGORIES: Record<ExpenseCategory, ExpenseDeductibility & { label: string }> = {
+  GOODS: { label: 'Beni', incomeTaxDeductibility: 100, irapDeductibility: 100, vatDeductibility: 100 },
+  SERVICES: { label: 'Servizi', incomeTaxDeductibility: 100, irapDeductibility: 100, vatDeductibility: 100 },
+  // Auto a uso promiscuo: costi al 20% (art. 164 TUIR), IVA al 40% (art. 19-bis1 DPR 633/72)
+  VEHICLES: { label: 'Veicoli', incomeTaxDeductibility: 20, irapDeductibility: 20, vatDeductibility: 40 },
+  // Telefonia all'80% (art. 102, comma 9, TUIR), IVA detraibile al 50% per l'uso promiscuo
+  PHONE: { label: 'Telefonia', incomeTaxDeductibility: 80, irapDeductibility: 80, vatDeductibility: 50 },
+  // Rappresentanza deducibile entro il plafond sui ricavi, IVA indetraibile (art. 19-bis1, lett. h)
+  REPRESENTATION: { label: 'Rappresentanza', incomeTaxDeductibility: 100, irapDeductibility: 100, vatDeductibility: 0 },
+};
+
+export interface ExpenseTotals {
+  year: number;
+  count: number;
+  amount: number; // Imponibile registrato
+  vatAmount: number; // IVA addebitata dai fornitori
+  incomeTaxCosts: number; // Costi deducibili ai fini IRPEF/IRES con l'IVA indetraibile, al netto dell'eccedenza di rappresentanza
+  irapCosts: number;
+  deductibleVat: number; // IVA sugli acquisti da detrarre
+  representationCap: number;
+  representationExcess: number; // Spese di rappresentanza oltre il plafond, non deducibili
+  byCategory: Array<{ category: ExpenseCategory; amount: number; incomeTaxCosts: number }>;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Percentuali della categoria per i campi non indicati
+ */
+export function withCategoryDefaults<T extends { category: ExpenseCategory } & Partial<ExpenseDeductibility>>(
+  expense: T
+): T & ExpenseDeductibility {
+  const defaults = EXPENSE_CATEGORIES[expense.category];
+  return {
+    ...expense,
+    incomeTaxDeductibility: expense.incomeTaxDeductibility ?? defaults.incomeTaxDeductibility,
+    irapDeductibility: expense.irapDeductibility ?? defaults.irapDeductibility,
+    vatDeductibility: expense.vatDeductibility ?? defaults.vatDeductibility,
+  };
+}
+
+/**
+ * Plafond delle spese di rappresentanza: 1% dei compensi per i professionisti (art. 54 TUIR),
+ * per le imprese 1,5% dei ricavi fino a 10 milioni, 0,6% fino a 50 e 0,4% oltre (art. 108 TUIR)
+ */
+export function getRepresentationCap(revenue: number, isProfessional = false): number {
+  if (isProfessional) {
+    return round(revenue * 0.01);
+  }
+  return round(
+    Math.min(revenue, 10_000_000) * 0.015
+    + Math.min(Math.max(0, revenue - 10_000_000), 40_000_000) * 0.006
+    + Math.max(0, revenue - 50_000_000) * 0.004
+  );
+}
+
+/**
+ * Totali dell'anno dal registro, con le percentuali di deducibilità e detraibilità di ciascuna spesa.
+ * L'IVA indetraibile è un costo della spesa e si deduce con le stesse percentuali.
+ */
+export function getExpenseTotals(
+  expenses: Array<Pick<Expense, 'date' | 'category' | 'amount' | 'vatAmount' | 'incomeTaxDeductibility' | 'irapDeductibility' | 'vatDeductibility'>>,
+  year: number,
+  options: { revenue: number; isProfessional?: boolean }
+): ExpenseTotals {
+  const yearExpenses = expenses.filter(expense => Number(expense.date.slice(0, 4)) === year);
+  const byCategory = new Map<ExpenseCategory, { category: ExpenseCategory; amount: number; incomeTaxCosts: number }>();
+
+  let irapCosts = 0;
+  let deductibleVat = 0;
+  for (const expense of yearExpenses) {
+    const category = expense.category as ExpenseCategory;
+    const vatAmount = expense.vatAmount || 0;
+    const cost = expense.amount + vatAmount * (100 - expense.vatDeductibility) / 100;
+    const row = byCategory.get(category) || { category, amount: 0, incomeTaxCosts: 0 };
+    row.amount = round(row.amount + expense.amount);
+    row.incomeTaxCosts = round(row.incomeTaxCosts + cost * expense.incomeTaxDeductibility / 100);
+    byCategory.set(category, row);
+
+    irapCosts += cost * expense.irapDeductibility / 100;
+    deductibleVat += vatAmount * expense.vatDeductibility / 100;
+  }
+
+  // Il plafond limita solo le imposte sui redditi
+  const representation = byCategory.get('REPRESENTATION')?.incomeTaxCosts || 0;
+  const representationCap = getRepresentationCap(options.revenue, options.isProfessional);
+  const representationExcess = round(Math.max(0, representation - representationCap));
+  const incomeTaxCosts = Array.from(byCategory.values()).reduce((sum, row) => sum + row.incomeTaxCosts, 0) - representationExcess;
+
+  return {
+    year,
+    count: yearExpenses.length,
+    amount: round(yearExpenses.reduce((sum, expense) => sum + expense.amount, 0)),
+    vatAmount: round(yearExpenses.reduce((sum, expense) => sum + (expense.vatAmount || 0), 0)),
+    incomeTaxCosts: round(incomeTaxCosts),
+    irapCosts: round(irapCosts),
+    deductibleVat: round(deductibleVat),
+    representationCap,
+    representationExcess,
+    byCategory: EXPENSE_CATEGORY_VALUES.filter(category => byCategory.has(category)).map(category => byCategory.get(category)!),
+  };
+}
@@ -0,0 +1,326 @@
+// shared/lib/f24.ts
+// Compilazione del modello F24 (semplificato o ordinario) a partire dalle scadenze non pagate
+
+import type { PaymentDeadline } from '../schema';
+import { TaxCalculator, type ContributionRegime, type ContributionReduction } from './tax-calculator';
+import { TAX_CODES, INPS_CODES } from './tax-codes';
+import { getTaxRules } from './tax-rules';
+import { installmentInterestTaxCode } from './installment-plan';
+
+export type F24ModelType = 'SEMPLIFICATO' | 'ORDINARIO';
+
+export interface F24TaxRow {
+  taxCode: string;
+  description: string;
+  installment?: string; // Rateazione nel formato NNRR (rata/numero rate)
+  referenceYear: number;
+  debit: number;
+  credit: number;
+  deadlineId?: number;
+}
+
+export interface F24InpsRow {
+  officeCode?: string; // Codice sede INPS
+  contributionCode: string; // Causale contributo
+  description: string;
+  inpsNumber?: string; // Matricola o codice INPS
+  periodFrom: string; // MM/YYYY
+  periodTo: string; // MM/YYYY
+  debit: number;
+  credit: number;
+  deadlineId?: number;
+}
+
+export interface F24Section<T> {
+  rows: T[];
+  totalDebit: number;
+  totalCredit: number;
+  balance: number;
+}
+
+export interface F24Credit {
+  section: 'ERARIO' | 'INPS';
+  code: string;
+  referenceYear: number;
+  amount: number;
+}
+
+export interface F24Options {
+  dueDate: string; // YYYY-MM-DD
+  type?: F24ModelType; // Se assente: ordinario solo in presenza di contributi INPS
+  taxpayer: {
+    name: string;
+    fiscalCode?: string;
+  };
+  contributionRegime: ContributionRegime;
+  contributionReduction?: ContributionReduction; // Riduzione dei contributi fissi IVS
+  hasOtherCoverage?: boolean;
+  inpsOfficeCode?: string;
+  inpsNumber?: string;
+  credits?: F24Credit[]; // Crediti da compensare
+}
+
+export interface F24Model {
+  type: F24ModelType;
+  dueDate: string;
+  taxpayer: F24Options['taxpayer'];
+  taxSection: F24Section<F24TaxRow>;
+  inpsSection: F24Section<F24InpsRow>;
+  totalBalance: number;
+  deadlineIds: number[]; // Scadenze incluse nel modello
+  skippedDeadlineIds: number[]; // Scadenze senza codice tributo associato
+}
+
+export type TaxCode = keyof typeof TAX_CODES;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+// Codici tributo per tipo di scadenza: imposta sostitutiva, IRES, IRAP, IRPEF e liquidazioni IVA
+const TAX_CODES_BY_PAYMENT_TYPE: Record<string, TaxCode> = {
+  TAX_BALANCE: '1792',
+  TAX_ADVANCE_1: '1790',
+  TAX_ADVANCE_2: '1791',
+  IRES_BALANCE: '2003',
+  IRES_ADVANCE_1: '2001',
+  IRES_ADVANCE_2: '2002',
+  IRAP_BALANCE: '3800',
+  IRAP_ADVANCE_1: '3812',
+  IRAP_ADVANCE_2: '3813',
+  IRPEF_BALANCE: '4001',
+  IRPEF_ADVANCE_1: '4033',
+  IRPEF_ADVANCE_2: '4034',
+  ...Object.fromEntries(Array.from({ length: 12 }, (_, i) => [`VAT_M${pad(i + 1)}`, `60${pad(i + 1)}` as TaxCode])),
+  VAT_Q1: '6031',
+  VAT_Q2: '6032',
+  VAT_Q3: '6033',
+  VAT_Q4: '6034',
+  VAT_ACCONTO: '6013',
+  VAT_ANNUAL: '6099',
+};
+
+// Acconto IVA dei contribuenti trimestrali
+const QUARTERLY_VAT_ACCONTO_CODE: TaxCode = '6035';
+
+// Scadenze versate l'anno successivo a quello di riferimento
+const PREVIOUS_YEAR_PAYMENT_TYPES = ['VAT_M12', 'VAT_Q4', 'VAT_ANNUAL'];
+
+const QUARTER_MONTHS: Record<string, [number, number]> = {
+  INPS_Q1: [1, 3],
+  INPS_Q2: [4, 6],
+  INPS_Q3: [7, 9],
+  INPS_Q4: [10, 12],
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Codice tributo e anno di riferimento di una scadenza erariale, o null per i contributi.
+ * Il saldo si riferisce all'anno precedente, come le liquidazioni IVA versate l'anno successivo.
+ */
+export function getDeadlineTaxCode(
+  paymentType: string,
+  dueYear: number,
+  options: { quarterlyVat?: boolean } = {}
+): { taxCode: TaxCode; referenceYear: number } | null {
+  const taxCode = paymentType === 'VAT_ACCONTO' && options.quarterlyVat
+    ? QUARTERLY_VAT_ACCONTO_CODE
+    : TAX_CODES_BY_PAYMENT_TYPE[paymentType];
+  if (!taxCode) {
+    return null;
+  }
+  const isPreviousYear = paymentType.endsWith('_BALANCE') || PREVIOUS_YEAR_PAYMENT_TYPES.includes(paymentType);
+  return { taxCode, referenceYear: isPreviousYear ? dueYear - 1 : dueYear };
+}
+
+function buildSection<T extends { debit: number; credit: number }>(rows: T[]): F24Section<T> {
+  const totalDebit = round(rows.reduce((sum, row) => sum + row.debit, 0));
+  const totalCredit = round(rows.reduce((sum, row) => sum + row.credit, 0));
+  return { rows, totalDebit, totalCredit, balance: round(totalDebit - totalCredit) };
+}
+
+// Causale INPS: contributi fissi o eccedenti per IVS, aliquota piena o ridotta per Gestione Separata
+function inpsContributionCode(paymentType: string, options: F24Options): string {
+  switch (options.contributionRegime) {
+    case 'IVS_ARTIGIANI':
+      return paymentType === 'INPS_ANNUAL' ? 'AP' : 'AF';
+    case 'IVS_COMMERCIANTI':
+      return paymentType === 'INPS_ANNUAL' ? 'CP' : 'CF';
+    default:
+      return options.hasOtherCoverage ? 'P10' : 'PXX';
+  }
+}
+
+// Causale dei contributi IVS eccedenti il minimale
+const IVS_EXCESS_CODES: Partial<Record<ContributionRegime, string>> = {
+  IVS_ARTIGIANI: 'AP',
+  IVS_COMMERCIANTI: 'CP',
+};
+
+// Contributi fissi IVS di un trimestre, al netto della riduzione
+function quarterlyIvsMinimum(referenceYear: number, options: F24Options): number {
+  const ivs = getTaxRules(referenceYear).forfettario.inps.ivs;
+  const minimum = options.contributionRegime === 'IVS_COMMERCIANTI' ? ivs.commercianti.minimum : ivs.artigiani.minimum;
+  return round(minimum * TaxCalculator.getReductionFactor(options.contributionReduction || 'NONE') / 4);
+}
+
+function inpsCodeDescription(code: string): string {
+  for (const codes of Object.values(INPS_CODES)) {
+    if (code in codes) {
+      return codes[code as keyof typeof codes];
+    }
+  }
+  return code;
+}
+
+function buildTaxRows(deadline: PaymentDeadline, dueYear: number, quarterlyVat: boolean): F24TaxRow[] {
+  const { taxCode, referenceYear } = getDeadlineTaxCode(deadline.paymentType, dueYear, { quarterlyVat })!;
+
+  // Le rate del versamento di giugno riportano rata e numero di rate con gli interessi a parte
+  if (!deadline.installmentCount) {
+    return [{
+      taxCode,
+      description: TAX_CODES[taxCode],
+      referenceYear,
+      debit: round(deadline.amount),
+      credit: 0,
+      deadlineId: deadline.id,
+    }];
+  }
+
+  const installment = `${pad(deadline.installmentNumber || 1)}${pad(deadline.installmentCount || 1)}`;
+  const interestAmount = deadline.interestAmount || 0;
+  const rows: F24TaxRow[] = [{
+    taxCode,
+    description: TAX_CODES[taxCode],
+    installment,
+    referenceYear,
+    debit: round(deadline.amount - interestAmount),
+    credit: 0,
+    deadlineId: deadline.id,
+  }];
+
+  if (interestAmount > 0) {
+    // Codice degli interessi salvato con la rata, dedotto dall'imposta per le rate meno recenti
+    const interestTaxCode = (deadline.taxCode || installmentInterestTaxCode(deadline.paymentType)) as TaxCode;
+    rows.push({
+      taxCode: interestTaxCode,
+      description: TAX_CODES[interestTaxCode],
+      installment,
+      referenceYear,
+      debit: round(interestAmount),
+      credit: 0,
+      deadlineId: deadline.id,
+    });
+  }
+
+  return rows;
+}
+
+function buildInpsRows(deadline: PaymentDeadline, dueYear: number, options: F24Options): F24InpsRow[] {
+  const contributionCode = inpsContributionCode(deadline.paymentType, options);
+  const quarter = QUARTER_MONTHS[deadline.paymentType];
+
+  // Il IV trimestre e il saldo annuale si versano l'anno successivo a quello di competenza
+  const isPreviousYear = deadline.paymentType === 'INPS_Q4' || deadline.paymentType === 'INPS_ANNUAL';
+  const referenceYear = isPreviousYear ? dueYear - 1 : dueYear;
+  const [fromMonth, toMonth] = quarter && options.contributionRegime !== 'GESTIONE_SEPARATA' ? quarter : [1, 12];
+
+  const row = (code: string, amount: number, from: number, to: number): F24InpsRow => ({
+    officeCode: options.inpsOfficeCode,
+    contributionCode: code,
+    description: inpsCodeDescription(code),
+    inpsNumber: options.inpsNumber,
+    periodFrom: `${pad(from)}/${referenceYear}`,
+    periodTo: `${pad(to)}/${referenceYear}`,
+    debit: round(amount),
+    credit: 0,
+    deadlineId: deadline.id,
+  });
+
+  // Nei trimestri IVS la quota oltre i contributi fissi è contributo eccedente il minimale, riferito all'anno
+  const excessCode = IVS_EXCESS_CODES[options.contributionRegime];
+  if (quarter && excessCode) {
+    const minimum = Math.min(deadline.amount, quarterlyIvsMinimum(referenceYear, options));
+    const excess = round(deadline.amount - minimum);
+    return excess > 0
+      ? [row(contributionCode, minimum, fromMonth, toMonth), row(excessCode, excess, 1, 12)]
+      : [row(contributionCode, deadline.amount, fromMonth, toMonth)];
+  }
+
+  return [row(contributionCode, deadline.amount, fromMonth, toMonth)];
+}
+
+/**
+ * Compila il modello F24 con le scadenze non pagate alla data indicata
+ */
+export function buildF24Model(deadlines: PaymentDeadline[], options: F24Options): F24Model {
+  const dueYear = parseInt(options.dueDate.slice(0, 4));
+  const taxRows: F24TaxRow[] = [];
+  const inpsRows: F24InpsRow[] = [];
+  const deadlineIds: number[] = [];
+  const skippedDeadlineIds: number[] = [];
+  const quarterlyVat = deadlines.some(deadline => deadline.paymentType.startsWith('VAT_Q'));
+
+  for (const deadline of deadlines) {
+    if (deadline.isPaid || deadline.dueDate !== options.dueDate) {
+      continue;
+    }
+
+    if (deadline.paymentType in TAX_CODES_BY_PAYMENT_TYPE) {
+      taxRows.push(...buildTaxRows(deadline, dueYear, quarterlyVat));
+      deadlineIds.push(deadline.id);
+    } else if (deadline.paymentType.startsWith('INPS_')) {
+      inpsRows.push(...buildInpsRows(deadline, dueYear, options));
+      deadlineIds.push(deadline.id);
+    } else {
+      skippedDeadlineIds.push(deadline.id);
+    }
+  }
+
+  // Crediti in compensazione
+  for (const credit of options.credits || []) {
+    if (credit.section === 'ERARIO') {
+      taxRows.push({
+        taxCode: credit.code,
+        description: TAX_CODES[credit.code as TaxCode] || credit.code,
+        referenceYear: credit.referenceYear,
+        debit: 0,
+        credit: round(credit.amount),
+      });
+    } else {
+      inpsRows.push({
+        officeCode: options.inpsOfficeCode,
+        contributionCode: credit.code,
+        description: inpsCodeDescription(credit.code),
+        inpsNumber: options.inpsNumber,
+        periodFrom: `01/${credit.referenceYear}`,
+        periodTo: `12/${credit.referenceYear}`,
+        debit: 0,
+        credit: round(credit.amount),
+      });
+    }
+  }
+
+  if (options.type === 'SEMPLIFICATO' && inpsRows.length > 0) {
+    throw new Error('Il modello F24 semplificato non consente il versamento di contributi INPS');
+  }
+
+  const taxSection = buildSection(taxRows);
+  const inpsSection = buildSection(inpsRows);
+  const totalBalance = round(taxSection.balance + inpsSection.balance);
+
+  if (totalBalance < 0) {
+    throw new Error('I crediti compensati superano gli importi a debito');
+  }
+
+  return {
+    type: options.type || (inpsRows.length > 0 ? 'ORDINARIO' : 'SEMPLIFICATO'),
+    dueDate: options.dueDate,
+    taxpayer: options.taxpayer,
+    taxSection,
+    inpsSection,
+    totalBalance,
+    deadlineIds,
+    skippedDeadlineIds,
+  };
+}
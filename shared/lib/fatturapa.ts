@@ -0,0 +1,517 @@
+// shared/lib/fatturapa.ts
+// Generazione e lettura del file XML FatturaPA 1.2.x (formato FPR12, fatture verso privati)
+
+import { XMLParser } from 'fast-xml-parser';
+import type { Business, Customer, Invoice, InvoiceCustomer, InvoiceLine } from '../schema';
+import { getVatTreatment, isReverseChargeNature, SPLIT_PAYMENT_ESIGIBILITA, VAT_NATURE_CODES, type VatTreatment } from './vat-treatment';
+
+export { VAT_NATURE_CODES };
+
+export const FATTURAPA_NAMESPACE = 'http://ivaservizi.agenziaentrate.gov.it/docs/xsd/fatture/v1.2';
+
+// Natura dell'operazione per i contribuenti forfettari (art. 1, commi 54-89, L. 190/2014)
+export const FORFETTARIO_VAT_NATURE = 'N2.2';
+export const FORFETTARIO_NOTE = "Operazione effettuata ai sensi dell'articolo 1, commi da 54 a 89, della Legge n. 190/2014 - Regime forfettario";
+
+export const STAMP_DUTY_AMOUNT = 2;
+
+// Il bollo è dovuto sulle fatture con importi non soggetti a IVA superiori a €77,47
+export const STAMP_DUTY_THRESHOLD = 77.47;
+
+// Nature escluse dal bollo: esportazioni (art. 15, Tabella B, DPR 642/72) e inversione contabile (N6.x),
+// operazioni soggette a IVA anche se l'imposta è assolta dal cessionario
+const isStampDutyExemptNature = (vatNature?: string) => vatNature === 'N3.1' || isReverseChargeNature(vatNature);
+
+// Rivalsa INPS addebitata al cliente dai professionisti iscritti alla Gestione Separata (art. 1, comma 212, L. 662/1996)
+export const INPS_RIVALSA_RATE = 4;
+const INPS_FUND_TYPE = 'TC22';
+
+// Ritenuta d'acconto di persona fisica su compensi di lavoro autonomo professionale
+const WITHHOLDING_TYPE = 'RT01';
+const WITHHOLDING_PAYMENT_REASON = 'A';
+
+export const PAYMENT_METHODS: Record<string, string> = {
+  'MP01': 'Contanti',
+  'MP02': 'Assegno',
+  'MP05': 'Bonifico',
+  'MP08': 'Carta di pagamento',
+  'MP12': 'RIBA',
+  'MP19': 'SEPA Direct Debit',
+  'MP23': 'PagoPA',
+};
+
+export interface InvoiceSummaryRow {
+  vatRate: number;
+  vatNature?: string;
+  taxableAmount: number;
+  vatAmount: number;
+}
+
+export interface InvoiceRivalsa {
+  rate: number;
+  baseAmount: number; // Imponibile delle righe su cui si calcola la rivalsa
+  amount: number;
+  vatRate: number;
+  vatNature?: string;
+}
+
+export interface InvoiceTotals {
+  taxableAmount: number;
+  vatAmount: number;
+  totalAmount: number;
+  summary: InvoiceSummaryRow[];
+  rivalsa?: InvoiceRivalsa;
+  stampDuty: boolean; // Bollo dovuto sugli importi non soggetti a IVA
+}
+
+export interface ParsedInvoiceDocument {
+  documentType: string;
+  number: string;
+  issueDate: string; // YYYY-MM-DD
+  customer: InvoiceCustomer;
+  lines: InvoiceLine[];
+  description?: string;
+  stampDuty: boolean;
+  inpsRivalsa: boolean;
+  rivalsaAmount: number;
+  withholdingRate?: number;
+  withholdingAmount: number;
+  paymentMethod?: string;
+  paymentDueDate?: string;
+  relatedInvoiceNumber?: string; // Fattura rettificata dalla nota di credito
+  vatTreatment: VatTreatment;
+  vatNature?: string; // Natura dell'inversione contabile
+  taxableAmount: number;
+  vatAmount: number;
+  totalAmount: number;
+}
+
+export interface ParsedFatturaPA {
+  sellerVatNumber?: string;
+  sellerName?: string;
+  documents: ParsedInvoiceDocument[]; // Un file può contenere un lotto di fatture
+}
+
+export interface FatturaPAOptions {
+  progressive: string; // Progressivo univoco del file (max 5 caratteri alfanumerici)
+  originalInvoice?: Pick<Invoice, 'number' | 'issueDate'>; // Fattura rettificata, per le note di credito
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const amount = (value: number) => round(value).toFixed(2);
+
+// Quantità e prezzi unitari ammettono da 2 a 8 decimali
+const decimal = (value: number) => {
+  const fixed = value.toFixed(8).replace(/0+$/, '');
+  const decimals = fixed.split('.')[1] || '';
+  return decimals.length < 2 ? value.toFixed(2) : fixed;
+};
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+// Elemento XML con contenuto testuale o figli già serializzati; i valori assenti sono omessi
+function element(name: string, content: string | number | undefined | null | (string | null)[]): string | null {
+  if (content === undefined || content === null || content === '') {
+    return null;
+  }
+  if (Array.isArray(content)) {
+    const children = content.filter((child): child is string => child !== null);
+    return children.length > 0 ? `<${name}>${children.join('')}</${name}>` : null;
+  }
+  return `<${name}>${escapeXml(String(content))}</${name}>`;
+}
+
+// Le note di credito riducono il fatturato
+const CREDIT_NOTE_TYPES = ['TD04'];
+
+export const documentSign = (documentType?: string | null) => CREDIT_NOTE_TYPES.includes(documentType || '') ? -1 : 1;
+
+/**
+ * Dati del cessionario dall'anagrafica clienti, copiati nella fattura al momento dell'emissione
+ */
+export function toInvoiceCustomer(customer: Customer): InvoiceCustomer {
+  return {
+    denomination: customer.name,
+    vatNumber: customer.vatNumber || undefined,
+    fiscalCode: customer.fiscalCode || undefined,
+    countryCode: customer.countryCode,
+    address: customer.address || '',
+    postalCode: customer.postalCode || '',
+    city: customer.city || '',
+    province: customer.province || undefined,
+    sdiCode: customer.sdiCode || undefined,
+    pec: customer.pec || undefined,
+  };
+}
+
+/**
+ * Progressivo del file in base 36 dal contatore degli invii dell'attività
+ */
+export function toSdiProgressive(id: number): string {
+  return id.toString(36).toUpperCase().padStart(5, '0');
+}
+
+/**
+ * Nome del file da trasmettere allo SDI: IT<partita IVA>_<progressivo>.xml
+ */
+export function getSdiFileName(vatNumber: string, progressive: string, countryCode = 'IT'): string {
+  return `${countryCode}${vatNumber}_${progressive}.xml`;
+}
+
+const summaryKey = (vatRate: number, vatNature?: string) => `${vatRate}|${vatRate > 0 ? '' : vatNature || ''}`;
+
+/**
+ * Bollo dovuto se gli importi non soggetti a IVA del documento superano la soglia
+ */
+export function requiresStampDuty(summary: InvoiceSummaryRow[]): boolean {
+  const exemptAmount = summary
+    .filter(row => row.vatRate === 0 && !isStampDutyExemptNature(row.vatNature))
+    .reduce((sum, row) => sum + row.taxableAmount, 0);
+  return exemptAmount > STAMP_DUTY_THRESHOLD;
+}
+
+/**
+ * Imponibile, imposta e riepilogo per aliquota e natura delle righe della fattura.
+ * La rivalsa INPS segue l'aliquota (o la natura) della prima riga e rientra nell'imponibile.
+ */
+export function calculateInvoiceTotals(lines: InvoiceLine[], options: { inpsRivalsa?: boolean } = {}): InvoiceTotals {
+  const groups = new Map<string, InvoiceSummaryRow>();
+  const addToSummary = (vatRate: number, vatNature: string | undefined, amount: number) => {
+    const key = summaryKey(vatRate, vatNature);
+    const row = groups.get(key) || {
+      vatRate,
+      vatNature: vatRate > 0 ? undefined : vatNature,
+      taxableAmount: 0,
+      vatAmount: 0,
+    };
+    row.taxableAmount = round(row.taxableAmount + amount);
+    groups.set(key, row);
+  };
+
+  for (const line of lines) {
+    addToSummary(line.vatRate, line.vatNature, round(line.quantity * line.unitPrice));
+  }
+
+  let rivalsa: InvoiceRivalsa | undefined;
+  if (options.inpsRivalsa && lines.length > 0) {
+    const baseAmount = round(lines.reduce((sum, line) => sum + round(line.quantity * line.unitPrice), 0));
+    rivalsa = {
+      rate: INPS_RIVALSA_RATE,
+      baseAmount,
+      amount: round(baseAmount * INPS_RIVALSA_RATE / 100),
+      vatRate: lines[0].vatRate,
+      vatNature: lines[0].vatRate > 0 ? undefined : lines[0].vatNature,
+    };
+    addToSummary(rivalsa.vatRate, rivalsa.vatNature, rivalsa.amount);
+  }
+
+  const summary = Array.from(groups.values()).map(row => ({
+    ...row,
+    vatAmount: round(row.taxableAmount * row.vatRate / 100),
+  }));
+  const taxableAmount = round(summary.reduce((sum, row) => sum + row.taxableAmount, 0));
+  const vatAmount = round(summary.reduce((sum, row) => sum + row.vatAmount, 0));
+
+  return {
+    taxableAmount,
+    vatAmount,
+    totalAmount: round(taxableAmount + vatAmount),
+    summary,
+    rivalsa,
+    stampDuty: requiresStampDuty(summary),
+  };
+}
+
+function anagrafica(subject: { denomination?: string; firstName?: string; lastName?: string }) {
+  if (subject.denomination) {
+    return element('Anagrafica', [element('Denominazione', subject.denomination)]);
+  }
+  return element('Anagrafica', [element('Nome', subject.firstName), element('Cognome', subject.lastName)]);
+}
+
+function sede(address: { address: string; postalCode: string; city: string; province?: string | null; countryCode?: string }) {
+  return element('Sede', [
+    element('Indirizzo', address.address),
+    element('CAP', address.postalCode),
+    element('Comune', address.city),
+    element('Provincia', address.province),
+    element('Nazione', address.countryCode || 'IT'),
+  ]);
+}
+
+function validateDocument(invoice: Invoice, business: Business): string[] {
+  const errors: string[] = [];
+  const customer = invoice.customer;
+
+  if (!business.vatNumber) errors.push("Partita IVA dell'attività mancante");
+  if (!business.address || !business.postalCode || !business.city) errors.push("Indirizzo dell'attività incompleto");
+  if (!invoice.number) errors.push('Numero della fattura mancante');
+  if (!invoice.issueDate) errors.push('Data della fattura mancante');
+  if (!invoice.lines || invoice.lines.length === 0) errors.push('La fattura non contiene righe');
+  if (!customer) {
+    errors.push('Cliente mancante');
+  } else {
+    if (!customer.vatNumber && !customer.fiscalCode) errors.push('Il cliente deve avere partita IVA o codice fiscale');
+    if (!customer.denomination && !(customer.firstName && customer.lastName)) errors.push('Denominazione o nome e cognome del cliente mancanti');
+  }
+  for (const line of invoice.lines || []) {
+    if (line.vatRate === 0 && !line.vatNature) errors.push(`Natura IVA mancante per la riga "${line.description}"`);
+  }
+
+  return errors;
+}
+
+/**
+ * Genera l'XML FatturaPA della fattura. Lancia un errore se mancano dati obbligatori.
+ */
+export function buildFatturaPAXml(invoice: Invoice, business: Business, options: FatturaPAOptions): string {
+  const errors = validateDocument(invoice, business);
+  if (errors.length > 0) {
+    throw new Error(errors.join(', '));
+  }
+
+  const customer = invoice.customer as InvoiceCustomer;
+  const lines = invoice.lines as InvoiceLine[];
+  const totals = calculateInvoiceTotals(lines, { inpsRivalsa: invoice.inpsRivalsa || false });
+  const rivalsa = totals.rivalsa;
+  const withholdingAmount = Math.abs(invoice.withholdingAmount || 0);
+  const hasWithholding = withholdingAmount > 0 && Boolean(invoice.withholdingRate);
+  const isForfettario = business.fiscalRegime === 'RF19';
+  const isSplitPayment = getVatTreatment(invoice) === 'SPLIT_PAYMENT';
+  // In scissione dei pagamenti il cliente non versa l'IVA al cedente
+  const paymentAmount = totals.totalAmount - withholdingAmount - (isSplitPayment ? totals.vatAmount : 0);
+  const sellerCountry = 'IT';
+
+  const header = element('FatturaElettronicaHeader', [
+    element('DatiTrasmissione', [
+      element('IdTrasmittente', [
+        element('IdPaese', sellerCountry),
+        element('IdCodice', business.fiscalCode || business.vatNumber),
+      ]),
+      element('ProgressivoInvio', options.progressive),
+      element('FormatoTrasmissione', 'FPR12'),
+      // Senza codice destinatario la fattura viene recapitata tramite PEC o nell'area riservata del cliente
+      element('CodiceDestinatario', customer.sdiCode || (customer.countryCode !== 'IT' ? 'XXXXXXX' : '0000000')),
+      customer.sdiCode ? null : element('PECDestinatario', customer.pec),
+    ]),
+    element('CedentePrestatore', [
+      element('DatiAnagrafici', [
+        element('IdFiscaleIVA', [element('IdPaese', sellerCountry), element('IdCodice', business.vatNumber)]),
+        element('CodiceFiscale', business.fiscalCode),
+        anagrafica({ denomination: business.businessName }),
+        element('RegimeFiscale', business.fiscalRegime || 'RF19'),
+      ]),
+      sede({ address: business.address!, postalCode: business.postalCode!, city: business.city!, province: business.province }),
+    ]),
+    element('CessionarioCommittente', [
+      element('DatiAnagrafici', [
+        customer.vatNumber
+          ? element('IdFiscaleIVA', [element('IdPaese', customer.countryCode), element('IdCodice', customer.vatNumber)])
+          : null,
+        element('CodiceFiscale', customer.fiscalCode),
+        anagrafica(customer),
+      ]),
+      sede(customer),
+    ]),
+  ]);
+
+  const body = element('FatturaElettronicaBody', [
+    element('DatiGenerali', [
+      element('DatiGeneraliDocumento', [
+        element('TipoDocumento', invoice.documentType || 'TD01'),
+        element('Divisa', 'EUR'),
+        element('Data', invoice.issueDate),
+        element('Numero', invoice.number),
+        hasWithholding
+          ? element('DatiRitenuta', [
+              element('TipoRitenuta', WITHHOLDING_TYPE),
+              element('ImportoRitenuta', amount(withholdingAmount)),
+              element('AliquotaRitenuta', amount(invoice.withholdingRate!)),
+              element('CausalePagamento', WITHHOLDING_PAYMENT_REASON),
+            ])
+          : null,
+        invoice.stampDuty
+          ? element('DatiBollo', [element('BolloVirtuale', 'SI'), element('ImportoBollo', amount(STAMP_DUTY_AMOUNT))])
+          : null,
+        rivalsa
+          ? element('DatiCassaPrevidenziale', [
+              element('TipoCassa', INPS_FUND_TYPE),
+              element('AlCassa', amount(rivalsa.rate)),
+              element('ImportoContributoCassa', amount(rivalsa.amount)),
+              element('ImponibileCassa', amount(rivalsa.baseAmount)),
+              element('AliquotaIVA', amount(rivalsa.vatRate)),
+              hasWithholding ? element('Ritenuta', 'SI') : null,
+              rivalsa.vatRate === 0 ? element('Natura', rivalsa.vatNature) : null,
+            ])
+          : null,
+        element('ImportoTotaleDocumento', amount(totals.totalAmount)),
+        element('Causale', invoice.description),
+        isForfettario ? element('Causale', FORFETTARIO_NOTE) : null,
+      ]),
+      options.originalInvoice
+        ? element('DatiFattureCollegate', [
+            element('IdDocumento', options.originalInvoice.number),
+            element('Data', options.originalInvoice.issueDate),
+          ])
+        : null,
+    ]),
+    element('DatiBeniServizi', [
+      ...lines.map((line, index) => element('DettaglioLinee', [
+        element('NumeroLinea', index + 1),
+        element('Descrizione', line.description),
+        element('Quantita', decimal(line.quantity)),
+        element('PrezzoUnitario', decimal(line.unitPrice)),
+        element('PrezzoTotale', amount(line.quantity * line.unitPrice)),
+        element('AliquotaIVA', amount(line.vatRate)),
+        hasWithholding ? element('Ritenuta', 'SI') : null,
+        line.vatRate === 0 ? element('Natura', line.vatNature) : null,
+      ])),
+      ...totals.summary.map(row => element('DatiRiepilogo', [
+        element('AliquotaIVA', amount(row.vatRate)),
+        element('Natura', row.vatNature),
+        element('ImponibileImporto', amount(row.taxableAmount)),
+        element('Imposta', amount(row.vatAmount)),
+        row.vatRate > 0 ? element('EsigibilitaIVA', isSplitPayment ? SPLIT_PAYMENT_ESIGIBILITA : 'I') : null,
+        row.vatNature === FORFETTARIO_VAT_NATURE && isForfettario
+          ? element('RiferimentoNormativo', 'Art. 1, commi 54-89, L. 190/2014')
+          : null,
+        row.vatRate > 0 && isSplitPayment ? element('RiferimentoNormativo', 'Scissione dei pagamenti, art. 17-ter DPR 633/72') : null,
+        isReverseChargeNature(row.vatNature) ? element('RiferimentoNormativo', 'Inversione contabile, art. 17 DPR 633/72') : null,
+      ])),
+    ]),
+    element('DatiPagamento', [
+      element('CondizioniPagamento', 'TP02'), // Pagamento completo
+      element('DettaglioPagamento', [
+        element('ModalitaPagamento', invoice.paymentMethod || 'MP05'),
+        element('DataScadenzaPagamento', invoice.paymentDueDate),
+        // Il cliente versa il totale al netto della ritenuta
+        element('ImportoPagamento', amount(paymentAmount)),
+        element('IBAN', business.iban),
+      ]),
+    ]),
+  ]);
+
+  return '<?xml version="1.0" encoding="UTF-8"?>\n'
+    + `<p:FatturaElettronica xmlns:p="${FATTURAPA_NAMESPACE}" xmlns:ds="http://www.w3.org/2000/09/xmldsig#" versione="FPR12">`
+    + header
+    + body
+    + '</p:FatturaElettronica>\n';
+}
+
+const REPEATED_ELEMENTS = ['FatturaElettronicaBody', 'DatiRitenuta', 'DatiCassaPrevidenziale', 'DettaglioLinee', 'DatiRiepilogo', 'DatiPagamento', 'DettaglioPagamento', 'Causale', 'DatiFattureCollegate'];
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: true,
+  removeNSPrefix: true,
+  parseTagValue: false, // Codici come CAP e partita IVA restano stringhe
+  trimValues: true,
+  isArray: (name) => REPEATED_ELEMENTS.includes(name),
+});
+
+const toNumber = (value: unknown) => value === undefined || value === '' ? 0 : parseFloat(String(value));
+
+function parseCustomer(cessionario: any, transmission: any): InvoiceCustomer {
+  const anagrafica = cessionario?.DatiAnagrafici?.Anagrafica || {};
+  const address = cessionario?.Sede || {};
+  const sdiCode = transmission?.CodiceDestinatario;
+
+  return {
+    denomination: anagrafica.Denominazione || undefined,
+    firstName: anagrafica.Nome || undefined,
+    lastName: anagrafica.Cognome || undefined,
+    vatNumber: cessionario?.DatiAnagrafici?.IdFiscaleIVA?.IdCodice || undefined,
+    fiscalCode: cessionario?.DatiAnagrafici?.CodiceFiscale || undefined,
+    countryCode: address.Nazione || 'IT',
+    address: [address.Indirizzo, address.NumeroCivico].filter(Boolean).join(' '),
+    postalCode: address.CAP || '',
+    city: address.Comune || '',
+    province: address.Provincia || undefined,
+    sdiCode: sdiCode && sdiCode !== '0000000' ? sdiCode : undefined,
+    pec: transmission?.PECDestinatario || undefined,
+  };
+}
+
+function parseLine(line: any): InvoiceLine {
+  const quantity = line.Quantita ? toNumber(line.Quantita) : 1;
+  const unitPrice = toNumber(line.PrezzoUnitario);
+  const totalPrice = toNumber(line.PrezzoTotale);
+
+  // Con sconti o maggiorazioni il totale di riga non coincide con quantità per prezzo
+  const matchesTotal = round(quantity * unitPrice) === round(totalPrice);
+
+  return {
+    description: line.Descrizione || '',
+    quantity: matchesTotal ? quantity : 1,
+    unitPrice: matchesTotal ? unitPrice : totalPrice,
+    vatRate: toNumber(line.AliquotaIVA),
+    vatNature: line.Natura || undefined,
+  };
+}
+
+/**
+ * Legge un file FatturaPA. Lancia un errore se il documento non è una fattura elettronica.
+ */
+export function parseFatturaPAXml(xml: string): ParsedFatturaPA {
+  const root = xmlParser.parse(xml).FatturaElettronica;
+  if (!root) {
+    throw new Error('Il file non contiene una fattura elettronica');
+  }
+
+  const header = root.FatturaElettronicaHeader || {};
+  const seller = header.CedentePrestatore?.DatiAnagrafici || {};
+  const customer = parseCustomer(header.CessionarioCommittente, header.DatiTrasmissione);
+
+  const documents = (root.FatturaElettronicaBody || []).map((body: any): ParsedInvoiceDocument => {
+    const general = body.DatiGenerali?.DatiGeneraliDocumento || {};
+    const goods = body.DatiBeniServizi || {};
+    const summary = goods.DatiRiepilogo || [];
+    const payment = body.DatiPagamento?.[0]?.DettaglioPagamento?.[0];
+    const inpsFund = (general.DatiCassaPrevidenziale || []).find((fund: any) => fund.TipoCassa === INPS_FUND_TYPE);
+    // Ritenute d'acconto IRPEF (persone fisiche e giuridiche), escluse quelle previdenziali
+    const withholdings = (general.DatiRitenuta || []).filter((item: any) => ['RT01', 'RT02'].includes(item.TipoRitenuta));
+
+    const taxableAmount = round(summary.reduce((sum: number, row: any) => sum + toNumber(row.ImponibileImporto), 0));
+    const vatAmount = round(summary.reduce((sum: number, row: any) => sum + toNumber(row.Imposta), 0));
+    // Trattamento dall'esigibilità e dalle nature del riepilogo; le esenzioni restano ordinarie
+    const reverseChargeRow = summary.find((row: any) => isReverseChargeNature(row.Natura));
+    const vatTreatment: VatTreatment = summary.some((row: any) => row.EsigibilitaIVA === SPLIT_PAYMENT_ESIGIBILITA)
+      ? 'SPLIT_PAYMENT'
+      : summary.length > 0 && summary.every((row: any) => isReverseChargeNature(row.Natura)) ? 'REVERSE_CHARGE' : 'STANDARD';
+
+    return {
+      documentType: general.TipoDocumento || 'TD01',
+      number: general.Numero || '',
+      issueDate: general.Data || '',
+      customer,
+      lines: (goods.DettaglioLinee || []).map(parseLine),
+      description: general.Causale?.[0],
+      stampDuty: general.DatiBollo?.BolloVirtuale === 'SI',
+      inpsRivalsa: Boolean(inpsFund),
+      rivalsaAmount: inpsFund ? toNumber(inpsFund.ImportoContributoCassa) : 0,
+      withholdingRate: withholdings.length > 0 ? toNumber(withholdings[0].AliquotaRitenuta) : undefined,
+      withholdingAmount: round(withholdings.reduce((sum: number, item: any) => sum + toNumber(item.ImportoRitenuta), 0)),
+      paymentMethod: payment?.ModalitaPagamento,
+      paymentDueDate: payment?.DataScadenzaPagamento,
+      relatedInvoiceNumber: body.DatiGenerali?.DatiFattureCollegate?.[0]?.IdDocumento,
+      vatTreatment,
+      vatNature: vatTreatment === 'REVERSE_CHARGE' ? reverseChargeRow.Natura : undefined,
+      taxableAmount,
+      vatAmount,
+      totalAmount: general.ImportoTotaleDocumento ? toNumber(general.ImportoTotaleDocumento) : round(taxableAmount + vatAmount),
+    };
+  });
+
+  return {
+    sellerVatNumber: seller.IdFiscaleIVA?.IdCodice,
+    sellerName: seller.Anagrafica?.Denominazione
+      || [seller.Anagrafica?.Nome, seller.Anagrafica?.Cognome].filter(Boolean).join(' ')
+      || undefined,
+    documents,
+  };
+}
@@ -0,0 +1,103 @@
+// shared/lib/fiscal-calendar.ts
+// Calendario fiscale: festività nazionali, slittamento al primo giorno lavorativo e proroga di agosto
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const toIso = (date: Date) => `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+
+const parseIso = (isoDate: string) => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+// Festività nazionali a data fissa (MM-DD)
+const FIXED_HOLIDAYS = [
+  '01-01', // Capodanno
+  '01-06', // Epifania
+  '04-25', // Festa della Liberazione
+  '05-01', // Festa dei Lavoratori
+  '06-02', // Festa della Repubblica
+  '08-15', // Ferragosto
+  '11-01', // Ognissanti
+  '12-08', // Immacolata Concezione
+  '12-25', // Natale
+  '12-26', // Santo Stefano
+];
+
+// I versamenti in scadenza dal 1° al 20 agosto si effettuano entro il 20 agosto (art. 3-quater D.L. 16/2012)
+const AUGUST_SUSPENSION_END = 20;
+
+/**
+ * Domenica di Pasqua (algoritmo di Meeus/Jones/Butcher)
+ */
+export function getEasterSunday(year: number): string {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Festività nazionali dell'anno, compreso il Lunedì dell'Angelo
+ */
+export function getItalianHolidays(year: number): string[] {
+  const easterMonday = parseIso(getEasterSunday(year));
+  easterMonday.setUTCDate(easterMonday.getUTCDate() + 1);
+
+  return [...FIXED_HOLIDAYS.map(day => `${year}-${day}`), toIso(easterMonday)].sort();
+}
+
+export function isBusinessDay(isoDate: string): boolean {
+  const weekDay = parseIso(isoDate).getUTCDay();
+  if (weekDay === 0 || weekDay === 6) {
+    return false;
+  }
+  return !getItalianHolidays(parseInt(isoDate.slice(0, 4))).includes(isoDate);
+}
+
+/**
+ * Primo giorno lavorativo a partire dalla data indicata (inclusa)
+ */
+export function nextBusinessDay(isoDate: string): string {
+  const date = parseIso(isoDate);
+  while (!isBusinessDay(toIso(date))) {
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return toIso(date);
+}
+
+/**
+ * Scadenza effettiva di un versamento: proroga di agosto, poi slittamento
+ * al primo giorno lavorativo se cade di sabato, domenica o in un giorno festivo
+ */
+export function shiftDueDate(isoDate: string): string {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  if (month === 8 && day < AUGUST_SUSPENSION_END) {
+    return nextBusinessDay(`${year}-08-${AUGUST_SUSPENSION_END}`);
+  }
+  return nextBusinessDay(isoDate);
+}
+
+/**
+ * Scadenza fiscale nominale (giorno e mese) resa effettiva. I mesi oltre dicembre
+ * passano all'anno successivo: fiscalDueDate(2025, 14, 16) è il 16 febbraio 2026.
+ */
+export function fiscalDueDate(year: number, month: number, day: number): string {
+  const shiftedYear = year + Math.floor((month - 1) / 12);
+  const shiftedMonth = ((month - 1) % 12) + 1;
+  return shiftDueDate(`${shiftedYear}-${pad(shiftedMonth)}-${pad(day)}`);
+}
+
+// Formato DD/MM/YYYY usato dai risultati dei calcolatori
+export const toItalianDate = (isoDate: string) => isoDate.split('-').reverse().join('/');
@@ -0,0 +1,196 @@
+// shared/lib/forfettario-eligibility.ts
+// Verifica dei requisiti di accesso e permanenza nel regime forfettario (L. 190/2014, commi 54-57)
+
+import { resolveTaxRules, type ForfettarioLimits } from './tax-rules';
+
+export type EligibilityReasonCode =
+  | 'REVENUE_LIMIT_PREVIOUS_YEAR'
+  | 'REVENUE_LIMIT'
+  | 'REVENUE_EXIT_IMMEDIATE'
+  | 'EMPLOYEE_COSTS_PREVIOUS_YEAR'
+  | 'EMPLOYEE_COSTS'
+  | 'EMPLOYMENT_INCOME_PREVIOUS_YEAR'
+  | 'EMPLOYMENT_INCOME'
+  | 'CONTROLLED_COMPANY'
+  | 'FORMER_EMPLOYER';
+
+export type EligibilityStatus = 'ELIGIBLE' | 'EXIT_NEXT_YEAR' | 'EXIT_IMMEDIATE' | 'NOT_ELIGIBLE';
+
+export interface EligibilityInput {
+  year: number; // Anno oggetto di verifica
+  currentYearRevenue: number;
+  previousYearRevenue?: number;
+  currentYearEmployeeCosts?: number;
+  previousYearEmployeeCosts?: number;
+  currentYearEmploymentIncome?: number;
+  previousYearEmploymentIncome?: number;
+  employmentTerminated?: boolean; // Il limite sui redditi da lavoro dipendente non opera se il rapporto è cessato
+  controlsRelatedCompany?: boolean; // Controllo diretto o indiretto di SRL con attività riconducibile
+  worksMainlyForFormerEmployer?: boolean; // Attività prevalente verso datori di lavoro degli ultimi due anni
+}
+
+export interface EligibilityReason {
+  code: EligibilityReasonCode;
+  message: string;
+  effectiveYear: number; // Primo anno in cui il regime non è applicabile
+  threshold?: number;
+  actual?: number;
+}
+
+export interface EligibilityResult {
+  year: number;
+  rulesYear: number;
+  status: EligibilityStatus;
+  eligible: boolean; // Regime applicabile nell'anno verificato
+  lostFromYear: number | null;
+  reasons: EligibilityReason[];
+  limits: ForfettarioLimits;
+}
+
+const formatEuro = (amount: number) => `€${amount.toLocaleString('it-IT')}`;
+
+/**
+ * Verifica i requisiti del regime forfettario per l'anno indicato.
+ * Le soglie dell'anno precedente impediscono l'accesso nell'anno verificato; quelle
+ * superate nell'anno in corso e le cause ostative presenti comportano l'uscita dall'anno
+ * successivo, salvo il superamento di €100.000 di ricavi che fa cessare il regime subito.
+ */
+export function checkForfettarioEligibility(input: EligibilityInput): EligibilityResult {
+  const { year: rulesYear, rules } = resolveTaxRules(input.year);
+  const { limits } = rules.forfettario;
+  const { year } = input;
+  const reasons: EligibilityReason[] = [];
+
+  // Ricavi e compensi
+  if ((input.previousYearRevenue || 0) > limits.revenueLimit) {
+    reasons.push({
+      code: 'REVENUE_LIMIT_PREVIOUS_YEAR',
+      message: `Ricavi ${year - 1} superiori a ${formatEuro(limits.revenueLimit)}`,
+      effectiveYear: year,
+      threshold: limits.revenueLimit,
+      actual: input.previousYearRevenue,
+    });
+  }
+
+  if (input.currentYearRevenue > limits.revenueExitImmediate) {
+    reasons.push({
+      code: 'REVENUE_EXIT_IMMEDIATE',
+      message: `Ricavi ${year} superiori a ${formatEuro(limits.revenueExitImmediate)}: uscita immediata dal regime`,
+      effectiveYear: year,
+      threshold: limits.revenueExitImmediate,
+      actual: input.currentYearRevenue,
+    });
+  } else if (input.currentYearRevenue > limits.revenueLimit) {
+    reasons.push({
+      code: 'REVENUE_LIMIT',
+      message: `Ricavi ${year} superiori a ${formatEuro(limits.revenueLimit)}: uscita dal ${year + 1}`,
+      effectiveYear: year + 1,
+      threshold: limits.revenueLimit,
+      actual: input.currentYearRevenue,
+    });
+  }
+
+  // Spese per lavoro dipendente e collaboratori
+  if ((input.previousYearEmployeeCosts || 0) > limits.employeeCostsLimit) {
+    reasons.push({
+      code: 'EMPLOYEE_COSTS_PREVIOUS_YEAR',
+      message: `Spese per il personale ${year - 1} superiori a ${formatEuro(limits.employeeCostsLimit)}`,
+      effectiveYear: year,
+      threshold: limits.employeeCostsLimit,
+      actual: input.previousYearEmployeeCosts,
+    });
+  }
+
+  if ((input.currentYearEmployeeCosts || 0) > limits.employeeCostsLimit) {
+    reasons.push({
+      code: 'EMPLOYEE_COSTS',
+      message: `Spese per il personale ${year} superiori a ${formatEuro(limits.employeeCostsLimit)}: uscita dal ${year + 1}`,
+      effectiveYear: year + 1,
+      threshold: limits.employeeCostsLimit,
+      actual: input.currentYearEmployeeCosts,
+    });
+  }
+
+  // Redditi da lavoro dipendente e assimilati
+  if (!input.employmentTerminated) {
+    if ((input.previousYearEmploymentIncome || 0) > limits.employmentIncomeLimit) {
+      reasons.push({
+        code: 'EMPLOYMENT_INCOME_PREVIOUS_YEAR',
+        message: `Redditi da lavoro dipendente ${year - 1} superiori a ${formatEuro(limits.employmentIncomeLimit)}`,
+        effectiveYear: year,
+        threshold: limits.employmentIncomeLimit,
+        actual: input.previousYearEmploymentIncome,
+      });
+    }
+
+    if ((input.currentYearEmploymentIncome || 0) > limits.employmentIncomeLimit) {
+      reasons.push({
+        code: 'EMPLOYMENT_INCOME',
+        message: `Redditi da lavoro dipendente ${year} superiori a ${formatEuro(limits.employmentIncomeLimit)}: uscita dal ${year + 1}`,
+        effectiveYear: year + 1,
+        threshold: limits.employmentIncomeLimit,
+        actual: input.currentYearEmploymentIncome,
+      });
+    }
+  }
+
+  // Cause ostative: rilevano nell'anno in cui si verificano, con uscita dall'anno successivo
+  if (input.controlsRelatedCompany) {
+    reasons.push({
+      code: 'CONTROLLED_COMPANY',
+      message: `Controllo di una SRL che svolge attività riconducibili a quella forfettaria: uscita dal ${year + 1}`,
+      effectiveYear: year + 1,
+    });
+  }
+
+  if (input.worksMainlyForFormerEmployer) {
+    reasons.push({
+      code: 'FORMER_EMPLOYER',
+      message: `Attività svolta prevalentemente verso datori di lavoro degli ultimi due anni: uscita dal ${year + 1}`,
+      effectiveYear: year + 1,
+    });
+  }
+
+  const lostFromYear = reasons.length > 0
+    ? Math.min(...reasons.map(reason => reason.effectiveYear))
+    : null;
+
+  let status: EligibilityStatus = 'ELIGIBLE';
+  if (reasons.some(reason => reason.code.endsWith('_PREVIOUS_YEAR'))) {
+    status = 'NOT_ELIGIBLE';
+  } else if (reasons.some(reason => reason.code === 'REVENUE_EXIT_IMMEDIATE')) {
+    status = 'EXIT_IMMEDIATE';
+  } else if (lostFromYear !== null) {
+    status = 'EXIT_NEXT_YEAR';
+  }
+
+  return {
+    year,
+    rulesYear,
+    status,
+    eligible: lostFromYear === null || lostFromYear > year,
+    lostFromYear,
+    reasons,
+    limits,
+  };
+}
+
+/**
+ * Mese (1-12) in cui i ricavi cumulati dell'anno superano la soglia, o null se non la superano
+ */
+export function findThresholdCrossingMonth(
+  monthlyRevenue: Array<{ month: number; amount: number }>,
+  threshold: number
+): number | null {
+  const sorted = [...monthlyRevenue].sort((a, b) => a.month - b.month);
+  let cumulative = 0;
+
+  for (const entry of sorted) {
+    cumulative += entry.amount;
+    if (cumulative > threshold) {
+      return entry.month;
+    }
+  }
+
+  return null;
+}
@@ -1,5 +1,13 @@
 // Calcolatore delle tasse per Ditte Individuali in Regime Ordinario (Normativa 2025)
 
+import { getTaxRules, resolveTaxRules, type ContributionRules, type IrpefBracket } from './tax-rules';
+import { fiscalDueDate } from './fiscal-calendar';
+import type { VatDeadlineEntry } from './vat-settlement';
+import { estimateVatOnSales, forecastVatCredit } from './vat-treatment';
+
+// Anno d'imposta se non indicato nella richiesta
+export const DEFAULT_FISCAL_YEAR = 2025;
+
 export interface IndividualTaxCalculationInput {
   // Dati anagrafici e di attività
   startDate?: string;
@@ -38,6 +46,10 @@ export interface IndividualTaxCalculationInput {
   vatRegime: string;
   vatOnSales?: number;
   vatOnPurchases?: number;
+  vatDeadlines?: VatDeadlineEntry[]; // Liquidazioni dai documenti; senza, l'IVA è ripartita sui quattro trimestri
+  splitPaymentRevenue?: number; // Ricavi senza IVA a debito, esclusi dalla stima dell'IVA sulle vendite
+  reverseChargeRevenue?: number;
+  exemptRevenue?: number;
   hasVatDebt?: boolean;
   vatDebt?: number;
   
@@ -48,6 +60,7 @@ export interface IndividualTaxCalculationInput {
 
 export interface IndividualTaxCalculationResult {
   fiscalYear: number;
+  rulesYear: number; // Anno delle regole fiscali effettivamente applicate
   
   // Reddito d'impresa/professionale
   businessRevenue: number;
@@ -98,10 +111,13 @@ export interface IndividualTaxCalculationResult {
   // IVA
   vatAmount: number;
   vatQuarterly: number;
+  vatCredit: number; // Credito IVA annuale previsto
+  vatCreditRefundable: boolean; // Rimborsabile per aliquota media (art. 30, comma 3, lett. a, DPR 633/72)
   vatDeadlines: Array<{
     date: string;
     amount: number;
     type: string;
+    paymentType?: string;
   }>;
   
   // Acconti
@@ -139,56 +155,10 @@ export interface IndividualTaxCalculationResult {
   monthlyAccrual: number;
 }
 
-// Scaglioni IRPEF 2025
-export const IRPEF_BRACKETS = [
-  { min: 0, max: 28000, rate: 0.23 },
-  { min: 28000, max: 50000, rate: 0.35 },
-  { min: 50000, max: 55000, rate: 0.43 },
-  { min: 55000, max: Infinity, rate: 0.43 }
-];
+// Scaglioni IRPEF e aliquote contributive dell'anno di default (per anni diversi vedi shared/lib/tax-rules)
+export const IRPEF_BRACKETS = getTaxRules().irpef.brackets;
 
-// Aliquote contributive 2025 aggiornate dal manuale tecnico-operativo
-export const CONTRIBUTION_RATES = {
-  inps_gestione_separata: {
-    withoutOtherPension: 0.2607, // 26,07% (include 0,72% maternità + 0,35% ISCRO)
-    withOtherPension: 0.24, // 24%
-    pensioner: 0.24, // 24%
-    maxBase: 120607 // Massimale 2025
-  },
-  cassa_forense: {
-    subjectiveRate: 0.16, // 16% fino a €130.000
-    subjectiveRateHigh: 0.03, // 3% oltre €130.000
-    subjectiveThreshold: 130000,
-    integrativeRate: 0.04, // 4%
-    minimumSubjective: 2750, // Minimo soggettivo 2025
-    minimumIntegrative: 350 // Minimo integrativo 2025
-  },
-  inarcassa: {
-    subjectiveRate: 0.145, // 14,5% fino a €142.650
-    maxSubjectiveBase: 142650,
-    integrativeRate: 0.04, // 4% su volume d'affari
-    minimumIntegrative: 815, // Minimo integrativo 2025
-    maternity: 72 // Contributo maternità/paternità 2025
-  },
-  inps_artigiani: {
-    minimumIncome: 18555, // Reddito minimale 2025
-    fixedContribution: 4460.64, // Contributi fissi 2025
-    percentageRate1: 0.24, // 24% fino a €55.448
-    percentageRate2: 0.25, // 25% oltre €55.448
-    threshold: 55448,
-    maxBase2025_ante1996: 92413,
-    maxBase2025_post1996: 120607
-  },
-  inps_commercianti: {
-    minimumIncome: 18555, // Reddito minimale 2025
-    fixedContribution: 4549.70, // Contributi fissi 2025
-    percentageRate1: 0.2448, // 24,48% fino a €55.448
-    percentageRate2: 0.2548, // 25,48% oltre €55.448
-    threshold: 55448,
-    maxBase2025_ante1996: 92413,
-    maxBase2025_post1996: 120607
-  }
-};
+export const CONTRIBUTION_RATES = getTaxRules().contributions;
 
 // Addizionali regionali (medie - variano per regione)
 export const REGIONAL_SURCHARGE_RATES = {
@@ -200,11 +170,11 @@ export const REGIONAL_SURCHARGE_RATES = {
   'DEFAULT': 0.014
 };
 
-function calculateIrpef(taxableIncome: number): { grossAmount: number; rate: number } {
+function calculateIrpef(taxableIncome: number, brackets: IrpefBracket[]): { grossAmount: number; rate: number } {
   let totalTax = 0;
   let remainingIncome = taxableIncome;
   
-  for (const bracket of IRPEF_BRACKETS) {
+  for (const bracket of brackets) {
     if (remainingIncome <= 0) break;
     
     const taxableInThisBracket = Math.min(remainingIncome, bracket.max - bracket.min);
@@ -225,7 +195,8 @@ function calculateContributions(
   type: string, 
   hasOtherPension: boolean = false, 
   isPensioner: boolean = false,
-  rivalsa4Percent: boolean = false
+  rivalsa4Percent: boolean = false,
+  contributionRates: ContributionRules = CONTRIBUTION_RATES
 ) {
   let result = {
     type,
@@ -240,7 +211,7 @@ function calculateContributions(
   
   switch (type) {
     case 'inps_gestione_separata':
-      const rates = CONTRIBUTION_RATES.inps_gestione_separata;
+      const rates = contributionRates.inps_gestione_separata;
       const rate = isPensioner ? rates.withOtherPension : 
                    hasOtherPension ? rates.withOtherPension : 
                    rates.withoutOtherPension;
@@ -258,7 +229,7 @@ function calculateContributions(
       break;
       
     case 'cassa_forense':
-      const ratesForense = CONTRIBUTION_RATES.cassa_forense;
+      const ratesForense = contributionRates.cassa_forense;
       const subjectiveBase = Math.min(income, ratesForense.subjectiveThreshold);
       const subjectiveHigh = Math.max(0, income - ratesForense.subjectiveThreshold);
       const subjective = (subjectiveBase * ratesForense.subjectiveRate) + (subjectiveHigh * ratesForense.subjectiveRateHigh);
@@ -275,7 +246,7 @@ function calculateContributions(
       break;
       
     case 'inarcassa':
-      const ratesInarca = CONTRIBUTION_RATES.inarcassa;
+      const ratesInarca = contributionRates.inarcassa;
       const subjectiveInarca = Math.min(income, ratesInarca.maxSubjectiveBase) * ratesInarca.subjectiveRate;
       const integrativeInarca = Math.max(income * ratesInarca.integrativeRate, ratesInarca.minimumIntegrative);
       
@@ -291,7 +262,7 @@ function calculateContributions(
     case 'inps_artigiani':
     case 'inps_commercianti':
       const isCommercial = type === 'inps_commercianti';
-      const ratesArtig = isCommercial ? CONTRIBUTION_RATES.inps_commercianti : CONTRIBUTION_RATES.inps_artigiani;
+      const ratesArtig = isCommercial ? contributionRates.inps_commercianti : contributionRates.inps_artigiani;
       const fixed = ratesArtig.fixedContribution;
       
       if (income <= ratesArtig.minimumIncome) {
@@ -317,8 +288,7 @@ function createIndividualFiscalCalendar(
   irpefFirst: number,
   irpefSecond: number,
   contributions: number,
-  vatAmount: number,
-  vatRegime: string,
+  vatDeadlines: IndividualTaxCalculationResult['vatDeadlines'],
   fiscalYear: number = 2025
 ) {
   const calendar = [];
@@ -326,7 +296,7 @@ function createIndividualFiscalCalendar(
   // IRPEF - Acconti
   if (irpefFirst > 0) {
     calendar.push({
-      date: '2025-06-16',
+      date: fiscalDueDate(fiscalYear, 6, 30),
       amount: irpefFirst,
       type: 'IRPEF - I Acconto',
       category: 'IRPEF' as const,
@@ -336,7 +306,7 @@ function createIndividualFiscalCalendar(
   
   if (irpefSecond > 0) {
     calendar.push({
-      date: '2025-11-30',
+      date: fiscalDueDate(fiscalYear, 11, 30),
       amount: irpefSecond,
       type: 'IRPEF - II Acconto',
       category: 'IRPEF' as const,
@@ -349,28 +319,28 @@ function createIndividualFiscalCalendar(
   if (quarterlyContrib > 0) {
     calendar.push(
       {
-        date: '2025-05-16',
+        date: fiscalDueDate(fiscalYear, 5, 16),
         amount: quarterlyContrib,
         type: 'Contributi I Trim.',
         category: 'CONTRIBUTI' as const,
         description: 'Contributi previdenziali primo trimestre'
       },
       {
-        date: '2025-08-20',
+        date: fiscalDueDate(fiscalYear, 8, 16),
         amount: quarterlyContrib,
         type: 'Contributi II Trim.',
         category: 'CONTRIBUTI' as const,
         description: 'Contributi previdenziali secondo trimestre'
       },
       {
-        date: '2025-11-16',
+        date: fiscalDueDate(fiscalYear, 11, 16),
         amount: quarterlyContrib,
         type: 'Contributi III Trim.',
         category: 'CONTRIBUTI' as const,
         description: 'Contributi previdenziali terzo trimestre'
       },
       {
-        date: '2025-02-16',
+        date: fiscalDueDate(fiscalYear, 14, 16),
         amount: quarterlyContrib,
         type: 'Contributi IV Trim.',
         category: 'CONTRIBUTI' as const,
@@ -379,40 +349,14 @@ function createIndividualFiscalCalendar(
     );
   }
   
-  // IVA trimestrale
-  const vatQuarterly = vatAmount / 4;
-  if (vatQuarterly > 0) {
-    calendar.push(
-      {
-        date: '2025-04-16',
-        amount: vatQuarterly,
-        type: 'IVA I Trim.',
-        category: 'IVA' as const,
-        description: 'Liquidazione IVA primo trimestre'
-      },
-      {
-        date: '2025-07-16',
-        amount: vatQuarterly,
-        type: 'IVA II Trim.',
-        category: 'IVA' as const,
-        description: 'Liquidazione IVA secondo trimestre'
-      },
-      {
-        date: '2025-10-16',
-        amount: vatQuarterly,
-        type: 'IVA III Trim.',
-        category: 'IVA' as const,
-        description: 'Liquidazione IVA terzo trimestre'
-      },
-      {
-        date: '2026-01-16',
-        amount: vatQuarterly,
-        type: 'IVA IV Trim.',
-        category: 'IVA' as const,
-        description: 'Liquidazione IVA quarto trimestre'
-      }
-    );
-  }
+  // IVA
+  calendar.push(...vatDeadlines
+    .filter(deadline => deadline.amount > 0)
+    .map(deadline => ({
+      ...deadline,
+      category: 'IVA' as const,
+      description: deadline.type.startsWith('IVA') ? `Liquidazione ${deadline.type}` : deadline.type
+    })));
   
   return calendar.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 }
@@ -499,8 +443,9 @@ function createIndividualPaymentSchedule(
 }
 
 export function calculateIndividualTaxes(input: IndividualTaxCalculationInput): IndividualTaxCalculationResult {
-  const fiscalYear = input.fiscalYear || 2025;
+  const fiscalYear = input.fiscalYear || DEFAULT_FISCAL_YEAR;
   const startYear = input.startYear || (input.startDate ? new Date(input.startDate).getFullYear() : 2025);
+  const { year: rulesYear, rules } = resolveTaxRules(fiscalYear);
   
   // 1. CALCOLO REDDITO D'IMPRESA/PROFESSIONALE
   const businessIncome = Math.max(0, input.revenue - input.documentedExpenses);
@@ -509,7 +454,7 @@ export function calculateIndividualTaxes(input: IndividualTaxCalculationInput):
   const totalTaxableIncome = businessIncome + (input.otherIncome || 0) + (input.employmentIncome || 0);
   
   // 3. CALCOLO IRPEF
-  const irpefCalculation = calculateIrpef(totalTaxableIncome);
+  const irpefCalculation = calculateIrpef(totalTaxableIncome, rules.irpef.brackets);
   const irpefGrossAmount = irpefCalculation.grossAmount;
   
   // 4. DEDUZIONI (contributi previdenziali versati anno precedente)
@@ -518,7 +463,8 @@ export function calculateIndividualTaxes(input: IndividualTaxCalculationInput):
     input.contributionType,
     input.hasOtherPension,
     input.isPensioner,
-    input.rivalsa4Percent
+    input.rivalsa4Percent,
+    rules.contributions
   );
   
   // 5. IRPEF NETTA
@@ -529,10 +475,17 @@ export function calculateIndividualTaxes(input: IndividualTaxCalculationInput):
   const municipalSurcharge = totalTaxableIncome * 0.008; // Media comunale 0,8%
   
   // 7. IVA
-  const vatOnSales = input.vatOnSales || (input.revenue * 0.22); // Default 22%
-  const vatOnPurchases = input.vatOnPurchases || (input.documentedExpenses * 0.22);
+  const vatOnSales = input.vatOnSales ?? estimateVatOnSales(input.revenue, input); // 22% sui ricavi con IVA a debito
+  const vatOnPurchases = input.vatOnPurchases ?? (input.documentedExpenses * 0.22);
   const vatAmount = Math.max(0, vatOnSales - vatOnPurchases);
+  const vatCredit = forecastVatCredit({ revenue: input.revenue, purchases: input.documentedExpenses, vatOnSales, vatOnPurchases });
   const vatQuarterly = vatAmount / 4;
+  const vatDeadlines = input.vatDeadlines ?? [
+    { date: fiscalDueDate(fiscalYear, 4, 16), amount: vatQuarterly, type: 'IVA I Trim.' },
+    { date: fiscalDueDate(fiscalYear, 7, 16), amount: vatQuarterly, type: 'IVA II Trim.' },
+    { date: fiscalDueDate(fiscalYear, 10, 16), amount: vatQuarterly, type: 'IVA III Trim.' },
+    { date: fiscalDueDate(fiscalYear, 13, 16), amount: vatQuarterly, type: 'IVA IV Trim.' }
+  ];
   
   // 8. ACCONTI (basati su anno precedente)
   const previousTax = input.previousYearIrpef || (irpefNetAmount * 0.8);
@@ -554,8 +507,7 @@ export function calculateIndividualTaxes(input: IndividualTaxCalculationInput):
     irpefFirstAcconto,
     irpefSecondAcconto,
     totalContributions,
-    vatAmount,
-    input.vatRegime,
+    vatDeadlines,
     fiscalYear
   );
   
@@ -572,13 +524,14 @@ export function calculateIndividualTaxes(input: IndividualTaxCalculationInput):
     const businessIncome2025 = Math.max(0, input.revenue2025 - (input.documentedExpenses2025 || 0));
     const totalTaxableIncome2025 = businessIncome2025 + (input.otherIncome || 0) + (input.employmentIncome || 0);
     
-    const irpef2025Calculation = calculateIrpef(totalTaxableIncome2025);
+    const irpef2025Calculation = calculateIrpef(totalTaxableIncome2025, rules.irpef.brackets);
     const contribution2025Details = calculateContributions(
       businessIncome2025,
       input.contributionType,
       input.hasOtherPension,
       input.isPensioner,
-      input.rivalsa4Percent
+      input.rivalsa4Percent,
+      rules.contributions
     );
     
     const irpef2025Net = irpef2025Calculation.grossAmount;
@@ -615,6 +568,7 @@ export function calculateIndividualTaxes(input: IndividualTaxCalculationInput):
   
   return {
     fiscalYear,
+    rulesYear,
     
     // Reddito d'impresa/professionale
     businessRevenue: Math.round(input.revenue * 100) / 100,
@@ -643,12 +597,12 @@ export function calculateIndividualTaxes(input: IndividualTaxCalculationInput):
     // IVA
     vatAmount: Math.round(vatAmount * 100) / 100,
     vatQuarterly: Math.round(vatQuarterly * 100) / 100,
-    vatDeadlines: [
-      { date: '2025-04-16', amount: Math.round(vatQuarterly * 100) / 100, type: 'IVA I Trim.' },
-      { date: '2025-07-16', amount: Math.round(vatQuarterly * 100) / 100, type: 'IVA II Trim.' },
-      { date: '2025-10-16', amount: Math.round(vatQuarterly * 100) / 100, type: 'IVA III Trim.' },
-      { date: '2026-01-16', amount: Math.round(vatQuarterly * 100) / 100, type: 'IVA IV Trim.' }
-    ],
+    vatCredit: vatCredit.credit,
+    vatCreditRefundable: vatCredit.refundable,
+    vatDeadlines: vatDeadlines.map(deadline => ({
+      ...deadline,
+      amount: Math.round(deadline.amount * 100) / 100
+    })),
     
     // Acconti
     irpefFirstAcconto: Math.round(irpefFirstAcconto * 100) / 100,
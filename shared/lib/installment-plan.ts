@@ -0,0 +1,140 @@
+// shared/lib/installment-plan.ts
+// Rateizzazione del versamento di giugno (saldo e primo acconto) per i titolari di partita IVA
+
+import type { InsertPaymentDeadline } from '../schema';
+import { fiscalDueDate } from './fiscal-calendar';
+
+export const MAX_INSTALLMENTS = 7;
+
+// Interessi fissi per i titolari di partita IVA: 0,18% sulla seconda rata (16 giorni),
+// poi 0,33% per ogni mese successivo (4% annuo)
+const FIRST_INTEREST_RATE = 0.0018;
+const MONTHLY_INTEREST_RATE = 0.0033;
+
+// Codici tributo degli interessi sulle rate: regionali per l'IRAP, erariali per le altre imposte
+const INTEREST_TAX_CODE = '1668';
+const REGIONAL_INTEREST_TAX_CODE = '3805';
+
+export interface InstallmentPlanOptions {
+  year: number;
+  installments: number; // Numero di rate richieste (1-7)
+  deferred?: boolean; // Prima rata al 30 luglio con maggiorazione già inclusa nell'importo
+}
+
+// Importo del versamento di giugno per tipo di scadenza (saldo o primo acconto di ciascuna imposta)
+export interface InstallmentComponent {
+  paymentType: string;
+  amount: number;
+}
+
+export interface Installment {
+  number: number;
+  dueDate: string; // YYYY-MM-DD
+  principal: number;
+  interestRate: number;
+  interestAmount: number;
+  totalAmount: number;
+}
+
+export interface InstallmentPlan {
+  installments: Installment[]; // Totale di ciascuna rata
+  components: Array<{ paymentType: string; installments: Installment[] }>; // Rate di ciascun importo
+  totalPrincipal: number;
+  totalInterest: number;
+  totalAmount: number;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const installmentInterestTaxCode = (paymentType: string) =>
+  paymentType.startsWith('IRAP_') ? REGIONAL_INTEREST_TAX_CODE : INTEREST_TAX_CODE;
+
+/**
+ * Scadenza della rata: la prima al 30 giugno (30 luglio se differita), le successive
+ * il 16 di ogni mese (il 20 ad agosto per la proroga). L'ultima rata non può superare il 16 dicembre.
+ */
+function installmentDueDate(year: number, firstMonth: number, index: number): string {
+  return index === 0 ? fiscalDueDate(year, firstMonth, 30) : fiscalDueDate(year, firstMonth + index, 16);
+}
+
+// Suddivide un importo in rate mensili di pari importo con interessi dalla seconda rata
+function splitAmount(amount: number, count: number, year: number, firstMonth: number): Installment[] {
+  const basePrincipal = Math.floor((amount / count) * 100) / 100;
+  const installments: Installment[] = [];
+
+  for (let i = 0; i < count; i++) {
+    // Gli arrotondamenti confluiscono nell'ultima rata
+    const principal = i === count - 1 ? round(amount - basePrincipal * (count - 1)) : basePrincipal;
+    const interestRate = i === 0 ? 0 : FIRST_INTEREST_RATE + MONTHLY_INTEREST_RATE * (i - 1);
+    const interestAmount = round(principal * interestRate);
+
+    installments.push({
+      number: i + 1,
+      dueDate: installmentDueDate(year, firstMonth, i),
+      principal,
+      interestRate: round(interestRate * 10000) / 10000,
+      interestAmount,
+      totalAmount: round(principal + interestAmount),
+    });
+  }
+
+  return installments;
+}
+
+/**
+ * Rateizza separatamente ciascun importo del versamento di giugno, così che ogni rata
+ * si versi con il codice tributo del saldo o dell'acconto a cui si riferisce
+ */
+export function calculateInstallmentPlan(components: InstallmentComponent[], options: InstallmentPlanOptions): InstallmentPlan {
+  const firstMonth = options.deferred ? 7 : 6;
+  const maxInstallments = MAX_INSTALLMENTS - (firstMonth - 6);
+  const count = Math.max(1, Math.min(Math.floor(options.installments), maxInstallments));
+
+  const planned = components
+    .filter(component => component.amount > 0)
+    .map(component => ({
+      paymentType: component.paymentType,
+      installments: splitAmount(component.amount, count, options.year, firstMonth),
+    }));
+
+  const sum = (index: number, field: 'principal' | 'interestAmount' | 'totalAmount') =>
+    round(planned.reduce((total, component) => total + component.installments[index][field], 0));
+
+  const installments: Installment[] = Array.from({ length: count }, (_, i) => ({
+    number: i + 1,
+    dueDate: installmentDueDate(options.year, firstMonth, i),
+    principal: sum(i, 'principal'),
+    interestRate: planned[0]?.installments[i].interestRate || 0,
+    interestAmount: sum(i, 'interestAmount'),
+    totalAmount: sum(i, 'totalAmount'),
+  }));
+
+  const totalPrincipal = round(components.reduce((total, component) => total + Math.max(0, component.amount), 0));
+  const totalInterest = round(installments.reduce((total, installment) => total + installment.interestAmount, 0));
+
+  return {
+    installments,
+    components: planned,
+    totalPrincipal,
+    totalInterest,
+    totalAmount: round(totalPrincipal + totalInterest),
+  };
+}
+
+/**
+ * Converte il piano di rateizzazione in scadenze di pagamento da salvare: una per rata di ciascun importo,
+ * con il tipo di scadenza dell'importo rateizzato e il codice tributo dei suoi interessi
+ */
+export function installmentPlanToDeadlines(plan: InstallmentPlan, businessId: number): InsertPaymentDeadline[] {
+  return plan.components.flatMap(component => component.installments.map(installment => ({
+    businessId,
+    dueDate: installment.dueDate,
+    paymentType: component.paymentType,
+    amount: installment.totalAmount,
+    interestAmount: installment.interestAmount,
+    taxCode: installmentInterestTaxCode(component.paymentType),
+    installmentNumber: installment.number,
+    installmentCount: component.installments.length,
+    isPaid: false,
+  })));
+}
@@ -0,0 +1,180 @@
+// shared/lib/invoice-numbering.ts
+// Numerazione progressiva delle fatture per anno e sezionale: formato dei numeri e controllo di buchi e doppioni
+
+import type { Invoice } from '../schema';
+
+// Segnaposto: {n} progressivo, {n:3} progressivo su tre cifre, {series} sezionale, {year} anno
+export const DEFAULT_NUMBER_FORMAT = '{n}';
+export const DEFAULT_SERIES_NUMBER_FORMAT = '{n}/{series}';
+
+export interface InvoiceNumberParts {
+  sequenceNumber: number;
+  year: number;
+  series: string; // '' per la numerazione principale
+}
+
+export interface NumberingGap {
+  from: number;
+  to: number;
+}
+
+export interface NumberingDuplicate {
+  sequenceNumber: number;
+  invoiceIds: number[];
+}
+
+export interface NumberingCheck {
+  year: number;
+  series: string;
+  count: number;
+  lastNumber: number;
+  gaps: NumberingGap[]; // Intervalli di progressivi mancanti tra 1 e l'ultimo
+  duplicates: NumberingDuplicate[];
+}
+
+export interface NumberingReport {
+  sequences: NumberingCheck[];
+  unnumbered: number[]; // Fatture senza un numero riconoscibile
+}
+
+// Senza formato configurato il sezionale, se presente, segue il progressivo
+const resolveFormat = (format: string | null | undefined, series: string) =>
+  format || (series ? DEFAULT_SERIES_NUMBER_FORMAT : DEFAULT_NUMBER_FORMAT);
+
+/**
+ * Numero della fattura secondo il formato; il formato deve contenere {series} per numerare un sezionale
+ */
+export function formatInvoiceNumber(format: string | null | undefined, parts: InvoiceNumberParts): string {
+  const template = resolveFormat(format, parts.series);
+  if (parts.series && !template.includes('{series}')) {
+    throw new Error('Il formato dei numeri di fattura non contiene il sezionale {series}');
+  }
+
+  return template
+    .replace(/\{n(?::(\d))?\}/g, (_, width) => parts.sequenceNumber.toString().padStart(Number(width || 0), '0'))
+    .replace(/\{series\}/g, parts.series)
+    .replace(/\{year\}/g, parts.year.toString());
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Progressivo e sezionale ricavati dal numero, secondo il formato o, per i numeri registrati
+ * con altri gestionali, nella forma "12", "12/A" o "12/2025"
+ */
+export function parseInvoiceNumber(
+  number: string,
+  year: number,
+  format?: string | null
+): Omit<InvoiceNumberParts, 'year'> | null {
+  const text = number.trim();
+
+  for (const template of [format, DEFAULT_SERIES_NUMBER_FORMAT, DEFAULT_NUMBER_FORMAT]) {
+    if (!template) {
+      continue;
+    }
+    const groups: string[] = [];
+    const pattern = template.split(/(\{n(?::\d)?\}|\{series\}|\{year\})/).map(part => {
+      if (part.startsWith('{n')) {
+        groups.push('n');
+        return '(\\d+)';
+      }
+      if (part === '{series}') {
+        groups.push('series');
+        return '([A-Za-z0-9]+)';
+      }
+      return part === '{year}' ? escapeRegExp(year.toString()) : escapeRegExp(part);
+    }).join('');
+
+    const match = text.match(new RegExp(`^${pattern}$`, 'i'));
+    if (match) {
+      const series = groups.includes('series') ? match[groups.indexOf('series') + 1].toUpperCase() : '';
+      return {
+        sequenceNumber: Number(match[groups.indexOf('n') + 1]),
+        // "12/2025" indica l'anno, non un sezionale
+        series: series === year.toString() ? '' : series,
+      };
+    }
+  }
+  return null;
+}
+
+// Progressivo e sezionale della fattura: assegnati dalla numerazione o ricavati dal numero
+export function getInvoiceNumberParts(
+  invoice: Pick<Invoice, 'number' | 'year' | 'series' | 'sequenceNumber'>,
+  format?: string | null
+): Omit<InvoiceNumberParts, 'year'> | null {
+  if (invoice.sequenceNumber) {
+    return { sequenceNumber: invoice.sequenceNumber, series: invoice.series || '' };
+  }
+  return invoice.number ? parseInvoiceNumber(invoice.number, invoice.year, format) : null;
+}
+
+/**
+ * Ultimo progressivo già usato nell'anno e nel sezionale dalle fatture registrate
+ */
+export function getLastInvoiceNumber(
+  invoices: Array<Pick<Invoice, 'number' | 'year' | 'series' | 'sequenceNumber'>>,
+  year: number,
+  series: string,
+  format?: string | null
+): number {
+  return Math.max(0, ...invoices
+    .filter(invoice => invoice.year === year)
+    .map(invoice => getInvoiceNumberParts(invoice, format))
+    .filter(parts => parts !== null && parts.series === series)
+    .map(parts => parts!.sequenceNumber));
+}
+
+/**
+ * Verifica che ogni numerazione (anno e sezionale) sia continua e senza numeri ripetuti
+ */
+export function checkInvoiceNumbering(
+  invoices: Array<Pick<Invoice, 'id' | 'number' | 'year' | 'series' | 'sequenceNumber'>>,
+  format?: string | null
+): NumberingReport {
+  const bySequence = new Map<string, { year: number; series: string; numbers: Map<number, number[]> }>();
+  const unnumbered: number[] = [];
+
+  for (const invoice of invoices) {
+    const parts = getInvoiceNumberParts(invoice, format);
+    if (!parts) {
+      unnumbered.push(invoice.id);
+      continue;
+    }
+    const key = `${invoice.year}#${parts.series}`;
+    const sequence = bySequence.get(key) || { year: invoice.year, series: parts.series, numbers: new Map() };
+    sequence.numbers.set(parts.sequenceNumber, [...(sequence.numbers.get(parts.sequenceNumber) || []), invoice.id]);
+    bySequence.set(key, sequence);
+  }
+
+  const sequences = Array.from(bySequence.values()).map(({ year, series, numbers }) => {
+    const used = Array.from(numbers.keys()).sort((a, b) => a - b);
+    const lastNumber = used[used.length - 1];
+    const gaps: NumberingGap[] = [];
+    used.forEach((number, index) => {
+      const previous = index > 0 ? used[index - 1] : 0;
+      if (number > previous + 1) {
+        gaps.push({ from: previous + 1, to: number - 1 });
+      }
+    });
+    const duplicates = Array.from(numbers)
+      .filter(([, invoiceIds]) => invoiceIds.length > 1)
+      .map(([sequenceNumber, invoiceIds]) => ({ sequenceNumber, invoiceIds }))
+      .sort((a, b) => a.sequenceNumber - b.sequenceNumber);
+
+    return {
+      year,
+      series,
+      count: Array.from(numbers.values()).reduce((sum, invoiceIds) => sum + invoiceIds.length, 0),
+      lastNumber,
+      gaps,
+      duplicates,
+    };
+  });
+
+  return {
+    sequences: sequences.sort((a, b) => b.year - a.year || a.series.localeCompare(b.series)),
+    unnumbered,
+  };
+}
@@ -0,0 +1,243 @@
+// shared/lib/invoice-spreadsheet.ts
+// Import di fatture da fogli CSV/XLSX esportati da altri gestionali: riconoscimento delle colonne e lettura delle righe
+
+export type SpreadsheetField = 'date' | 'number' | 'customer' | 'taxableAmount' | 'vatAmount' | 'total';
+
+// Intestazione della colonna associata a ciascun campo
+export type SpreadsheetColumnMapping = Partial<Record<SpreadsheetField, string>>;
+
+export type SpreadsheetCell = string | number | boolean | null | undefined;
+
+export interface SpreadsheetRowValues {
+  date?: string; // YYYY-MM-DD
+  number?: string;
+  customer?: string;
+  taxableAmount?: number;
+  vatAmount?: number;
+  total?: number;
+}
+
+export interface SpreadsheetRow {
+  rowNumber: number; // Riga del foglio, contando l'intestazione
+  values: SpreadsheetRowValues;
+  errors: string[];
+}
+
+export const SPREADSHEET_FIELDS: SpreadsheetField[] = ['date', 'number', 'customer', 'taxableAmount', 'vatAmount', 'total'];
+
+// Intestazioni riconosciute per intero
+const EXACT_HEADERS: Record<SpreadsheetField, string[]> = {
+  date: ['data', 'data fattura', 'data documento', 'data emissione', 'date', 'invoice date', 'issue date'],
+  number: ['numero', 'n', 'nr', 'num', 'numero fattura', 'n fattura', 'numero documento', 'number', 'invoice number', 'invoice'],
+  customer: ['cliente', 'ragione sociale', 'denominazione', 'intestatario', 'destinatario', 'customer', 'client'],
+  taxableAmount: ['imponibile', 'totale imponibile', 'netto', 'taxable', 'taxable amount', 'net', 'net amount', 'subtotal'],
+  vatAmount: ['iva', 'imposta', 'totale iva', 'importo iva', 'vat', 'vat amount', 'tax'],
+  total: ['totale', 'totale documento', 'totale fattura', 'importo totale', 'lordo', 'total', 'gross', 'amount due'],
+};
+
+// Parole che, contenute nell'intestazione, indicano il campo; l'ordine dei campi risolve i casi ambigui (es. "Totale IVA")
+const HEADER_KEYWORDS: Array<[SpreadsheetField, string[]]> = [
+  ['date', ['data', 'date']],
+  ['vatAmount', ['iva', 'vat', 'imposta']],
+  ['taxableAmount', ['imponibile', 'taxable', 'netto', 'net']],
+  ['number', ['numero', 'number', 'nr', 'num']],
+  ['customer', ['cliente', 'customer', 'client', 'denominazione']],
+  ['total', ['totale', 'total', 'lordo', 'gross']],
+];
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export const normalizeHeader = (header: string) =>
+  header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Associa le colonne del foglio ai campi della fattura, prima per intestazione esatta e poi per parola chiave
+ */
+export function detectColumnMapping(headers: string[]): SpreadsheetColumnMapping {
+  const mapping: SpreadsheetColumnMapping = {};
+  const used = new Set<string>();
+  const normalized = headers.map(header => ({ header, name: normalizeHeader(header) }));
+
+  for (const field of SPREADSHEET_FIELDS) {
+    const match = normalized.find(({ header, name }) => !used.has(header) && EXACT_HEADERS[field].includes(name));
+    if (match) {
+      mapping[field] = match.header;
+      used.add(match.header);
+    }
+  }
+
+  for (const [field, keywords] of HEADER_KEYWORDS) {
+    if (mapping[field]) {
+      continue;
+    }
+    const match = normalized.find(({ header, name }) =>
+      !used.has(header) && name.split(' ').some(word => keywords.includes(word))
+    );
+    if (match) {
+      mapping[field] = match.header;
+      used.add(match.header);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Importo in formato italiano ("1.234,56") o anglosassone ("1,234.56"), con eventuale simbolo di valuta
+ */
+export function parseSpreadsheetAmount(value: SpreadsheetCell): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  let text = value.replace(/[€\s]|EUR/gi, '');
+  const negative = /^\(.*\)$/.test(text);
+  text = text.replace(/[()]/g, '');
+  if (text === '') {
+    return null;
+  }
+
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > lastDot) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else if (lastDot > lastComma && lastComma >= 0) {
+    text = text.replace(/,/g, '');
+  } else if (lastComma < 0 && /^-?\d{1,3}(\.\d{3})+$/.test(text)) {
+    // Solo punti a gruppi di tre cifre: separatore delle migliaia
+    text = text.replace(/\./g, '');
+  }
+
+  if (!/^-?\d+(\.\d+)?$/.test(text)) {
+    return null;
+  }
+  const amount = Number(text);
+  return negative ? -amount : amount;
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+function toISODate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/**
+ * Data in formato gg/mm/aaaa, aaaa-mm-gg o come numero seriale di Excel
+ */
+export function parseSpreadsheetDate(value: SpreadsheetCell): string | null {
+  if (typeof value === 'number') {
+    // Giorni dal 30/12/1899, l'origine delle date di Excel
+    const date = new Date(Date.UTC(1899, 11, 30) + Math.floor(value) * 86400000);
+    return Number.isFinite(date.getTime())
+      ? toISODate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate())
+      : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const text = value.trim();
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) {
+    return toISODate(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+  }
+  const local = text.match(/^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{2}|\d{4})$/);
+  if (local) {
+    const year = local[3].length === 2 ? 2000 + Number(local[3]) : Number(local[3]);
+    return toISODate(year, Number(local[2]), Number(local[1]));
+  }
+  return null;
+}
+
+const cellText = (value: SpreadsheetCell) =>
+  value === null || value === undefined ? '' : String(value).trim();
+
+/**
+ * Legge una riga del foglio secondo la mappatura. L'imponibile mancante si ricava da totale e IVA;
+ * se sono presenti tutti e tre devono essere coerenti.
+ */
+export function readSpreadsheetRow(
+  row: Record<string, SpreadsheetCell>,
+  mapping: SpreadsheetColumnMapping,
+  rowNumber: number
+): SpreadsheetRow {
+  const values: SpreadsheetRowValues = {};
+  const errors: string[] = [];
+  const cell = (field: SpreadsheetField) => mapping[field] ? row[mapping[field]!] : undefined;
+
+  const readAmount = (field: 'taxableAmount' | 'vatAmount' | 'total', label: string) => {
+    const raw = cell(field);
+    if (cellText(raw) === '') {
+      return;
+    }
+    const amount = parseSpreadsheetAmount(raw);
+    if (amount === null) {
+      errors.push(`${label} non valido: "${cellText(raw)}"`);
+    } else {
+      values[field] = round(amount);
+    }
+  };
+
+  const rawDate = cell('date');
+  if (cellText(rawDate) === '') {
+    errors.push('Data mancante');
+  } else {
+    const date = parseSpreadsheetDate(rawDate);
+    if (date) {
+      values.date = date;
+    } else {
+      errors.push(`Data non valida: "${cellText(rawDate)}"`);
+    }
+  }
+
+  if (cellText(cell('number'))) {
+    values.number = cellText(cell('number'));
+  }
+  if (cellText(cell('customer'))) {
+    values.customer = cellText(cell('customer'));
+  }
+
+  readAmount('taxableAmount', 'Imponibile');
+  readAmount('vatAmount', 'IVA');
+  readAmount('total', 'Totale');
+
+  if (values.taxableAmount === undefined && values.total !== undefined) {
+    values.taxableAmount = round(values.total - (values.vatAmount || 0));
+  }
+  if (values.taxableAmount === undefined) {
+    if (!errors.some(error => error.startsWith('Imponibile') || error.startsWith('Totale'))) {
+      errors.push('Imponibile o totale mancante');
+    }
+  } else if (values.total !== undefined && Math.abs(values.taxableAmount + (values.vatAmount || 0) - values.total) >= 0.01) {
+    errors.push('Imponibile più IVA non corrisponde al totale');
+  }
+
+  return { rowNumber, values, errors };
+}
+
+/**
+ * La mappatura deve indicare colonne presenti nel foglio, almeno la data e l'imponibile o il totale
+ */
+export function validateColumnMapping(mapping: SpreadsheetColumnMapping, headers: string[]): string[] {
+  const errors: string[] = [];
+  for (const field of SPREADSHEET_FIELDS) {
+    const column = mapping[field];
+    if (column && !headers.includes(column)) {
+      errors.push(`Colonna "${column}" non presente nel file`);
+    }
+  }
+  if (!mapping.date) {
+    errors.push('Indicare la colonna della data');
+  }
+  if (!mapping.taxableAmount && !mapping.total) {
+    errors.push("Indicare la colonna dell'imponibile o del totale");
+  }
+  return errors;
+}
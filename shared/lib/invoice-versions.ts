@@ -0,0 +1,40 @@
+// shared/lib/invoice-versions.ts
+// Storico delle modifiche alle fatture: campi cambiati e stato delle fatture a una certa data
+
+import type { Invoice, InvoiceVersion } from '../schema';
+
+// Campi che non descrivono il documento
+const IGNORED_FIELDS: Array<keyof Invoice> = ['id', 'businessId', 'createdAt'];
+
+/**
+ * Campi della fattura che la modifica cambia davvero
+ */
+export function getChangedFields(current: Invoice, updates: Partial<Invoice>): Array<keyof Invoice> {
+  return (Object.keys(updates) as Array<keyof Invoice>).filter(field =>
+    !IGNORED_FIELDS.includes(field)
+    && updates[field] !== undefined
+    && JSON.stringify(updates[field] ?? null) !== JSON.stringify(current[field] ?? null)
+  );
+}
+
+/**
+ * Fattura com'era al momento indicato, oppure null se non era ancora registrata.
+ * Ogni versione conserva lo stato precedente alla modifica avvenuta in quel momento.
+ */
+export function getInvoiceStateAt(invoice: Invoice, versions: InvoiceVersion[], at: Date): Invoice | null {
+  if (new Date(invoice.createdAt).getTime() > at.getTime()) {
+    return null;
+  }
+
+  const nextChange = versions
+    .filter(version => version.invoiceId === invoice.id && new Date(version.createdAt).getTime() > at.getTime())
+    .sort((a, b) => a.version - b.version)[0];
+
+  // La copia salvata in JSON perde il tipo della data di registrazione
+  return nextChange ? { ...nextChange.snapshot, createdAt: invoice.createdAt } : invoice;
+}
+
+export const getInvoicesAt = (invoices: Invoice[], versions: InvoiceVersion[], at: Date) =>
+  invoices
+    .map(invoice => getInvoiceStateAt(invoice, versions, at))
+    .filter((invoice): invoice is Invoice => invoice !== null);
@@ -0,0 +1,193 @@
+// shared/lib/lipe.ts
+// Comunicazione delle liquidazioni periodiche IVA (LIPE, fornitura IVP18) e quadri principali della dichiarazione IVA,
+// dalle liquidazioni calcolate sui documenti
+
+import type { Business } from '../schema';
+import { fiscalDueDate } from './fiscal-calendar';
+import type { VatPeriodSettlement, VatSettlementResult } from './vat-settlement';
+
+export const LIPE_NAMESPACE = 'urn:www.agenziaentrate.gov.it:specificheTecniche:sco:ivp';
+export const LIPE_SUPPLY_CODE = 'IVP18';
+
+// Righi del quadro VP per un mese o un trimestre
+export interface LipeModule {
+  month?: number;
+  quarter?: number;
+  label: string;
+  salesAmount: number; // VP2 totale operazioni attive
+  purchasesAmount: number; // VP3 totale operazioni passive
+  vatOnSales: number; // VP4 IVA esigibile
+  vatOnPurchases: number; // VP5 IVA detratta
+  vatBalance: number; // VP6 IVA dovuta, negativa a credito
+  previousDebit: number; // VP7 debito del periodo precedente non superiore a €25,82
+  previousPeriodCredit: number; // VP8
+  previousYearCredit: number; // VP9
+  interest: number; // VP12 interessi dei trimestrali
+  acconto: number; // VP13
+  amountDue: number; // VP14 importo da versare, negativo a credito
+}
+
+export interface VatReturnFrames {
+  year: number;
+  // Quadro VE: operazioni attive
+  ve: { taxableAmount: number; vatAmount: number };
+  // Quadro VF: operazioni passive e IVA ammessa in detrazione
+  vf: { taxableAmount: number; deductibleVat: number };
+  // Quadro VL: liquidazione dell'imposta annuale
+  vl: {
+    vatDebit: number;
+    vatCredit: number;
+    previousYearCredit: number;
+    periodicPayments: number;
+    acconto: number;
+    interest: number;
+    amountDue: number;
+    credit: number;
+  };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Importi con due decimali e la virgola
+const amount = (value: number) => round(Math.abs(value)).toFixed(2).replace('.', ',');
+
+const element = (name: string, content: string | number) => `<iv:${name}>${content}</iv:${name}>`;
+
+/**
+ * Scadenza della comunicazione del trimestre: fine del secondo mese successivo,
+ * il 16 settembre per il secondo e la fine di febbraio dell'anno dopo per il quarto
+ */
+export function getLipeDueDate(year: number, quarter: number): string {
+  switch (quarter) {
+    case 1: return fiscalDueDate(year, 5, 31);
+    case 2: return fiscalDueDate(year, 9, 16);
+    case 3: return fiscalDueDate(year, 11, 30);
+    default: return fiscalDueDate(year + 1, 2, new Date(Date.UTC(year + 1, 2, 0)).getUTCDate());
+  }
+}
+
+function toModule(settlement: VatSettlementResult, period: VatPeriodSettlement): LipeModule {
+  const isMonthly = settlement.frequency === 'MENSILE';
+  const isLast = period.period === (isMonthly ? 12 : 4);
+  // Gli interessi del IV trimestre si versano con la dichiarazione annuale
+  const interest = isLast && !isMonthly ? 0 : period.interest;
+  const acconto = isLast ? settlement.acconto.amount : 0;
+  // Le note di credito che superano le vendite del periodo si detraggono (art. 26 DPR 633/72)
+  const creditNotesVat = Math.max(0, -period.vatOnSales);
+
+  return {
+    ...(isMonthly ? { month: period.period } : { quarter: period.period }),
+    label: period.label,
+    salesAmount: Math.max(0, period.salesAmount),
+    purchasesAmount: period.purchasesAmount,
+    vatOnSales: Math.max(0, period.vatOnSales),
+    vatOnPurchases: round(period.vatOnPurchases + creditNotesVat),
+    vatBalance: round(period.vatOnSales - period.vatOnPurchases),
+    previousDebit: period.previousDebit,
+    previousPeriodCredit: period.period > 1 ? period.previousCredit : 0,
+    previousYearCredit: period.period === 1 ? period.previousCredit : 0,
+    interest,
+    acconto,
+    amountDue: round(period.balance + interest - acconto),
+  };
+}
+
+/**
+ * Moduli del quadro VP per il trimestre: i tre mesi per i mensili, il trimestre per i trimestrali
+ */
+export function getLipeModules(settlement: VatSettlementResult, quarter: number): LipeModule[] {
+  const periods = settlement.frequency === 'MENSILE'
+    ? settlement.periods.filter(period => Math.ceil(period.period / 3) === quarter)
+    : settlement.periods.filter(period => period.period === quarter);
+  return periods.map(period => toModule(settlement, period));
+}
+
+function validateLipe(business: Pick<Business, 'vatNumber' | 'fiscalCode'>, quarter: number): string[] {
+  const errors: string[] = [];
+  if (!business.vatNumber || !/^\d{11}$/.test(business.vatNumber)) {
+    errors.push("La partita IVA dell'attività deve essere di 11 cifre");
+  }
+  if (!Number.isInteger(quarter) || quarter < 1 || quarter > 4) {
+    errors.push('Il trimestre deve essere compreso tra 1 e 4');
+  }
+  return errors;
+}
+
+/**
+ * XML della comunicazione del trimestre; il codice fiscale è quello dell'attività o, in mancanza, la partita IVA
+ */
+export function buildLipeXml(
+  settlement: VatSettlementResult,
+  business: Pick<Business, 'vatNumber' | 'fiscalCode'>,
+  quarter: number
+): string {
+  const errors = validateLipe(business, quarter);
+  if (errors.length > 0) {
+    throw new Error(errors.join(', '));
+  }
+
+  const modules = getLipeModules(settlement, quarter).map((module, index) => [
+    element('NumeroModulo', index + 1),
+    module.month !== undefined ? element('Mese', module.month) : element('Trimestre', module.quarter!),
+    element('TotaleOperazioniAttive', amount(module.salesAmount)),
+    element('TotaleOperazioniPassive', amount(module.purchasesAmount)),
+    element('IvaEsigibile', amount(module.vatOnSales)),
+    element('IvaDetratta', amount(module.vatOnPurchases)),
+    element(module.vatBalance >= 0 ? 'IvaDovuta' : 'IvaCredito', amount(module.vatBalance)),
+    module.previousDebit > 0 ? element('DebitoPrecedente', amount(module.previousDebit)) : '',
+    module.previousPeriodCredit > 0 ? element('CreditoPeriodoPrecedente', amount(module.previousPeriodCredit)) : '',
+    module.previousYearCredit > 0 ? element('CreditoAnnoPrecedente', amount(module.previousYearCredit)) : '',
+    module.interest > 0 ? element('InteressiDovuti', amount(module.interest)) : '',
+    module.acconto > 0 ? element('Acconto', amount(module.acconto)) : '',
+    element(module.amountDue >= 0 ? 'ImportoDaVersare' : 'ImportoACredito', amount(module.amountDue)),
+  ].join(''));
+
+  const fiscalCode = (business.fiscalCode || business.vatNumber)!.toUpperCase();
+
+  return '<?xml version="1.0" encoding="UTF-8"?>'
+    + `<iv:Fornitura xmlns:iv="${LIPE_NAMESPACE}" xmlns:ds="http://www.w3.org/2000/09/xmldsig#">`
+    + element('Intestazione', element('CodiceFornitura', LIPE_SUPPLY_CODE))
+    + '<iv:Comunicazione identificativo="00001">'
+    + element('Frontespizio', [
+      element('CodiceFiscale', fiscalCode),
+      element('AnnoImposta', settlement.year),
+      element('PartitaIVA', business.vatNumber!),
+      element('FirmaDichiarazione', 1),
+    ].join(''))
+    + element('DatiContabili', modules.map(module => element('Modulo', module)).join(''))
+    + '</iv:Comunicazione>'
+    + '</iv:Fornitura>';
+}
+
+export const getLipeFileName = (fiscalCode: string, year: number, quarter: number) =>
+  `IT${fiscalCode.toUpperCase()}_LI_${year}T${quarter}.xml`;
+
+/**
+ * Quadri VE, VF e VL della dichiarazione annuale dalle liquidazioni dell'anno
+ */
+export function getVatReturnFrames(settlement: VatSettlementResult): VatReturnFrames {
+  const { annual, periods } = settlement;
+  const vatDue = round(annual.vatOnSales - annual.vatOnPurchases);
+
+  return {
+    year: settlement.year,
+    ve: {
+      taxableAmount: round(periods.reduce((sum, period) => sum + period.salesAmount, 0)),
+      vatAmount: annual.vatOnSales,
+    },
+    vf: {
+      taxableAmount: round(periods.reduce((sum, period) => sum + period.purchasesAmount, 0)),
+      deductibleVat: annual.vatOnPurchases,
+    },
+    vl: {
+      vatDebit: Math.max(0, vatDue),
+      vatCredit: Math.max(0, -vatDue),
+      previousYearCredit: annual.openingCredit,
+      periodicPayments: annual.periodicPayments,
+      acconto: annual.acconto,
+      interest: annual.interest,
+      amountDue: annual.amountDue,
+      credit: annual.credit,
+    },
+  };
+}
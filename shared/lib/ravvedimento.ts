@@ -0,0 +1,191 @@
+// shared/lib/ravvedimento.ts
+// Ravvedimento operoso per versamenti tardivi (art. 13 D.Lgs. 472/1997 e art. 13 D.Lgs. 471/1997)
+
+import type { F24TaxRow } from './f24';
+import { TAX_CODES } from './tax-codes';
+
+export type RavvedimentoBand = 'SPRINT' | 'SHORT' | 'INTERMEDIATE' | 'LONG' | 'VERY_LONG' | 'BEYOND_TWO_YEARS';
+
+export interface RavvedimentoInput {
+  amount: number; // Imposta versata in ritardo
+  dueDate: string; // YYYY-MM-DD
+  paymentDate: string; // YYYY-MM-DD
+  taxCode?: string; // Codice tributo dell'imposta
+  referenceYear?: number;
+}
+
+export interface InterestPeriod {
+  year: number;
+  days: number;
+  rate: number;
+  amount: number;
+}
+
+export interface RavvedimentoResult {
+  daysLate: number;
+  band: RavvedimentoBand;
+  sanctionRate: number; // Sanzione ridotta effettiva sull'imposta
+  sanctionAmount: number;
+  interestAmount: number;
+  interestPeriods: InterestPeriod[];
+  totalCost: number;
+  totalAmount: number; // Imposta + sanzione + interessi
+  f24Rows: F24TaxRow[]; // Righe aggiuntive da versare insieme all'imposta
+}
+
+// Tasso di interesse legale per anno (DM Economia)
+export const LEGAL_INTEREST_RATES: Record<number, number> = {
+  2019: 0.008,
+  2020: 0.0005,
+  2021: 0.0001,
+  2022: 0.0125,
+  2023: 0.05,
+  2024: 0.025,
+  2025: 0.02,
+  2026: 0.016,
+};
+
+// Le violazioni commesse dal 1° settembre 2024 hanno sanzione base al 25% (D.Lgs. 87/2024)
+const SANCTION_REFORM_DATE = '2024-09-01';
+const BASE_SANCTION_RATE = 0.30;
+const BASE_SANCTION_RATE_2024 = 0.25;
+
+type RavvedimentoCodes = { sanction: keyof typeof TAX_CODES; interest: keyof typeof TAX_CODES };
+
+const SUBSTITUTE_TAX_CODES: RavvedimentoCodes = { sanction: '8904', interest: '1992' };
+const IRES_CODES: RavvedimentoCodes = { sanction: '8918', interest: '1990' };
+const IRAP_CODES: RavvedimentoCodes = { sanction: '8907', interest: '1993' };
+const IRPEF_CODES: RavvedimentoCodes = { sanction: '8901', interest: '1989' };
+const VAT_CODES: RavvedimentoCodes = { sanction: '8904', interest: '1991' };
+
+// Codici tributo di sanzione e interessi per codice tributo dell'imposta
+const RAVVEDIMENTO_CODES: Record<string, RavvedimentoCodes> = {
+  '1790': SUBSTITUTE_TAX_CODES,
+  '1791': SUBSTITUTE_TAX_CODES,
+  '1792': SUBSTITUTE_TAX_CODES,
+  '2001': IRES_CODES,
+  '2002': IRES_CODES,
+  '2003': IRES_CODES,
+  '3800': IRAP_CODES,
+  '3812': IRAP_CODES,
+  '3813': IRAP_CODES,
+  '4001': IRPEF_CODES,
+  '4033': IRPEF_CODES,
+  '4034': IRPEF_CODES,
+  ...Object.fromEntries(Object.keys(TAX_CODES).filter(code => code.startsWith('60')).map(code => [code, VAT_CODES])),
+};
+
+// Il ravvedimento è calcolato solo per i codici tributo con sanzione e interessi noti
+export const supportsRavvedimento = (taxCode: string) => taxCode in RAVVEDIMENTO_CODES;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const toUtc = (isoDate: string) => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+function getLegalInterestRate(year: number): number {
+  if (LEGAL_INTEREST_RATES[year] !== undefined) {
+    return LEGAL_INTEREST_RATES[year];
+  }
+  const years = Object.keys(LEGAL_INTEREST_RATES).map(Number);
+  return LEGAL_INTEREST_RATES[year < Math.min(...years) ? Math.min(...years) : Math.max(...years)];
+}
+
+function getBand(daysLate: number): RavvedimentoBand {
+  if (daysLate <= 14) return 'SPRINT';
+  if (daysLate <= 30) return 'SHORT';
+  if (daysLate <= 90) return 'INTERMEDIATE';
+  if (daysLate <= 365) return 'LONG';
+  if (daysLate <= 730) return 'VERY_LONG';
+  return 'BEYOND_TWO_YEARS';
+}
+
+/**
+ * Sanzione ridotta: la sanzione per omesso versamento è dimezzata entro 90 giorni e ridotta
+ * a 1/15 per giorno entro 14 giorni; il ravvedimento la abbatte a 1/10, 1/9, 1/8, 1/7 o 1/6.
+ * Il limite di un anno approssima il termine della dichiarazione relativa all'anno della violazione.
+ */
+function getSanctionRate(daysLate: number, dueDate: string): number {
+  const isReformed = dueDate >= SANCTION_REFORM_DATE;
+  const baseRate = isReformed ? BASE_SANCTION_RATE_2024 : BASE_SANCTION_RATE;
+  const lateRate = daysLate <= 90 ? baseRate / 2 : baseRate;
+  const rawRate = daysLate <= 14 ? (lateRate / 15) * daysLate : lateRate;
+
+  switch (getBand(daysLate)) {
+    case 'SPRINT':
+    case 'SHORT':
+      return rawRate / 10;
+    case 'INTERMEDIATE':
+      return rawRate / 9;
+    case 'LONG':
+      return rawRate / 8;
+    case 'VERY_LONG':
+      return rawRate / 7;
+    default:
+      // La riduzione a 1/6 oltre i due anni è stata abrogata per le nuove violazioni
+      return rawRate / (isReformed ? 7 : 6);
+  }
+}
+
+/**
+ * Interessi al tasso legale per i giorni di ritardo, ripartiti per anno solare
+ */
+export function calculateLegalInterest(amount: number, dueDate: string, paymentDate: string): InterestPeriod[] {
+  const periods: InterestPeriod[] = [];
+  const end = toUtc(paymentDate);
+  let start = toUtc(dueDate); // Il giorno di scadenza non è conteggiato
+
+  while (start < end) {
+    const year = new Date(start + DAY_MS).getUTCFullYear();
+    const periodEnd = Math.min(end, Date.UTC(year, 11, 31));
+    const days = Math.round((periodEnd - start) / DAY_MS);
+    const rate = getLegalInterestRate(year);
+
+    periods.push({ year, days, rate, amount: round(amount * rate * days / 365) });
+    start = periodEnd;
+  }
+
+  return periods;
+}
+
+/**
+ * Calcola sanzione ridotta e interessi per il ravvedimento. Restituisce null se il versamento è puntuale.
+ */
+export function calculateRavvedimento(input: RavvedimentoInput): RavvedimentoResult | null {
+  const daysLate = Math.round((toUtc(input.paymentDate) - toUtc(input.dueDate)) / DAY_MS);
+  if (daysLate <= 0 || input.amount <= 0) {
+    return null;
+  }
+
+  const band = getBand(daysLate);
+  const sanctionRate = getSanctionRate(daysLate, input.dueDate);
+  const sanctionAmount = round(input.amount * sanctionRate);
+  const interestPeriods = calculateLegalInterest(input.amount, input.dueDate, input.paymentDate);
+  const interestAmount = round(interestPeriods.reduce((sum, period) => sum + period.amount, 0));
+  const totalCost = round(sanctionAmount + interestAmount);
+
+  const codes = RAVVEDIMENTO_CODES[input.taxCode || '1792'];
+  if (!codes) {
+    throw new Error(`Ravvedimento non disponibile per il codice tributo ${input.taxCode}`);
+  }
+  const referenceYear = input.referenceYear || parseInt(input.dueDate.slice(0, 4));
+
+  return {
+    daysLate,
+    band,
+    sanctionRate: Math.round(sanctionRate * 1000000) / 1000000,
+    sanctionAmount,
+    interestAmount,
+    interestPeriods,
+    totalCost,
+    totalAmount: round(input.amount + totalCost),
+    f24Rows: [
+      { taxCode: codes.sanction, description: TAX_CODES[codes.sanction], referenceYear, debit: sanctionAmount, credit: 0 },
+      { taxCode: codes.interest, description: TAX_CODES[codes.interest], referenceYear, debit: interestAmount, credit: 0 },
+    ].filter(row => row.debit > 0),
+  };
+}
@@ -0,0 +1,111 @@
+// shared/lib/recurring-schedule.ts
+// Calendario delle fatture ricorrenti: date di emissione di ogni modello ed emissioni da generare
+
+import type { RecurringInvoice, RecurringInvoiceRun } from '../schema';
+
+export type RecurringFrequency = 'MONTHLY' | 'QUARTERLY' | 'YEARLY';
+
+export interface UpcomingRecurringInvoice {
+  recurringInvoiceId: number;
+  date: string;
+  description: string;
+  amount: number;
+  skipped: boolean;
+}
+
+type ScheduleTemplate = Pick<RecurringInvoice, 'frequency' | 'startDate' | 'endDate'>;
+
+type ScheduleRun = Pick<RecurringInvoiceRun, 'scheduledDate' | 'status'> & Partial<Pick<RecurringInvoiceRun, 'createdAt'>>;
+
+const FREQUENCY_MONTHS: Record<RecurringFrequency, number> = { MONTHLY: 1, QUARTERLY: 3, YEARLY: 12 };
+
+// Limite di sicurezza per modelli con date incoerenti
+const MAX_OCCURRENCES = 1000;
+
+// Un'emissione ancora in corso dopo questo tempo è considerata interrotta
+export const STALE_RUN_MINUTES = 30;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+export const formatISODate = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Il giorno della prima emissione si ripete ogni periodo, limitato all'ultimo giorno del mese
+function occurrenceDate(startDate: string, monthOffset: number): string {
+  const [year, month, day] = startDate.split('-').map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + monthOffset, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  return `${target.getUTCFullYear()}-${pad(target.getUTCMonth() + 1)}-${pad(Math.min(day, lastDay))}`;
+}
+
+/**
+ * Date di emissione del modello fino a `until` compreso, senza superare la data di fine
+ */
+export function getOccurrences(template: ScheduleTemplate, until: string): string[] {
+  const step = FREQUENCY_MONTHS[template.frequency as RecurringFrequency];
+  if (!step) {
+    throw new Error(`Unsupported frequency: ${template.frequency}`);
+  }
+
+  const limit = template.endDate && template.endDate < until ? template.endDate : until;
+  const dates: string[] = [];
+  for (let i = 0; i < MAX_OCCURRENCES; i++) {
+    const date = occurrenceDate(template.startDate, i * step);
+    if (date > limit) {
+      break;
+    }
+    dates.push(date);
+  }
+  return dates;
+}
+
+/**
+ * Emissione da ripetere: fallita, o rimasta in corso oltre il tempo limite per un'interruzione
+ */
+export function isRetryableRun(run: ScheduleRun, now = new Date()): boolean {
+  if (run.status === 'FAILED') {
+    return true;
+  }
+  return run.status === 'PENDING' && !!run.createdAt
+    && now.getTime() - run.createdAt.getTime() > STALE_RUN_MINUTES * 60 * 1000;
+}
+
+/**
+ * Emissioni maturate entro oggi senza registrazione, oppure fallite o interrotte da ripetere
+ */
+export function getDueOccurrences(template: ScheduleTemplate, runs: ScheduleRun[], today: string, now = new Date()): string[] {
+  const handled = new Set(runs.filter(run => !isRetryableRun(run, now)).map(run => run.scheduledDate));
+  return getOccurrences(template, today).filter(date => !handled.has(date));
+}
+
+/**
+ * Prossime emissioni dei modelli attivi dopo oggi ed entro l'orizzonte indicato, in ordine di data.
+ * Le emissioni saltate restano in elenco con skipped = true.
+ */
+export function getUpcomingOccurrences(
+  templates: Array<ScheduleTemplate & Pick<RecurringInvoice, 'id' | 'description' | 'amount' | 'isActive'>>,
+  runsByTemplate: Map<number, ScheduleRun[]>,
+  today: string,
+  horizonMonths = 3
+): UpcomingRecurringInvoice[] {
+  const horizon = occurrenceDate(today, horizonMonths);
+
+  return templates
+    .filter(template => template.isActive !== false)
+    .flatMap(template => {
+      const runs = runsByTemplate.get(template.id) || [];
+      return getOccurrences(template, horizon)
+        .filter(date => date > today)
+        .map(date => {
+          const run = runs.find(item => item.scheduledDate === date);
+          return {
+            recurringInvoiceId: template.id,
+            date,
+            description: template.description,
+            amount: template.amount,
+            skipped: run?.status === 'SKIPPED',
+          };
+        });
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
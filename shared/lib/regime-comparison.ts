@@ -0,0 +1,284 @@
+// shared/lib/regime-comparison.ts
+// Confronto tra regime forfettario, regime ordinario (ditta individuale) e SRL a parità di profilo
+
+import { TaxCalculator, type MacroCategory, type ContributionRegime, type ContributionReduction } from './tax-calculator';
+import { calculateIndividualTaxes, type IndividualTaxCalculationInput } from './individual-tax-calculator';
+import { calculateSRLTaxes } from './srl-tax-calculator';
+import { deduceFromAteco, mapAtecoToBusinessType } from './ateco';
+import { resolveTaxRules } from './tax-rules';
+
+export type TaxRegime = 'FORFETTARIO' | 'ORDINARIO' | 'SRL';
+
+export interface BusinessProfile {
+  revenue: number;
+  costs: number; // Costi operativi esclusi quelli del personale
+  atecoCode?: string;
+  macroCategory?: MacroCategory; // Se assente viene dedotta dal codice ATECO
+  contributionRegime: ContributionRegime;
+  contributionReduction?: ContributionReduction;
+  hasOtherCoverage?: boolean;
+  employees: number;
+  employeeCosts: number;
+  isStartup?: boolean;
+  startDate?: string;
+  region?: string;
+  year?: number;
+}
+
+export interface RegimeOutcome {
+  regime: TaxRegime;
+  label: string;
+  eligible: boolean;
+  ineligibilityReasons: string[];
+  totalTax: number;
+  contributions: number;
+  totalBurden: number;
+  netTakeHome: number;
+  effectiveRate: number; // Carico fiscale e contributivo su utile ante imposte
+}
+
+export interface BreakEvenPoint {
+  revenue: number;
+  from: TaxRegime;
+  to: TaxRegime;
+}
+
+export interface WinningRange {
+  regime: TaxRegime;
+  fromRevenue: number;
+  toRevenue: number;
+}
+
+export interface RegimeComparisonResult {
+  fiscalYear: number;
+  rulesYear: number;
+  revenue: number;
+  outcomes: RegimeOutcome[];
+  bestRegime: TaxRegime;
+  breakEvenPoints: BreakEvenPoint[];
+  winningRanges: WinningRange[];
+}
+
+export const REGIME_LABELS: Record<TaxRegime, string> = {
+  FORFETTARIO: 'Regime Forfettario',
+  ORDINARIO: 'Regime Ordinario',
+  SRL: 'Società S.R.L.',
+};
+
+const CONTRIBUTION_TYPES: Record<ContributionRegime, IndividualTaxCalculationInput['contributionType']> = {
+  GESTIONE_SEPARATA: 'inps_gestione_separata',
+  IVS_ARTIGIANI: 'inps_artigiani',
+  IVS_COMMERCIANTI: 'inps_commercianti',
+};
+
+const BUSINESS_TYPES: Record<ContributionRegime, IndividualTaxCalculationInput['businessType']> = {
+  GESTIONE_SEPARATA: 'professional',
+  IVS_ARTIGIANI: 'artisan',
+  IVS_COMMERCIANTI: 'commercial',
+};
+
+const SCAN_STEPS = 200;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function buildOutcome(
+  regime: TaxRegime,
+  profile: BusinessProfile,
+  totalTax: number,
+  contributions: number,
+  ineligibilityReasons: string[] = []
+): RegimeOutcome {
+  const profitBeforeTaxes = profile.revenue - profile.costs - profile.employeeCosts;
+  const totalBurden = totalTax + contributions;
+
+  return {
+    regime,
+    label: REGIME_LABELS[regime],
+    eligible: ineligibilityReasons.length === 0,
+    ineligibilityReasons,
+    totalTax: round(totalTax),
+    contributions: round(contributions),
+    totalBurden: round(totalBurden),
+    netTakeHome: round(profitBeforeTaxes - totalBurden),
+    effectiveRate: profitBeforeTaxes > 0 ? round((totalBurden / profitBeforeTaxes) * 100) : 0,
+  };
+}
+
+function calculateForfettarioOutcome(profile: BusinessProfile): RegimeOutcome {
+  const { limits } = resolveTaxRules(profile.year).rules.forfettario;
+  const macroCategory = profile.macroCategory
+    || (deduceFromAteco(profile.atecoCode || '')?.macroCategory as MacroCategory | undefined)
+    || 'PROFESSIONAL';
+
+  const reasons: string[] = [];
+  if (profile.revenue > limits.revenueLimit) {
+    reasons.push(`Ricavi oltre il limite di €${limits.revenueLimit.toLocaleString('it-IT')}`);
+  }
+  if (profile.employeeCosts > limits.employeeCostsLimit) {
+    reasons.push(`Spese per il personale oltre €${limits.employeeCostsLimit.toLocaleString('it-IT')}`);
+  }
+
+  const calculation = TaxCalculator.calculate({
+    revenue: profile.revenue,
+    macroCategory,
+    isStartup: profile.isStartup || false,
+    startDate: profile.startDate || new Date().toISOString(),
+    contributionRegime: profile.contributionRegime,
+    contributionReduction: profile.contributionReduction || 'NONE',
+    hasOtherCoverage: profile.hasOtherCoverage || false,
+    year: profile.year,
+  });
+
+  return buildOutcome('FORFETTARIO', profile, calculation.taxAmount, calculation.inpsAmount, reasons);
+}
+
+function calculateOrdinarioOutcome(profile: BusinessProfile): RegimeOutcome {
+  const calculation = calculateIndividualTaxes({
+    startDate: profile.startDate,
+    atecoCode: profile.atecoCode || '',
+    businessType: mapAtecoToBusinessType(profile.atecoCode || '') || BUSINESS_TYPES[profile.contributionRegime],
+    revenue: profile.revenue,
+    documentedExpenses: profile.costs + profile.employeeCosts,
+    contributionType: CONTRIBUTION_TYPES[profile.contributionRegime],
+    hasOtherPension: profile.hasOtherCoverage,
+    vatRegime: 'TRIMESTRALE',
+    fiscalYear: profile.year,
+  });
+
+  const totalTax = calculation.irpefNetAmount + calculation.regionalSurcharge + calculation.municipalSurcharge;
+  return buildOutcome('ORDINARIO', profile, totalTax, calculation.totalContributions);
+}
+
+// L'utile netto si assume interamente distribuito come dividendi al socio persona fisica,
+// senza compenso amministratore. I soci lavoratori iscritti alla gestione IVS versano
+// comunque i contributi sulla quota di reddito d'impresa.
+function calculateSRLOutcome(profile: BusinessProfile): RegimeOutcome {
+  const { rules } = resolveTaxRules(profile.year);
+  const calculation = calculateSRLTaxes({
+    revenue: profile.revenue,
+    costs: profile.costs,
+    employees: profile.employees,
+    employeeCosts: profile.employeeCosts,
+    adminSalary: 0,
+    region: profile.region || 'LOMBARDIA',
+    businessSector: profile.atecoCode || '',
+    vatRegime: 'TRIMESTRALE',
+    hasVatDebt: false,
+    vatDebt: 0,
+    currentBalance: 0,
+    startDate: profile.startDate,
+    fiscalYear: profile.year,
+  });
+
+  const corporateTaxes = calculation.iresAmount + calculation.irapAmount;
+  const dividends = Math.max(0, calculation.grossProfit - corporateTaxes);
+  const dividendTax = dividends * rules.srl.dividendTaxRate;
+
+  const partnerContributions = profile.contributionRegime === 'GESTIONE_SEPARATA'
+    ? 0
+    : TaxCalculator.calculateINPS(calculation.taxableIncome, {
+        contributionRegime: profile.contributionRegime,
+        contributionReduction: 'NONE',
+        hasOtherCoverage: profile.hasOtherCoverage || false,
+        year: profile.year,
+      }).amount;
+
+  return buildOutcome('SRL', profile, corporateTaxes + dividendTax, calculation.inpsAdmin + partnerContributions);
+}
+
+function calculateOutcomes(profile: BusinessProfile): RegimeOutcome[] {
+  return [
+    calculateForfettarioOutcome(profile),
+    calculateOrdinarioOutcome(profile),
+    calculateSRLOutcome(profile),
+  ];
+}
+
+function pickWinner(outcomes: RegimeOutcome[]): TaxRegime {
+  return outcomes
+    .filter(outcome => outcome.eligible)
+    .reduce((best, outcome) => outcome.netTakeHome > best.netTakeHome ? outcome : best)
+    .regime;
+}
+
+/**
+ * Profilo ricalcolato a un diverso livello di ricavi: i costi operativi restano
+ * proporzionali ai ricavi, quelli del personale restano fissi.
+ */
+function profileAtRevenue(profile: BusinessProfile, revenue: number): BusinessProfile {
+  const costRatio = profile.revenue > 0 ? profile.costs / profile.revenue : 0;
+  return { ...profile, revenue, costs: revenue * costRatio };
+}
+
+function winnerAtRevenue(profile: BusinessProfile, revenue: number): TaxRegime {
+  return pickWinner(calculateOutcomes(profileAtRevenue(profile, revenue)));
+}
+
+// Affina per bisezione il punto in cui il regime più conveniente cambia
+function refineBreakEven(profile: BusinessProfile, low: number, high: number, lowWinner: TaxRegime): number {
+  while (high - low > 1) {
+    const middle = (low + high) / 2;
+    if (winnerAtRevenue(profile, middle) === lowWinner) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return Math.round(high);
+}
+
+/**
+ * Individua le soglie di ricavi in cui cambia il regime più conveniente
+ */
+export function findBreakEvenPoints(profile: BusinessProfile, maxRevenue?: number): {
+  breakEvenPoints: BreakEvenPoint[];
+  winningRanges: WinningRange[];
+} {
+  const upperBound = maxRevenue || Math.max(profile.revenue * 3, 150000);
+  const step = upperBound / SCAN_STEPS;
+
+  const breakEvenPoints: BreakEvenPoint[] = [];
+  const winningRanges: WinningRange[] = [];
+
+  let previousRevenue = step;
+  let previousWinner = winnerAtRevenue(profile, previousRevenue);
+  let rangeStart = 0;
+
+  for (let i = 2; i <= SCAN_STEPS; i++) {
+    const revenue = step * i;
+    const winner = winnerAtRevenue(profile, revenue);
+
+    if (winner !== previousWinner) {
+      const breakEven = refineBreakEven(profile, previousRevenue, revenue, previousWinner);
+      breakEvenPoints.push({ revenue: breakEven, from: previousWinner, to: winner });
+      winningRanges.push({ regime: previousWinner, fromRevenue: rangeStart, toRevenue: breakEven });
+      rangeStart = breakEven;
+    }
+
+    previousRevenue = revenue;
+    previousWinner = winner;
+  }
+
+  winningRanges.push({ regime: previousWinner, fromRevenue: rangeStart, toRevenue: Math.round(upperBound) });
+
+  return { breakEvenPoints, winningRanges };
+}
+
+/**
+ * Confronta i tre regimi sul profilo indicato
+ */
+export function compareRegimes(profile: BusinessProfile): RegimeComparisonResult {
+  const { requestedYear, year: rulesYear } = resolveTaxRules(profile.year);
+  const outcomes = calculateOutcomes(profile);
+  const { breakEvenPoints, winningRanges } = findBreakEvenPoints(profile);
+
+  return {
+    fiscalYear: requestedYear,
+    rulesYear,
+    revenue: profile.revenue,
+    outcomes,
+    bestRegime: pickWinner(outcomes),
+    breakEvenPoints,
+    winningRanges,
+  };
+}
@@ -0,0 +1,196 @@
+// shared/lib/revenue.ts
+// Ricavi per competenza: criterio di cassa per i forfettari (art. 1, comma 64, L. 190/2014),
+// data di emissione per regime ordinario e SRL. Le note di credito riducono i ricavi del periodo
+// di emissione; per cassa solo per la parte già incassata, che viene rimborsata.
+
+import type { Business, Invoice, InvoicePayment } from '../schema';
+import { chargedVat } from './vat-treatment';
+
+export type RevenueBasis = 'CASH' | 'ACCRUAL';
+
+export type CollectionStatus = 'UNPAID' | 'PARTIAL' | 'PAID';
+
+export interface RevenueEntry {
+  year: number;
+  month: number;
+  amount: number;
+}
+
+export interface CustomerRevenue {
+  customerId: number | null; // null per le fatture senza cliente in anagrafica
+  invoiceCount: number;
+  revenue: number;
+  outstanding: number; // Ancora da incassare, su tutte le fatture del cliente
+}
+
+export interface CreditEntry {
+  date: string; // Emissione della nota di credito
+  amount: number; // Importo stornato, IVA compresa
+}
+
+type InvoiceAmounts = Pick<Invoice, 'amount' | 'vatAmount'> & Partial<Pick<Invoice, 'withholdingAmount' | 'vatTreatment'>> & {
+  creditedAmount?: number; // Importo già stornato da note di credito
+};
+
+type RevenueInvoice = InvoiceAmounts & Pick<Invoice, 'year' | 'month' | 'payments'>
+  & Partial<Pick<Invoice, 'id' | 'originalInvoiceId' | 'issueDate'>>;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Codice RegimeFiscale del forfettario
+const FORFETTARIO_REGIME = 'RF19';
+
+export function getRevenueBasis(business: Pick<Business, 'fiscalRegime'>): RevenueBasis {
+  return (business.fiscalRegime || FORFETTARIO_REGIME) === FORFETTARIO_REGIME ? 'CASH' : 'ACCRUAL';
+}
+
+// Importo del documento da incassare: imponibile più IVA, al netto della ritenuta trattenuta dal cliente
+// e dell'IVA in scissione dei pagamenti, in valore assoluto anche per le note di credito
+const documentCollectableAmount = (invoice: InvoiceAmounts) =>
+  round(Math.abs(invoice.amount + chargedVat(invoice) - (invoice.withholdingAmount || 0)));
+
+// Importo ancora dovuto dal cliente, al netto degli storni
+export const invoiceCollectableAmount = (invoice: InvoiceAmounts) =>
+  round(Math.max(0, documentCollectableAmount(invoice) - (invoice.creditedAmount || 0)));
+
+/**
+ * Storni delle note di credito per ciascuna fattura rettificata, con la data di emissione
+ */
+export function getCreditNotesByInvoice(
+  invoices: Array<InvoiceAmounts & Pick<Invoice, 'year' | 'month'> & Partial<Pick<Invoice, 'originalInvoiceId' | 'issueDate'>>>
+): Map<number, CreditEntry[]> {
+  const credits = new Map<number, CreditEntry[]>();
+  for (const invoice of invoices) {
+    if (invoice.originalInvoiceId) {
+      const date = invoice.issueDate || `${invoice.year}-${invoice.month.toString().padStart(2, '0')}-01`;
+      credits.set(invoice.originalInvoiceId, [...(credits.get(invoice.originalInvoiceId) || []), { date, amount: documentCollectableAmount(invoice) }]);
+    }
+  }
+  return credits;
+}
+
+const sumCredits = (credits: CreditEntry[]) => round(credits.reduce((sum, credit) => sum + credit.amount, 0));
+
+/**
+ * Importo stornato da note di credito per ciascuna fattura rettificata
+ */
+export function getCreditedAmounts(invoices: Parameters<typeof getCreditNotesByInvoice>[0]): Map<number, number> {
+  return new Map(Array.from(getCreditNotesByInvoice(invoices), ([invoiceId, credits]) => [invoiceId, sumCredits(credits)]));
+}
+
+export const collectedAmount = (payments?: InvoicePayment[] | null) =>
+  round((payments || []).reduce((sum, payment) => sum + payment.amount, 0));
+
+export function getCollectionStatus(invoice: InvoiceAmounts, payments?: InvoicePayment[] | null): CollectionStatus {
+  const collected = collectedAmount(payments);
+  const collectable = invoiceCollectableAmount(invoice);
+  // Una fattura stornata per intero non ha più nulla da incassare
+  if (collected <= 0 && !(invoice.creditedAmount && collectable === 0)) {
+    return 'UNPAID';
+  }
+  return collected >= collectable ? 'PAID' : 'PARTIAL';
+}
+
+/**
+ * Quota del documento incassata in ciascun mese, rispetto al suo totale.
+ * Conta l'incassato fino all'importo ancora dovuto: gli incassi oltre il totale non contano e
+ * una nota di credito su importi già incassati (rimborso) genera una quota negativa alla sua data.
+ */
+export function getCollectionShares(
+  invoice: InvoiceAmounts & Pick<Invoice, 'payments'>,
+  credits: CreditEntry[] = []
+): Array<{ year: number; month: number; share: number }> {
+  const total = documentCollectableAmount(invoice);
+  if (total === 0) {
+    return [];
+  }
+
+  // A parità di data l'incasso precede lo storno
+  const events = [
+    ...(invoice.payments || []).map(payment => ({ date: payment.date, collected: payment.amount, credited: 0 })),
+    ...credits.map(credit => ({ date: credit.date, collected: 0, credited: credit.amount })),
+  ].sort((a, b) => a.date.localeCompare(b.date) || b.collected - a.collected);
+
+  let collected = 0;
+  let due = total;
+  let recognized = 0;
+  return events
+    .map(event => {
+      const [year, month] = event.date.split('-').map(Number);
+      collected += event.collected;
+      due = Math.max(0, due - event.credited);
+      const delta = Math.min(collected, due) - recognized;
+      recognized += delta;
+      return { year, month, share: delta / total };
+    })
+    .filter(entry => entry.share !== 0);
+}
+
+// Fatture con l'importo stornato e le note di credito che le rettificano
+function withCredits<T extends RevenueInvoice>(invoices: T[]): Array<{ invoice: T; credits: CreditEntry[] }> {
+  const creditNotes = getCreditNotesByInvoice(invoices);
+  return invoices.map(invoice => {
+    const credits = (invoice.id && creditNotes.get(invoice.id)) || [];
+    return { invoice: { ...invoice, creditedAmount: sumCredits(credits) }, credits };
+  });
+}
+
+function invoiceRevenueEntries(invoice: RevenueInvoice, basis: RevenueBasis, credits: CreditEntry[]): RevenueEntry[] {
+  if (basis === 'ACCRUAL' || (invoice.amount < 0 && !invoice.originalInvoiceId)) {
+    return [{ year: invoice.year, month: invoice.month, amount: invoice.amount }];
+  }
+  // Per cassa le note di credito collegate agiscono sugli incassi della fattura rettificata
+  if (invoice.amount < 0) {
+    return [];
+  }
+
+  return getCollectionShares(invoice, credits)
+    .map(({ year, month, share }) => ({ year, month, amount: round(invoice.amount * share) }))
+    .filter(entry => entry.amount !== 0);
+}
+
+/**
+ * Ricavi delle fatture secondo il criterio indicato. Per cassa ogni incasso conta
+ * nel mese in cui è avvenuto, per la quota di imponibile che rappresenta; le note di credito
+ * collegate riducono i ricavi alla loro data solo per la parte già incassata.
+ */
+export function getRevenueEntries(invoices: RevenueInvoice[], basis: RevenueBasis): RevenueEntry[] {
+  return withCredits(invoices).flatMap(({ invoice, credits }) => invoiceRevenueEntries(invoice, basis, credits));
+}
+
+export const getYearRevenue = (entries: RevenueEntry[], year: number) =>
+  round(entries.filter(entry => entry.year === year).reduce((sum, entry) => sum + entry.amount, 0));
+
+export const getMonthlyRevenue = (entries: RevenueEntry[], year: number) =>
+  entries.filter(entry => entry.year === year).map(({ month, amount }) => ({ month, amount }));
+
+/**
+ * Ricavi dell'anno per cliente, ordinati dal maggiore
+ */
+export function getRevenueByCustomer(
+  invoices: Array<RevenueInvoice & Pick<Invoice, 'customerId'>>,
+  basis: RevenueBasis,
+  year: number
+): CustomerRevenue[] {
+  const byCustomer = new Map<number | null, CustomerRevenue>();
+
+  for (const { invoice, credits } of withCredits(invoices)) {
+    const customerId = invoice.customerId ?? null;
+    const row = byCustomer.get(customerId) || { customerId, invoiceCount: 0, revenue: 0, outstanding: 0 };
+    const revenue = getYearRevenue(invoiceRevenueEntries(invoice, basis, credits), year);
+
+    if (revenue !== 0) {
+      row.invoiceCount++;
+      row.revenue = round(row.revenue + revenue);
+    }
+    // Le note di credito non generano crediti verso il cliente
+    if (invoice.amount > 0) {
+      row.outstanding = round(row.outstanding + Math.max(0, invoiceCollectableAmount(invoice) - collectedAmount(invoice.payments)));
+    }
+    byCustomer.set(customerId, row);
+  }
+
+  return Array.from(byCustomer.values())
+    .filter(row => row.revenue !== 0 || row.outstanding > 0)
+    .sort((a, b) => b.revenue - a.revenue);
+}
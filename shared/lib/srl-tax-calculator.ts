@@ -1,7 +1,15 @@
+// shared/lib/srl-tax-calculator.ts
+// Calcolatore delle imposte per Società a Responsabilità Limitata (IRES, IRAP, IVA, INPS)
+
+import { DEFAULT_FISCAL_YEAR, getTaxRules, resolveTaxRules, type TaxRuleSet } from './tax-rules';
+import { fiscalDueDate, toItalianDate } from './fiscal-calendar';
+import type { VatDeadlineEntry } from './vat-settlement';
+import { estimateVatOnSales, forecastVatCredit } from './vat-treatment';
 
 export interface SRLTaxCalculationInput {
   revenue: number;
   costs: number;
+  irapCosts?: number; // Costi deducibili ai fini IRAP, se diversi da quelli IRES
   employees: number;
   employeeCosts: number;
   adminSalary: number;
@@ -19,6 +27,11 @@ export interface SRLTaxCalculationInput {
   // IVA dettagliata
   vatOnSales?: number;    
   vatOnPurchases?: number; 
+  vatDeadlines?: VatDeadlineEntry[]; // Liquidazioni dai documenti; senza, l'IVA è ripartita in parti uguali
+  // Ricavi senza IVA a debito, esclusi dalla stima dell'IVA sulle vendite
+  splitPaymentRevenue?: number;
+  reverseChargeRevenue?: number;
+  exemptRevenue?: number;
   
   // Anno fiscale di riferimento
   fiscalYear?: number;    
@@ -51,6 +64,7 @@ export interface SRLTaxCalculationInput {
 export interface SRLTaxCalculationResult {
   // Anno fiscale di riferimento
   fiscalYear: number;
+  rulesYear: number; // Anno delle regole fiscali effettivamente applicate
   
   // Redditi
   grossProfit: number;
@@ -99,10 +113,13 @@ export interface SRLTaxCalculationResult {
   vatOnPurchases: number;  
   vatAmount: number;       
   vatQuarterly: number;
+  vatCredit: number; // Credito IVA annuale previsto
+  vatCreditRefundable: boolean; // Rimborsabile per aliquota media (art. 30, comma 3, lett. a, DPR 633/72)
   vatDeadlines: Array<{
     date: string;
     amount: number;
     type: string;
+    paymentType?: string;
   }>;
   
   // INPS
@@ -127,6 +144,12 @@ export interface SRLTaxCalculationResult {
     accontiRate: number; // 40% per primo acconto, 60% per secondo
   };
   
+  // Scadenze di saldo e primo acconto (giugno) e secondo acconto (novembre) dell'anno
+  taxDueDates: {
+    june: string;
+    november: string;
+  };
+
   // Scadenze mensili
   monthlyAccrual: number;
   quarterlyPayments: number;
@@ -155,29 +178,8 @@ export interface SRLTaxCalculationResult {
   }>;
 }
 
-// Aliquote IRAP regionali aggiornate 2025 (da manuale tecnico)
-export const IRAP_RATES = {
-  'PIEMONTE': 3.9,
-  'VALLE_AOSTA': 3.9,
-  'LOMBARDIA': 3.9,
-  'TRENTINO': 2.68, // PA Trento
-  'VENETO': 4.08,
-  'FRIULI': 3.9,
-  'LIGURIA': 3.9,
-  'EMILIA_ROMAGNA': 4.65,
-  'TOSCANA': 3.9,
-  'UMBRIA': 3.9,
-  'MARCHE': 4.73,
-  'LAZIO': 4.82,
-  'ABRUZZO': 4.82,
-  'MOLISE': 4.82,
-  'CAMPANIA': 4.97,
-  'PUGLIA': 4.82,
-  'BASILICATA': 3.9,
-  'CALABRIA': 4.82,
-  'SICILIA': 3.9,
-  'SARDEGNA': 2.93
-};
+// Aliquote IRAP regionali dell'anno di default (per anni diversi vedi shared/lib/tax-rules)
+export const IRAP_RATES = getTaxRules().srl.irapRates;
 
 export const VAT_REGIMES = {
   'MENSILE': { 
@@ -193,12 +195,12 @@ export const VAT_REGIMES = {
 };
 
 // Verifica condizioni IRES Premiale (20%) - Anno 2025
-function checkIresPremialeConditions(input: SRLTaxCalculationInput): {
+function checkIresPremialeConditions(input: SRLTaxCalculationInput, rules: TaxRuleSet): {
   isApplicable: boolean;
   details: any;
 } {
-  // Solo per anno fiscale 2025 (Art. 1, co. 436-444, L. 207/2024)
-  if (input.fiscalYear !== 2025) {
+  // Solo negli anni con l'aliquota premiale nel registro (2025: Art. 1, co. 436-444, L. 207/2024)
+  if (rules.srl.iresPremialeRate === undefined) {
     return { isApplicable: false, details: null };
   }
 
@@ -333,25 +335,31 @@ function calculateIrapDeductions(input: SRLTaxCalculationInput) {
   return deductions;
 }
 
-function calculateVATDeadlines(vatRegime: string, totalVatAmount: number, frequency: number, fiscalYear: number = 2025) {
+// Scadenza effettiva in formato DD/MM/YYYY
+const dueDate = (year: number, month: number, day: number) => toItalianDate(fiscalDueDate(year, month, day));
+
+function calculateVATDeadlines(vatRegime: string, totalVatAmount: number, frequency: number, fiscalYear: number = DEFAULT_FISCAL_YEAR) {
   const deadlines = [];
   
+  // Con l'IVA a credito non ci sono versamenti periodici
+  if (totalVatAmount <= 0) {
+    return [];
+  }
+  
   if (vatRegime === 'TRIMESTRALE') {
     const quarterlyAmount = totalVatAmount / 4;
     deadlines.push(
-      { date: `16/04/${fiscalYear}`, amount: quarterlyAmount, type: `IVA Q1 ${fiscalYear}` },
-      { date: `16/07/${fiscalYear}`, amount: quarterlyAmount, type: `IVA Q2 ${fiscalYear}` },
-      { date: `16/10/${fiscalYear}`, amount: quarterlyAmount, type: `IVA Q3 ${fiscalYear}` },
-      { date: `16/01/${fiscalYear + 1}`, amount: quarterlyAmount, type: `IVA Q4 ${fiscalYear}` }
+      { date: dueDate(fiscalYear, 4, 16), amount: quarterlyAmount, type: `IVA Q1 ${fiscalYear}` },
+      { date: dueDate(fiscalYear, 7, 16), amount: quarterlyAmount, type: `IVA Q2 ${fiscalYear}` },
+      { date: dueDate(fiscalYear, 10, 16), amount: quarterlyAmount, type: `IVA Q3 ${fiscalYear}` },
+      { date: dueDate(fiscalYear, 13, 16), amount: quarterlyAmount, type: `IVA Q4 ${fiscalYear}` }
     );
   } else if (vatRegime === 'MENSILE') {
     const monthlyAmount = totalVatAmount / 12;
     for (let month = 1; month <= 12; month++) {
-      const paymentMonth = month === 12 ? 1 : month + 1;
-      const paymentYear = month === 12 ? fiscalYear + 1 : fiscalYear;
-      const paymentMonthStr = paymentMonth.toString().padStart(2, '0');
+      // Liquidazione del mese versata il 16 del mese successivo
       deadlines.push({
-        date: `16/${paymentMonthStr}/${paymentYear}`,
+        date: dueDate(fiscalYear, month + 1, 16),
         amount: monthlyAmount,
         type: `IVA ${getMonthName(month - 1)} ${fiscalYear}`
       });
@@ -382,7 +390,7 @@ function createFiscalCalendar2025(
   const calendar = [];
   
   // Scadenze IVA per l'anno corrente
-  calendar.push(...vatDeadlines.map(deadline => ({
+  calendar.push(...vatDeadlines.filter(deadline => deadline.amount > 0).map(deadline => ({
     ...deadline,
     category: 'IVA' as const,
     description: deadline.type
@@ -393,7 +401,7 @@ function createFiscalCalendar2025(
     // 30 Giugno 2025: Primo acconto 2025
     if (iresFirstAcconto > 0) {
       calendar.push({
-        date: `30/06/2025`,
+        date: dueDate(fiscalYear, 6, 30),
         amount: iresFirstAcconto,
         type: `IRES I Acconto 2025`,
         category: 'IRES' as const,
@@ -403,7 +411,7 @@ function createFiscalCalendar2025(
     
     if (irapFirstAcconto > 0) {
       calendar.push({
-        date: `30/06/2025`,
+        date: dueDate(fiscalYear, 6, 30),
         amount: irapFirstAcconto,
         type: `IRAP I Acconto 2025`,
         category: 'IRAP' as const,
@@ -414,7 +422,7 @@ function createFiscalCalendar2025(
     // 30 Novembre 2025: Secondo acconto 2025
     if (iresSecondAcconto > 0) {
       calendar.push({
-        date: `30/11/2025`,
+        date: dueDate(fiscalYear, 11, 30),
         amount: iresSecondAcconto,
         type: `IRES II Acconto 2025`,
         category: 'IRES' as const,
@@ -424,7 +432,7 @@ function createFiscalCalendar2025(
     
     if (irapSecondAcconto > 0) {
       calendar.push({
-        date: `30/11/2025`,
+        date: dueDate(fiscalYear, 11, 30),
         amount: irapSecondAcconto,
         type: `IRAP II Acconto 2025`,
         category: 'IRAP' as const,
@@ -438,28 +446,28 @@ function createFiscalCalendar2025(
   if (inpsQuarterly > 0) {
     calendar.push(
       {
-        date: `16/05/${fiscalYear}`,
+        date: dueDate(fiscalYear, 5, 16),
         amount: inpsQuarterly,
         type: `INPS I Trim ${fiscalYear}`,
         category: 'INPS' as const,
         description: `Contributi INPS anno ${fiscalYear} - I trimestre`
       },
       {
-        date: `20/08/${fiscalYear}`,
+        date: dueDate(fiscalYear, 8, 16),
         amount: inpsQuarterly,
         type: `INPS II Trim ${fiscalYear}`,
         category: 'INPS' as const,
         description: `Contributi INPS anno ${fiscalYear} - II trimestre`
       },
       {
-        date: `16/11/${fiscalYear}`,
+        date: dueDate(fiscalYear, 11, 16),
         amount: inpsQuarterly,
         type: `INPS III Trim ${fiscalYear}`,
         category: 'INPS' as const,
         description: `Contributi INPS anno ${fiscalYear} - III trimestre`
       },
       {
-        date: `16/02/${fiscalYear + 1}`,
+        date: dueDate(fiscalYear, 14, 16),
         amount: inpsQuarterly,
         type: `INPS IV Trim ${fiscalYear}`,
         category: 'INPS' as const,
@@ -567,8 +575,9 @@ function createPaymentSchedule(calendar: any[], currentBalance: number, monthlyA
 }
 
 export function calculateSRLTaxes(input: SRLTaxCalculationInput): SRLTaxCalculationResult {
-  const fiscalYear = input.fiscalYear || 2025;
-  const startYear = input.startYear || (input.startDate ? new Date(input.startDate).getFullYear() : 2025);
+  const fiscalYear = input.fiscalYear || DEFAULT_FISCAL_YEAR;
+  const startYear = input.startYear || (input.startDate ? new Date(input.startDate).getFullYear() : DEFAULT_FISCAL_YEAR);
+  const { year: rulesYear, rules } = resolveTaxRules(fiscalYear);
   
   // Determina se utilizzare dati 2024 per calcoli precisi degli acconti
   const usePreviousYearData = startYear <= 2024;
@@ -590,21 +599,25 @@ export function calculateSRLTaxes(input: SRLTaxCalculationInput): SRLTaxCalculat
   const taxableIncomeAfterLosses = Math.max(0, taxableIncome - lossesUsage.lossesUsed);
   
   // 5. VERIFICA IRES PREMIALE
-  const iresPremialeCheck = checkIresPremialeConditions(input);
-  const iresRate = (iresPremialeCheck.isApplicable && fiscalYear === 2025) ? 0.20 : 0.24;
+  const iresPremialeCheck = checkIresPremialeConditions(input, rules);
+  const iresRate = (iresPremialeCheck.isApplicable && rules.srl.iresPremialeRate)
+    ? rules.srl.iresPremialeRate
+    : rules.srl.iresRate;
   const iresAmount = taxableIncomeAfterLosses * iresRate;
   
   // 6. CALCOLO IRAP
-  const irapBase = input.revenue - (input.costs - input.employeeCosts); // Costi personale non deducibili
+  const irapBase = input.revenue - ((input.irapCosts ?? input.costs) - input.employeeCosts); // Costi personale non deducibili
   const irapDeductions = calculateIrapDeductions(input);
   const irapTaxableIncome = Math.max(0, irapBase - irapDeductions);
-  const irapRate = (IRAP_RATES[input.region as keyof typeof IRAP_RATES] || 3.9) / 100;
+  const irapRate = (rules.srl.irapRates[input.region] || rules.srl.defaultIrapRate) / 100;
   const irapAmount = irapTaxableIncome * irapRate;
   
   // 7. CALCOLO IVA
-  const vatOnSales = input.vatOnSales || (input.revenue * 0.22);
-  const vatOnPurchases = input.vatOnPurchases || (input.costs * 0.22);
+  // Split payment, reverse charge ed esenzioni non generano IVA a debito
+  const vatOnSales = input.vatOnSales ?? estimateVatOnSales(input.revenue, input);
+  const vatOnPurchases = input.vatOnPurchases ?? (input.costs * 0.22);
   let vatAmount = Math.max(0, vatOnSales - vatOnPurchases);
+  const vatCredit = forecastVatCredit({ revenue: input.revenue, purchases: input.costs, vatOnSales, vatOnPurchases });
   
   if (input.hasVatDebt && input.vatDebt > 0) {
     vatAmount += input.vatDebt;
@@ -612,15 +625,16 @@ export function calculateSRLTaxes(input: SRLTaxCalculationInput): SRLTaxCalculat
   
   const vatFrequency = VAT_REGIMES[input.vatRegime as keyof typeof VAT_REGIMES]?.frequency || 4;
   const vatQuarterly = vatAmount / (vatFrequency / 4);
-  const vatDeadlines = calculateVATDeadlines(input.vatRegime, vatAmount, vatFrequency, fiscalYear);
+  const vatDeadlines = input.vatDeadlines
+    ? input.vatDeadlines.map(deadline => ({ ...deadline, date: toItalianDate(deadline.date) }))
+    : calculateVATDeadlines(input.vatRegime, vatAmount, vatFrequency, fiscalYear);
   
   // 8. CALCOLO CONTRIBUTI INPS
   let inpsAdmin = 0;
   if (input.adminSalary > 0) {
-    const adminMinimum = 18324;
-    const adminMaximum = 105014;
-    const adminContributionBase = Math.max(adminMinimum, Math.min(input.adminSalary, adminMaximum));
-    inpsAdmin = adminContributionBase * 0.24;
+    const { rate, minimumIncome, maximumIncome } = rules.srl.adminInps;
+    const adminContributionBase = Math.max(minimumIncome, Math.min(input.adminSalary, maximumIncome));
+    inpsAdmin = adminContributionBase * rate;
   }
   
   let inpsEmployees = 0;
@@ -653,7 +667,7 @@ export function calculateSRLTaxes(input: SRLTaxCalculationInput): SRLTaxCalculat
   // Calcolo acconti solo per attività non nuove del 2025
   if (!isNewBusiness2025 && usePreviousYearData) {
     // Usa dati 2024 se disponibili, altrimenti stima basata su previsioni 2025
-    const baseIres = input.utile2024 ? (input.utile2024 * 0.24) : (iresAmount * 0.8);
+    const baseIres = input.utile2024 ? (input.utile2024 * rules.srl.iresRate) : (iresAmount * 0.8);
     const baseIrap = input.revenue2024 ? 
       ((input.revenue2024 - (input.costs2024 || 0)) * irapRate) : 
       (irapAmount * 0.8);
@@ -683,6 +697,7 @@ export function calculateSRLTaxes(input: SRLTaxCalculationInput): SRLTaxCalculat
 
   return {
     fiscalYear: fiscalYear,
+    rulesYear,
     
     // Redditi
     grossProfit: Math.round(grossProfit * 100) / 100,
@@ -723,6 +738,8 @@ export function calculateSRLTaxes(input: SRLTaxCalculationInput): SRLTaxCalculat
     vatOnPurchases: Math.round(vatOnPurchases * 100) / 100,
     vatAmount: Math.round(vatAmount * 100) / 100,
     vatQuarterly: Math.round(vatQuarterly * 100) / 100,
+    vatCredit: vatCredit.credit,
+    vatCreditRefundable: vatCredit.refundable,
     vatDeadlines: vatDeadlines.map(deadline => ({
       ...deadline,
       amount: Math.round(deadline.amount * 100) / 100
@@ -747,6 +764,10 @@ export function calculateSRLTaxes(input: SRLTaxCalculationInput): SRLTaxCalculat
     accontiDetails: accontiDetails,
     
     // Pianificazione
+    taxDueDates: {
+      june: dueDate(fiscalYear, 6, 30),
+      november: dueDate(fiscalYear, 11, 30),
+    },
     monthlyAccrual: Math.round(monthlyAccrual * 100) / 100,
     quarterlyPayments: Math.round(quarterlyPayments * 100) / 100,
     
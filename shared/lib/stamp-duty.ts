@@ -0,0 +1,108 @@
+// shared/lib/stamp-duty.ts
+// Imposta di bollo sulle fatture elettroniche: riepilogo trimestrale e versamenti F24 (DM 17/06/2014, art. 6)
+
+import type { Invoice } from '../schema';
+import type { F24TaxRow } from './f24';
+import { TAX_CODES } from './tax-codes';
+import { STAMP_DUTY_AMOUNT } from './fatturapa';
+import { fiscalDueDate } from './fiscal-calendar';
+
+export type StampDutyQuarterNumber = 1 | 2 | 3 | 4;
+
+type StampDutyTaxCode = '2521' | '2522' | '2523' | '2524';
+
+export interface StampDutyQuarter {
+  quarter: StampDutyQuarterNumber;
+  taxCode: StampDutyTaxCode;
+  invoiceCount: number;
+  amount: number;
+  dueDate: string; // Scadenza ordinaria del trimestre
+  paymentDueDate: string; // Scadenza effettiva, dopo l'eventuale rinvio
+}
+
+export interface StampDutyPayment {
+  dueDate: string;
+  rows: F24TaxRow[];
+  total: number;
+}
+
+export interface StampDutySummary {
+  year: number;
+  quarters: StampDutyQuarter[];
+  payments: StampDutyPayment[];
+  total: number;
+}
+
+// Sotto questa soglia il bollo del I trimestre (e poi di I e II insieme) si versa con il trimestre successivo (D.L. 73/2022)
+export const STAMP_DUTY_ROLLOVER_THRESHOLD = 5000;
+
+const QUARTER_TAX_CODES: Record<StampDutyQuarterNumber, StampDutyTaxCode> = { 1: '2521', 2: '2522', 3: '2523', 4: '2524' };
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Il IV trimestre scade l'ultimo giorno di febbraio dell'anno successivo
+const lastDayOfFebruary = (year: number) => new Date(Date.UTC(year, 2, 0)).getUTCDate();
+
+function quarterDueDate(year: number, quarter: StampDutyQuarterNumber): string {
+  switch (quarter) {
+    case 1: return fiscalDueDate(year, 5, 31);
+    case 2: return fiscalDueDate(year, 9, 30);
+    case 3: return fiscalDueDate(year, 11, 30);
+    case 4: return fiscalDueDate(year, 14, lastDayOfFebruary(year + 1));
+  }
+}
+
+/**
+ * Bollo dovuto per trimestre sulle fatture emesse nell'anno e versamenti F24 risultanti.
+ * Se il bollo del I trimestre è inferiore alla soglia si versa con il II; se lo è anche
+ * quello di I e II insieme, si versano con il III. Ogni trimestre mantiene il proprio codice tributo.
+ */
+export function calculateStampDutySummary(invoices: Array<Pick<Invoice, 'year' | 'month' | 'stampDuty'>>, year: number): StampDutySummary {
+  const quarters: StampDutyQuarter[] = ([1, 2, 3, 4] as StampDutyQuarterNumber[]).map(quarter => {
+    const invoiceCount = invoices.filter(invoice =>
+      invoice.stampDuty && invoice.year === year && Math.ceil(invoice.month / 3) === quarter
+    ).length;
+    const dueDate = quarterDueDate(year, quarter);
+    return {
+      quarter,
+      taxCode: QUARTER_TAX_CODES[quarter],
+      invoiceCount,
+      amount: round(invoiceCount * STAMP_DUTY_AMOUNT),
+      dueDate,
+      paymentDueDate: dueDate,
+    };
+  });
+
+  const [first, second, third] = quarters;
+  if (first.amount < STAMP_DUTY_ROLLOVER_THRESHOLD) {
+    first.paymentDueDate = second.dueDate;
+    if (first.amount + second.amount < STAMP_DUTY_ROLLOVER_THRESHOLD) {
+      first.paymentDueDate = third.dueDate;
+      second.paymentDueDate = third.dueDate;
+    }
+  }
+
+  const payments: StampDutyPayment[] = [];
+  for (const quarter of quarters.filter(item => item.amount > 0)) {
+    let payment = payments.find(item => item.dueDate === quarter.paymentDueDate);
+    if (!payment) {
+      payment = { dueDate: quarter.paymentDueDate, rows: [], total: 0 };
+      payments.push(payment);
+    }
+    payment.rows.push({
+      taxCode: quarter.taxCode,
+      description: TAX_CODES[quarter.taxCode],
+      referenceYear: year,
+      debit: quarter.amount,
+      credit: 0,
+    });
+    payment.total = round(payment.total + quarter.amount);
+  }
+
+  return {
+    year,
+    quarters,
+    payments,
+    total: round(quarters.reduce((sum, quarter) => sum + quarter.amount, 0)),
+  };
+}
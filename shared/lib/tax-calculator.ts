@@ -1,6 +1,9 @@
 // shared/lib/tax-calculator.ts
 // Libreria centralizzata per tutti i calcoli fiscali
 
+import { DEFAULT_FISCAL_YEAR, getTaxRules, resolveTaxRules, type ForfettarioRules, type ForfettarioAccontiRules } from './tax-rules';
+import { fiscalDueDate, toItalianDate } from './fiscal-calendar';
+
 export interface TaxCalculationInput {
   revenue: number;
   macroCategory: MacroCategory;
@@ -19,6 +22,7 @@ export interface TaxCalculationResult {
   taxAmount: number;
   inpsAmount: number;
   totalDue: number;
+  rulesYear: number; // Anno delle regole fiscali effettivamente applicate
   details: {
     coefficient: number;
     inpsRate?: number;
@@ -28,6 +32,27 @@ export interface TaxCalculationResult {
 }
 
 // Tipi per type safety
+export type AccontiMethod = 'HISTORICAL' | 'FORECAST';
+
+export interface AccontiOptions {
+  method?: AccontiMethod; // Default: storico
+  previousYearTax?: number; // Imposta sostitutiva dell'anno precedente
+  previousYearAccontiPaid?: number; // Acconti versati per l'anno precedente
+  expectedIncome?: number; // Reddito imponibile previsto per l'anno (metodo previsionale)
+  deferJunePayment?: boolean; // Versamento al 30 luglio con maggiorazione
+}
+
+export interface AccontiCalculation {
+  method: AccontiMethod;
+  base: number; // Imposta su cui si calcolano gli acconti
+  firstInstallment: number;
+  secondInstallment: number;
+  total: number;
+  previousYearBalance: number; // Saldo dell'anno precedente da versare a giugno
+  previousYearCredit: number; // Eccedenza di acconti dell'anno precedente
+  currentYearBalance: number; // Saldo dell'anno da versare l'anno successivo
+}
+
 export type MacroCategory = 
   | 'FOOD_COMMERCE'
   | 'STREET_COMMERCE'
@@ -43,45 +68,8 @@ export type ContributionRegime =
 
 export type ContributionReduction = 'NONE' | 'REDUCTION_35' | 'REDUCTION_50';
 
-// Costanti configurabili (potrebbero venire da DB in futuro)
-export const TAX_CONSTANTS = {
-  coefficients: {
-    FOOD_COMMERCE: 0.40,
-    STREET_COMMERCE: 0.54,
-    INTERMEDIARIES: 0.62,
-    OTHER_ACTIVITIES: 0.67,
-    PROFESSIONAL: 0.78,
-    CONSTRUCTION: 0.86,
-  },
-  
-  taxRates: {
-    startup: 0.05,
-    standard: 0.15,
-    startupYearsLimit: 5,
-  },
-  
-  inps: {
-    gestioneSeparata: {
-      rateWithCoverage: 0.24,
-      rateWithoutCoverage: 0.2572,
-      minimumIncome: 18555,
-      maximumIncome: 120607,
-    },
-    ivs: {
-      artigiani: {
-        minimum: 4427.04,
-        excessRate: 0.24,
-        excessThreshold: 18324,
-      },
-      commercianti: {
-        minimum: 4515.43,
-        excessRate: 0.24,
-        excessThreshold: 18324,
-        additionalRate: 0.0048,
-      },
-    },
-  },
-} as const;
+// Costanti dell'anno di default, mantenute per compatibilità: i calcoli risolvono le regole tramite input.year
+export const TAX_CONSTANTS = getTaxRules(DEFAULT_FISCAL_YEAR).forfettario;
 
 // Classe principale per i calcoli
 export class TaxCalculator {
@@ -89,10 +77,11 @@ export class TaxCalculator {
    * Calcola tutte le imposte per il regime forfettario
    */
   static calculate(input: TaxCalculationInput): TaxCalculationResult {
-    const taxableIncome = this.calculateTaxableIncome(input.revenue, input.macroCategory);
+    const { year: rulesYear, rules } = resolveTaxRules(input.year);
+    const taxableIncome = this.calculateTaxableIncome(input.revenue, input.macroCategory, rulesYear);
     const taxRate = this.calculateTaxRate(input.isStartup, input.startDate, input.year);
     const taxAmount = this.calculateTaxAmount(taxableIncome, taxRate);
-    const inpsDetails = this.calculateINPS(taxableIncome, input);
+    const inpsDetails = this.calculateINPS(taxableIncome, { ...input, year: rulesYear });
     const totalDue = taxAmount + inpsDetails.amount;
 
     return {
@@ -102,8 +91,9 @@ export class TaxCalculator {
       taxAmount,
       inpsAmount: inpsDetails.amount,
       totalDue,
+      rulesYear,
       details: {
-        coefficient: TAX_CONSTANTS.coefficients[input.macroCategory],
+        coefficient: rules.forfettario.coefficients[input.macroCategory],
         ...inpsDetails.details,
       },
     };
@@ -112,8 +102,8 @@ export class TaxCalculator {
   /**
    * Calcola il reddito imponibile applicando il coefficiente di redditività
    */
-  static calculateTaxableIncome(revenue: number, category: MacroCategory): number {
-    const coefficient = TAX_CONSTANTS.coefficients[category];
+  static calculateTaxableIncome(revenue: number, category: MacroCategory, year?: number): number {
+    const coefficient = getTaxRules(year).forfettario.coefficients[category];
     return revenue * coefficient;
   }
 
@@ -121,17 +111,18 @@ export class TaxCalculator {
    * Determina l'aliquota fiscale (5% startup o 15% standard)
    */
   static calculateTaxRate(isStartup: boolean, startDate: string, currentYear?: number): number {
+    const taxRates = getTaxRules(currentYear).forfettario.taxRates;
     if (!isStartup) {
-      return TAX_CONSTANTS.taxRates.standard;
+      return taxRates.standard;
     }
 
     const year = currentYear || new Date().getFullYear();
     const startYear = new Date(startDate).getFullYear();
     const yearsActive = year - startYear;
 
-    return yearsActive <= TAX_CONSTANTS.taxRates.startupYearsLimit
-      ? TAX_CONSTANTS.taxRates.startup
-      : TAX_CONSTANTS.taxRates.standard;
+    return yearsActive <= taxRates.startupYearsLimit
+      ? taxRates.startup
+      : taxRates.standard;
   }
 
   /**
@@ -146,17 +137,19 @@ export class TaxCalculator {
    */
   static calculateINPS(
     taxableIncome: number,
-    input: Pick<TaxCalculationInput, 'contributionRegime' | 'contributionReduction' | 'hasOtherCoverage'>
+    input: Pick<TaxCalculationInput, 'contributionRegime' | 'contributionReduction' | 'hasOtherCoverage' | 'year'>
   ): { amount: number; details: any } {
+    const inpsRules = getTaxRules(input.year).forfettario.inps;
+
     switch (input.contributionRegime) {
       case 'GESTIONE_SEPARATA':
-        return this.calculateINPSGestioneSeparata(taxableIncome, input.hasOtherCoverage);
+        return this.calculateINPSGestioneSeparata(taxableIncome, input.hasOtherCoverage, inpsRules);
       
       case 'IVS_ARTIGIANI':
-        return this.calculateINPSArtigiani(taxableIncome, input.contributionReduction);
+        return this.calculateINPSArtigiani(taxableIncome, input.contributionReduction, inpsRules);
       
       case 'IVS_COMMERCIANTI':
-        return this.calculateINPSCommercianti(taxableIncome, input.contributionReduction);
+        return this.calculateINPSCommercianti(taxableIncome, input.contributionReduction, inpsRules);
       
       default:
         return { amount: 0, details: {} };
@@ -165,9 +158,10 @@ export class TaxCalculator {
 
   private static calculateINPSGestioneSeparata(
     taxableIncome: number,
-    hasOtherCoverage: boolean
+    hasOtherCoverage: boolean,
+    inpsRules: ForfettarioRules['inps']
   ): { amount: number; details: any } {
-    const config = TAX_CONSTANTS.inps.gestioneSeparata;
+    const config = inpsRules.gestioneSeparata;
     const rate = hasOtherCoverage ? config.rateWithCoverage : config.rateWithoutCoverage;
     
     // Applica minimale e massimale
@@ -187,9 +181,10 @@ export class TaxCalculator {
 
   private static calculateINPSArtigiani(
     taxableIncome: number,
-    reduction: ContributionReduction
+    reduction: ContributionReduction,
+    inpsRules: ForfettarioRules['inps']
   ): { amount: number; details: any } {
-    const config = TAX_CONSTANTS.inps.ivs.artigiani;
+    const config = inpsRules.ivs.artigiani;
     const reductionFactor = this.getReductionFactor(reduction);
     
     let amount = config.minimum * reductionFactor;
@@ -213,10 +208,11 @@ export class TaxCalculator {
 
   private static calculateINPSCommercianti(
     taxableIncome: number,
-    reduction: ContributionReduction
+    reduction: ContributionReduction,
+    inpsRules: ForfettarioRules['inps']
   ): { amount: number; details: any } {
-    const config = TAX_CONSTANTS.inps.ivs.commercianti;
-    const artigianiResult = this.calculateINPSArtigiani(taxableIncome, reduction);
+    const config = inpsRules.ivs.commercianti;
+    const artigianiResult = this.calculateINPSArtigiani(taxableIncome, reduction, inpsRules);
     
     // Commercianti = Artigiani + contributo aggiuntivo 0.48%
     const additionalAmount = taxableIncome * config.additionalRate;
@@ -230,7 +226,7 @@ export class TaxCalculator {
     };
   }
 
-  private static getReductionFactor(reduction: ContributionReduction): number {
+  static getReductionFactor(reduction: ContributionReduction): number {
     switch (reduction) {
       case 'REDUCTION_35':
         return 0.65;
@@ -241,32 +237,88 @@ export class TaxCalculator {
     }
   }
 
+  /**
+   * Calcola gli acconti dell'imposta sostitutiva con metodo storico o previsionale
+   */
+  static calculateAcconti(calculation: TaxCalculationResult, options: AccontiOptions = {}): AccontiCalculation {
+    const accontiRules = getTaxRules(calculation.rulesYear).forfettario.acconti;
+    const method = options.method || 'HISTORICAL';
+
+    const base = method === 'FORECAST'
+      ? this.calculateTaxAmount(options.expectedIncome ?? calculation.taxableIncome, calculation.taxRate)
+      : options.previousYearTax || 0;
+
+    const { firstInstallment, secondInstallment } = this.splitAcconti(base, accontiRules);
+    const total = firstInstallment + secondInstallment;
+
+    const previousYearDifference = (options.previousYearTax || 0) - (options.previousYearAccontiPaid || 0);
+
+    return {
+      method,
+      base: Math.round(base * 100) / 100,
+      firstInstallment,
+      secondInstallment,
+      total,
+      previousYearBalance: Math.max(0, Math.round(previousYearDifference * 100) / 100),
+      previousYearCredit: Math.max(0, Math.round(-previousYearDifference * 100) / 100),
+      currentYearBalance: Math.max(0, Math.round((calculation.taxAmount - total) * 100) / 100),
+    };
+  }
+
+  /**
+   * Ripartisce gli acconti secondo le soglie: nessun acconto, rata unica a novembre o due rate
+   */
+  private static splitAcconti(base: number, rules: ForfettarioAccontiRules) {
+    if (base <= rules.noPaymentThreshold) {
+      return { firstInstallment: 0, secondInstallment: 0 };
+    }
+
+    if (base < rules.singleInstallmentThreshold) {
+      return { firstInstallment: 0, secondInstallment: Math.round(base * 100) / 100 };
+    }
+
+    return {
+      firstInstallment: Math.round(base * rules.firstInstallmentRate * 100) / 100,
+      secondInstallment: Math.round(base * rules.secondInstallmentRate * 100) / 100,
+    };
+  }
+
   /**
    * Calcola le scadenze di pagamento
    */
-  static calculatePaymentDeadlines(calculation: TaxCalculationResult, year: number) {
-    const taxFirstInstallment = calculation.taxAmount * 0.4; // 40% a giugno
-    const taxSecondInstallment = calculation.taxAmount * 0.6; // 60% a novembre
-    
+  static calculatePaymentDeadlines(calculation: TaxCalculationResult, year: number, options: AccontiOptions = {}) {
+    const acconti = this.calculateAcconti(calculation, options);
+    const { deferralSurchargeRate } = getTaxRules(calculation.rulesYear).forfettario.acconti;
+
+    // Saldo dell'anno precedente e primo acconto si versano insieme, al netto dell'eventuale credito
+    const juneAmount = Math.max(0, acconti.previousYearBalance + acconti.firstInstallment - acconti.previousYearCredit);
+    const creditLeft = Math.max(0, acconti.previousYearCredit - acconti.previousYearBalance - acconti.firstInstallment);
+    const novemberAmount = Math.max(0, acconti.secondInstallment - creditLeft);
+
     // INPS trimestrale
     const inpsQuarterly = calculation.inpsAmount / 4;
+    const dueDate = (month: number, day: number) => toItalianDate(fiscalDueDate(year, month, day));
     
     return {
       tax: {
-        june: {
-          date: `30/06/${year}`,
-          amount: taxFirstInstallment * 1.004, // Con interesse 0.4%
-        },
+        june: options.deferJunePayment
+          ? { date: dueDate(7, 30), amount: Math.round(juneAmount * (1 + deferralSurchargeRate) * 100) / 100 }
+          : { date: dueDate(6, 30), amount: juneAmount },
         november: {
-          date: `30/11/${year}`,
-          amount: taxSecondInstallment,
+          date: dueDate(11, 30),
+          amount: novemberAmount,
+        },
+        balance: {
+          date: dueDate(18, 30),
+          amount: acconti.currentYearBalance,
         },
       },
+      acconti,
       inps: {
-        q1: { date: `16/05/${year}`, amount: inpsQuarterly },
-        q2: { date: `20/08/${year}`, amount: inpsQuarterly },
-        q3: { date: `16/11/${year}`, amount: inpsQuarterly },
-        q4: { date: `16/02/${year + 1}`, amount: inpsQuarterly },
+        q1: { date: dueDate(5, 16), amount: inpsQuarterly },
+        q2: { date: dueDate(8, 16), amount: inpsQuarterly },
+        q3: { date: dueDate(11, 16), amount: inpsQuarterly },
+        q4: { date: dueDate(14, 16), amount: inpsQuarterly },
       },
       monthlyProvision: (calculation.totalDue / 12),
     };
@@ -282,8 +334,9 @@ export class TaxCalculator {
       errors.push('Il fatturato deve essere maggiore di 0');
     }
     
-    if (input.revenue && input.revenue > 85000) {
-      errors.push('Il regime forfettario è disponibile solo per fatturati fino a €85.000');
+    const { revenueLimit } = getTaxRules(input.year).forfettario.limits;
+    if (input.revenue && input.revenue > revenueLimit) {
+      errors.push(`Il regime forfettario è disponibile solo per fatturati fino a €${revenueLimit.toLocaleString('it-IT')}`);
     }
     
     if (!input.macroCategory) {
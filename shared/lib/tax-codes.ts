@@ -0,0 +1,71 @@
+// shared/lib/tax-codes.ts
+// Codici tributo F24 per imposte erariali e contributi INPS
+
+export const TAX_CODES = {
+  '1792': 'Saldo imposta sostitutiva forfettari',
+  '1790': 'Acconto prima rata imposta sostitutiva',
+  '1791': 'Acconto seconda rata imposta sostitutiva',
+  '2001': 'IRES - acconto prima rata',
+  '2002': 'IRES - acconto seconda rata o unica soluzione',
+  '2003': 'IRES - saldo',
+  '3800': 'IRAP - saldo',
+  '3812': 'IRAP - acconto prima rata',
+  '3813': 'IRAP - acconto seconda rata o unica soluzione',
+  '4001': 'IRPEF - saldo',
+  '4033': 'IRPEF - acconto prima rata',
+  '4034': 'IRPEF - acconto seconda rata o unica soluzione',
+  '6001': 'Versamento IVA mensile gennaio',
+  '6002': 'Versamento IVA mensile febbraio',
+  '6003': 'Versamento IVA mensile marzo',
+  '6004': 'Versamento IVA mensile aprile',
+  '6005': 'Versamento IVA mensile maggio',
+  '6006': 'Versamento IVA mensile giugno',
+  '6007': 'Versamento IVA mensile luglio',
+  '6008': 'Versamento IVA mensile agosto',
+  '6009': 'Versamento IVA mensile settembre',
+  '6010': 'Versamento IVA mensile ottobre',
+  '6011': 'Versamento IVA mensile novembre',
+  '6012': 'Versamento IVA mensile dicembre',
+  '6013': 'Versamento IVA mensile - acconto',
+  '6031': 'Versamento IVA trimestrale - primo trimestre',
+  '6032': 'Versamento IVA trimestrale - secondo trimestre',
+  '6033': 'Versamento IVA trimestrale - terzo trimestre',
+  '6034': 'Versamento IVA trimestrale - quarto trimestre',
+  '6035': 'Versamento IVA trimestrale - acconto',
+  '6099': 'Versamento IVA sulla base della dichiarazione annuale',
+  '1668': 'Interessi pagamento dilazionato imposte erariali',
+  '3805': 'Interessi pagamento dilazionato tributi regionali',
+  '1992': 'Interessi sul ravvedimento imposte sostitutive',
+  '1989': 'Interessi sul ravvedimento IRPEF',
+  '1990': 'Interessi sul ravvedimento IRES',
+  '1993': 'Interessi sul ravvedimento IRAP',
+  '1991': 'Interessi sul ravvedimento IVA',
+  '8904': 'Sanzione tributo sostitutivo',
+  '8901': 'Sanzione pecuniaria IRPEF',
+  '8918': 'Sanzione pecuniaria IRES',
+  '8907': 'Sanzione pecuniaria IRAP',
+  '2521': 'Imposta di bollo fatture elettroniche - primo trimestre',
+  '2522': 'Imposta di bollo fatture elettroniche - secondo trimestre',
+  '2523': 'Imposta di bollo fatture elettroniche - terzo trimestre',
+  '2524': 'Imposta di bollo fatture elettroniche - quarto trimestre'
+} as const;
+
+export const INPS_CODES = {
+  GESTIONE_SEPARATA: {
+    'PXX': 'Aliquota piena (senza altra previdenza)',
+    'P10': 'Aliquota ridotta (pensionati/altra copertura)',
+    'PXXR': 'Rate aliquota piena',
+    'P10R': 'Rate aliquota ridotta',
+    'DPPI': 'Interessi sui contributi rateizzati'
+  },
+  IVS_ARTIGIANI: {
+    'AF': 'Contributi minimale artigiani',
+    'AP': 'Contributi eccedenti artigiani',
+    'APR': 'Rate contributi eccedenti artigiani'
+  },
+  IVS_COMMERCIANTI: {
+    'CF': 'Contributi minimale commercianti',
+    'CP': 'Contributi eccedenti commercianti',
+    'CPR': 'Rate contributi eccedenti commercianti'
+  }
+} as const;
@@ -0,0 +1,97 @@
+// shared/lib/tax-id.ts
+// Verifica offline di Partita IVA e codice fiscale tramite il carattere di controllo
+
+// Valori dei caratteri in posizione dispari (1ª, 3ª, ...) per il carattere di controllo del codice fiscale
+const ODD_VALUES: Record<string, number> = {
+  '0': 1, '1': 0, '2': 5, '3': 7, '4': 9, '5': 13, '6': 15, '7': 17, '8': 19, '9': 21,
+  A: 1, B: 0, C: 5, D: 7, E: 9, F: 13, G: 15, H: 17, I: 19, J: 21, K: 2, L: 4, M: 18,
+  N: 20, O: 11, P: 3, Q: 6, R: 8, S: 12, T: 14, U: 16, V: 10, W: 22, X: 25, Y: 24, Z: 23,
+};
+
+// Lettere che sostituiscono le cifre nei codici fiscali omocodici (0-9)
+const OMOCODIA_LETTERS = 'LMNPQRSTUV';
+
+// Posizioni numeriche del codice fiscale: anno, giorno e codice del comune
+const NUMERIC_POSITIONS = [6, 7, 9, 10, 12, 13, 14];
+
+const MONTH_LETTERS = 'ABCDEHLMPRST';
+
+const PERSONAL_CODE_PATTERN = new RegExp(
+  `^[A-Z]{6}[0-9${OMOCODIA_LETTERS}]{2}[${MONTH_LETTERS}][0-9${OMOCODIA_LETTERS}]{2}[A-Z][0-9${OMOCODIA_LETTERS}]{3}[A-Z]$`
+);
+
+export const normalizeTaxId = (value: string) => value.replace(/\s+/g, '').toUpperCase();
+
+/**
+ * Partita IVA italiana: 11 cifre con l'ultima di controllo (algoritmo di Luhn)
+ */
+export function isValidPartitaIva(value: string): boolean {
+  const vatNumber = normalizeTaxId(value).replace(/^IT/, '');
+  if (!/^\d{11}$/.test(vatNumber) || /^0+$/.test(vatNumber)) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const digit = Number(vatNumber[i]);
+    if (i % 2 === 0) {
+      sum += digit;
+    } else {
+      const doubled = digit * 2;
+      sum += doubled > 9 ? doubled - 9 : doubled;
+    }
+  }
+
+  return (10 - (sum % 10)) % 10 === Number(vatNumber[10]);
+}
+
+// Carattere di controllo dei primi 15 caratteri del codice fiscale
+function codiceFiscaleCheckChar(code: string): string {
+  let sum = 0;
+  for (let i = 0; i < 15; i++) {
+    const char = code[i];
+    if (i % 2 === 0) {
+      sum += ODD_VALUES[char];
+    } else {
+      sum += /\d/.test(char) ? Number(char) : char.charCodeAt(0) - 65;
+    }
+  }
+  return String.fromCharCode(65 + (sum % 26));
+}
+
+/**
+ * Riporta a cifre le posizioni numeriche di un codice fiscale omocodico
+ */
+export function decodeOmocodia(value: string): string {
+  const chars = normalizeTaxId(value).split('');
+  for (const position of NUMERIC_POSITIONS) {
+    const index = OMOCODIA_LETTERS.indexOf(chars[position]);
+    if (index >= 0) {
+      chars[position] = index.toString();
+    }
+  }
+  return chars.join('');
+}
+
+/**
+ * Codice fiscale delle persone fisiche (16 caratteri, anche omocodico) o dei
+ * soggetti diversi (11 cifre, con lo stesso controllo della Partita IVA)
+ */
+export function isValidCodiceFiscale(value: string): boolean {
+  const code = normalizeTaxId(value);
+  if (/^\d{11}$/.test(code)) {
+    return isValidPartitaIva(code);
+  }
+  if (!PERSONAL_CODE_PATTERN.test(code)) {
+    return false;
+  }
+
+  // Il giorno di nascita vale 1-31 per gli uomini e 41-71 per le donne
+  const day = Number(decodeOmocodia(code).slice(9, 11));
+  if ((day < 1 || day > 31) && (day < 41 || day > 71)) {
+    return false;
+  }
+
+  // Il carattere di controllo si calcola sul codice così com'è, comprese le lettere di omocodia
+  return codiceFiscaleCheckChar(code) === code[15];
+}
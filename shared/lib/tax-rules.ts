@@ -0,0 +1,511 @@
+// shared/lib/tax-rules.ts
+// Registro delle regole fiscali per anno d'imposta (coefficienti, aliquote, minimali e massimali)
+
+export interface IrpefBracket {
+  min: number;
+  max: number;
+  rate: number;
+}
+
+export interface ForfettarioLimits {
+  revenueLimit: number; // Limite ricavi/compensi per l'accesso e la permanenza
+  revenueExitImmediate: number; // Oltre questa soglia si esce in corso d'anno
+  employeeCostsLimit: number; // Spese per lavoro dipendente e collaboratori
+  employmentIncomeLimit: number; // Redditi di lavoro dipendente/assimilati anno precedente
+}
+
+export interface ForfettarioAccontiRules {
+  firstInstallmentRate: number; // Quota del primo acconto (30 giugno)
+  secondInstallmentRate: number; // Quota del secondo acconto (30 novembre)
+  noPaymentThreshold: number; // Fino a questo importo non è dovuto alcun acconto
+  singleInstallmentThreshold: number; // Sotto questo importo si versa un'unica rata a novembre
+  deferralSurchargeRate: number; // Maggiorazione per il versamento differito di 30 giorni
+}
+
+export interface ForfettarioRules {
+  limits: ForfettarioLimits;
+  acconti: ForfettarioAccontiRules;
+  coefficients: {
+    FOOD_COMMERCE: number;
+    STREET_COMMERCE: number;
+    INTERMEDIARIES: number;
+    OTHER_ACTIVITIES: number;
+    PROFESSIONAL: number;
+    CONSTRUCTION: number;
+  };
+  taxRates: {
+    startup: number;
+    standard: number;
+    startupYearsLimit: number;
+  };
+  inps: {
+    gestioneSeparata: {
+      rateWithCoverage: number;
+      rateWithoutCoverage: number;
+      minimumIncome: number;
+      maximumIncome: number;
+    };
+    ivs: {
+      artigiani: {
+        minimum: number;
+        excessRate: number;
+        excessThreshold: number;
+      };
+      commercianti: {
+        minimum: number;
+        excessRate: number;
+        excessThreshold: number;
+        additionalRate: number;
+      };
+    };
+  };
+}
+
+export interface IvsContributionRules {
+  minimumIncome: number;
+  fixedContribution: number;
+  percentageRate1: number;
+  percentageRate2: number;
+  threshold: number;
+  maxBase_ante1996: number;
+  maxBase_post1996: number;
+}
+
+export interface ContributionRules {
+  inps_gestione_separata: {
+    withoutOtherPension: number;
+    withOtherPension: number;
+    pensioner: number;
+    maxBase: number;
+  };
+  cassa_forense: {
+    subjectiveRate: number;
+    subjectiveRateHigh: number;
+    subjectiveThreshold: number;
+    integrativeRate: number;
+    minimumSubjective: number;
+    minimumIntegrative: number;
+  };
+  inarcassa: {
+    subjectiveRate: number;
+    maxSubjectiveBase: number;
+    integrativeRate: number;
+    minimumIntegrative: number;
+    maternity: number;
+  };
+  inps_artigiani: IvsContributionRules;
+  inps_commercianti: IvsContributionRules;
+}
+
+export interface SRLRules {
+  iresRate: number;
+  iresPremialeRate?: number; // Solo negli anni in cui è prevista l'IRES premiale
+  dividendTaxRate: number; // Ritenuta sui dividendi distribuiti a persone fisiche
+  defaultIrapRate: number; // Percentuale
+  irapRates: Record<string, number>; // Percentuali regionali
+  adminInps: {
+    rate: number;
+    minimumIncome: number;
+    maximumIncome: number;
+  };
+}
+
+export interface TaxRuleSet {
+  year: number;
+  forfettario: ForfettarioRules;
+  irpef: {
+    brackets: IrpefBracket[];
+  };
+  contributions: ContributionRules;
+  srl: SRLRules;
+}
+
+export interface ResolvedTaxRules {
+  requestedYear: number;
+  year: number; // Anno effettivamente utilizzato
+  isFallback: boolean;
+  rules: TaxRuleSet;
+}
+
+const FORFETTARIO_COEFFICIENTS: ForfettarioRules['coefficients'] = {
+  FOOD_COMMERCE: 0.40,
+  STREET_COMMERCE: 0.54,
+  INTERMEDIARIES: 0.62,
+  OTHER_ACTIVITIES: 0.67,
+  PROFESSIONAL: 0.78,
+  CONSTRUCTION: 0.86,
+};
+
+const FORFETTARIO_LIMITS: ForfettarioLimits = {
+  revenueLimit: 85000,
+  revenueExitImmediate: 100000,
+  employeeCostsLimit: 20000,
+  employmentIncomeLimit: 30000,
+};
+
+// Limite redditi da lavoro dipendente elevato a €35.000 dalla L. 207/2024
+const FORFETTARIO_LIMITS_2025: ForfettarioLimits = {
+  ...FORFETTARIO_LIMITS,
+  employmentIncomeLimit: 35000,
+};
+
+// Acconti al 50% + 50% per i forfettari (Risoluzione AdE 93/E/2019)
+const FORFETTARIO_ACCONTI: ForfettarioAccontiRules = {
+  firstInstallmentRate: 0.5,
+  secondInstallmentRate: 0.5,
+  noPaymentThreshold: 51.65,
+  singleInstallmentThreshold: 257.52,
+  deferralSurchargeRate: 0.004,
+};
+
+const FORFETTARIO_TAX_RATES: ForfettarioRules['taxRates'] = {
+  startup: 0.05,
+  standard: 0.15,
+  startupYearsLimit: 5,
+};
+
+const CASSA_FORENSE: ContributionRules['cassa_forense'] = {
+  subjectiveRate: 0.16, // 16% fino a €130.000
+  subjectiveRateHigh: 0.03, // 3% oltre €130.000
+  subjectiveThreshold: 130000,
+  integrativeRate: 0.04, // 4%
+  minimumSubjective: 2750,
+  minimumIntegrative: 350,
+};
+
+const INARCASSA: ContributionRules['inarcassa'] = {
+  subjectiveRate: 0.145, // 14,5% fino a €142.650
+  maxSubjectiveBase: 142650,
+  integrativeRate: 0.04, // 4% su volume d'affari
+  minimumIntegrative: 815,
+  maternity: 72,
+};
+
+// Aliquote IRAP regionali (da manuale tecnico)
+const IRAP_RATES: SRLRules['irapRates'] = {
+  'PIEMONTE': 3.9,
+  'VALLE_AOSTA': 3.9,
+  'LOMBARDIA': 3.9,
+  'TRENTINO': 2.68, // PA Trento
+  'VENETO': 4.08,
+  'FRIULI': 3.9,
+  'LIGURIA': 3.9,
+  'EMILIA_ROMAGNA': 4.65,
+  'TOSCANA': 3.9,
+  'UMBRIA': 3.9,
+  'MARCHE': 4.73,
+  'LAZIO': 4.82,
+  'ABRUZZO': 4.82,
+  'MOLISE': 4.82,
+  'CAMPANIA': 4.97,
+  'PUGLIA': 4.82,
+  'BASILICATA': 3.9,
+  'CALABRIA': 4.82,
+  'SICILIA': 3.9,
+  'SARDEGNA': 2.93
+};
+
+const IRPEF_BRACKETS_2023: IrpefBracket[] = [
+  { min: 0, max: 15000, rate: 0.23 },
+  { min: 15000, max: 28000, rate: 0.25 },
+  { min: 28000, max: 50000, rate: 0.35 },
+  { min: 50000, max: Infinity, rate: 0.43 }
+];
+
+// Riforma a tre scaglioni (D.Lgs. 216/2023, resa strutturale dalla L. 207/2024)
+const IRPEF_BRACKETS_2024: IrpefBracket[] = [
+  { min: 0, max: 28000, rate: 0.23 },
+  { min: 28000, max: 50000, rate: 0.35 },
+  { min: 50000, max: Infinity, rate: 0.43 }
+];
+
+// Secondo scaglione ridotto al 33% (Legge di Bilancio 2026)
+const IRPEF_BRACKETS_2026: IrpefBracket[] = [
+  { min: 0, max: 28000, rate: 0.23 },
+  { min: 28000, max: 50000, rate: 0.33 },
+  { min: 50000, max: Infinity, rate: 0.43 }
+];
+
+const SRL_BASE: SRLRules = {
+  iresRate: 0.24,
+  dividendTaxRate: 0.26,
+  defaultIrapRate: 3.9,
+  irapRates: IRAP_RATES,
+  adminInps: {
+    rate: 0.24,
+    minimumIncome: 18324,
+    maximumIncome: 105014,
+  },
+};
+
+// Gestioni IVS artigiani e commercianti: minimale, contributo fisso, aliquote e massimali per anno
+const INPS_ARTIGIANI_2023: IvsContributionRules = {
+  minimumIncome: 17504,
+  fixedContribution: 4208.40,
+  percentageRate1: 0.24,
+  percentageRate2: 0.25,
+  threshold: 52190,
+  maxBase_ante1996: 86983,
+  maxBase_post1996: 113520
+};
+const INPS_COMMERCIANTI_2023: IvsContributionRules = {
+  minimumIncome: 17504,
+  fixedContribution: 4296.08,
+  percentageRate1: 0.2448,
+  percentageRate2: 0.2548,
+  threshold: 52190,
+  maxBase_ante1996: 86983,
+  maxBase_post1996: 113520
+};
+
+const INPS_ARTIGIANI_2024: IvsContributionRules = {
+  minimumIncome: 18415,
+  fixedContribution: 4427.04,
+  percentageRate1: 0.24,
+  percentageRate2: 0.25,
+  threshold: 55008,
+  maxBase_ante1996: 91680,
+  maxBase_post1996: 119650
+};
+const INPS_COMMERCIANTI_2024: IvsContributionRules = {
+  minimumIncome: 18415,
+  fixedContribution: 4515.43,
+  percentageRate1: 0.2448,
+  percentageRate2: 0.2548,
+  threshold: 55008,
+  maxBase_ante1996: 91680,
+  maxBase_post1996: 119650
+};
+
+const INPS_ARTIGIANI_2025: IvsContributionRules = {
+  minimumIncome: 18555, // Reddito minimale 2025
+  fixedContribution: 4460.64, // Contributi fissi 2025
+  percentageRate1: 0.24, // 24% fino a €55.448
+  percentageRate2: 0.25, // 25% oltre €55.448
+  threshold: 55448,
+  maxBase_ante1996: 92413,
+  maxBase_post1996: 120607
+};
+const INPS_COMMERCIANTI_2025: IvsContributionRules = {
+  minimumIncome: 18555, // Reddito minimale 2025
+  fixedContribution: 4549.70, // Contributi fissi 2025
+  percentageRate1: 0.2448, // 24,48% fino a €55.448
+  percentageRate2: 0.2548, // 25,48% oltre €55.448
+  threshold: 55448,
+  maxBase_ante1996: 92413,
+  maxBase_post1996: 120607
+};
+
+const INPS_ARTIGIANI_2026: IvsContributionRules = {
+  minimumIncome: 18808,
+  fixedContribution: 4521.36,
+  percentageRate1: 0.24,
+  percentageRate2: 0.25,
+  threshold: 56224,
+  maxBase_ante1996: 93707,
+  maxBase_post1996: 122295
+};
+const INPS_COMMERCIANTI_2026: IvsContributionRules = {
+  minimumIncome: 18808,
+  fixedContribution: 4611.64,
+  percentageRate1: 0.2448,
+  percentageRate2: 0.2548,
+  threshold: 56224,
+  maxBase_ante1996: 93707,
+  maxBase_post1996: 122295
+};
+
+// Contributi IVS del forfettario derivati dalle stesse regole del regime ordinario
+const forfettarioIvs = (artigiani: IvsContributionRules, commercianti: IvsContributionRules): ForfettarioRules['inps']['ivs'] => ({
+  artigiani: {
+    minimum: artigiani.fixedContribution,
+    excessRate: artigiani.percentageRate1,
+    excessThreshold: artigiani.minimumIncome,
+  },
+  commercianti: {
+    minimum: commercianti.fixedContribution,
+    excessRate: artigiani.percentageRate1,
+    excessThreshold: commercianti.minimumIncome,
+    // Aliquota aggiuntiva dei commercianti (0,48%)
+    additionalRate: Math.round((commercianti.percentageRate1 - artigiani.percentageRate1) * 10000) / 10000,
+  },
+});
+
+// Registro delle regole per anno d'imposta.
+// Per pubblicare un nuovo anno basta aggiungere una voce: tutti i calcolatori la risolvono tramite resolveTaxRules.
+export const TAX_RULE_SETS: Record<number, TaxRuleSet> = {
+  2023: {
+    year: 2023,
+    forfettario: {
+      limits: FORFETTARIO_LIMITS,
+      coefficients: FORFETTARIO_COEFFICIENTS,
+      acconti: FORFETTARIO_ACCONTI,
+      taxRates: FORFETTARIO_TAX_RATES,
+      inps: {
+        gestioneSeparata: {
+          rateWithCoverage: 0.24,
+          rateWithoutCoverage: 0.2623,
+          minimumIncome: 17504,
+          maximumIncome: 113520,
+        },
+        ivs: forfettarioIvs(INPS_ARTIGIANI_2023, INPS_COMMERCIANTI_2023),
+      },
+    },
+    irpef: { brackets: IRPEF_BRACKETS_2023 },
+    contributions: {
+      inps_gestione_separata: {
+        withoutOtherPension: 0.2623, // Include 0,72% maternità + 0,51% ISCRO
+        withOtherPension: 0.24,
+        pensioner: 0.24,
+        maxBase: 113520
+      },
+      cassa_forense: CASSA_FORENSE,
+      inarcassa: INARCASSA,
+      inps_artigiani: INPS_ARTIGIANI_2023,
+      inps_commercianti: INPS_COMMERCIANTI_2023
+    },
+    srl: SRL_BASE,
+  },
+
+  2024: {
+    year: 2024,
+    forfettario: {
+      limits: FORFETTARIO_LIMITS,
+      coefficients: FORFETTARIO_COEFFICIENTS,
+      acconti: FORFETTARIO_ACCONTI,
+      taxRates: FORFETTARIO_TAX_RATES,
+      inps: {
+        gestioneSeparata: {
+          rateWithCoverage: 0.24,
+          rateWithoutCoverage: 0.2607,
+          minimumIncome: 18415,
+          maximumIncome: 119650,
+        },
+        ivs: forfettarioIvs(INPS_ARTIGIANI_2024, INPS_COMMERCIANTI_2024),
+      },
+    },
+    irpef: { brackets: IRPEF_BRACKETS_2024 },
+    contributions: {
+      inps_gestione_separata: {
+        withoutOtherPension: 0.2607, // Include 0,72% maternità + 0,35% ISCRO
+        withOtherPension: 0.24,
+        pensioner: 0.24,
+        maxBase: 119650
+      },
+      cassa_forense: CASSA_FORENSE,
+      inarcassa: INARCASSA,
+      inps_artigiani: INPS_ARTIGIANI_2024,
+      inps_commercianti: INPS_COMMERCIANTI_2024
+    },
+    srl: SRL_BASE,
+  },
+
+  2025: {
+    year: 2025,
+    forfettario: {
+      limits: FORFETTARIO_LIMITS_2025,
+      coefficients: FORFETTARIO_COEFFICIENTS,
+      acconti: FORFETTARIO_ACCONTI,
+      taxRates: FORFETTARIO_TAX_RATES,
+      inps: {
+        gestioneSeparata: {
+          rateWithCoverage: 0.24,
+          rateWithoutCoverage: 0.2607,
+          minimumIncome: 18555,
+          maximumIncome: 120607,
+        },
+        ivs: forfettarioIvs(INPS_ARTIGIANI_2025, INPS_COMMERCIANTI_2025),
+      },
+    },
+    irpef: { brackets: IRPEF_BRACKETS_2024 },
+    contributions: {
+      inps_gestione_separata: {
+        withoutOtherPension: 0.2607, // 26,07% (include 0,72% maternità + 0,35% ISCRO)
+        withOtherPension: 0.24, // 24%
+        pensioner: 0.24, // 24%
+        maxBase: 120607 // Massimale 2025
+      },
+      cassa_forense: CASSA_FORENSE,
+      inarcassa: INARCASSA,
+      inps_artigiani: INPS_ARTIGIANI_2025,
+      inps_commercianti: INPS_COMMERCIANTI_2025
+    },
+    srl: {
+      ...SRL_BASE,
+      iresPremialeRate: 0.20, // Art. 1, co. 436-444, L. 207/2024
+    },
+  },
+
+  // Valori 2026 provvisori: minimali e massimali INPS rivalutati in attesa delle circolari annuali
+  2026: {
+    year: 2026,
+    forfettario: {
+      limits: FORFETTARIO_LIMITS_2025,
+      coefficients: FORFETTARIO_COEFFICIENTS,
+      acconti: FORFETTARIO_ACCONTI,
+      taxRates: FORFETTARIO_TAX_RATES,
+      inps: {
+        gestioneSeparata: {
+          rateWithCoverage: 0.24,
+          rateWithoutCoverage: 0.2607,
+          minimumIncome: 18808,
+          maximumIncome: 122295,
+        },
+        ivs: forfettarioIvs(INPS_ARTIGIANI_2026, INPS_COMMERCIANTI_2026),
+      },
+    },
+    irpef: { brackets: IRPEF_BRACKETS_2026 },
+    contributions: {
+      inps_gestione_separata: {
+        withoutOtherPension: 0.2607,
+        withOtherPension: 0.24,
+        pensioner: 0.24,
+        maxBase: 122295
+      },
+      cassa_forense: CASSA_FORENSE,
+      inarcassa: INARCASSA,
+      inps_artigiani: INPS_ARTIGIANI_2026,
+      inps_commercianti: INPS_COMMERCIANTI_2026
+    },
+    srl: SRL_BASE,
+  },
+};
+
+export const DEFAULT_FISCAL_YEAR = 2025;
+
+/**
+ * Anni d'imposta disponibili nel registro, in ordine crescente
+ */
+export function getAvailableTaxYears(): number[] {
+  return Object.keys(TAX_RULE_SETS).map(Number).sort((a, b) => a - b);
+}
+
+/**
+ * Restituisce le regole dell'anno richiesto o, se mancanti, quelle dell'anno disponibile più vicino.
+ * A parità di distanza prevale l'anno precedente.
+ */
+export function resolveTaxRules(year?: number): ResolvedTaxRules {
+  const requestedYear = year || DEFAULT_FISCAL_YEAR;
+  const exact = TAX_RULE_SETS[requestedYear];
+  if (exact) {
+    return { requestedYear, year: requestedYear, isFallback: false, rules: exact };
+  }
+
+  const closestYear = getAvailableTaxYears().reduce((closest, candidate) =>
+    Math.abs(candidate - requestedYear) < Math.abs(closest - requestedYear) ? candidate : closest
+  );
+
+  return {
+    requestedYear,
+    year: closestYear,
+    isFallback: true,
+    rules: TAX_RULE_SETS[closestYear],
+  };
+}
+
+/**
+ * Scorciatoia per ottenere direttamente il set di regole
+ */
+export function getTaxRules(year?: number): TaxRuleSet {
+  return resolveTaxRules(year).rules;
+}
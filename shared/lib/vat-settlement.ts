@@ -0,0 +1,320 @@
+// shared/lib/vat-settlement.ts
+// Liquidazioni periodiche IVA dai documenti di vendita e acquisto: interessi dei trimestrali, riporto dei crediti,
+// acconto di dicembre (art. 6 L. 405/1990) e saldo della dichiarazione annuale
+
+import type { Expense, Invoice } from '../schema';
+import { fiscalDueDate } from './fiscal-calendar';
+import { chargedVat, getVatTreatment } from './vat-treatment';
+
+export type VatFrequency = 'MENSILE' | 'TRIMESTRALE';
+
+export type VatAccontoMethod = 'HISTORICAL' | 'FORECAST' | 'OPERATIONS';
+
+export const VAT_ACCONTO_METHODS = ['HISTORICAL', 'FORECAST', 'OPERATIONS'] as const;
+
+// Interessi dovuti dai trimestrali per opzione (art. 7 DPR 542/1999)
+export const QUARTERLY_INTEREST_RATE = 0.01;
+// Versamenti periodici non superiori alla soglia si sommano alla liquidazione successiva
+export const MINIMUM_PERIODIC_PAYMENT = 25.82;
+// Saldo annuale non dovuto fino a questo importo
+export const MINIMUM_ANNUAL_PAYMENT = 10.33;
+// Acconto non dovuto sotto questa soglia
+export const MINIMUM_ACCONTO = 103.29;
+// Metodo storico e previsionale: 88% della base
+export const ACCONTO_RATE = 0.88;
+
+export interface VatSettlementOptions {
+  year: number;
+  frequency: VatFrequency;
+  accontoMethod?: VatAccontoMethod; // Default storico
+  accontoForecast?: number; // IVA prevista per l'ultimo mese o trimestre, per il metodo previsionale
+  openingCredit?: number; // Credito della dichiarazione dell'anno precedente portato in detrazione
+}
+
+export interface VatPeriodSettlement {
+  period: number; // Mese (1-12) o trimestre (1-4)
+  label: string;
+  salesAmount: number; // Imponibile delle operazioni attive
+  purchasesAmount: number; // Imponibile delle operazioni passive
+  vatOnSales: number; // IVA a debito delle fatture emesse, al netto delle note di credito e senza quella in scissione dei pagamenti
+  vatOnPurchases: number; // IVA detraibile degli acquisti
+  previousCredit: number; // Credito riportato dal periodo precedente
+  previousDebit: number; // Versamento sotto soglia riportato dal periodo precedente
+  balance: number; // Saldo del periodo: positivo a debito, negativo a credito
+  interest: number;
+  amountDue: number; // Da versare alla scadenza, interessi compresi
+  creditCarried: number;
+  debitCarried: number;
+  dueDate: string | null; // YYYY-MM-DD; null se la liquidazione confluisce nel saldo annuale
+}
+
+export interface VatAcconto {
+  method: VatAccontoMethod;
+  amount: number;
+  dueDate: string;
+  // Importo con ciascun metodo, per scegliere il più conveniente; null se il metodo non è calcolabile
+  methods: Record<VatAccontoMethod, number | null>;
+}
+
+export interface VatAnnualBalance {
+  vatOnSales: number;
+  vatOnPurchases: number;
+  openingCredit: number;
+  periodicPayments: number; // Versamenti periodici, interessi esclusi
+  acconto: number;
+  interest: number; // Interessi dei trimestrali, compresi quelli del saldo
+  amountDue: number;
+  credit: number; // Credito da riportare all'anno successivo o da chiedere a rimborso
+  dueDate: string;
+}
+
+export interface VatDeadlineEntry {
+  date: string; // YYYY-MM-DD
+  amount: number;
+  type: string;
+  paymentType: string;
+}
+
+export interface VatSettlementResult {
+  year: number;
+  frequency: VatFrequency;
+  periods: VatPeriodSettlement[];
+  acconto: VatAcconto;
+  annual: VatAnnualBalance;
+  deadlines: VatDeadlineEntry[];
+}
+
+type SalesDocument = Pick<Invoice, 'year' | 'month' | 'amount' | 'vatAmount'> & Partial<Pick<Invoice, 'issueDate' | 'vatTreatment'>>;
+type PurchaseDocument = Pick<Expense, 'date' | 'amount' | 'vatAmount' | 'vatDeductibility'>;
+
+export interface VatDocuments {
+  invoices: SalesDocument[];
+  expenses: PurchaseDocument[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+const MONTH_NAMES = [
+  'Gennaio', 'Febbraio', 'Marzo', 'Aprile', 'Maggio', 'Giugno',
+  'Luglio', 'Agosto', 'Settembre', 'Ottobre', 'Novembre', 'Dicembre'
+];
+
+const periodCount = (frequency: VatFrequency) => frequency === 'MENSILE' ? 12 : 4;
+
+const periodOf = (month: number, frequency: VatFrequency) => frequency === 'MENSILE' ? month : Math.ceil(month / 3);
+
+const periodLabel = (period: number, frequency: VatFrequency, year: number) =>
+  frequency === 'MENSILE' ? `IVA ${MONTH_NAMES[period - 1]} ${year}` : `IVA Q${period} ${year}`;
+
+// Data del documento di vendita; senza data di emissione vale il mese di registrazione
+const salesDate = (invoice: SalesDocument) =>
+  invoice.issueDate || `${invoice.year}-${pad(invoice.month)}-01`;
+
+const deductibleVat = (expense: PurchaseDocument) => (expense.vatAmount || 0) * expense.vatDeductibility / 100;
+
+// IVA a debito e detraibile per ciascun periodo dell'anno
+function getPeriodTotals(documents: VatDocuments, year: number, frequency: VatFrequency) {
+  const totals = Array.from({ length: periodCount(frequency) }, () => ({
+    salesAmount: 0,
+    purchasesAmount: 0,
+    vatOnSales: 0,
+    vatOnPurchases: 0,
+  }));
+
+  for (const invoice of documents.invoices) {
+    if (invoice.year === year) {
+      const total = totals[periodOf(invoice.month, frequency) - 1];
+      total.salesAmount += invoice.amount;
+      total.vatOnSales += chargedVat(invoice);
+    }
+  }
+  for (const expense of documents.expenses) {
+    if (Number(expense.date.slice(0, 4)) === year) {
+      const total = totals[periodOf(Number(expense.date.slice(5, 7)), frequency) - 1];
+      total.purchasesAmount += expense.amount;
+      total.vatOnPurchases += deductibleVat(expense);
+    }
+  }
+  return totals.map(total => ({
+    salesAmount: round(total.salesAmount),
+    purchasesAmount: round(total.purchasesAmount),
+    vatOnSales: round(total.vatOnSales),
+    vatOnPurchases: round(total.vatOnPurchases),
+  }));
+}
+
+/**
+ * Liquidazioni dei periodi prima dell'ultimo, con crediti e versamenti sotto soglia riportati al periodo successivo.
+ * L'ultimo periodo riporta solo il saldo, da cui si scomputa l'acconto.
+ */
+function settlePeriods(documents: VatDocuments, year: number, frequency: VatFrequency, openingCredit: number): VatPeriodSettlement[] {
+  const totals = getPeriodTotals(documents, year, frequency);
+  const periods: VatPeriodSettlement[] = [];
+  let credit = openingCredit;
+  let debit = 0;
+
+  totals.forEach((total, index) => {
+    const period = index + 1;
+    const balance = round(total.vatOnSales - total.vatOnPurchases + debit - credit);
+    const settlement: VatPeriodSettlement = {
+      period,
+      label: periodLabel(period, frequency, year),
+      ...total,
+      previousCredit: round(credit),
+      previousDebit: round(debit),
+      balance,
+      interest: 0,
+      amountDue: 0,
+      creditCarried: 0,
+      debitCarried: 0,
+      dueDate: null,
+    };
+    credit = 0;
+    debit = 0;
+
+    if (period < totals.length) {
+      // Mensili il 16 del mese successivo, trimestrali il 16 del secondo mese dopo il trimestre
+      settlement.dueDate = frequency === 'MENSILE'
+        ? fiscalDueDate(year, period + 1, 16)
+        : fiscalDueDate(year, period * 3 + 2, 16);
+
+      if (balance < 0) {
+        credit = settlement.creditCarried = -balance;
+      } else if (balance <= MINIMUM_PERIODIC_PAYMENT) {
+        debit = settlement.debitCarried = balance;
+      } else {
+        settlement.interest = frequency === 'TRIMESTRALE' ? round(balance * QUARTERLY_INTEREST_RATE) : 0;
+        settlement.amountDue = round(balance + settlement.interest);
+      }
+    }
+    periods.push(settlement);
+  });
+
+  return periods;
+}
+
+/**
+ * Acconto di dicembre con i tre metodi:
+ * - storico: 88% del saldo dell'ultimo mese o trimestre dell'anno precedente, prima dell'acconto;
+ * - previsionale: 88% dell'IVA prevista per l'ultimo periodo;
+ * - operazioni effettuate: IVA delle operazioni fino al 20 dicembre, dal 1° dicembre o dal 1° ottobre per i trimestrali.
+ */
+function getVatAcconto(
+  documents: VatDocuments,
+  options: VatSettlementOptions,
+  lastPeriod: VatPeriodSettlement
+): VatAcconto {
+  const { year, frequency } = options;
+  const method = options.accontoMethod || 'HISTORICAL';
+
+  const previousPeriods = settlePeriods(documents, year - 1, frequency, 0);
+  const historical = round(Math.max(0, previousPeriods[previousPeriods.length - 1].balance) * ACCONTO_RATE);
+
+  const forecast = options.accontoForecast !== undefined
+    ? round(Math.max(0, options.accontoForecast) * ACCONTO_RATE)
+    : null;
+
+  const from = `${year}-${frequency === 'MENSILE' ? '12' : '10'}-01`;
+  const to = `${year}-12-20`;
+  const inRange = (date: string) => date >= from && date <= to;
+  const operationsVat = documents.invoices
+    .filter(invoice => invoice.year === year && inRange(salesDate(invoice)))
+    .reduce((sum, invoice) => sum + chargedVat(invoice), 0)
+    - documents.expenses
+      .filter(expense => inRange(expense.date))
+      .reduce((sum, expense) => sum + deductibleVat(expense), 0);
+  const operations = round(Math.max(0, operationsVat + lastPeriod.previousDebit - lastPeriod.previousCredit));
+
+  const methods = { HISTORICAL: historical, FORECAST: forecast, OPERATIONS: operations };
+  const amount = methods[method];
+  if (amount === null) {
+    throw new Error("Indica l'IVA prevista per l'ultimo periodo per calcolare l'acconto con il metodo previsionale");
+  }
+
+  return {
+    method,
+    amount: amount < MINIMUM_ACCONTO ? 0 : amount,
+    dueDate: fiscalDueDate(year, 12, 27),
+    methods,
+  };
+}
+
+/**
+ * Liquidazioni IVA dell'anno dai documenti registrati: versamenti periodici, acconto di dicembre e saldo annuale.
+ * I mensili versano dicembre il 16 gennaio al netto dell'acconto; i trimestrali liquidano il IV trimestre
+ * con la dichiarazione annuale, maggiorato dell'1%.
+ */
+export function getVatSettlement(documents: VatDocuments, options: VatSettlementOptions): VatSettlementResult {
+  const { year, frequency } = options;
+  const openingCredit = round(options.openingCredit || 0);
+  const periods = settlePeriods(documents, year, frequency, openingCredit);
+  const lastPeriod = periods[periods.length - 1];
+  const acconto = getVatAcconto(documents, options, lastPeriod);
+
+  // Saldo dell'ultimo periodo al netto dell'acconto versato
+  let residual = round(lastPeriod.balance - acconto.amount);
+  if (frequency === 'MENSILE' && residual > MINIMUM_PERIODIC_PAYMENT) {
+    lastPeriod.dueDate = fiscalDueDate(year + 1, 1, 16);
+    lastPeriod.amountDue = residual;
+    residual = 0;
+  } else if (frequency === 'MENSILE' && residual > 0) {
+    lastPeriod.debitCarried = residual;
+  } else if (residual < 0) {
+    lastPeriod.creditCarried = -residual;
+  }
+
+  const annualInterest = frequency === 'TRIMESTRALE' && residual > 0 ? round(residual * QUARTERLY_INTEREST_RATE) : 0;
+  if (frequency === 'TRIMESTRALE') {
+    lastPeriod.interest = annualInterest;
+  }
+  const annualDue = residual > 0 ? round(residual + annualInterest) : 0;
+
+  const vatOnSales = round(periods.reduce((sum, period) => sum + period.vatOnSales, 0));
+  const vatOnPurchases = round(periods.reduce((sum, period) => sum + period.vatOnPurchases, 0));
+  const annual: VatAnnualBalance = {
+    vatOnSales,
+    vatOnPurchases,
+    openingCredit,
+    periodicPayments: round(periods
+      .filter(period => period.amountDue > 0)
+      .reduce((sum, period) => sum + period.amountDue - period.interest, 0)),
+    acconto: acconto.amount,
+    interest: round(periods.reduce((sum, period) => sum + period.interest, 0)),
+    amountDue: annualDue > MINIMUM_ANNUAL_PAYMENT ? annualDue : 0,
+    credit: residual < 0 ? -residual : 0,
+    dueDate: fiscalDueDate(year + 1, 3, 16),
+  };
+
+  const deadlines: VatDeadlineEntry[] = [
+    ...periods
+      .filter(period => period.amountDue > 0)
+      .map(period => ({
+        date: period.dueDate!,
+        amount: period.amountDue,
+        type: period.label,
+        paymentType: frequency === 'MENSILE' ? `VAT_M${pad(period.period)}` : `VAT_Q${period.period}`,
+      })),
+    { date: acconto.dueDate, amount: acconto.amount, type: `Acconto IVA ${year}`, paymentType: 'VAT_ACCONTO' },
+    { date: annual.dueDate, amount: annual.amountDue, type: `Saldo IVA ${year}`, paymentType: 'VAT_ANNUAL' },
+  ];
+
+  return {
+    year,
+    frequency,
+    periods,
+    acconto,
+    annual,
+    deadlines: deadlines
+      .filter(deadline => deadline.amount > 0)
+      .sort((a, b) => a.date.localeCompare(b.date)),
+  };
+}
+
+// Con documenti IVA registrati nell'anno le liquidazioni sostituiscono la stima sul fatturato,
+// anche se le fatture sono tutte senza IVA a debito per il loro trattamento
+export const hasVatDocuments = (documents: VatDocuments, year: number) =>
+  documents.invoices.some(invoice => invoice.year === year
+    && ((invoice.vatAmount || 0) !== 0 || getVatTreatment(invoice) !== 'STANDARD'))
+  || documents.expenses.some(expense => Number(expense.date.slice(0, 4)) === year && (expense.vatAmount || 0) !== 0);
@@ -0,0 +1,138 @@
+// shared/lib/vat-treatment.ts
+// Trattamento IVA delle fatture emesse: ordinario, scissione dei pagamenti (art. 17-ter DPR 633/72),
+// inversione contabile (art. 17, commi 5-6) e operazioni esenti o non imponibili con la loro natura
+
+import type { Invoice, InvoiceLine } from '../schema';
+
+export type VatTreatment = 'STANDARD' | 'SPLIT_PAYMENT' | 'REVERSE_CHARGE' | 'EXEMPT';
+
+export const VAT_TREATMENTS = ['STANDARD', 'SPLIT_PAYMENT', 'REVERSE_CHARGE', 'EXEMPT'] as const;
+
+export const VAT_TREATMENT_LABELS: Record<VatTreatment, string> = {
+  STANDARD: 'IVA ordinaria',
+  SPLIT_PAYMENT: 'Scissione dei pagamenti (split payment)',
+  REVERSE_CHARGE: 'Inversione contabile (reverse charge)',
+  EXEMPT: 'Esente o non imponibile',
+};
+
+// Natura delle operazioni senza imposta nel riepilogo FatturaPA
+export const VAT_NATURE_CODES: Record<string, string> = {
+  'N1': 'Escluse ex art. 15',
+  'N2.1': 'Non soggette ad IVA ai sensi degli artt. da 7 a 7-septies del DPR 633/72',
+  'N2.2': 'Non soggette - altri casi',
+  'N3.1': 'Non imponibili - esportazioni',
+  'N3.2': 'Non imponibili - cessioni intracomunitarie',
+  'N4': 'Esenti',
+  'N5': 'Regime del margine',
+  'N6.1': 'Inversione contabile - cessione di rottami e altri materiali di recupero',
+  'N6.2': 'Inversione contabile - cessione di oro e argento',
+  'N6.3': 'Inversione contabile - subappalto nel settore edile',
+  'N6.4': 'Inversione contabile - cessione di fabbricati',
+  'N6.5': 'Inversione contabile - cessione di telefoni cellulari',
+  'N6.6': 'Inversione contabile - cessione di prodotti elettronici',
+  'N6.7': 'Inversione contabile - prestazioni comparto edile e settori connessi',
+  'N6.8': 'Inversione contabile - operazioni settore energetico',
+  'N6.9': 'Inversione contabile - altri casi',
+  'N7': 'IVA assolta in altro stato UE',
+};
+
+// Subappalto nel settore edile (art. 17, comma 6, lett. a)
+export const CONSTRUCTION_REVERSE_CHARGE_NATURE = 'N6.3';
+
+// EsigibilitaIVA del riepilogo FatturaPA per la scissione dei pagamenti
+export const SPLIT_PAYMENT_ESIGIBILITA = 'S';
+
+// Aliquota ordinaria usata per stimare l'IVA sul fatturato
+export const STANDARD_VAT_RATE = 0.22;
+
+// Il credito annuale si chiede a rimborso sopra questo importo (art. 30, comma 2, DPR 633/72)
+export const VAT_REFUND_THRESHOLD = 2582.28;
+// Aliquota media sugli acquisti superiore a quella sulle vendite maggiorata del 10% (art. 30, comma 3, lett. a)
+const REFUND_RATE_MARGIN = 1.1;
+
+// Ricavi dell'anno senza IVA a debito del cedente, per trattamento
+export interface VatTreatmentRevenue {
+  splitPaymentRevenue: number;
+  reverseChargeRevenue: number;
+  exemptRevenue: number;
+}
+
+export interface VatCreditForecast {
+  credit: number; // IVA detraibile oltre quella a debito
+  refundable: boolean;
+}
+
+type TreatedInvoice = Partial<Pick<Invoice, 'vatTreatment'>>;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Le fatture registrate prima dei trattamenti sono ordinarie
+export const getVatTreatment = (invoice: TreatedInvoice): VatTreatment =>
+  (VAT_TREATMENTS as readonly string[]).includes(invoice.vatTreatment || '')
+    ? invoice.vatTreatment as VatTreatment
+    : 'STANDARD';
+
+export const isReverseChargeNature = (vatNature?: string | null) => !!vatNature && vatNature.startsWith('N6');
+
+/**
+ * IVA addebitata al cliente e dovuta dal cedente. In scissione dei pagamenti l'imposta è esposta
+ * in fattura ma la versa l'ente committente; in inversione contabile e sulle operazioni esenti non c'è imposta.
+ */
+export const chargedVat = (invoice: Pick<Invoice, 'vatAmount'> & TreatedInvoice) =>
+  getVatTreatment(invoice) === 'STANDARD' ? invoice.vatAmount || 0 : 0;
+
+/**
+ * Righe del documento secondo il trattamento: in inversione contabile e sulle operazioni esenti
+ * le righe sono senza imposta e riportano la natura indicata per la fattura
+ */
+export function applyVatTreatment(lines: InvoiceLine[], treatment: VatTreatment, vatNature?: string | null): InvoiceLine[] {
+  if (treatment !== 'REVERSE_CHARGE' && treatment !== 'EXEMPT') {
+    return lines;
+  }
+  return lines.map(line => ({ ...line, vatRate: 0, vatNature: vatNature || line.vatNature }));
+}
+
+/**
+ * Imponibile dell'anno delle fatture in scissione dei pagamenti, inversione contabile o esenti,
+ * al netto delle note di credito
+ */
+export function getVatTreatmentRevenue(
+  invoices: Array<Pick<Invoice, 'year' | 'amount'> & TreatedInvoice>,
+  year: number
+): VatTreatmentRevenue {
+  const sum = (treatment: VatTreatment) => round(invoices
+    .filter(invoice => invoice.year === year && getVatTreatment(invoice) === treatment)
+    .reduce((total, invoice) => total + invoice.amount, 0));
+  return {
+    splitPaymentRevenue: sum('SPLIT_PAYMENT'),
+    reverseChargeRevenue: sum('REVERSE_CHARGE'),
+    exemptRevenue: sum('EXEMPT'),
+  };
+}
+
+/**
+ * IVA a debito stimata sul fatturato: l'aliquota ordinaria si applica solo ai ricavi con IVA dovuta dal cedente
+ */
+export function estimateVatOnSales(revenue: number, treatments: Partial<VatTreatmentRevenue> = {}): number {
+  const untaxed = (treatments.splitPaymentRevenue || 0) + (treatments.reverseChargeRevenue || 0) + (treatments.exemptRevenue || 0);
+  return Math.max(0, revenue - untaxed) * STANDARD_VAT_RATE;
+}
+
+/**
+ * Credito IVA annuale previsto e rimborsabilità per aliquota media. Con ricavi in scissione dei pagamenti
+ * o inversione contabile l'IVA a debito si riduce e l'IVA sugli acquisti genera un credito ricorrente.
+ */
+export function forecastVatCredit(params: {
+  revenue: number;
+  purchases: number; // Imponibile degli acquisti
+  vatOnSales: number;
+  vatOnPurchases: number;
+}): VatCreditForecast {
+  const credit = round(Math.max(0, params.vatOnPurchases - params.vatOnSales));
+  const salesRate = params.revenue > 0 ? params.vatOnSales / params.revenue : 0;
+  const purchasesRate = params.purchases > 0 ? params.vatOnPurchases / params.purchases : 0;
+  return {
+    credit,
+    refundable: credit > VAT_REFUND_THRESHOLD && purchasesRate > salesRate * REFUND_RATE_MARGIN,
+  };
+}
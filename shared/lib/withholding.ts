@@ -0,0 +1,138 @@
+// shared/lib/withholding.ts
+// Ritenuta d'acconto sui compensi di lavoro autonomo (art. 25 DPR 600/1973) e riconciliazione con le CU
+
+import type { Invoice, WithholdingCertificate } from '../schema';
+import { getCollectionShares } from './revenue';
+
+// Aliquota ordinaria sui compensi dei professionisti
+export const WITHHOLDING_RATE = 20;
+
+export type WithholdingReconciliationStatus = 'MATCHED' | 'MISSING_CERTIFICATE' | 'MISMATCH' | 'UNEXPECTED_CERTIFICATE';
+
+export interface CustomerWithholdings {
+  customerId: number | null;
+  grossAmount: number; // Compensi incassati nell'anno
+  withheldAmount: number;
+}
+
+export interface WithholdingReconciliationRow {
+  customerId: number | null;
+  expectedGross: number;
+  expectedWithheld: number;
+  certifiedGross: number;
+  certifiedWithheld: number;
+  difference: number; // Ritenute certificate meno ritenute attese
+  status: WithholdingReconciliationStatus;
+}
+
+export interface WithholdingReconciliation {
+  year: number;
+  rows: WithholdingReconciliationRow[];
+  expectedWithheld: number;
+  certifiedWithheld: number;
+  difference: number;
+}
+
+type WithholdingInvoice = Pick<Invoice, 'customerId' | 'amount' | 'vatAmount' | 'withholdingAmount' | 'payments'>;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Ritenuta sull'imponibile della fattura o sulla base indicata, con il segno del documento
+ */
+export function calculateWithholding(taxableAmount: number, rate: number, base?: number | null): number {
+  const amount = round(Math.abs(base ?? taxableAmount) * rate / 100);
+  return taxableAmount < 0 ? -amount : amount;
+}
+
+/**
+ * Ritenute attese per cliente sui compensi pagati nell'anno: il sostituto d'imposta
+ * opera la ritenuta al momento del pagamento, anche parziale
+ */
+export function getExpectedWithholdings(invoices: WithholdingInvoice[], year: number): CustomerWithholdings[] {
+  const byCustomer = new Map<number | null, CustomerWithholdings>();
+
+  for (const invoice of invoices) {
+    if (!invoice.withholdingAmount) {
+      continue;
+    }
+    const share = getCollectionShares(invoice)
+      .filter(entry => entry.year === year)
+      .reduce((sum, entry) => sum + entry.share, 0);
+    if (share === 0) {
+      continue;
+    }
+
+    const customerId = invoice.customerId ?? null;
+    const row = byCustomer.get(customerId) || { customerId, grossAmount: 0, withheldAmount: 0 };
+    row.grossAmount = round(row.grossAmount + invoice.amount * share);
+    row.withheldAmount = round(row.withheldAmount + invoice.withholdingAmount * share);
+    byCustomer.set(customerId, row);
+  }
+
+  return Array.from(byCustomer.values());
+}
+
+export const getWithheldTotal = (invoices: WithholdingInvoice[], year: number) =>
+  round(getExpectedWithholdings(invoices, year).reduce((sum, row) => sum + row.withheldAmount, 0));
+
+/**
+ * Confronta per cliente le ritenute attese dalle fatture incassate con quelle certificate nelle CU
+ */
+export function reconcileWithholdings(
+  invoices: WithholdingInvoice[],
+  certificates: Array<Pick<WithholdingCertificate, 'customerId' | 'year' | 'grossAmount' | 'withheldAmount'>>,
+  year: number
+): WithholdingReconciliation {
+  const rows = new Map<number | null, WithholdingReconciliationRow>();
+  const rowFor = (customerId: number | null) => {
+    const row = rows.get(customerId) || {
+      customerId,
+      expectedGross: 0,
+      expectedWithheld: 0,
+      certifiedGross: 0,
+      certifiedWithheld: 0,
+      difference: 0,
+      status: 'MATCHED' as WithholdingReconciliationStatus,
+    };
+    rows.set(customerId, row);
+    return row;
+  };
+
+  for (const expected of getExpectedWithholdings(invoices, year)) {
+    const row = rowFor(expected.customerId);
+    row.expectedGross = expected.grossAmount;
+    row.expectedWithheld = expected.withheldAmount;
+  }
+
+  for (const certificate of certificates.filter(item => item.year === year)) {
+    const row = rowFor(certificate.customerId);
+    row.certifiedGross = round(row.certifiedGross + certificate.grossAmount);
+    row.certifiedWithheld = round(row.certifiedWithheld + certificate.withheldAmount);
+  }
+
+  const result = Array.from(rows.values()).map(row => {
+    const difference = round(row.certifiedWithheld - row.expectedWithheld);
+    const hasCertificate = row.certifiedGross > 0 || row.certifiedWithheld > 0;
+    let status: WithholdingReconciliationStatus = 'MATCHED';
+    if (!hasCertificate) {
+      status = 'MISSING_CERTIFICATE';
+    } else if (row.expectedWithheld === 0) {
+      status = 'UNEXPECTED_CERTIFICATE';
+    } else if (Math.abs(difference) >= 0.01) {
+      status = 'MISMATCH';
+    }
+    return { ...row, difference, status };
+  });
+
+  const expectedWithheld = round(result.reduce((sum, row) => sum + row.expectedWithheld, 0));
+  const certifiedWithheld = round(result.reduce((sum, row) => sum + row.certifiedWithheld, 0));
+
+  return {
+    year,
+    rows: result.sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference)),
+    expectedWithheld,
+    certifiedWithheld,
+    difference: round(certifiedWithheld - expectedWithheld),
+  };
+}
@@ -1,6 +1,11 @@
-import { sqliteTable, text, integer, real } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, uniqueIndex } from "drizzle-orm/sqlite-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidCodiceFiscale, isValidPartitaIva, normalizeTaxId } from "./lib/tax-id";
+import type { SpreadsheetColumnMapping } from "./lib/invoice-spreadsheet";
+import { EXPENSE_CATEGORY_VALUES } from "./lib/expenses";
+import { VAT_ACCONTO_METHODS } from "./lib/vat-settlement";
+import { VAT_TREATMENTS } from "./lib/vat-treatment";
 
 export const users = sqliteTable("users", {
   id: integer("id").primaryKey({ autoIncrement: true }),
@@ -22,19 +27,219 @@ export const businesses = sqliteTable("businesses", {
   contributionReduction: text("contribution_reduction").default("NONE"), // 'NONE', '35', '50'
   hasOtherCoverage: integer("has_other_coverage", { mode: 'boolean' }).default(false),
   currentBalance: real("current_balance").default(0),
+  // Dati del cedente per la fattura elettronica
+  vatNumber: text("vat_number"),
+  fiscalCode: text("fiscal_code"),
+  address: text("address"),
+  postalCode: text("postal_code"),
+  city: text("city"),
+  province: text("province"),
+  iban: text("iban"),
+  fiscalRegime: text("fiscal_regime").default("RF19"), // Codice RegimeFiscale FatturaPA, RF19 = forfettario
+  invoiceImportMapping: text("invoice_import_mapping", { mode: 'json' }).$type<SpreadsheetColumnMapping>(), // Ultima mappatura colonne usata per l'import CSV/XLSX
+  invoiceNumberFormat: text("invoice_number_format"), // Formato dei numeri di fattura, es. '{n}/{series}'; null per il formato predefinito
+  lastSdiProgressive: integer("last_sdi_progressive").notNull().default(0), // Ultimo progressivo dei file FatturaPA esportati
+  createdAt: integer("created_at", { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Anagrafica clienti dell'attività
+export const customers = sqliteTable("customers", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  businessId: integer("business_id").notNull(),
+  name: text("name").notNull(), // Ragione sociale o nome e cognome
+  vatNumber: text("vat_number"),
+  fiscalCode: text("fiscal_code"),
+  sdiCode: text("sdi_code"), // Codice destinatario
+  pec: text("pec"),
+  address: text("address"),
+  postalCode: text("postal_code"),
+  city: text("city"),
+  province: text("province"),
+  countryCode: text("country_code").notNull().default("IT"),
+  withholdingAgent: integer("withholding_agent", { mode: 'boolean' }).default(false), // Sostituto d'imposta
+  createdAt: integer("created_at", { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Certificazioni Uniche ricevute dai clienti sostituti d'imposta
+export const withholdingCertificates = sqliteTable("withholding_certificates", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  businessId: integer("business_id").notNull(),
+  customerId: integer("customer_id").notNull(),
+  year: integer("year").notNull(), // Anno dei pagamenti certificati
+  grossAmount: real("gross_amount").notNull(), // Compensi lordi certificati
+  withheldAmount: real("withheld_amount").notNull(), // Ritenute operate
   createdAt: integer("created_at", { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
+// Cessionario/committente e righe della fattura elettronica
+export const invoiceCustomerSchema = z.object({
+  denomination: z.string().optional(), // Ragione sociale, in alternativa a nome e cognome
+  firstName: z.string().optional(),
+  lastName: z.string().optional(),
+  vatNumber: z.string().optional(),
+  fiscalCode: z.string().optional(),
+  countryCode: z.string().length(2).default('IT'),
+  address: z.string().min(1),
+  postalCode: z.string().min(1),
+  city: z.string().min(1),
+  province: z.string().length(2).optional(),
+  sdiCode: z.string().regex(/^[A-Z0-9]{6,7}$/).optional(), // Codice destinatario
+  pec: z.string().email().optional(),
+});
+
+export const invoiceLineSchema = z.object({
+  description: z.string().min(1),
+  quantity: z.number().positive().default(1),
+  unitPrice: z.number(),
+  vatRate: z.number().min(0).max(100).default(0),
+  vatNature: z.string().optional(), // Natura dell'operazione se l'IVA è zero, es. 'N2.2'
+});
+
+// Incasso, anche parziale, di una fattura
+export const invoicePaymentSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  amount: z.number().positive(),
+});
+
+export type InvoiceCustomer = z.infer<typeof invoiceCustomerSchema>;
+export type InvoiceLine = z.infer<typeof invoiceLineSchema>;
+export type InvoicePayment = z.infer<typeof invoicePaymentSchema>;
+
 export const invoices = sqliteTable("invoices", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   businessId: integer("business_id").notNull(),
+  customerId: integer("customer_id"),
   year: integer("year").notNull(),
   month: integer("month").notNull(),
-  amount: real("amount").notNull(),
+  amount: real("amount").notNull(), // Imponibile totale, negativo per le note di credito
+  vatAmount: real("vat_amount").default(0),
   description: text("description"),
+  // Documento completo per la fattura elettronica
+  number: text("number"),
+  series: text("series"), // Sezionale, es. 'A'; null per la numerazione principale
+  sequenceNumber: integer("sequence_number"), // Progressivo assegnato dalla numerazione dell'anno e del sezionale
+  issueDate: text("issue_date"), // YYYY-MM-DD
+  documentType: text("document_type").default("TD01"),
+  vatTreatment: text("vat_treatment").default("STANDARD"), // 'STANDARD', 'SPLIT_PAYMENT', 'REVERSE_CHARGE', 'EXEMPT'
+  vatNature: text("vat_nature"), // Natura IVA delle fatture in inversione contabile o esenti, es. 'N6.3'
+  originalInvoiceId: integer("original_invoice_id"), // Fattura rettificata dalla nota di credito (TD04)
+  customer: text("customer", { mode: 'json' }).$type<InvoiceCustomer>(),
+  lines: text("lines", { mode: 'json' }).$type<InvoiceLine[]>(),
+  stampDuty: integer("stamp_duty", { mode: 'boolean' }).default(false), // Bollo virtuale
+  inpsRivalsa: integer("inps_rivalsa", { mode: 'boolean' }).default(false), // Rivalsa INPS 4% (Gestione Separata)
+  rivalsaAmount: real("rivalsa_amount").default(0), // Inclusa nell'imponibile
+  // Ritenuta d'acconto trattenuta dal cliente sostituto d'imposta
+  withholdingRate: real("withholding_rate"),
+  withholdingBase: real("withholding_base"), // Se assente, l'imponibile della fattura
+  withholdingAmount: real("withholding_amount").default(0),
+  paymentMethod: text("payment_method").default("MP05"), // Codice ModalitaPagamento, MP05 = bonifico
+  paymentDueDate: text("payment_due_date"),
+  payments: text("payments", { mode: 'json' }).$type<InvoicePayment[]>(),
+  collectionStatus: text("collection_status").default("UNPAID"), // 'UNPAID', 'PARTIAL', 'PAID'
+  createdAt: integer("created_at", { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Stati precedenti delle fatture modificate, per ricostruire i dati usati nei calcoli già salvati
+export const invoiceVersions = sqliteTable("invoice_versions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  invoiceId: integer("invoice_id").notNull(),
+  version: integer("version").notNull(), // 1 = stato originale
+  snapshot: text("snapshot", { mode: 'json' }).notNull().$type<Invoice>(), // Fattura com'era prima della modifica
+  changedFields: text("changed_fields", { mode: 'json' }).notNull().$type<string[]>(),
+  createdAt: integer("created_at", { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()), // Momento della modifica
+}, (table) => ({
+  invoiceVersion: uniqueIndex("invoice_versions_invoice_version").on(table.invoiceId, table.version),
+}));
+
+// Ultimo progressivo assegnato per attività, anno e sezionale
+export const invoiceNumberSequences = sqliteTable("invoice_number_sequences", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  businessId: integer("business_id").notNull(),
+  year: integer("year").notNull(),
+  series: text("series").notNull().default(""), // '' per la numerazione principale
+  lastNumber: integer("last_number").notNull().default(0),
+}, (table) => ({
+  businessYearSeries: uniqueIndex("invoice_number_sequences_business_year_series").on(table.businessId, table.year, table.series),
+}));
+
+// Modelli di fattura emessi periodicamente
+export const recurringInvoices = sqliteTable("recurring_invoices", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  businessId: integer("business_id").notNull(),
+  customerId: integer("customer_id"),
+  description: text("description").notNull(),
+  amount: real("amount").notNull(), // Imponibile di ogni fattura
+  vatRate: real("vat_rate").notNull().default(0),
+  vatNature: text("vat_nature"), // Natura IVA se l'aliquota è zero, es. 'N2.2'
+  vatTreatment: text("vat_treatment").default("STANDARD"), // Trattamento IVA delle fatture emesse
+  frequency: text("frequency").notNull(), // 'MONTHLY', 'QUARTERLY', 'YEARLY'
+  startDate: text("start_date").notNull(), // Prima emissione, YYYY-MM-DD; il giorno si ripete nei periodi successivi
+  endDate: text("end_date"), // Ultima emissione possibile, null se senza scadenza
+  isActive: integer("is_active", { mode: 'boolean' }).default(true),
   createdAt: integer("created_at", { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
+// Registro delle emissioni: una riga per modello e data, che rende idempotente lo scheduler
+export const recurringInvoiceRuns = sqliteTable("recurring_invoice_runs", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  recurringInvoiceId: integer("recurring_invoice_id").notNull(),
+  scheduledDate: text("scheduled_date").notNull(), // YYYY-MM-DD
+  status: text("status").notNull(), // 'PENDING', 'CREATED', 'SKIPPED', 'FAILED'
+  invoiceId: integer("invoice_id"),
+  message: text("message"),
+  createdAt: integer("created_at", { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => ({
+  occurrence: uniqueIndex("recurring_invoice_runs_occurrence").on(table.recurringInvoiceId, table.scheduledDate),
+}));
+
+// Registro delle fatture di acquisto e delle spese deducibili
+export const expenses = sqliteTable("expenses", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  businessId: integer("business_id").notNull(),
+  supplierName: text("supplier_name").notNull(),
+  supplierVatNumber: text("supplier_vat_number"),
+  number: text("number"), // Numero della fattura del fornitore
+  date: text("date").notNull(), // YYYY-MM-DD, data del documento
+  description: text("description"),
+  category: text("category").notNull(), // 'GOODS', 'SERVICES', 'VEHICLES', 'PHONE', 'REPRESENTATION'
+  amount: real("amount").notNull(), // Imponibile
+  vatAmount: real("vat_amount").default(0),
+  incomeTaxDeductibility: real("income_tax_deductibility").notNull().default(100), // % deducibile IRPEF/IRES
+  irapDeductibility: real("irap_deductibility").notNull().default(100), // % deducibile IRAP
+  vatDeductibility: real("vat_deductibility").notNull().default(100), // % di IVA detraibile
+  createdAt: integer("created_at", { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Conti correnti dell'attività: il saldo iniziale più i movimenti importati dà il saldo effettivo
+export const bankAccounts = sqliteTable("bank_accounts", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  businessId: integer("business_id").notNull(),
+  name: text("name").notNull(),
+  iban: text("iban"),
+  openingBalance: real("opening_balance").notNull().default(0), // Saldo prima del primo movimento importato
+  openingDate: text("opening_date"), // YYYY-MM-DD, data del saldo iniziale
+  createdAt: integer("created_at", { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Movimenti degli estratti conto; la chiave di import evita di importare due volte lo stesso movimento
+export const bankTransactions = sqliteTable("bank_transactions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  bankAccountId: integer("bank_account_id").notNull(),
+  businessId: integer("business_id").notNull(),
+  bookingDate: text("booking_date").notNull(), // YYYY-MM-DD, data contabile
+  valueDate: text("value_date"), // YYYY-MM-DD, data valuta
+  amount: real("amount").notNull(), // Positivo per gli accrediti, negativo per gli addebiti
+  description: text("description"),
+  counterparty: text("counterparty"),
+  reference: text("reference"), // Riferimento della banca o end-to-end
+  importKey: text("import_key").notNull(),
+  invoiceId: integer("invoice_id"), // Fattura incassata con l'accredito
+  paymentDeadlineIds: text("payment_deadline_ids", { mode: 'json' }).$type<number[]>(), // Scadenze F24 pagate con l'addebito
+  createdAt: integer("created_at", { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+}, (table) => ({
+  accountImportKey: uniqueIndex("bank_transactions_account_import_key").on(table.bankAccountId, table.importKey),
+}));
+
 export const taxCalculations = sqliteTable("tax_calculations", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   businessId: integer("business_id").notNull(),
@@ -45,6 +250,39 @@ export const taxCalculations = sqliteTable("tax_calculations", {
   taxAmount: real("tax_amount").notNull(),
   inpsAmount: real("inps_amount").notNull(),
   totalDue: real("total_due").notNull(),
+  accontiAmount: real("acconti_amount"), // Acconti dovuti per l'anno, letti come già versati nel calcolo dell'anno successivo
+  createdAt: integer("created_at", { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+export const srlTaxCalculations = sqliteTable("srl_tax_calculations", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  businessId: integer("business_id").notNull(),
+  year: integer("year").notNull(),
+  revenue: real("revenue").notNull(),
+  taxableIncome: real("taxable_income").notNull(),
+  iresAmount: real("ires_amount").notNull(),
+  irapAmount: real("irap_amount").notNull(),
+  vatAmount: real("vat_amount").notNull(),
+  inpsAmount: real("inps_amount").notNull(),
+  totalDue: real("total_due").notNull(),
+  input: text("input", { mode: 'json' }), // Input completo del calcolo
+  result: text("result", { mode: 'json' }), // Risultato completo (calendario, scadenziere, dettagli)
+  createdAt: integer("created_at", { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+export const individualTaxCalculations = sqliteTable("individual_tax_calculations", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  businessId: integer("business_id").notNull(),
+  year: integer("year").notNull(),
+  revenue: real("revenue").notNull(),
+  taxableIncome: real("taxable_income").notNull(),
+  irpefAmount: real("irpef_amount").notNull(),
+  surchargesAmount: real("surcharges_amount").notNull(), // Addizionali regionali e comunali
+  contributionsAmount: real("contributions_amount").notNull(),
+  vatAmount: real("vat_amount").notNull(),
+  totalDue: real("total_due").notNull(),
+  input: text("input", { mode: 'json' }),
+  result: text("result", { mode: 'json' }),
   createdAt: integer("created_at", { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
@@ -54,7 +292,15 @@ export const paymentDeadlines = sqliteTable("payment_deadlines", {
   dueDate: text("due_date").notNull(),
   paymentType: text("payment_type").notNull(), // 'TAX_BALANCE', 'TAX_ADVANCE_1', 'TAX_ADVANCE_2', 'INPS_Q1', etc.
   amount: real("amount").notNull(),
+  interestAmount: real("interest_amount").default(0), // Interessi inclusi nell'importo (rate)
+  taxCode: text("tax_code"), // Codice tributo F24, es. '1668' per gli interessi da rateizzazione
+  installmentNumber: integer("installment_number"),
+  installmentCount: integer("installment_count"),
+  fiscalYear: integer("fiscal_year"), // Anno del calcolo che ha generato la scadenza
+  source: text("source"), // 'FORFETTARIO', 'SRL', 'INDIVIDUAL'; null se inserita manualmente
   isPaid: integer("is_paid", { mode: 'boolean' }).default(false),
+  lateSanctionAmount: real("late_sanction_amount").default(0), // Ravvedimento operoso se pagata dopo la scadenza
+  lateInterestAmount: real("late_interest_amount").default(0),
   paidDate: text("paid_date"),
   createdAt: integer("created_at", { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
@@ -83,21 +329,181 @@ export const insertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
 });
 
+// Mappatura delle colonne per l'import di fatture da CSV/XLSX
+export const spreadsheetColumnMappingSchema = z.object({
+  date: z.string().optional(),
+  number: z.string().optional(),
+  customer: z.string().optional(),
+  taxableAmount: z.string().optional(),
+  vatAmount: z.string().optional(),
+  total: z.string().optional(),
+});
+
 export const insertBusinessSchema = createInsertSchema(businesses).omit({
+  id: true,
+  lastSdiProgressive: true,
+  createdAt: true,
+}).extend({
+  invoiceImportMapping: spreadsheetColumnMappingSchema.nullish(),
+  invoiceNumberFormat: z.string().trim().regex(/\{n(:\d)?\}/, 'Il formato deve contenere {n}').nullish(),
+});
+
+// P.IVA e codice fiscale verificati col carattere di controllo solo per i clienti italiani
+export const insertCustomerSchema = createInsertSchema(customers).omit({
   id: true,
   createdAt: true,
+}).extend({
+  name: z.string().trim().min(1),
+  vatNumber: z.string().transform(value => normalizeTaxId(value).replace(/^IT/, '')).nullish(),
+  fiscalCode: z.string().transform(normalizeTaxId).nullish(),
+  sdiCode: z.string().regex(/^[A-Z0-9]{6,7}$/).nullish(),
+  pec: z.string().email().nullish(),
+  province: z.string().length(2).nullish(),
+  countryCode: z.string().length(2).default('IT'),
+}).superRefine((customer, ctx) => {
+  if (customer.countryCode !== 'IT') {
+    return;
+  }
+  if (!customer.vatNumber && !customer.fiscalCode) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fiscalCode'], message: 'Partita IVA o codice fiscale obbligatorio' });
+  }
+  if (customer.vatNumber && !isValidPartitaIva(customer.vatNumber)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['vatNumber'], message: 'Partita IVA non valida' });
+  }
+  if (customer.fiscalCode && !isValidCodiceFiscale(customer.fiscalCode)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['fiscalCode'], message: 'Codice fiscale non valido' });
+  }
 });
 
 export const insertInvoiceSchema = createInsertSchema(invoices).omit({
   id: true,
   createdAt: true,
+}).extend({
+  customer: invoiceCustomerSchema.nullish(),
+  lines: z.array(invoiceLineSchema).nullish(),
+  issueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullish(),
+  paymentDueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullish(),
+  payments: z.array(invoicePaymentSchema).nullish(),
+  withholdingRate: z.number().positive().max(100).nullish(),
+  withholdingBase: z.number().min(0).nullish(),
+  series: z.string().trim().regex(/^[A-Za-z0-9]{1,10}$/, 'Sezionale non valido').nullish(),
+  vatTreatment: z.enum(VAT_TREATMENTS).nullish(),
+});
+
+// Modifiche a una fattura: attività, documento stornato, tipo e incassi non si cambiano da qui
+// e i valori ricalcolati (stato di incasso, ritenuta, rivalsa, progressivo) non si accettano dal client
+export const updateInvoiceSchema = insertInvoiceSchema.partial().omit({
+  businessId: true,
+  originalInvoiceId: true,
+  documentType: true,
+  payments: true,
+  collectionStatus: true,
+  withholdingAmount: true,
+  rivalsaAmount: true,
+  sequenceNumber: true,
+});
+
+export const insertWithholdingCertificateSchema = createInsertSchema(withholdingCertificates).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  grossAmount: z.number().min(0),
+  withheldAmount: z.number().min(0),
+});
+
+export const insertInvoiceVersionSchema = createInsertSchema(invoiceVersions).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  snapshot: z.custom<Invoice>(),
+  changedFields: z.array(z.string()),
+});
+
+// Request schema per la nota di credito: senza importo storna l'intera fattura
+export const createCreditNoteSchema = z.object({
+  issueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  series: z.string().optional(), // Sezionale, se assente quello della fattura
+  amount: z.number().positive().optional(), // Imponibile da stornare
+  description: z.string().optional(),
+});
+
+export const insertRecurringInvoiceSchema = createInsertSchema(recurringInvoices).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  description: z.string().trim().min(1),
+  amount: z.number().positive(),
+  vatRate: z.number().min(0).max(100).default(0),
+  frequency: z.enum(['MONTHLY', 'QUARTERLY', 'YEARLY']),
+  vatTreatment: z.enum(VAT_TREATMENTS).nullish(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullish(),
+});
+
+export const insertRecurringInvoiceRunSchema = createInsertSchema(recurringInvoiceRuns).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Request schema per saltare una emissione programmata
+export const skipRecurringInvoiceSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+});
+
+// Le percentuali non indicate prendono quelle della categoria
+export const insertExpenseSchema = createInsertSchema(expenses).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  supplierName: z.string().trim().min(1),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  category: z.enum(EXPENSE_CATEGORY_VALUES),
+  amount: z.number().positive(),
+  vatAmount: z.number().min(0).default(0),
+  incomeTaxDeductibility: z.number().min(0).max(100).optional(),
+  irapDeductibility: z.number().min(0).max(100).optional(),
+  vatDeductibility: z.number().min(0).max(100).optional(),
 });
 
+export const insertBankAccountSchema = createInsertSchema(bankAccounts).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  name: z.string().trim().min(1),
+  iban: z.string().transform(iban => iban.replace(/\s+/g, '').toUpperCase() || null)
+    .refine(iban => iban === null || /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban), 'IBAN non valido').nullish(),
+  openingBalance: z.number().default(0),
+  openingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).nullish(),
+});
+
+export const insertBankTransactionSchema = createInsertSchema(bankTransactions).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  paymentDeadlineIds: z.array(z.number().int()).nullish(),
+});
+
+// Request schema per abbinare un movimento a una fattura o a scadenze F24
+export const bankTransactionMatchSchema = z.object({
+  invoiceId: z.number().int().positive().optional(),
+  paymentDeadlineIds: z.array(z.number().int().positive()).min(1).optional(),
+}).refine(match => !!match.invoiceId !== !!match.paymentDeadlineIds, 'Indica una fattura oppure le scadenze da abbinare');
+
 export const insertTaxCalculationSchema = createInsertSchema(taxCalculations).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertSRLTaxCalculationSchema = createInsertSchema(srlTaxCalculations).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertIndividualTaxCalculationSchema = createInsertSchema(individualTaxCalculations).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertPaymentDeadlineSchema = createInsertSchema(paymentDeadlines).omit({
   id: true,
   createdAt: true,
@@ -108,6 +514,148 @@ export const insertLeadSchema = createInsertSchema(leads).omit({
   createdAt: true,
 });
 
+// Request schemas per i calcolatori SRL e regime ordinario
+export const srlCalculationRequestSchema = z.object({
+  businessId: z.number().int().positive(),
+  revenue: z.number().min(0),
+  // Costi e IVA sugli acquisti indicati, sostituiti dal registro se ci sono spese dell'anno
+  costs: z.number().min(0).default(0),
+  irapCosts: z.number().min(0).optional(),
+  vatOnPurchases: z.number().min(0).optional(),
+  employees: z.number().int().min(0).default(0),
+  employeeCosts: z.number().min(0).default(0),
+  adminSalary: z.number().min(0).default(0),
+  region: z.string().default('LOMBARDIA'),
+  businessSector: z.string().default(''),
+  vatRegime: z.enum(['MENSILE', 'TRIMESTRALE']).default('TRIMESTRALE'),
+  hasVatDebt: z.boolean().default(false),
+  vatDebt: z.number().min(0).default(0),
+  currentBalance: z.number().optional(), // Se assente, il saldo dell'attività
+  startDate: z.string().optional(),
+  startYear: z.number().int().optional(),
+  vatOnSales: z.number().min(0).optional(),
+  // Ricavi senza IVA a debito; se assenti, quelli delle fatture dell'anno
+  splitPaymentRevenue: z.number().min(0).optional(),
+  reverseChargeRevenue: z.number().min(0).optional(),
+  exemptRevenue: z.number().min(0).optional(),
+  // Acconto IVA di dicembre, quando le liquidazioni si calcolano sui documenti registrati
+  vatAccontoMethod: z.enum(VAT_ACCONTO_METHODS).default('HISTORICAL'),
+  vatAccontoForecast: z.number().min(0).optional(), // IVA prevista per l'ultimo periodo, metodo previsionale
+  fiscalYear: z.number().int().optional(),
+  revenue2024: z.number().min(0).optional(),
+  costs2024: z.number().min(0).optional(),
+  utile2024: z.number().optional(),
+  utile2023: z.number().optional(),
+  investimentiPrevisti: z.number().min(0).optional(),
+  mediaULA2022_2024: z.number().min(0).optional(),
+  dipendentiTempo2024: z.number().min(0).optional(),
+  nuoveAssunzioni2025: z.number().min(0).optional(),
+  hasUsedCIG: z.boolean().optional(),
+  interessiAttivi: z.number().min(0).optional(),
+  interessiPassivi: z.number().min(0).optional(),
+  rolFiscale: z.number().optional(),
+  perditePregresseOrdinarie: z.number().min(0).optional(),
+  perditePrimi3Esercizi: z.number().min(0).optional(),
+  costoNuoveAssunzioni: z.number().min(0).optional(),
+  incrementoCostoPersonale: z.number().min(0).optional(),
+  installments: z.number().int().min(1).max(7).optional(), // Rateizzazione del versamento di giugno
+});
+
+export const individualCalculationRequestSchema = z.object({
+  businessId: z.number().int().positive(),
+  startDate: z.string().optional(),
+  startYear: z.number().int().optional(),
+  atecoCode: z.string().default(''),
+  businessType: z.enum(['professional', 'business', 'artisan', 'commercial']),
+  revenue: z.number().min(0),
+  // Spese documentate e IVA sugli acquisti indicate, sostituite dal registro se ci sono spese dell'anno
+  documentedExpenses: z.number().min(0).default(0),
+  vatOnPurchases: z.number().min(0).optional(),
+  revenue2025: z.number().min(0).optional(),
+  documentedExpenses2025: z.number().min(0).optional(),
+  otherIncome: z.number().min(0).optional(),
+  employmentIncome: z.number().min(0).optional(),
+  taxWithholdings: z.number().min(0).optional(),
+  irpefFirstAcconto: z.number().min(0).optional(),
+  irpefSecondAcconto: z.number().min(0).optional(),
+  contributionType: z.enum(['inps_gestione_separata', 'cassa_forense', 'inarcassa', 'inps_artigiani', 'inps_commercianti']),
+  hasOtherPension: z.boolean().optional(),
+  isPensioner: z.boolean().optional(),
+  rivalsa4Percent: z.boolean().optional(),
+  previousYearTaxableIncome: z.number().min(0).optional(),
+  previousYearIrpef: z.number().min(0).optional(),
+  vatRegime: z.string().default('TRIMESTRALE'),
+  vatOnSales: z.number().min(0).optional(),
+  splitPaymentRevenue: z.number().min(0).optional(),
+  reverseChargeRevenue: z.number().min(0).optional(),
+  exemptRevenue: z.number().min(0).optional(),
+  vatAccontoMethod: z.enum(VAT_ACCONTO_METHODS).default('HISTORICAL'),
+  vatAccontoForecast: z.number().min(0).optional(),
+  hasVatDebt: z.boolean().optional(),
+  vatDebt: z.number().min(0).optional(),
+  currentBalance: z.number().optional(), // Se assente, il saldo dell'attività
+  fiscalYear: z.number().int().optional(),
+  installments: z.number().int().min(1).max(7).optional(), // Rateizzazione del versamento di giugno
+});
+
+// Request schema per il confronto tra regimi
+export const regimeComparisonRequestSchema = z.object({
+  revenue: z.number().min(0),
+  costs: z.number().min(0).default(0),
+  atecoCode: z.string().optional(),
+  macroCategory: z.enum([
+    'FOOD_COMMERCE', 'STREET_COMMERCE', 'INTERMEDIARIES', 'OTHER_ACTIVITIES',
+    'PROFESSIONAL', 'CONSTRUCTION',
+  ]).optional(),
+  contributionRegime: z.enum(['GESTIONE_SEPARATA', 'IVS_ARTIGIANI', 'IVS_COMMERCIANTI']),
+  contributionReduction: z.enum(['NONE', 'REDUCTION_35', 'REDUCTION_50']).default('NONE'),
+  hasOtherCoverage: z.boolean().default(false),
+  employees: z.number().int().min(0).default(0),
+  employeeCosts: z.number().min(0).default(0),
+  isStartup: z.boolean().default(false),
+  startDate: z.string().optional(),
+  region: z.string().optional(),
+  year: z.number().int().optional(),
+});
+
+// Request schema per la verifica dei requisiti del forfettario
+export const forfettarioEligibilityRequestSchema = z.object({
+  year: z.number().int(),
+  currentYearRevenue: z.number().min(0),
+  previousYearRevenue: z.number().min(0).optional(),
+  currentYearEmployeeCosts: z.number().min(0).optional(),
+  previousYearEmployeeCosts: z.number().min(0).optional(),
+  currentYearEmploymentIncome: z.number().min(0).optional(),
+  previousYearEmploymentIncome: z.number().min(0).optional(),
+  employmentTerminated: z.boolean().optional(),
+  controlsRelatedCompany: z.boolean().optional(),
+  worksMainlyForFormerEmployer: z.boolean().optional(),
+});
+
+// Request schema per la generazione del modello F24
+export const f24RequestSchema = z.object({
+  dueDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  type: z.enum(['SEMPLIFICATO', 'ORDINARIO']).optional(),
+  format: z.enum(['json', 'pdf']).default('json'),
+  fiscalCode: z.string().optional(),
+  inpsOfficeCode: z.string().optional(),
+  inpsNumber: z.string().optional(),
+  credits: z.array(z.object({
+    section: z.enum(['ERARIO', 'INPS']),
+    code: z.string(),
+    referenceYear: z.number().int(),
+    amount: z.number().positive(),
+  })).default([]),
+});
+
+// Request schema per segnare una scadenza come pagata: data esistente e non futura, oggi se assente
+export const payDeadlineSchema = z.object({
+  paidDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/)
+    .refine(date => !isNaN(Date.parse(date)) && new Date(date).toISOString().startsWith(date), 'Data di pagamento non valida')
+    .refine(date => date <= new Date().toISOString().split('T')[0], 'La data di pagamento non può essere futura')
+    .optional(),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -115,12 +663,44 @@ export type InsertUser = z.infer<typeof insertUserSchema>;
 export type Business = typeof businesses.$inferSelect;
 export type InsertBusiness = z.infer<typeof insertBusinessSchema>;
 
+export type Customer = typeof customers.$inferSelect;
+export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+
+export type WithholdingCertificate = typeof withholdingCertificates.$inferSelect;
+export type InsertWithholdingCertificate = z.infer<typeof insertWithholdingCertificateSchema>;
+
 export type Invoice = typeof invoices.$inferSelect;
 export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 
+export type InvoiceVersion = typeof invoiceVersions.$inferSelect;
+export type InsertInvoiceVersion = z.infer<typeof insertInvoiceVersionSchema>;
+
+export type InvoiceNumberSequence = typeof invoiceNumberSequences.$inferSelect;
+
+export type RecurringInvoice = typeof recurringInvoices.$inferSelect;
+export type InsertRecurringInvoice = z.infer<typeof insertRecurringInvoiceSchema>;
+
+export type RecurringInvoiceRun = typeof recurringInvoiceRuns.$inferSelect;
+export type InsertRecurringInvoiceRun = z.infer<typeof insertRecurringInvoiceRunSchema>;
+
+export type Expense = typeof expenses.$inferSelect;
+export type InsertExpense = z.infer<typeof insertExpenseSchema>;
+
+export type BankAccount = typeof bankAccounts.$inferSelect;
+export type InsertBankAccount = z.infer<typeof insertBankAccountSchema>;
+
+export type BankTransaction = typeof bankTransactions.$inferSelect;
+export type InsertBankTransaction = z.infer<typeof insertBankTransactionSchema>;
+
 export type TaxCalculation = typeof taxCalculations.$inferSelect;
 export type InsertTaxCalculation = z.infer<typeof insertTaxCalculationSchema>;
 
+export type SRLTaxCalculation = typeof srlTaxCalculations.$inferSelect;
+export type InsertSRLTaxCalculation = z.infer<typeof insertSRLTaxCalculationSchema>;
+
+export type IndividualTaxCalculation = typeof individualTaxCalculations.$inferSelect;
+export type InsertIndividualTaxCalculation = z.infer<typeof insertIndividualTaxCalculationSchema>;
+
 export type PaymentDeadline = typeof paymentDeadlines.$inferSelect;
 export type InsertPaymentDeadline = z.infer<typeof insertPaymentDeadlineSchema>;
 